@@ -1,8 +1,11 @@
 import React, { useState, useCallback } from 'react';
 import { generateBlueprintGuide, BlueprintResponse, BlueprintGraph } from './services/geminiService';
-import { CodeEditor } from './components/CodeEditor';
+import { convertCppWithFallback } from './services/cppToBlueprint';
+import { autoLayoutGraph } from './services/graphLayout';
+import { CodeEditor, ConverterMode } from './components/CodeEditor';
 import { OutputDisplay } from './components/OutputDisplay';
 import { BlueprintCreator } from './components/BlueprintCreator';
+import { ProviderSettings } from './components/ProviderSettings';
 import { UnrealIcon, CpuChipIcon, CodeIcon } from './components/icons';
 
 type Mode = 'cpp-to-bp' | 'bp-to-cpp';
@@ -11,9 +14,13 @@ const App: React.FC = () => {
   const [cppCode, setCppCode] = useState<string>('');
   const [blueprintGuide, setBlueprintGuide] = useState<string>('');
   const [blueprintGraphs, setBlueprintGraphs] = useState<BlueprintGraph[]>([]);
+  const [correction, setCorrection] = useState<Pick<BlueprintResponse, 'correctionRounds' | 'unresolvedProblems'>>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [mode, setMode] = useState<Mode>('cpp-to-bp');
+  const [converterMode, setConverterMode] = useState<ConverterMode>('local');
+  const [delegateUnsupported, setDelegateUnsupported] = useState<boolean>(false);
+  const [autoArrange, setAutoArrange] = useState<boolean>(true);
 
   const handleGenerate = useCallback(async () => {
     if (!cppCode.trim()) {
@@ -24,18 +31,24 @@ const App: React.FC = () => {
     setError(null);
     setBlueprintGuide('');
     setBlueprintGraphs([]);
+    setCorrection({});
 
     try {
-      const response: BlueprintResponse = await generateBlueprintGuide(cppCode);
+      const response: BlueprintResponse = converterMode === 'local'
+        ? await convertCppWithFallback(cppCode, delegateUnsupported)
+        : await generateBlueprintGuide(cppCode);
       setBlueprintGuide(response.guide);
-      setBlueprintGraphs(response.blueprintGraphs);
+      setBlueprintGraphs(autoArrange
+        ? response.blueprintGraphs.map(graph => ({ ...graph, graphData: autoLayoutGraph(graph.graphData) }))
+        : response.blueprintGraphs);
+      setCorrection({ correctionRounds: response.correctionRounds, unresolvedProblems: response.unresolvedProblems });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
       setError(`Falha ao gerar o guia: ${errorMessage}`);
     } finally {
       setIsLoading(false);
     }
-  }, [cppCode]);
+  }, [cppCode, converterMode, delegateUnsupported, autoArrange]);
 
   const ModeButton: React.FC<{
     active: boolean;
@@ -79,6 +92,7 @@ const App: React.FC = () => {
               <CpuChipIcon className="w-5 h-5" />
               Blueprints para C++
             </ModeButton>
+            <ProviderSettings />
           </div>
         </div>
 
@@ -89,10 +103,18 @@ const App: React.FC = () => {
               setCode={setCppCode}
               onGenerate={handleGenerate}
               isLoading={isLoading}
+              converterMode={converterMode}
+              setConverterMode={setConverterMode}
+              delegateUnsupported={delegateUnsupported}
+              setDelegateUnsupported={setDelegateUnsupported}
+              autoArrange={autoArrange}
+              setAutoArrange={setAutoArrange}
             />
             <OutputDisplay
               guide={blueprintGuide}
               blueprintGraphs={blueprintGraphs}
+              correctionRounds={correction.correctionRounds}
+              unresolvedProblems={correction.unresolvedProblems}
               isLoading={isLoading}
               error={error}
             />
@@ -102,7 +124,7 @@ const App: React.FC = () => {
         )}
         
         <footer className="text-center mt-12 text-slate-500 text-sm">
-          <p>Powered by Google Gemini. Ferramenta para fins educacionais.</p>
+          <p>Powered by Google Gemini e modelos compatíveis com OpenAI. Ferramenta para fins educacionais.</p>
         </footer>
       </div>
     </div>
@@ -1,8 +1,31 @@
-import React, { useState, useCallback, useRef, useMemo } from 'react';
-import { generateCppCode, GraphData, GraphNode, CppCodeResponse, GraphVariable, GraphPin, CustomEvent, CustomFunction, FunctionParameter } from '../services/geminiService';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import { generateCppCode, ClassSettings, GraphData, GraphNode, CppCodeResponse, GraphVariable, CustomEvent, EventDispatcher, EventReplication, CustomFunction, FunctionGraph, FunctionParameter, PinContainerType, UserEnum, UserStruct, VariableReplication, VariableVisibility } from '../services/geminiService';
+import { generateCppLocally, repNotifyFunctionName } from '../services/cppGenerator';
+import { nodeLibrary, generateId, createNodeFromTemplate, NodeTemplate } from '../services/nodeLibrary';
 import { BlueprintVisualizer } from './BlueprintVisualizer';
+import { CopyForUnrealButton } from './CopyForUnrealButton';
+import { ImportFromUnrealDialog } from './ImportFromUnrealDialog';
+import { CorrectionSummary } from './CorrectionSummary';
+import type { T3DImportResult } from '../services/unrealClipboard';
+import { downloadProjectFile, loadAutosave, parseProjectFile, saveAutosave, ProjectState } from '../services/projectFile';
+import { autoLayoutGraph } from '../services/graphLayout';
+import { canRedo, canUndo, createHistory, currentDocument, jumpTo, recordChange, redo, undo, EditorDocument, EditorHistory, GraphChange } from '../services/editorHistory';
+import { compileProject, CompilerMessage } from '../services/graphCompiler';
+import { findNodeVariable, findVariableReferences, isSameVariable, linkVariableReferences, updateVariableNodes } from '../services/variableReferences';
+import { createFunctionCallPins, createFunctionGraph, functionScopeGraph, syncFunctionCallNode, syncFunctionGraph, updateAllGraphs, withFunctionGraph } from '../services/functionGraph';
+import { containerTypes, formatPinType, parameterPinType, resolveWildcardPins, variablePinType } from '../services/pinTypes';
+import { CompilerResultsPanel } from './CompilerResultsPanel';
+import { createInterpreter, fireEvent, run, step, InterpreterState } from '../services/blueprintInterpreter';
+import { DebuggerPanel } from './DebuggerPanel';
 import { CppCodeDisplay } from './CppCodeDisplay';
-import { MagicWandIcon, PlusIcon, TrashIcon, VariableIcon, BoltIcon, FunctionIcon, EditIcon, BlocksIcon } from './icons';
+import { PinTypeOptions, PinTypePicker, PinTypeValue } from './PinTypePicker';
+import { ClassSettingsPanel } from './ClassSettingsPanel';
+import { cppClassNameOf, DEFAULT_CLASS_SETTINGS } from '../services/classSettings';
+import { attachComponent, componentSubtree, componentTree, componentTypes, createComponent, findComponentType, isComponent, removeVariable } from '../services/actorComponents';
+import { EVENT_REPLICATION_LABELS, eventReplicationModes, RpcSettings } from '../services/eventReplication';
+import { createDispatcherAssignment, createDispatcherNode, customEventPins, DispatcherNodeKind, findDispatcherNode, syncDispatcherNode } from '../services/eventDispatchers';
+import { createUserTypeNode, fieldTypesFor, findUserEnum, findUserStruct, findUserTypeNode, findUserTypeUsages, isTypeNameTaken, renameUserType, syncUserTypeNodes, UserTypeNode, userTypeOf, UserTypes } from '../services/userTypes';
+import { MagicWandIcon, PlusIcon, TrashIcon, VariableIcon, BoltIcon, FunctionIcon, EditIcon, BlocksIcon, HistoryIcon, UndoIcon, RedoIcon, BugIcon, SearchIcon, ComponentIcon, BracesIcon } from './icons';
 
 const initialGraphData: GraphData = {
     nodes: [
@@ -101,69 +124,16 @@ const initialGraphData: GraphData = {
         { fromPinId: 'pin-15', toPinId: 'pin-10' }, // 9 -> For Loop (Last Index)
     ],
     variables: [
-        { name: "PlayerHealth", type: "Integer" },
-        { name: "IsAlive", type: "Boolean" }
+        { id: 'var-1', name: "PlayerHealth", type: "Integer" },
+        { id: 'var-2', name: "IsAlive", type: "Boolean" }
     ],
 };
 
-const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-const variableTypes = ['Boolean', 'Integer', 'Float', 'String', 'Vector', 'Rotator', 'Transform', 'Name'];
-
-const nodeLibrary = [
-  {
-    category: 'Flow Control',
-    nodes: [
-      { name: 'Branch', type: 'flow_control' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'Condition', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'True', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'False', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] },
-      { name: 'Sequence', type: 'flow_control' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'Then 0', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'Then 1', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] },
-      { name: 'For Loop', type: 'flow_control' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'First Index', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Last Index', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Loop Body', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'Index', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' }, { name: 'Completed', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] },
-      { name: 'Delay', type: 'function' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'Duration', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Completed', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] }
-    ]
-  },
-  {
-    category: 'Boolean Logic',
-    nodes: [
-      { name: 'AND Boolean', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-      { name: 'OR Boolean', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-      { name: 'NOT Boolean', type: 'function' as const, pins: [ { name: 'Input', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-    ]
-  },
-  {
-    category: 'Math (Integer)',
-    nodes: [
-      { name: 'Integer + Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
-      { name: 'Integer - Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
-      { name: 'Integer * Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
-      { name: 'Integer / Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
-      { name: 'Integer < Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-      { name: 'Integer > Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-      { name: 'Integer == Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-    ]
-  },
-  {
-    category: 'Math (Float)',
-    nodes: [
-      { name: 'Float + Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
-      { name: 'Float - Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
-      { name: 'Float * Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
-      { name: 'Float / Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
-      { name: 'Float < Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-      { name: 'Float > Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-      { name: 'Float == Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
-    ]
-  },
-  {
-    category: 'Utilities',
-    nodes: [
-      { name: 'Print String', type: 'function' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: '', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'In String', type: 'data' as const, direction: 'in' as const, dataType: 'String' } ] }
-    ]
-  }
-];
-
 const NodePicker: React.FC<{
     x: number;
     y: number;
     nodeLibrary: typeof nodeLibrary;
-    onPick: (nodeTemplate: typeof nodeLibrary[number]['nodes'][number]) => void;
+    onPick: (nodeTemplate: NodeTemplate) => void;
     onClose: () => void;
 }> = ({ x, y, nodeLibrary, onPick, onClose }) => {
     const [searchTerm, setSearchTerm] = useState('');
@@ -235,28 +205,106 @@ const NodePicker: React.FC<{
     );
 };
 
+const EVENT_GRAPH_ID = 'event-graph';
+
+const REPLICATION_LABELS: { [key in VariableReplication]: string } = { none: 'Sem replicação', replicated: 'Replicada', repNotify: 'RepNotify' };
+const VISIBILITY_LABELS: { [key in VariableVisibility]: string } = { public: 'Pública', protected: 'Protegida', private: 'Privada' };
+
+// Puts `updated` in place of the member or local variable with its id and brings its Get/Set nodes in line.
+// Wires the new type can't keep are removed and described in `warnings`.
+const applyVariableUpdate = (document: EditorDocument, updated: GraphVariable): { document: EditorDocument; warnings: string[] } => {
+    const warnings: string[] = [];
+    const retarget = <T extends FunctionGraph>(graph: T): T => {
+        const result = updateVariableNodes(graph, updated);
+        warnings.push(...result.warnings);
+        return result.graph;
+    };
+    const replace = (variables: GraphVariable[]) => variables.map(v => v.id === updated.id ? updated : v);
+
+    const owner = document.customFunctions.find(f => f.localVariables?.some(v => v.id === updated.id));
+    if (owner) {
+        const customFunctions = document.customFunctions.map(f => f.id === owner.id ? { ...f, localVariables: replace(f.localVariables ?? []), graph: f.graph && retarget(f.graph) } : f);
+        return { document: { ...document, customFunctions }, warnings };
+    }
+    if (!document.graphData.variables.some(v => v.id === updated.id)) return { document, warnings };
+    const result = updateAllGraphs(document.graphData, document.customFunctions, retarget);
+    let customFunctions = result.customFunctions;
+    // Like Unreal, switching to RepNotify creates the OnRep function to implement.
+    const onRepName = repNotifyFunctionName(updated);
+    if (updated.replication === 'repNotify' && !customFunctions.some(f => f.name === onRepName)) {
+        const onRep: CustomFunction = { id: generateId('funcDef'), name: onRepName, parameters: [], outputs: [], localVariables: [] };
+        customFunctions = [...customFunctions, { ...onRep, graph: createFunctionGraph(onRep) }];
+    }
+    return { document: { ...document, graphData: { ...result.graphData, variables: replace(result.graphData.variables) }, customFunctions }, warnings };
+};
+
 export const BlueprintCreator: React.FC = () => {
-    const [graphData, setGraphData] = useState<GraphData>(initialGraphData);
+    const [history, setHistory] = useState<EditorHistory>(() => createHistory({ graphData: initialGraphData, customEvents: [], customFunctions: [], eventDispatchers: [], userStructs: [], userEnums: [] }));
+    const { graphData, customEvents, customFunctions, eventDispatchers, userStructs, userEnums } = currentDocument(history);
+    const userTypes: UserTypes = useMemo(() => ({ userStructs, userEnums }), [userStructs, userEnums]);
     const [cppCode, setCppCode] = useState<CppCodeResponse | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'variables' | 'events' | 'functions' | 'nodes'>('variables');
+    const [activeTab, setActiveTab] = useState<'variables' | 'components' | 'events' | 'functions' | 'types' | 'nodes' | 'history' | 'debug'>('variables');
+    const [generatorMode, setGeneratorMode] = useState<'local' | 'ai'>('local');
+    // Not part of the undo history: it describes the generated class, not the graph.
+    const [classSettings, setClassSettings] = useState<ClassSettings>(DEFAULT_CLASS_SETTINGS);
+    const [isClassSettingsOpen, setIsClassSettingsOpen] = useState(false);
+    const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+    const [editorWarnings, setEditorWarnings] = useState<string[]>([]);
+    const [projectError, setProjectError] = useState<string | null>(null);
+    const [isAutosaveReady, setIsAutosaveReady] = useState(false);
+    const [lastAutosave, setLastAutosave] = useState<Date | null>(null);
+    // The compiled document is kept so the panel can tell when its results are stale.
+    const [compileResult, setCompileResult] = useState<{ messages: CompilerMessage[]; document: EditorDocument } | null>(null);
+    const [convertDespiteErrors, setConvertDespiteErrors] = useState(false);
+    // The interpreter mutates its state in place, so it lives in a ref and a revision counter re-renders.
+    const debugSessionRef = useRef<InterpreterState | null>(null);
+    const [, setDebugRevision] = useState(0);
+    const [breakpoints, setBreakpoints] = useState<Set<string>>(new Set());
+    const [debugEventId, setDebugEventId] = useState('');
+    // Either EVENT_GRAPH_ID or the id of the custom function whose graph is open.
+    const [activeGraphId, setActiveGraphId] = useState(EVENT_GRAPH_ID);
+    const projectFileInputRef = useRef<HTMLInputElement>(null);
     
     // State for variables
     const [newVariableName, setNewVariableName] = useState<string>('');
-    const [newVariableType, setNewVariableType] = useState<string>('Boolean');
+    const [newVariableType, setNewVariableType] = useState<PinTypeValue>({ type: 'Boolean' });
+    const [newVariableContainer, setNewVariableContainer] = useState<Pick<GraphVariable, 'containerType' | 'valueType'>>({});
+    // Draft of the variable being edited, saved as a whole by handleUpdateVariable.
+    const [editingVariable, setEditingVariable] = useState<GraphVariable & { id: string } | null>(null);
+    const [referencesVariableId, setReferencesVariableId] = useState<string | null>(null);
+    const [focusRequest, setFocusRequest] = useState<{ nodeId: string } | null>(null);
+
+    // State for components
+    const [newComponentName, setNewComponentName] = useState('');
+    const [newComponentClass, setNewComponentClass] = useState('StaticMeshComponent');
+    const [newComponentParentId, setNewComponentParentId] = useState('');
     
     // State for events
-    const [customEvents, setCustomEvents] = useState<CustomEvent[]>([]);
     const [newEventName, setNewEventName] = useState('');
     const [newEventParams, setNewEventParams] = useState<FunctionParameter[]>([]);
     const [editingEvent, setEditingEvent] = useState<CustomEvent | null>(null);
+    const [newEventNetwork, setNewEventNetwork] = useState<RpcSettings>({});
+
+    // State for event dispatchers
+    const [newDispatcherName, setNewDispatcherName] = useState('');
+    const [newDispatcherParams, setNewDispatcherParams] = useState<FunctionParameter[]>([]);
+    const [editingDispatcher, setEditingDispatcher] = useState<EventDispatcher | null>(null);
+
+    // State for structs and enums
+    const [newStructName, setNewStructName] = useState('');
+    const [newStructFields, setNewStructFields] = useState<FunctionParameter[]>([]);
+    const [editingStruct, setEditingStruct] = useState<UserStruct | null>(null);
+    const [newEnumName, setNewEnumName] = useState('');
+    const [newEnumEntries, setNewEnumEntries] = useState<string[]>(['NewEnumerator0']);
+    const [editingEnum, setEditingEnum] = useState<UserEnum | null>(null);
 
     // State for functions
-    const [customFunctions, setCustomFunctions] = useState<CustomFunction[]>([]);
     const [newFunctionName, setNewFunctionName] = useState('');
     const [newFunctionParams, setNewFunctionParams] = useState<FunctionParameter[]>([]);
     const [newFunctionOutputs, setNewFunctionOutputs] = useState<FunctionParameter[]>([]);
+    const [newFunctionIsPure, setNewFunctionIsPure] = useState(false);
     const [editingFunction, setEditingFunction] = useState<CustomFunction | null>(null);
 
     const [nodePickerState, setNodePickerState] = useState<{
@@ -268,13 +316,39 @@ export const BlueprintCreator: React.FC = () => {
     }>({ visible: false, screenX: 0, screenY: 0, graphX: 0, graphY: 0 });
     const visualizerContainerRef = useRef<HTMLDivElement>(null);
 
+    // A deleted function (or one removed by undo) sends the editor back to the Event Graph.
+    const activeFunction = customFunctions.find(func => func.id === activeGraphId && func.graph);
+    const visibleGraph = useMemo(
+        () => activeFunction ? functionScopeGraph(activeFunction, graphData.variables) : graphData,
+        [activeFunction, graphData],
+    );
+
+    const handleCompile = useCallback(() => {
+        const messages = compileProject(graphData, customFunctions, eventDispatchers, userTypes);
+        setCompileResult({ messages, document: currentDocument(history) });
+        return messages;
+    }, [graphData, customFunctions, eventDispatchers, userTypes, history]);
+
+    const nodeMarkers = useMemo(() => {
+        const markers: { [nodeId: string]: 'error' | 'warning' } = {};
+        compileResult?.messages.forEach(message => message.nodeIds.forEach(nodeId => {
+            if (markers[nodeId] !== 'error') markers[nodeId] = message.severity;
+        }));
+        return markers;
+    }, [compileResult]);
+
     const handleConvertToCpp = useCallback(async () => {
+        const errorCount = handleCompile().filter(message => message.severity === 'error').length;
+        if (errorCount > 0 && !convertDespiteErrors) {
+            setError(`A compilação encontrou ${errorCount} ${errorCount === 1 ? 'erro' : 'erros'}. Corrija-os ou marque "Converter mesmo com erros".`);
+            return;
+        }
         setIsLoading(true);
         setError(null);
         setCppCode(null);
         try {
-            const fullGraphData = { ...graphData, customEvents, customFunctions };
-            const response = await generateCppCode(fullGraphData);
+            const fullGraphData = { ...graphData, customEvents, customFunctions, eventDispatchers, userStructs, userEnums };
+            const response = generatorMode === 'local' ? generateCppLocally(fullGraphData, classSettings) : await generateCppCode(fullGraphData, classSettings);
             setCppCode(response);
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
@@ -282,43 +356,314 @@ export const BlueprintCreator: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, [graphData, customEvents, customFunctions]);
+    }, [graphData, customEvents, customFunctions, eventDispatchers, userStructs, userEnums, classSettings, generatorMode, handleCompile, convertDespiteErrors]);
+
+    // --- History ---
+    // Every edit goes through here so it becomes one undoable step.
+    const updateDocument = useCallback((label: string, update: (document: EditorDocument) => EditorDocument, coalesceKey?: string) => {
+        setHistory(prev => recordChange(prev, update(currentDocument(prev)), label, coalesceKey));
+    }, []);
+
+    const updateGraph = useCallback((label: string, update: (graph: GraphData) => GraphData, coalesceKey?: string) => {
+        updateDocument(label, document => {
+            const graphData = update(document.graphData);
+            return graphData === document.graphData ? document : { ...document, graphData };
+        }, coalesceKey);
+    }, [updateDocument]);
+
+    // Edits the graph shown in the visualizer. Function graphs are edited together with the member and
+    // local variables in scope; variables the edit adds (e.g. by pasting) become member variables.
+    const updateActiveGraph = useCallback((label: string, update: (graph: GraphData) => GraphData, coalesceKey?: string) => {
+        updateDocument(label, document => {
+            const func = document.customFunctions.find(f => f.id === activeGraphId && f.graph);
+            if (!func) {
+                const graphData = update(document.graphData);
+                return graphData === document.graphData ? document : { ...document, graphData };
+            }
+            const scope = functionScopeGraph(func, document.graphData.variables);
+            const updated = update(scope);
+            if (updated === scope) return document;
+            const addedVariables = updated.variables.filter(variable => !scope.variables.some(v => v.name === variable.name));
+            return {
+                ...document,
+                graphData: addedVariables.length > 0 ? { ...document.graphData, variables: [...document.graphData.variables, ...addedVariables] } : document.graphData,
+                customFunctions: document.customFunctions.map(f => f.id === func.id ? { ...f, graph: { nodes: updated.nodes, connections: updated.connections } } : f),
+            };
+        }, coalesceKey);
+    }, [updateDocument, activeGraphId]);
+
+    const handleVisualizerChange = useCallback((newData: GraphData, change?: GraphChange) => {
+        updateActiveGraph(change?.label ?? 'Editar grafo', () => resolveWildcardPins(newData), change?.coalesceKey);
+    }, [updateActiveGraph]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+            if (!(event.ctrlKey || event.metaKey)) return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                setHistory(undo);
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                setHistory(redo);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // --- Debugger ---
+    const eventNodes = useMemo(() => graphData.nodes.filter(node => node.type === 'event'), [graphData.nodes]);
+    const selectedDebugEventId = eventNodes.some(node => node.id === debugEventId) ? debugEventId : eventNodes[0]?.id ?? '';
+    const refreshDebugger = () => setDebugRevision(revision => revision + 1);
+
+    // Stepping into a function call opens its graph so the paused node stays in view.
+    const revealPendingNode = (session: InterpreterState) => {
+        const nodeId = session.pending?.nodeId;
+        if (!nodeId) return;
+        const owner = customFunctions.find(func => func.graph?.nodes.some(node => node.id === nodeId));
+        setActiveGraphId(owner?.id ?? EVENT_GRAPH_ID);
+    };
+
+    const handleDebugStart = () => {
+        if (!selectedDebugEventId) return;
+        if (!debugSessionRef.current) debugSessionRef.current = createInterpreter({ ...graphData, customFunctions, eventDispatchers, userStructs, userEnums });
+        const session = debugSessionRef.current;
+        const wasIdle = !session.pending;
+        fireEvent(session, selectedDebugEventId);
+        if (wasIdle && session.pending && !breakpoints.has(session.pending.nodeId)) run(session, breakpoints);
+        revealPendingNode(session);
+        refreshDebugger();
+    };
+
+    const handleDebugStep = () => {
+        if (!debugSessionRef.current) return;
+        step(debugSessionRef.current);
+        revealPendingNode(debugSessionRef.current);
+        refreshDebugger();
+    };
+
+    const handleDebugContinue = () => {
+        if (!debugSessionRef.current) return;
+        run(debugSessionRef.current, breakpoints);
+        revealPendingNode(debugSessionRef.current);
+        refreshDebugger();
+    };
+
+    const handleDebugStop = () => {
+        debugSessionRef.current = null;
+        refreshDebugger();
+    };
+
+    const handleToggleBreakpoint = useCallback((nodeId: string) => {
+        setBreakpoints(prev => {
+            const next = new Set(prev);
+            if (next.has(nodeId)) next.delete(nodeId); else next.add(nodeId);
+            return next;
+        });
+    }, []);
+
+    // A session runs the graphs it started with; rewiring, changing variables or editing functions ends it.
+    useEffect(() => {
+        if (!debugSessionRef.current) return;
+        debugSessionRef.current = null;
+        refreshDebugger();
+    }, [graphData.connections, graphData.variables, customFunctions, eventDispatchers, userStructs, userEnums]);
+
+    // --- Project Handlers ---
+    // With a label the project replaces the document as an undoable step; without one the history restarts.
+    const applyProject = (project: ProjectState, label?: string) => {
+        const document: EditorDocument = {
+            graphData: project.graphData,
+            customEvents: project.customEvents,
+            customFunctions: project.customFunctions.map(withFunctionGraph),
+            eventDispatchers: project.eventDispatchers,
+            userStructs: project.userStructs,
+            userEnums: project.userEnums,
+        };
+        setHistory(prev => label ? recordChange(prev, document, label) : createHistory(document, 'Projeto restaurado'));
+        setClassSettings(project.classSettings);
+        setCppCode(project.cppCode);
+        setEditorWarnings([]);
+        setProjectError(null);
+        setError(null);
+    };
+
+    // Restore the autosaved project once; autosaving only starts afterwards so the
+    // hard-coded initial graph never overwrites it.
+    useEffect(() => {
+        loadAutosave()
+            .then(project => { if (project) applyProject(project); })
+            .catch(err => console.error("Could not restore the autosaved project:", err))
+            .finally(() => setIsAutosaveReady(true));
+    }, []);
+
+    useEffect(() => {
+        if (!isAutosaveReady) return;
+        const timer = setTimeout(() => {
+            saveAutosave({ graphData, customEvents, customFunctions, eventDispatchers, userStructs, userEnums, classSettings, cppCode })
+                .then(() => setLastAutosave(new Date()))
+                .catch(err => console.error("Could not autosave the project:", err));
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [graphData, customEvents, customFunctions, eventDispatchers, userStructs, userEnums, classSettings, cppCode, isAutosaveReady]);
+
+    const handleNewProject = () => {
+        if (!window.confirm('Descartar o projeto atual e começar um novo?')) return;
+        applyProject({ graphData: initialGraphData, customEvents: [], customFunctions: [], eventDispatchers: [], userStructs: [], userEnums: [], classSettings: DEFAULT_CLASS_SETTINGS, cppCode: null }, 'Novo projeto');
+    };
+
+    const handleSaveProject = () => {
+        downloadProjectFile({ graphData, customEvents, customFunctions, eventDispatchers, userStructs, userEnums, classSettings, cppCode });
+    };
+
+    const handleOpenProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            applyProject(parseProjectFile(await file.text()), `Abrir '${file.name}'`);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.';
+            setProjectError(`Falha ao abrir o projeto: ${errorMessage}`);
+        }
+    };
+
+    const handleImportFromUnreal = (result: T3DImportResult) => {
+        updateDocument('Importar do Unreal', document => {
+            // Imported variables keep the id of the member they replace, so function graphs still find them.
+            // Components belong to the actor rather than the graph and are kept as they are.
+            const components = document.graphData.variables.filter(isComponent);
+            const variables = [
+                ...components,
+                ...result.graphData.variables
+                    .filter(variable => !components.some(c => c.name === variable.name))
+                    .map(variable => ({ ...variable, id: document.graphData.variables.find(v => v.name === variable.name)?.id })),
+            ];
+            return {
+                userStructs: document.userStructs,
+                userEnums: document.userEnums,
+                customEvents: [...document.customEvents, ...result.customEvents.filter(event => !document.customEvents.some(e => e.name === event.name))],
+                eventDispatchers: [...document.eventDispatchers, ...result.eventDispatchers.filter(d => !document.eventDispatchers.some(existing => existing.name === d.name))],
+                ...linkVariableReferences(
+                    { ...result.graphData, variables },
+                    [...document.customFunctions, ...result.customFunctions.filter(func => !document.customFunctions.some(f => f.name === func.name)).map(withFunctionGraph)],
+                ),
+            };
+        });
+        setEditorWarnings(result.warnings);
+        setCppCode(null);
+    };
 
     // --- Variable Handlers ---
+    // Member names must not clash with the locals of any function, and locals not with members.
+    const isVariableNameTaken = (name: string, exceptId?: string) => [...graphData.variables, ...customFunctions.flatMap(f => f.localVariables ?? [])]
+        .some(v => v.id !== exceptId && v.name.toLowerCase() === name.toLowerCase());
+
     const handleAddVariable = () => {
         const trimmedName = newVariableName.trim();
-        if (!trimmedName || graphData.variables.some(v => v.name.toLowerCase() === trimmedName.toLowerCase())) return;
-        const newVariable: GraphVariable = { name: trimmedName, type: newVariableType };
-        setGraphData(prev => ({ ...prev, variables: [...prev.variables, newVariable] }));
+        if (!trimmedName || isVariableNameTaken(trimmedName)) return;
+        const newVariable: GraphVariable = { id: generateId('var'), name: trimmedName, ...newVariableType, ...newVariableContainer };
+        updateGraph(`Adicionar variável '${trimmedName}'`, prev => ({ ...prev, variables: [...prev.variables, newVariable] }));
         setNewVariableName('');
     };
 
-    const handleDeleteVariable = (variableName: string) => {
-        setGraphData(prev => {
-            const nodesToRemove = prev.nodes.filter(n => (n.type === 'variable_get' || n.type === 'variable_set') && (n.name === `Get ${variableName}` || n.name === `Set ${variableName}`));
-            const pinsToRemove = new Set(nodesToRemove.flatMap(n => n.pins.map(p => p.id)));
-            return {
-                ...prev,
-                variables: prev.variables.filter(v => v.name !== variableName),
-                nodes: prev.nodes.filter(n => !nodesToRemove.some(removed => removed.id === n.id)),
-                connections: prev.connections.filter(c => !pinsToRemove.has(c.fromPinId) && !pinsToRemove.has(c.toPinId)),
-            };
+    const handleAddLocalVariable = () => {
+        const trimmedName = newVariableName.trim();
+        if (!activeFunction || !trimmedName || isVariableNameTaken(trimmedName)) return;
+        const newVariable: GraphVariable = { id: generateId('var'), name: trimmedName, ...newVariableType, ...newVariableContainer };
+        updateDocument(`Adicionar variável local '${trimmedName}'`, document => ({
+            ...document,
+            customFunctions: document.customFunctions.map(f => f.id === activeFunction.id ? { ...f, localVariables: [...(f.localVariables ?? []), newVariable] } : f),
+        }));
+        setNewVariableName('');
+    };
+
+    const handleDeleteVariable = (variable: GraphVariable) => {
+        updateDocument(`Excluir ${isComponent(variable) ? 'componente' : 'variável'} '${variable.name}'`, document => {
+            const { graphData, customFunctions } = updateAllGraphs(document.graphData, document.customFunctions, graph => ({
+                ...graph,
+                nodes: graph.nodes.filter(n => !findNodeVariable(n, [variable])),
+            }));
+            return { ...document, customFunctions, graphData: { ...graphData, variables: removeVariable(graphData.variables, variable) } };
         });
     };
 
+    const handleDeleteLocalVariable = (functionId: string, variable: GraphVariable) => {
+        updateDocument(`Excluir variável local '${variable.name}'`, document => ({
+            ...document,
+            customFunctions: document.customFunctions.map(f => {
+                if (f.id !== functionId || !f.graph) return f;
+                const nodesToRemove = f.graph.nodes.filter(n => findNodeVariable(n, [variable]));
+                const pinsToRemove = new Set(nodesToRemove.flatMap(n => n.pins.map(p => p.id)));
+                return {
+                    ...f,
+                    localVariables: (f.localVariables ?? []).filter(v => !isSameVariable(v, variable)),
+                    graph: {
+                        nodes: f.graph.nodes.filter(n => !nodesToRemove.includes(n)),
+                        connections: f.graph.connections.filter(c => !pinsToRemove.has(c.fromPinId) && !pinsToRemove.has(c.toPinId)),
+                    },
+                };
+            }),
+        }));
+    };
+
+    // Renaming or retyping updates every Get/Set node of the variable; wires the new type can't keep are removed.
+    const handleUpdateVariable = () => {
+        if (!editingVariable) return;
+        const trimmedName = editingVariable.name.trim();
+        const owner = customFunctions.find(f => f.localVariables?.some(v => v.id === editingVariable.id));
+        const original = (owner ? owner.localVariables! : graphData.variables).find(v => v.id === editingVariable.id);
+        if (!original || !trimmedName || isVariableNameTaken(trimmedName, original.id)) return;
+        const updated: GraphVariable = { ...original, ...editingVariable, name: trimmedName };
+        setEditingVariable(null);
+        if (JSON.stringify(updated) === JSON.stringify(original)) return;
+
+        const newType = formatPinType(variablePinType(updated));
+        const typeChanged = newType !== formatPinType(variablePinType(original));
+        const label = updated.name !== original.name && !typeChanged
+            ? `Renomear variável '${original.name}' para '${updated.name}'`
+            : typeChanged && updated.name === original.name ? `Alterar tipo de '${updated.name}' para ${newType}` : `Editar variável '${updated.name}'`;
+        // The change applies to the latest document; the warnings describe it as the user saw it.
+        updateDocument(label, document => applyVariableUpdate(document, updated).document);
+        setEditorWarnings(applyVariableUpdate(currentDocument(history), updated).warnings);
+    };
+
+    // --- Component Handlers ---
+    const handleAddComponent = () => {
+        const trimmedName = newComponentName.trim();
+        if (!trimmedName || isVariableNameTaken(trimmedName)) return;
+        const tree = componentTree(graphData.variables);
+        const parentId = tree.some(entry => entry.component.id === newComponentParentId) ? newComponentParentId : tree[0]?.component.id;
+        const component = createComponent(trimmedName, newComponentClass, parentId);
+        updateGraph(`Adicionar componente '${trimmedName}'`, prev => ({ ...prev, variables: [...prev.variables, component] }));
+        setNewComponentName('');
+    };
+
+    const handleAttachComponent = (component: GraphVariable, parent: GraphVariable) => {
+        updateGraph(`Anexar '${component.name}' a '${parent.name}'`, prev => ({ ...prev, variables: attachComponent(prev.variables, component.id!, parent.id!) }));
+    };
+
+    const handleShowReference = (graphId: string | null, nodeId: string) => {
+        setActiveGraphId(graphId ?? EVENT_GRAPH_ID);
+        setFocusRequest({ nodeId });
+    };
+
     const handleAddVariableNode = (variable: GraphVariable, type: 'get' | 'set') => {
         const newNode: GraphNode = type === 'get' ? {
-            id: generateId('node'), name: `Get ${variable.name}`, type: 'variable_get', x: 250, y: 250,
-            pins: [{ id: generateId('pin'), name: 'Value', type: 'data', direction: 'out', dataType: variable.type }],
+            id: generateId('node'), name: `Get ${variable.name}`, type: 'variable_get', x: 250, y: 250, variableId: variable.id,
+            pins: [{ id: generateId('pin'), name: 'Value', type: 'data', direction: 'out', ...variablePinType(variable) }],
         } : {
-            id: generateId('node'), name: `Set ${variable.name}`, type: 'variable_set', x: 250, y: 250,
+            id: generateId('node'), name: `Set ${variable.name}`, type: 'variable_set', x: 250, y: 250, variableId: variable.id,
             pins: [
                 { id: generateId('pin'), name: '', type: 'exec', direction: 'in', dataType: 'Exec' },
                 { id: generateId('pin'), name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
-                { id: generateId('pin'), name: variable.name, type: 'data', direction: 'in', dataType: variable.type },
+                { id: generateId('pin'), name: variable.name, type: 'data', direction: 'in', ...variablePinType(variable) },
             ],
         };
-        setGraphData(prev => ({ ...prev, nodes: [...prev.nodes, newNode] }));
+        updateActiveGraph(`Adicionar nó '${newNode.name}'`, prev => ({ ...prev, nodes: [...prev.nodes, newNode] }));
     };
 
     // --- Event Handlers ---
@@ -326,12 +671,23 @@ export const BlueprintCreator: React.FC = () => {
         setEditingEvent(null);
         setNewEventName('');
         setNewEventParams([]);
+        setNewEventNetwork({});
+    };
+
+    // Only replicated events keep network settings, and only server RPCs are validated.
+    const eventNetworkSettings = (): RpcSettings => {
+        const { replication, isReliable, withValidation } = newEventNetwork;
+        if (!replication || replication === 'none') return {};
+        return { replication, ...(isReliable && { isReliable }), ...(replication === 'server' && withValidation && { withValidation }) };
     };
 
     const handleCreateEvent = () => {
         const trimmedName = newEventName.trim();
         if (!trimmedName || customEvents.some(e => e.name.toLowerCase() === trimmedName.toLowerCase())) return;
-        setCustomEvents(prev => [...prev, { id: generateId('eventDef'), name: trimmedName, parameters: newEventParams }]);
+        updateDocument(`Criar evento '${trimmedName}'`, document => ({
+            ...document,
+            customEvents: [...document.customEvents, { id: generateId('eventDef'), name: trimmedName, parameters: newEventParams, ...eventNetworkSettings() }],
+        }));
         resetEventForm();
     };
 
@@ -340,28 +696,24 @@ export const BlueprintCreator: React.FC = () => {
         const trimmedName = newEventName.trim();
         if (!trimmedName || customEvents.some(e => e.id !== editingEvent.id && e.name.toLowerCase() === trimmedName.toLowerCase())) return;
 
-        const updatedEvent: CustomEvent = { ...editingEvent, name: trimmedName, parameters: newEventParams };
-        setCustomEvents(prev => prev.map(e => e.id === editingEvent.id ? updatedEvent : e));
-
-        setGraphData(prev => {
+        const updatedEvent: CustomEvent = { id: editingEvent.id, name: trimmedName, parameters: newEventParams, ...eventNetworkSettings() };
+        updateDocument(`Editar evento '${trimmedName}'`, document => {
+            const prev = document.graphData;
+            const customEvents = document.customEvents.map(e => e.id === editingEvent.id ? updatedEvent : e);
             const affectedNodes = prev.nodes.filter(n => n.type === 'event' && n.name === editingEvent.name);
-            if (affectedNodes.length === 0) return prev;
+            if (affectedNodes.length === 0) return { ...document, customEvents };
 
             const pinsToRemove = new Set(affectedNodes.flatMap(n => n.pins.map(p => p.id)));
             const newConnections = prev.connections.filter(c => !pinsToRemove.has(c.fromPinId) && !pinsToRemove.has(c.toPinId));
 
             const newNodes = prev.nodes.map(node => {
                 if (node.type === 'event' && node.name === editingEvent.name) {
-                    const pins: GraphPin[] = [
-                        { id: generateId('pin'), name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
-                        ...(updatedEvent.parameters || []).map(p => ({ id: generateId('pin'), name: p.name, type: 'data' as const, direction: 'out' as const, dataType: p.type })),
-                    ];
-                    return { ...node, name: updatedEvent.name, pins };
+                    return { ...node, name: updatedEvent.name, pins: customEventPins(updatedEvent) };
                 }
                 return node;
             });
 
-            return { ...prev, nodes: newNodes, connections: newConnections };
+            return { ...document, customEvents, graphData: { ...prev, nodes: newNodes, connections: newConnections } };
         });
 
         resetEventForm();
@@ -372,46 +724,237 @@ export const BlueprintCreator: React.FC = () => {
         setEditingEvent(event);
         setNewEventName(event.name);
         setNewEventParams(event.parameters?.map(p => ({...p})) || []);
+        setNewEventNetwork({ replication: event.replication, isReliable: event.isReliable, withValidation: event.withValidation });
     };
     
     const handleDeleteEvent = (eventId: string) => {
         const eventToDelete = customEvents.find(e => e.id === eventId);
         if (!eventToDelete) return;
-        setCustomEvents(prev => prev.filter(e => e.id !== eventId));
-        setGraphData(prev => {
+        updateDocument(`Excluir evento '${eventToDelete.name}'`, document => {
+            const prev = document.graphData;
             const nodesToRemove = prev.nodes.filter(n => n.type === 'event' && n.name === eventToDelete.name);
             const pinsToRemove = new Set(nodesToRemove.flatMap(n => n.pins.map(p => p.id)));
             return {
-                ...prev,
-                nodes: prev.nodes.filter(n => !nodesToRemove.some(removed => removed.id === n.id)),
-                connections: prev.connections.filter(c => !pinsToRemove.has(c.fromPinId) && !pinsToRemove.has(c.toPinId)),
+                ...document,
+                customEvents: document.customEvents.filter(e => e.id !== eventId),
+                graphData: {
+                    ...prev,
+                    nodes: prev.nodes.filter(n => !nodesToRemove.some(removed => removed.id === n.id)),
+                    connections: prev.connections.filter(c => !pinsToRemove.has(c.fromPinId) && !pinsToRemove.has(c.toPinId)),
+                },
             };
         });
     };
 
     const handleAddEventNode = (event: CustomEvent) => {
-        const pins: GraphPin[] = [
-            { id: generateId('pin'), name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
-            ...(event.parameters || []).map(p => ({ id: generateId('pin'), name: p.name, type: 'data' as const, direction: 'out' as const, dataType: p.type }))
-        ];
         const newNode: GraphNode = {
-            id: generateId('node'), name: event.name, type: 'event', x: 150, y: 150, pins
+            id: generateId('node'), name: event.name, type: 'event', x: 150, y: 150, pins: customEventPins(event)
         };
-        setGraphData(prev => ({ ...prev, nodes: [...prev.nodes, newNode] }));
+        // Events only exist in the Event Graph, as in Unreal.
+        updateGraph(`Adicionar nó '${event.name}'`, prev => ({ ...prev, nodes: [...prev.nodes, newNode] }));
+        setActiveGraphId(EVENT_GRAPH_ID);
     };
     
+    // --- Event Dispatcher Handlers ---
+    const resetDispatcherForm = () => {
+        setEditingDispatcher(null);
+        setNewDispatcherName('');
+        setNewDispatcherParams([]);
+    };
+
+    const isDispatcherNameTaken = (name: string, exceptId?: string) =>
+        eventDispatchers.some(d => d.id !== exceptId && d.name.toLowerCase() === name.toLowerCase());
+
+    const handleCreateDispatcher = () => {
+        const trimmedName = newDispatcherName.trim();
+        if (!trimmedName || isDispatcherNameTaken(trimmedName)) return;
+        updateDocument(`Criar event dispatcher '${trimmedName}'`, document => ({
+            ...document,
+            eventDispatchers: [...document.eventDispatchers, { id: generateId('dispatcher'), name: trimmedName, parameters: newDispatcherParams }],
+        }));
+        resetDispatcherForm();
+    };
+
+    const handleUpdateDispatcher = () => {
+        if (!editingDispatcher) return;
+        const trimmedName = newDispatcherName.trim();
+        if (!trimmedName || isDispatcherNameTaken(trimmedName, editingDispatcher.id)) return;
+
+        const updated: EventDispatcher = { ...editingDispatcher, name: trimmedName, parameters: newDispatcherParams };
+        updateDocument(`Editar event dispatcher '${trimmedName}'`, document => {
+            // Call, Bind and Unbind nodes keep the wires of every pin that still exists, in all graphs.
+            const { graphData, customFunctions } = updateAllGraphs(document.graphData, document.customFunctions, graph => ({
+                ...graph,
+                nodes: graph.nodes.map(node => {
+                    const match = findDispatcherNode(node, document.eventDispatchers);
+                    return match?.dispatcher.id === updated.id ? syncDispatcherNode(node, match.kind, updated) : node;
+                }),
+            }));
+            return { ...document, graphData, customFunctions, eventDispatchers: document.eventDispatchers.map(d => d.id === updated.id ? updated : d) };
+        });
+        resetDispatcherForm();
+    };
+
+    const handleEditDispatcherStart = (dispatcher: EventDispatcher) => {
+        setEditingDispatcher(dispatcher);
+        setNewDispatcherName(dispatcher.name);
+        setNewDispatcherParams(dispatcher.parameters.map(p => ({...p})));
+    };
+
+    const handleDeleteDispatcher = (dispatcher: EventDispatcher) => {
+        updateDocument(`Excluir event dispatcher '${dispatcher.name}'`, document => {
+            const { graphData, customFunctions } = updateAllGraphs(document.graphData, document.customFunctions, graph => ({
+                ...graph,
+                nodes: graph.nodes.filter(node => findDispatcherNode(node, document.eventDispatchers)?.dispatcher.id !== dispatcher.id),
+            }));
+            return { ...document, graphData, customFunctions, eventDispatchers: document.eventDispatchers.filter(d => d.id !== dispatcher.id) };
+        });
+    };
+
+    const handleAddDispatcherNode = (dispatcher: EventDispatcher, kind: DispatcherNodeKind) => {
+        const newNode = createDispatcherNode(kind, dispatcher, 300, 300);
+        updateActiveGraph(`Adicionar nó '${newNode.name}'`, prev => ({ ...prev, nodes: [...prev.nodes, newNode] }));
+    };
+
+    // Like Unreal's 'Assign': a new custom event with the dispatcher's signature, already bound.
+    const handleAssignDispatcher = (dispatcher: EventDispatcher) => {
+        let eventName = `${dispatcher.name}_Event`;
+        for (let i = 1; customEvents.some(e => e.name.toLowerCase() === eventName.toLowerCase()); i++) eventName = `${dispatcher.name}_Event_${i}`;
+        const { event, nodes, connection } = createDispatcherAssignment(dispatcher, eventName, 150, 150);
+        updateDocument(`Atribuir evento a '${dispatcher.name}'`, document => ({
+            ...document,
+            customEvents: [...document.customEvents, event],
+            graphData: { ...document.graphData, nodes: [...document.graphData.nodes, ...nodes], connections: [...document.graphData.connections, connection] },
+        }));
+        setActiveGraphId(EVENT_GRAPH_ID);
+    };
+
+    // --- Struct and Enum Handlers ---
+    const resetStructForm = () => {
+        setEditingStruct(null);
+        setNewStructName('');
+        setNewStructFields([]);
+    };
+
+    const resetEnumForm = () => {
+        setEditingEnum(null);
+        setNewEnumName('');
+        setNewEnumEntries(['NewEnumerator0']);
+    };
+
+    const handleCreateStruct = () => {
+        const trimmedName = newStructName.trim();
+        if (!trimmedName || isTypeNameTaken(userTypes, trimmedName)) return;
+        updateDocument(`Criar estrutura '${trimmedName}'`, document => ({
+            ...document,
+            userStructs: [...document.userStructs, { id: generateId('struct'), name: trimmedName, fields: newStructFields }],
+        }));
+        resetStructForm();
+    };
+
+    // Renaming retypes everything that uses the type; Make, Break and Switch nodes then follow the edit in every graph.
+    const updateUserType = (label: string, id: string, name: string, apply: (document: EditorDocument) => EditorDocument) => {
+        updateDocument(label, document => {
+            const current = [...document.userStructs, ...document.userEnums].find(type => type.id === id);
+            if (!current) return document;
+            return syncUserTypeNodes(apply(renameUserType(document, current.name, name)), document);
+        });
+    };
+
+    const handleUpdateStruct = () => {
+        if (!editingStruct) return;
+        const trimmedName = newStructName.trim();
+        if (!trimmedName || isTypeNameTaken(userTypes, trimmedName, editingStruct.id)) return;
+        const updated: UserStruct = { ...editingStruct, name: trimmedName, fields: newStructFields };
+        updateUserType(`Editar estrutura '${trimmedName}'`, updated.id, trimmedName, document => ({
+            ...document,
+            userStructs: document.userStructs.map(s => s.id === updated.id ? updated : s),
+        }));
+        resetStructForm();
+    };
+
+    const handleEditStructStart = (struct: UserStruct) => {
+        setEditingStruct(struct);
+        setNewStructName(struct.name);
+        setNewStructFields(struct.fields.map(f => ({...f})));
+    };
+
+    // Entries must be unique and there must be at least one, as in Unreal.
+    const enumEntries = newEnumEntries.map(entry => entry.trim());
+    const areEnumEntriesValid = enumEntries.length > 0 && enumEntries.every((entry, index) => entry && enumEntries.indexOf(entry) === index);
+
+    const handleCreateEnum = () => {
+        const trimmedName = newEnumName.trim();
+        if (!trimmedName || isTypeNameTaken(userTypes, trimmedName) || !areEnumEntriesValid) return;
+        updateDocument(`Criar enum '${trimmedName}'`, document => ({
+            ...document,
+            userEnums: [...document.userEnums, { id: generateId('enum'), name: trimmedName, entries: enumEntries }],
+        }));
+        resetEnumForm();
+    };
+
+    const handleUpdateEnum = () => {
+        if (!editingEnum) return;
+        const trimmedName = newEnumName.trim();
+        if (!trimmedName || isTypeNameTaken(userTypes, trimmedName, editingEnum.id) || !areEnumEntriesValid) return;
+        const updated: UserEnum = { ...editingEnum, name: trimmedName, entries: enumEntries };
+        updateUserType(`Editar enum '${trimmedName}'`, updated.id, trimmedName, document => ({
+            ...document,
+            userEnums: document.userEnums.map(e => e.id === updated.id ? updated : e),
+        }));
+        resetEnumForm();
+    };
+
+    const handleEditEnumStart = (userEnum: UserEnum) => {
+        setEditingEnum(userEnum);
+        setNewEnumName(userEnum.name);
+        setNewEnumEntries([...userEnum.entries]);
+    };
+
+    // Types still in use can't be deleted; their Make, Break and Switch nodes go with them.
+    const handleDeleteUserType = (type: UserStruct | UserEnum, label: string) => {
+        updateDocument(label, document => {
+            const { graphData, customFunctions } = updateAllGraphs(document.graphData, document.customFunctions, graph => ({
+                ...graph,
+                nodes: graph.nodes.filter(node => {
+                    const match = findUserTypeNode(node, document);
+                    return !match || userTypeOf(match).id !== type.id;
+                }),
+            }));
+            return {
+                ...document,
+                graphData,
+                customFunctions,
+                userStructs: document.userStructs.filter(s => s.id !== type.id),
+                userEnums: document.userEnums.filter(e => e.id !== type.id),
+            };
+        });
+    };
+
+    const handleAddUserTypeNode = (match: UserTypeNode) => {
+        const newNode = createUserTypeNode(match, 300, 300);
+        updateActiveGraph(`Adicionar nó '${newNode.name}'`, prev => ({ ...prev, nodes: [...prev.nodes, newNode] }));
+    };
+
     // --- Function Handlers ---
     const resetFunctionForm = () => {
         setEditingFunction(null);
         setNewFunctionName('');
         setNewFunctionParams([]);
         setNewFunctionOutputs([]);
+        setNewFunctionIsPure(false);
     };
 
     const handleCreateFunction = () => {
         const trimmedName = newFunctionName.trim();
         if (!trimmedName || customFunctions.some(f => f.name.toLowerCase() === trimmedName.toLowerCase())) return;
-        setCustomFunctions(prev => [...prev, { id: generateId('funcDef'), name: trimmedName, parameters: newFunctionParams, outputs: newFunctionOutputs }]);
+        const newFunction: CustomFunction = { id: generateId('funcDef'), name: trimmedName, parameters: newFunctionParams, outputs: newFunctionOutputs, isPure: newFunctionIsPure, localVariables: [] };
+        newFunction.graph = createFunctionGraph(newFunction);
+        updateDocument(`Criar função '${trimmedName}'`, document => ({
+            ...document,
+            customFunctions: [...document.customFunctions, newFunction],
+        }));
+        setActiveGraphId(newFunction.id);
         resetFunctionForm();
     };
 
@@ -424,36 +967,26 @@ export const BlueprintCreator: React.FC = () => {
             return;
         }
 
-        const updatedFunction: CustomFunction = {
-            ...editingFunction,
-            name: trimmedName,
-            parameters: newFunctionParams,
-            outputs: newFunctionOutputs,
-        };
-
-        setCustomFunctions(prev => prev.map(f => f.id === editingFunction.id ? updatedFunction : f));
-
-        setGraphData(prev => {
-            const affectedNodes = prev.nodes.filter(n => n.type === 'function' && n.name === editingFunction.name);
-            if (affectedNodes.length === 0) return prev;
-
-            const pinsToRemove = new Set(affectedNodes.flatMap(n => n.pins.map(p => p.id)));
-            const newConnections = prev.connections.filter(c => !pinsToRemove.has(c.fromPinId) && !pinsToRemove.has(c.toPinId));
-            
-            const newNodes = prev.nodes.map(node => {
-                if (node.type === 'function' && node.name === editingFunction.name) {
-                    const pins: GraphPin[] = [
-                        { id: generateId('pin'), name: '', type: 'exec', direction: 'in', dataType: 'Exec' },
-                        { id: generateId('pin'), name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
-                        ...updatedFunction.parameters.map(p => ({ id: generateId('pin'), name: p.name, type: 'data' as 'data', direction: 'in' as 'in', dataType: p.type })),
-                        ...updatedFunction.outputs.map(p => ({ id: generateId('pin'), name: p.name, type: 'data' as 'data', direction: 'out' as 'out', dataType: p.type })),
-                    ];
-                    return { ...node, name: updatedFunction.name, pins };
-                }
-                return node;
+        updateDocument(`Editar função '${trimmedName}'`, document => {
+            const current = document.customFunctions.find(f => f.id === editingFunction.id);
+            if (!current) return document;
+            const updatedFunction = syncFunctionGraph({
+                ...current,
+                name: trimmedName,
+                parameters: newFunctionParams,
+                outputs: newFunctionOutputs,
+                isPure: newFunctionIsPure,
             });
-
-            return { ...prev, nodes: newNodes, connections: newConnections };
+            // Call nodes keep the wires of every pin that still exists, in all graphs.
+            const { graphData, customFunctions } = updateAllGraphs(
+                document.graphData,
+                document.customFunctions.map(f => f.id === editingFunction.id ? updatedFunction : f),
+                graph => ({
+                    ...graph,
+                    nodes: graph.nodes.map(node => node.type === 'function' && node.name === current.name ? syncFunctionCallNode(node, updatedFunction) : node),
+                }),
+            );
+            return { ...document, graphData, customFunctions };
         });
 
         resetFunctionForm();
@@ -465,55 +998,38 @@ export const BlueprintCreator: React.FC = () => {
         setNewFunctionName(func.name);
         setNewFunctionParams(func.parameters.map(p => ({...p})));
         setNewFunctionOutputs(func.outputs.map(p => ({...p})));
+        setNewFunctionIsPure(Boolean(func.isPure));
     };
 
     const handleDeleteFunction = (functionId: string) => {
         const funcToDelete = customFunctions.find(f => f.id === functionId);
         if(!funcToDelete) return;
-        setCustomFunctions(prev => prev.filter(f => f.id !== functionId));
-        setGraphData(prev => {
-            const nodesToRemove = prev.nodes.filter(n => n.type === 'function' && n.name === funcToDelete.name);
-            const pinsToRemove = new Set(nodesToRemove.flatMap(n => n.pins.map(p => p.id)));
-             return {
-                ...prev,
-                nodes: prev.nodes.filter(n => !nodesToRemove.some(removed => removed.id === n.id)),
-                connections: prev.connections.filter(c => !pinsToRemove.has(c.fromPinId) && !pinsToRemove.has(c.toPinId)),
-            };
+        updateDocument(`Excluir função '${funcToDelete.name}'`, document => {
+            const { graphData, customFunctions } = updateAllGraphs(
+                document.graphData,
+                document.customFunctions.filter(f => f.id !== functionId),
+                graph => ({ ...graph, nodes: graph.nodes.filter(n => !(n.type === 'function' && n.name === funcToDelete.name)) }),
+            );
+            return { ...document, graphData, customFunctions };
         });
     };
 
     const handleAddFunctionCallNode = (func: CustomFunction) => {
-        const pins: GraphPin[] = [
-            { id: generateId('pin'), name: '', type: 'exec', direction: 'in', dataType: 'Exec' },
-            { id: generateId('pin'), name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
-            ...func.parameters.map(p => ({ id: generateId('pin'), name: p.name, type: 'data' as 'data', direction: 'in' as 'in', dataType: p.type })),
-            ...func.outputs.map(p => ({ id: generateId('pin'), name: p.name, type: 'data' as 'data', direction: 'out' as 'out', dataType: p.type })),
-        ];
-        const newNode: GraphNode = { id: generateId('node'), name: func.name, type: 'function', x: 300, y: 300, pins };
-        setGraphData(prev => ({...prev, nodes: [...prev.nodes, newNode]}));
+        const newNode: GraphNode = { id: generateId('node'), name: func.name, type: 'function', x: 300, y: 300, pins: createFunctionCallPins(func) };
+        updateActiveGraph(`Adicionar nó '${func.name}'`, prev => ({...prev, nodes: [...prev.nodes, newNode]}));
     };
 
-    const handleParamChange = (list: FunctionParameter[], setList: React.Dispatch<React.SetStateAction<FunctionParameter[]>>, index: number, field: 'name' | 'type', value: string) => {
-        setList(prev => prev.map((p, i) => i === index ? { ...p, [field]: value } : p));
+    const handleParamChange = (setList: React.Dispatch<React.SetStateAction<FunctionParameter[]>>, index: number, changes: Partial<FunctionParameter>) => {
+        setList(prev => prev.map((p, i) => i === index ? { ...p, ...changes } : p));
     };
     const addParam = (setList: React.Dispatch<React.SetStateAction<FunctionParameter[]>>) => setList(prev => [...prev, { id: generateId('param'), name: `Param${prev.length}`, type: 'Boolean' }]);
     const removeParam = (setList: React.Dispatch<React.SetStateAction<FunctionParameter[]>>, id: string) => setList(prev => prev.filter(p => p.id !== id));
 
 
     // --- Common Node Handlers ---
-    const handleAddCommonNode = (nodeTemplate: typeof nodeLibrary[number]['nodes'][number], position?: { x: number; y: number }) => {
-        const newNode: GraphNode = {
-            id: generateId('node'),
-            name: nodeTemplate.name,
-            type: nodeTemplate.type,
-            x: position?.x ?? 300,
-            y: position?.y ?? 300,
-            pins: nodeTemplate.pins.map(pin => ({
-                ...pin,
-                id: generateId('pin'),
-            })),
-        };
-        setGraphData(prev => ({...prev, nodes: [...prev.nodes, newNode]}));
+    const handleAddCommonNode = (nodeTemplate: NodeTemplate, position?: { x: number; y: number }) => {
+        const newNode = createNodeFromTemplate(nodeTemplate, position?.x ?? 300, position?.y ?? 300);
+        updateActiveGraph(`Adicionar nó '${newNode.name}'`, prev => ({...prev, nodes: [...prev.nodes, newNode]}));
     };
 
     const handleCanvasClick = useCallback((event: { screenX: number; screenY: number; graphX: number; graphY: number }) => {
@@ -528,7 +1044,7 @@ export const BlueprintCreator: React.FC = () => {
         });
     }, []);
 
-    const handleNodePick = (nodeTemplate: typeof nodeLibrary[number]['nodes'][number]) => {
+    const handleNodePick = (nodeTemplate: NodeTemplate) => {
         handleAddCommonNode(nodeTemplate, { x: nodePickerState.graphX, y: nodePickerState.graphY });
         setNodePickerState({ ...nodePickerState, visible: false });
     };
@@ -537,15 +1053,14 @@ export const BlueprintCreator: React.FC = () => {
         title: string;
         params: FunctionParameter[];
         setParams: React.Dispatch<React.SetStateAction<FunctionParameter[]>>;
-    }> = ({ title, params, setParams }) => (
+        types?: UserTypes; // The user types to offer; struct fields leave out the structs that would contain themselves
+    }> = ({ title, params, setParams, types = userTypes }) => (
         <>
             <h5 className="text-xs font-bold text-slate-500 my-2">{title}</h5>
             {params.map((param, index) => (
                 <div key={param.id} className="flex gap-1 mb-1 items-center">
-                    <input type="text" placeholder="Nome" value={param.name} onChange={e => handleParamChange(params, setParams, index, 'name', e.target.value)} className="flex-1 w-0 bg-slate-700 border border-slate-600 rounded p-1 text-xs"/>
-                    <select value={param.type} onChange={e => handleParamChange(params, setParams, index, 'type', e.target.value)} className="flex-1 w-0 bg-slate-700 border border-slate-600 rounded p-1 text-xs">
-                        {variableTypes.map(t => <option key={t} value={t}>{t}</option>)}
-                    </select>
+                    <input type="text" placeholder="Nome" value={param.name} onChange={e => handleParamChange(setParams, index, { name: e.target.value })} className="flex-1 w-0 bg-slate-700 border border-slate-600 rounded p-1 text-xs"/>
+                    <PinTypePicker type={param.type} objectClass={param.objectClass} userTypes={types} onChange={value => handleParamChange(setParams, index, value)} className="bg-slate-700 border border-slate-600 rounded p-1 text-xs" />
                     <button onClick={() => removeParam(setParams, param.id)} className="p-1 text-slate-400 hover:text-red-400"><TrashIcon className="w-3 h-3"/></button>
                 </div>
             ))}
@@ -553,42 +1068,249 @@ export const BlueprintCreator: React.FC = () => {
         </>
     );
 
+    // 'Único' stores no container; a Map also picks the type of its values (the type select holds the keys).
+    const renderContainerSelects = (
+        value: Pick<GraphVariable, 'type' | 'containerType' | 'valueType'>,
+        onChange: (changes: Pick<GraphVariable, 'containerType' | 'valueType'>) => void,
+        className: string,
+    ) => (
+        <div className="flex gap-1">
+            <select
+                value={value.containerType ?? ''}
+                onChange={(e) => {
+                    const containerType = (e.target.value || undefined) as PinContainerType | undefined;
+                    onChange({ containerType, valueType: containerType === 'Map' ? value.valueType ?? value.type : undefined });
+                }}
+                title="Contêiner"
+                className={`flex-1 w-0 ${className}`}
+            >
+                <option value="">Único</option>
+                {containerTypes.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+            </select>
+            {value.containerType === 'Map' && (
+                <select value={value.valueType ?? value.type} onChange={(e) => onChange({ containerType: 'Map', valueType: e.target.value })} title="Tipo do valor" className={`flex-1 w-0 ${className}`}>
+                    <PinTypeOptions userTypes={userTypes} />
+                </select>
+            )}
+        </div>
+    );
+
+    const renderVariableDetailsForm = (draft: GraphVariable & { id: string }, isLocal: boolean) => {
+        const update = (changes: Partial<GraphVariable>) => setEditingVariable({ ...draft, ...changes });
+        const userEnum = findUserEnum(userTypes, draft.type);
+        const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded p-1 text-xs mb-1';
+        const checkbox = (field: 'isInstanceEditable' | 'exposeOnSpawn' | 'isReadOnly', label: string) => (
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={Boolean(draft[field])} onChange={(e) => update({ [field]: e.target.checked })} className="accent-blue-500" />
+                {label}
+            </label>
+        );
+        return (
+            <>
+                <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-sm mb-1" autoFocus />
+                <div className="flex mb-1">
+                    <PinTypePicker type={draft.type} objectClass={draft.objectClass} userTypes={userTypes} onChange={update} className="bg-slate-900 border border-slate-600 rounded p-1 text-xs" />
+                </div>
+                {renderContainerSelects(draft, update, 'bg-slate-900 border border-slate-600 rounded p-1 text-xs mb-1')}
+                {/* Structs start with the defaults of their fields. */}
+                {draft.containerType || findUserStruct(userTypes, draft.type) ? null : draft.type === 'Boolean' ? (
+                    <select value={draft.defaultValue === 'true' ? 'true' : 'false'} onChange={(e) => update({ defaultValue: e.target.value })} className={inputClass}>
+                        <option value="false">Padrão: false</option>
+                        <option value="true">Padrão: true</option>
+                    </select>
+                ) : userEnum ? (
+                    <select value={userEnum.entries.includes(draft.defaultValue ?? '') ? draft.defaultValue : userEnum.entries[0]} onChange={(e) => update({ defaultValue: e.target.value })} className={inputClass}>
+                        {userEnum.entries.map(entry => <option key={entry} value={entry}>Padrão: {entry}</option>)}
+                    </select>
+                ) : (
+                    <input type="text" placeholder="Valor padrão" value={draft.defaultValue ?? ''} onChange={(e) => update({ defaultValue: e.target.value })} className={inputClass} />
+                )}
+                {!isLocal && (
+                    <>
+                        <input type="text" placeholder="Categoria (Default)" value={draft.category ?? ''} onChange={(e) => update({ category: e.target.value })} className={inputClass} />
+                        <input type="text" placeholder="Dica (tooltip)" value={draft.tooltip ?? ''} onChange={(e) => update({ tooltip: e.target.value })} className={inputClass} />
+                        <div className="my-1 space-y-1">
+                            {checkbox('isInstanceEditable', 'Editável na instância')}
+                            {checkbox('exposeOnSpawn', 'Expor no spawn')}
+                            {checkbox('isReadOnly', 'Somente leitura em Blueprints')}
+                        </div>
+                        <div className="flex gap-1 mb-2">
+                            <select value={draft.replication ?? 'none'} onChange={(e) => update({ replication: e.target.value as VariableReplication })} title="Replicação" className="flex-1 w-0 bg-slate-900 border border-slate-600 rounded p-1 text-xs">
+                                {(Object.keys(REPLICATION_LABELS) as VariableReplication[]).map(option => <option key={option} value={option}>{REPLICATION_LABELS[option]}</option>)}
+                            </select>
+                            <select value={draft.visibility ?? 'public'} onChange={(e) => update({ visibility: e.target.value as VariableVisibility })} title="Visibilidade" className="flex-1 w-0 bg-slate-900 border border-slate-600 rounded p-1 text-xs">
+                                {(Object.keys(VISIBILITY_LABELS) as VariableVisibility[]).map(option => <option key={option} value={option}>{VISIBILITY_LABELS[option]}</option>)}
+                            </select>
+                        </div>
+                    </>
+                )}
+            </>
+        );
+    };
+
+    const renderVariableCard = (variable: GraphVariable, onDelete: () => void, isLocal: boolean) => {
+        const isEditing = editingVariable?.id === variable.id;
+        const references = referencesVariableId === variable.id && variable.id ? findVariableReferences(graphData, customFunctions, variable.id) : null;
+        return (
+            <div key={variable.id ?? variable.name} className={`p-2 bg-slate-800 rounded-md border ${isLocal ? 'border-dashed border-slate-600' : 'border-slate-700'}`}>
+                {isEditing ? (
+                    <>
+                        {renderVariableDetailsForm(editingVariable, isLocal)}
+                        <div className="flex gap-2">
+                            <button onClick={() => setEditingVariable(null)} className="flex-1 text-xs py-1 px-2 bg-slate-600 hover:bg-slate-700 rounded">Cancelar</button>
+                            <button onClick={handleUpdateVariable} className="flex-1 text-xs py-1 px-2 bg-blue-600 hover:bg-blue-700 rounded">Salvar</button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <div className="flex justify-between items-center">
+                            <div>
+                                <p className="font-bold text-slate-200 text-sm" title={variable.tooltip}>{variable.name}</p>
+                                <p className="text-xs text-blue-400">
+                                    {formatPinType(variablePinType(variable))}
+                                    {variable.defaultValue && !variable.containerType && <span className="text-slate-400"> = {variable.defaultValue}</span>}
+                                    {variable.replication && variable.replication !== 'none' && <span className="text-purple-300"> · {REPLICATION_LABELS[variable.replication]}</span>}
+                                    {variable.visibility && variable.visibility !== 'public' && <span className="text-slate-400"> · {VISIBILITY_LABELS[variable.visibility]}</span>}
+                                </p>
+                            </div>
+                            <div className="flex items-center">
+                                <button onClick={() => setReferencesVariableId(references ? null : variable.id ?? null)} title="Encontrar referências" className={`p-1 hover:text-blue-400 ${references ? 'text-blue-400' : 'text-slate-400'}`}><SearchIcon className="w-4 h-4" /></button>
+                                <button onClick={() => variable.id && setEditingVariable({ ...variable, id: variable.id })} title="Editar nome, tipo e detalhes" className="p-1 text-slate-400 hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>
+                                <button onClick={onDelete} className="p-1 text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                        </div>
+                        <div className="mt-2 flex gap-2">
+                            <button onClick={() => handleAddVariableNode(variable, 'get')} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Get</button>
+                            <button onClick={() => handleAddVariableNode(variable, 'set')} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Set</button>
+                        </div>
+                    </>
+                )}
+                {references && (
+                    <div className="mt-2 border-t border-slate-700 pt-2">
+                        {references.length === 0 && <p className="text-xs text-slate-500">Nenhum nó usa esta variável.</p>}
+                        {references.map(reference => (
+                            <button
+                                key={reference.node.id}
+                                onClick={() => handleShowReference(reference.graphId, reference.node.id)}
+                                className="w-full text-left text-xs px-2 py-1 rounded hover:bg-slate-700 text-slate-300"
+                            >
+                                <span className="text-slate-500">{reference.graphName} ›</span> {reference.node.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
     const renderSidebarContent = () => {
         if (activeTab === 'variables') return (
             <>
                 <div className="mb-4 p-3 bg-slate-800/70 rounded-md border border-slate-700">
                     <h4 className="text-sm font-bold text-slate-400 mb-2">Adicionar Nova Variável</h4>
                     <input type="text" placeholder="Nome da Variável" value={newVariableName} onChange={(e) => setNewVariableName(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"/>
-                    <select value={newVariableType} onChange={(e) => setNewVariableType(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-blue-500">
-                        {variableTypes.map(type => <option key={type} value={type}>{type}</option>)}
-                    </select>
-                    <button onClick={handleAddVariable} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 rounded-md"><PlusIcon className="w-4 h-4" />Adicionar</button>
+                    <div className="flex mb-2">
+                        <PinTypePicker {...newVariableType} userTypes={userTypes} onChange={setNewVariableType} className="bg-slate-900 border border-slate-600 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500" />
+                    </div>
+                    <div className="mb-3">
+                        {renderContainerSelects({ ...newVariableType, ...newVariableContainer }, setNewVariableContainer, 'bg-slate-900 border border-slate-600 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500')}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={handleAddVariable} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 rounded-md"><PlusIcon className="w-4 h-4" />Adicionar</button>
+                        {activeFunction && (
+                            <button onClick={handleAddLocalVariable} title={`Variável visível apenas dentro de '${activeFunction.name}'`} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 rounded-md"><PlusIcon className="w-4 h-4" />Local</button>
+                        )}
+                    </div>
                 </div>
                 <div className="flex-1 overflow-y-auto space-y-2 pr-2">
-                    {graphData.variables.map(variable => (
-                        <div key={variable.name} className="p-2 bg-slate-800 rounded-md border border-slate-700">
-                            <div className="flex justify-between items-center">
-                                <div>
-                                    <p className="font-bold text-slate-200 text-sm">{variable.name}</p>
-                                    <p className="text-xs text-blue-400">{variable.type}</p>
-                                </div>
-                                <button onClick={() => handleDeleteVariable(variable.name)} className="p-1 text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
-                            </div>
-                            <div className="mt-2 flex gap-2">
-                                <button onClick={() => handleAddVariableNode(variable, 'get')} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Get</button>
-                                <button onClick={() => handleAddVariableNode(variable, 'set')} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Set</button>
-                            </div>
-                        </div>
-                    ))}
+                    {activeFunction && (
+                        <>
+                            <h4 className="text-xs font-bold text-slate-500 uppercase px-1">Locais de {activeFunction.name}</h4>
+                            {(activeFunction.localVariables ?? []).length === 0 && <p className="text-xs text-slate-500 px-1">Nenhuma variável local.</p>}
+                            {(activeFunction.localVariables ?? []).map(variable => renderVariableCard(variable, () => handleDeleteLocalVariable(activeFunction.id, variable), true))}
+                            <h4 className="text-xs font-bold text-slate-500 uppercase px-1 pt-2">Variáveis do Blueprint</h4>
+                        </>
+                    )}
+                    {graphData.variables.filter(variable => !isComponent(variable)).map(variable => renderVariableCard(variable, () => handleDeleteVariable(variable), false))}
                 </div>
             </>
         );
+        if (activeTab === 'components') {
+            const tree = componentTree(graphData.variables);
+            return (
+                <>
+                    <div className="mb-4 p-3 bg-slate-800/70 rounded-md border border-slate-700">
+                        <h4 className="text-sm font-bold text-slate-400 mb-2">Adicionar Componente</h4>
+                        <input type="text" placeholder="Nome do Componente" value={newComponentName} onChange={(e) => setNewComponentName(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"/>
+                        <div className="flex gap-2 mb-3">
+                            <select value={newComponentClass} onChange={(e) => setNewComponentClass(e.target.value)} className="flex-1 w-0 bg-slate-900 border border-slate-600 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500">
+                                {componentTypes.map(type => <option key={type.componentClass} value={type.componentClass}>{type.label}</option>)}
+                            </select>
+                            {tree.length > 0 && (
+                                <select value={newComponentParentId} onChange={(e) => setNewComponentParentId(e.target.value)} title="Anexar a" className="flex-1 w-0 bg-slate-900 border border-slate-600 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500">
+                                    <option value="">{tree[0].component.name} (raiz)</option>
+                                    {tree.slice(1).map(entry => <option key={entry.component.id} value={entry.component.id}>{'\u00A0\u00A0'.repeat(entry.depth)}{entry.component.name}</option>)}
+                                </select>
+                            )}
+                        </div>
+                        <button onClick={handleAddComponent} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 rounded-md"><PlusIcon className="w-4 h-4" />Adicionar</button>
+                    </div>
+                    <div className="flex-1 overflow-y-auto space-y-2 pr-2">
+                        {tree.length === 0 && <p className="text-xs text-slate-500 px-1">Nenhum componente. O primeiro componente adicionado é a raiz do ator.</p>}
+                        {tree.map(({ component, parentId, depth }) => {
+                            const subtree = componentSubtree(graphData.variables, component.id!);
+                            return (
+                                <div key={component.id} style={{ marginLeft: depth * 16 }} className="p-2 bg-slate-800 rounded-md border border-slate-700">
+                                    <div className="flex justify-between items-center">
+                                        <div>
+                                            <p className="font-bold text-slate-200 text-sm">{component.name}</p>
+                                            <p className="text-xs text-blue-400">{findComponentType(component.objectClass).label}{!parentId && <span className="text-slate-400"> · Raiz</span>}</p>
+                                        </div>
+                                        <button onClick={() => handleDeleteVariable(component)} className="p-1 text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                                    </div>
+                                    <div className="mt-2 flex gap-2">
+                                        <button onClick={() => handleAddVariableNode(component, 'get')} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Get</button>
+                                        {parentId && (
+                                            <select
+                                                value={parentId}
+                                                onChange={(e) => handleAttachComponent(component, tree.find(entry => entry.component.id === e.target.value)!.component)}
+                                                title="Anexado a"
+                                                className="flex-1 w-0 text-xs bg-slate-700 border border-slate-600 rounded px-1"
+                                            >
+                                                {tree.filter(entry => !subtree.has(entry.component.id!)).map(entry => <option key={entry.component.id} value={entry.component.id}>{entry.component.name}</option>)}
+                                            </select>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </>
+            );
+        }
         if (activeTab === 'events') return (
              <>
                 <div className="mb-4 p-3 bg-slate-800/70 rounded-md border border-slate-700">
                     <h4 className="text-sm font-bold text-slate-400 mb-2">{editingEvent ? 'Editar Evento' : 'Criar Novo Evento'}</h4>
                     <input type="text" placeholder="Nome do Evento" value={newEventName} onChange={(e) => setNewEventName(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"/>
                     <ParameterEditor title="Parâmetros de Saída" params={newEventParams} setParams={setNewEventParams} />
+                    <select value={newEventNetwork.replication ?? 'none'} onChange={(e) => setNewEventNetwork({ ...newEventNetwork, replication: e.target.value as EventReplication })} title="Replicação" className="w-full mt-2 bg-slate-700 border border-slate-600 rounded p-1 text-xs">
+                        {eventReplicationModes.map(mode => <option key={mode} value={mode}>{EVENT_REPLICATION_LABELS[mode]}</option>)}
+                    </select>
+                    {newEventNetwork.replication && newEventNetwork.replication !== 'none' && (
+                        <div className="flex gap-4 mt-2 text-xs text-slate-300">
+                            <label className="flex items-center gap-2 cursor-pointer" title="Chamadas confiáveis sempre chegam, na ordem em que foram feitas">
+                                <input type="checkbox" checked={Boolean(newEventNetwork.isReliable)} onChange={(e) => setNewEventNetwork({ ...newEventNetwork, isReliable: e.target.checked })} className="accent-blue-500" />
+                                Reliable
+                            </label>
+                            {newEventNetwork.replication === 'server' && (
+                                <label className="flex items-center gap-2 cursor-pointer" title="Gera uma função _Validate que pode rejeitar a chamada">
+                                    <input type="checkbox" checked={Boolean(newEventNetwork.withValidation)} onChange={(e) => setNewEventNetwork({ ...newEventNetwork, withValidation: e.target.checked })} className="accent-blue-500" />
+                                    Com validação
+                                </label>
+                            )}
+                        </div>
+                    )}
                     <div className="flex gap-2 mt-2">
                         {editingEvent && <button onClick={resetEventForm} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 rounded-md">Cancelar</button>}
                         <button onClick={editingEvent ? handleUpdateEvent : handleCreateEvent} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 rounded-md">
@@ -600,7 +1322,12 @@ export const BlueprintCreator: React.FC = () => {
                     {customEvents.map(event => (
                         <div key={event.id} className="p-2 bg-slate-800 rounded-md border border-slate-700">
                             <div className="flex justify-between items-center">
-                                <p className="font-bold text-slate-200 text-sm">{event.name}</p>
+                                <div>
+                                    <p className="font-bold text-slate-200 text-sm">{event.name}</p>
+                                    {event.replication && event.replication !== 'none' && (
+                                        <p className="text-xs text-purple-300">{EVENT_REPLICATION_LABELS[event.replication]} · {event.isReliable ? 'Reliable' : 'Unreliable'}{event.withValidation && ' · Com validação'}</p>
+                                    )}
+                                </div>
                                 <div>
                                     <button onClick={() => handleEditEventStart(event)} className="p-1 text-slate-400 hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>
                                     <button onClick={() => handleDeleteEvent(event.id)} className="p-1 text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
@@ -609,6 +1336,37 @@ export const BlueprintCreator: React.FC = () => {
                              <button onClick={() => handleAddEventNode(event)} className="mt-2 w-full text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Adicionar Nó de Evento</button>
                         </div>
                     ))}
+                    <div className="mt-4 p-3 bg-slate-800/70 rounded-md border border-slate-700">
+                        <h4 className="text-sm font-bold text-slate-400 mb-2">{editingDispatcher ? 'Editar Event Dispatcher' : 'Event Dispatchers'}</h4>
+                        <input type="text" placeholder="Nome do Dispatcher" value={newDispatcherName} onChange={(e) => setNewDispatcherName(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"/>
+                        <ParameterEditor title="Parâmetros" params={newDispatcherParams} setParams={setNewDispatcherParams} />
+                        <div className="flex gap-2 mt-2">
+                            {editingDispatcher && <button onClick={resetDispatcherForm} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 rounded-md">Cancelar</button>}
+                            <button onClick={editingDispatcher ? handleUpdateDispatcher : handleCreateDispatcher} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 rounded-md">
+                                {editingDispatcher ? 'Salvar' : <><PlusIcon className="w-4 h-4" />Criar</>}
+                            </button>
+                        </div>
+                    </div>
+                    {eventDispatchers.map(dispatcher => (
+                        <div key={dispatcher.id} className="p-2 bg-slate-800 rounded-md border border-slate-700">
+                            <div className="flex justify-between items-center">
+                                <div>
+                                    <p className="font-bold text-slate-200 text-sm">{dispatcher.name}</p>
+                                    <p className="text-xs text-slate-500 font-mono">({dispatcher.parameters.map(p => formatPinType(parameterPinType(p))).join(', ')})</p>
+                                </div>
+                                <div>
+                                    <button onClick={() => handleEditDispatcherStart(dispatcher)} className="p-1 text-slate-400 hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => handleDeleteDispatcher(dispatcher)} className="p-1 text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            </div>
+                            <div className="mt-2 grid grid-cols-4 gap-1">
+                                <button onClick={() => handleAddDispatcherNode(dispatcher, 'call')} className="text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Call</button>
+                                <button onClick={() => handleAddDispatcherNode(dispatcher, 'bind')} className="text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Bind</button>
+                                <button onClick={() => handleAddDispatcherNode(dispatcher, 'unbind')} className="text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Unbind</button>
+                                <button onClick={() => handleAssignDispatcher(dispatcher)} className="text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded" title="Cria um evento com a assinatura do dispatcher, já vinculado">Atribuir</button>
+                            </div>
+                        </div>
+                    ))}
                 </div>
             </>
         );
@@ -619,6 +1377,10 @@ export const BlueprintCreator: React.FC = () => {
                     <input type="text" placeholder="Nome da Função" value={newFunctionName} onChange={(e) => setNewFunctionName(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"/>
                     <ParameterEditor title="Parâmetros de Entrada" params={newFunctionParams} setParams={setNewFunctionParams} />
                     <ParameterEditor title="Parâmetros de Saída" params={newFunctionOutputs} setParams={setNewFunctionOutputs} />
+                    <label className="flex items-center gap-2 mt-2 text-xs text-slate-300 cursor-pointer" title="Funções puras não têm pinos de execução e não devem alterar o estado do Blueprint">
+                        <input type="checkbox" checked={newFunctionIsPure} onChange={(e) => setNewFunctionIsPure(e.target.checked)} className="accent-blue-500" />
+                        Pura
+                    </label>
                     <div className="flex gap-2 mt-2">
                         {editingFunction && (
                             <button onClick={resetFunctionForm} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 rounded-md">Cancelar</button>
@@ -632,18 +1394,106 @@ export const BlueprintCreator: React.FC = () => {
                      {customFunctions.map(func => (
                         <div key={func.id} className="p-2 bg-slate-800 rounded-md border border-slate-700">
                             <div className="flex justify-between items-center">
-                                <p className="font-bold text-slate-200 text-sm">{func.name}</p>
+                                <div>
+                                    <p className="font-bold text-slate-200 text-sm">{func.name}</p>
+                                    {func.isPure && <p className="text-xs text-green-400">Pura</p>}
+                                </div>
                                 <div className="flex items-center">
                                     <button onClick={() => handleEditFunctionStart(func)} className="p-1 text-slate-400 hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>
                                     <button onClick={() => handleDeleteFunction(func.id)} className="p-1 text-slate-400 hover:text-red-400"><TrashIcon className="w-4 h-4" /></button>
                                 </div>
                             </div>
-                            <button onClick={() => handleAddFunctionCallNode(func)} className="mt-2 w-full text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Adicionar Nó de Chamada</button>
+                            <div className="mt-2 flex gap-2">
+                                <button onClick={() => setActiveGraphId(func.id)} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Abrir Grafo</button>
+                                <button onClick={() => handleAddFunctionCallNode(func)} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Adicionar Nó de Chamada</button>
+                            </div>
                         </div>
                     ))}
                 </div>
             </>
         );
+        if (activeTab === 'types') {
+            const deleteButton = (type: UserStruct | UserEnum, label: string) => {
+                const usages = findUserTypeUsages(currentDocument(history), type.name);
+                return (
+                    <button
+                        onClick={() => handleDeleteUserType(type, label)}
+                        disabled={usages.length > 0}
+                        title={usages.length > 0 ? `Em uso por: ${usages.join(', ')}` : undefined}
+                        className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400 disabled:cursor-not-allowed"
+                    >
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                );
+            };
+            return (
+                <div className="flex-1 overflow-y-auto space-y-2 pr-2">
+                    <div className="p-3 bg-slate-800/70 rounded-md border border-slate-700">
+                        <h4 className="text-sm font-bold text-slate-400 mb-2">{editingStruct ? 'Editar Estrutura' : 'Estruturas'}</h4>
+                        <input type="text" placeholder="Nome da Estrutura" value={newStructName} onChange={(e) => setNewStructName(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"/>
+                        <ParameterEditor title="Campos" params={newStructFields} setParams={setNewStructFields} types={fieldTypesFor(userTypes, editingStruct)} />
+                        <div className="flex gap-2 mt-2">
+                            {editingStruct && <button onClick={resetStructForm} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 rounded-md">Cancelar</button>}
+                            <button onClick={editingStruct ? handleUpdateStruct : handleCreateStruct} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 rounded-md">
+                                {editingStruct ? 'Salvar' : <><PlusIcon className="w-4 h-4" />Criar</>}
+                            </button>
+                        </div>
+                    </div>
+                    {userStructs.map(struct => (
+                        <div key={struct.id} className="p-2 bg-slate-800 rounded-md border border-slate-700">
+                            <div className="flex justify-between items-center">
+                                <div>
+                                    <p className="font-bold text-slate-200 text-sm">{struct.name}</p>
+                                    <p className="text-xs text-slate-500 font-mono">{'{'}{struct.fields.map(f => `${f.name}: ${formatPinType(parameterPinType(f))}`).join(', ')}{'}'}</p>
+                                </div>
+                                <div className="flex items-center">
+                                    <button onClick={() => handleEditStructStart(struct)} className="p-1 text-slate-400 hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>
+                                    {deleteButton(struct, `Excluir estrutura '${struct.name}'`)}
+                                </div>
+                            </div>
+                            <div className="mt-2 flex gap-2">
+                                <button onClick={() => handleAddUserTypeNode({ kind: 'make', struct })} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Make</button>
+                                <button onClick={() => handleAddUserTypeNode({ kind: 'break', struct })} className="flex-1 text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Break</button>
+                            </div>
+                        </div>
+                    ))}
+                    <div className="mt-4 p-3 bg-slate-800/70 rounded-md border border-slate-700">
+                        <h4 className="text-sm font-bold text-slate-400 mb-2">{editingEnum ? 'Editar Enum' : 'Enums'}</h4>
+                        <input type="text" placeholder="Nome do Enum" value={newEnumName} onChange={(e) => setNewEnumName(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"/>
+                        <h5 className="text-xs font-bold text-slate-500 my-2">Entradas</h5>
+                        {newEnumEntries.map((entry, index) => (
+                            <div key={index} className="flex gap-1 mb-1 items-center">
+                                <input type="text" placeholder="Nome" value={entry} onChange={e => setNewEnumEntries(prev => prev.map((p, i) => i === index ? e.target.value : p))} className="flex-1 w-0 bg-slate-700 border border-slate-600 rounded p-1 text-xs"/>
+                                <button onClick={() => setNewEnumEntries(prev => prev.filter((_, i) => i !== index))} disabled={newEnumEntries.length === 1} className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-40"><TrashIcon className="w-3 h-3"/></button>
+                            </div>
+                        ))}
+                        <button onClick={() => setNewEnumEntries(prev => [...prev, `NewEnumerator${prev.length}`])} className="w-full text-xs py-1 my-1 bg-slate-700 hover:bg-slate-600 rounded">Adicionar Entrada</button>
+                        {!areEnumEntriesValid && <p className="text-xs text-red-400">As entradas precisam ter nomes únicos e não vazios.</p>}
+                        <div className="flex gap-2 mt-2">
+                            {editingEnum && <button onClick={resetEnumForm} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-600 hover:bg-slate-700 rounded-md">Cancelar</button>}
+                            <button onClick={editingEnum ? handleUpdateEnum : handleCreateEnum} className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 rounded-md">
+                                {editingEnum ? 'Salvar' : <><PlusIcon className="w-4 h-4" />Criar</>}
+                            </button>
+                        </div>
+                    </div>
+                    {userEnums.map(userEnum => (
+                        <div key={userEnum.id} className="p-2 bg-slate-800 rounded-md border border-slate-700">
+                            <div className="flex justify-between items-center">
+                                <div>
+                                    <p className="font-bold text-slate-200 text-sm">{userEnum.name}</p>
+                                    <p className="text-xs text-slate-500 font-mono">{userEnum.entries.join(' | ')}</p>
+                                </div>
+                                <div className="flex items-center">
+                                    <button onClick={() => handleEditEnumStart(userEnum)} className="p-1 text-slate-400 hover:text-blue-400"><EditIcon className="w-4 h-4" /></button>
+                                    {deleteButton(userEnum, `Excluir enum '${userEnum.name}'`)}
+                                </div>
+                            </div>
+                            <button onClick={() => handleAddUserTypeNode({ kind: 'switch', userEnum })} className="mt-2 w-full text-xs py-1 px-2 bg-slate-700 hover:bg-slate-600 rounded">Switch</button>
+                        </div>
+                    ))}
+                </div>
+            );
+        }
         if (activeTab === 'nodes') return (
             <>
                 <div className="flex-1 overflow-y-auto space-y-4 p-2 pr-1">
@@ -666,9 +1516,49 @@ export const BlueprintCreator: React.FC = () => {
                 </div>
             </>
         );
+        if (activeTab === 'debug') return (
+            <DebuggerPanel
+                eventNodes={eventNodes}
+                selectedEventId={selectedDebugEventId}
+                onSelectEvent={setDebugEventId}
+                session={debugSessionRef.current}
+                breakpointCount={breakpoints.size}
+                onStart={handleDebugStart}
+                onStep={handleDebugStep}
+                onContinue={handleDebugContinue}
+                onStop={handleDebugStop}
+                onClearBreakpoints={() => setBreakpoints(new Set())}
+            />
+        );
+        if (activeTab === 'history') return (
+            <>
+                <div className="mb-4 flex gap-2">
+                    <button onClick={() => setHistory(undo)} disabled={!canUndo(history)} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-700 hover:bg-slate-600 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"><UndoIcon className="w-4 h-4" />Desfazer</button>
+                    <button onClick={() => setHistory(redo)} disabled={!canRedo(history)} className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm bg-slate-700 hover:bg-slate-600 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"><RedoIcon className="w-4 h-4" />Refazer</button>
+                </div>
+                <div className="flex-1 overflow-y-auto space-y-1 pr-2">
+                    {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+                        <button
+                            key={`${index}-${entry.timestamp}`}
+                            onClick={() => setHistory(prev => jumpTo(prev, index))}
+                            className={`w-full text-left p-2 rounded-md border transition-colors ${
+                                index === history.index
+                                    ? 'bg-blue-600/20 border-blue-500 text-white'
+                                    : index > history.index
+                                        ? 'bg-slate-800/40 border-slate-700 text-slate-500 hover:bg-slate-700/50'
+                                        : 'bg-slate-800 border-slate-700 text-slate-200 hover:bg-slate-700'
+                            }`}
+                        >
+                            <p className="text-sm truncate">{entry.label}</p>
+                            <p className="text-xs text-slate-500">{new Date(entry.timestamp).toLocaleTimeString()}</p>
+                        </button>
+                    ))}
+                </div>
+            </>
+        );
     };
 
-    const TabButton: React.FC<{ tabId: 'variables' | 'events' | 'functions' | 'nodes'; icon: React.ReactNode; label: string }> = ({ tabId, icon, label }) => (
+    const TabButton: React.FC<{ tabId: 'variables' | 'components' | 'events' | 'functions' | 'types' | 'nodes' | 'history' | 'debug'; icon: React.ReactNode; label: string }> = ({ tabId, icon, label }) => (
         <button
             onClick={() => setActiveTab(tabId)}
             title={label}
@@ -684,63 +1574,218 @@ export const BlueprintCreator: React.FC = () => {
     return (
         <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             <div className="flex flex-col h-full bg-slate-800/50 rounded-lg border border-slate-700 shadow-lg min-h-[600px]">
-                <div className="p-4 border-b border-slate-700">
-                    <h2 className="text-xl font-bold text-slate-200">Editor de Blueprints</h2>
+                <div className="p-4 border-b border-slate-700 flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-200">Editor de Blueprints</h2>
+                        {lastAutosave && (
+                            <p className="text-xs text-slate-500">Salvo automaticamente às {lastAutosave.toLocaleTimeString()}</p>
+                        )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button
+                            onClick={() => setHistory(undo)}
+                            disabled={!canUndo(history)}
+                            title="Desfazer (Ctrl+Z)"
+                            className="p-1.5 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <UndoIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setHistory(redo)}
+                            disabled={!canRedo(history)}
+                            title="Refazer (Ctrl+Shift+Z)"
+                            className="p-1.5 rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <RedoIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => updateActiveGraph('Organizar automaticamente', autoLayoutGraph)}
+                            title="Reorganiza os nós seguindo o fluxo de execução"
+                            className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+                        >
+                            Organizar
+                        </button>
+                        <button
+                            onClick={handleNewProject}
+                            className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+                        >
+                            Novo
+                        </button>
+                        <button
+                            onClick={() => projectFileInputRef.current?.click()}
+                            className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+                        >
+                            Abrir
+                        </button>
+                        <button
+                            onClick={handleSaveProject}
+                            title="Baixa o projeto como um arquivo JSON"
+                            className="px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+                        >
+                            Salvar
+                        </button>
+                        <input ref={projectFileInputRef} type="file" accept=".json,application/json" onChange={handleOpenProject} className="hidden" />
+                        <button
+                            onClick={() => setIsImportDialogOpen(true)}
+                            title="Cola nós copiados do editor de Blueprint do UE5"
+                            className="inline-flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+                        >
+                            Importar do Unreal
+                        </button>
+                        <CopyForUnrealButton graphData={{ ...visibleGraph, customEvents, eventDispatchers }} />
+                    </div>
                 </div>
+                {projectError && (
+                    <div className="px-4 pt-3">
+                        <p className="text-sm text-red-400">{projectError}</p>
+                    </div>
+                )}
+                {editorWarnings.length > 0 && (
+                    <div className="px-4 pt-3">
+                        <CorrectionSummary unresolvedProblems={editorWarnings} />
+                    </div>
+                )}
+                {isImportDialogOpen && (
+                    <ImportFromUnrealDialog onImport={handleImportFromUnreal} onClose={() => setIsImportDialogOpen(false)} />
+                )}
                 
                 <div className="flex-grow flex overflow-hidden">
                     <div className="w-80 bg-slate-900/40 border-r border-slate-700 flex flex-col">
                         <div className="flex-shrink-0 flex border-b border-slate-700">
                             <TabButton tabId="variables" icon={<VariableIcon className="w-5 h-5"/>} label="Variáveis" />
+                            <TabButton tabId="components" icon={<ComponentIcon className="w-5 h-5"/>} label="Componentes" />
                             <TabButton tabId="events" icon={<BoltIcon className="w-5 h-5"/>} label="Eventos" />
                             <TabButton tabId="functions" icon={<FunctionIcon className="w-5 h-5"/>} label="Funções" />
+                            <TabButton tabId="types" icon={<BracesIcon className="w-5 h-5"/>} label="Tipos" />
                             <TabButton tabId="nodes" icon={<BlocksIcon className="w-5 h-5"/>} label="Nós" />
+                            <TabButton tabId="history" icon={<HistoryIcon className="w-5 h-5"/>} label="Histórico" />
+                            <TabButton tabId="debug" icon={<BugIcon className="w-5 h-5"/>} label="Depurar" />
                         </div>
                         <div className="p-2 flex flex-col flex-grow overflow-hidden">
                             {renderSidebarContent()}
                         </div>
                     </div>
                     
-                    <div ref={visualizerContainerRef} className="flex-1 h-full relative">
-                         <BlueprintVisualizer
-                            graphData={graphData}
-                            isInteractive={true}
-                            onGraphChange={setGraphData}
-                            onCanvasClick={handleCanvasClick}
-                         />
-                         {nodePickerState.visible && (
-                            <NodePicker
-                                x={nodePickerState.screenX}
-                                y={nodePickerState.screenY}
-                                nodeLibrary={nodeLibrary}
-                                onPick={handleNodePick}
-                                onClose={() => setNodePickerState({ ...nodePickerState, visible: false })}
-                            />
-                        )}
+                    <div className="flex-1 h-full flex flex-col overflow-hidden">
+                        <div className="flex-shrink-0 flex overflow-x-auto border-b border-slate-700 bg-slate-900/40 text-xs">
+                            {[{ id: EVENT_GRAPH_ID, name: 'Event Graph' }, ...customFunctions].map(tab => (
+                                <button
+                                    key={tab.id}
+                                    onClick={() => setActiveGraphId(tab.id)}
+                                    className={`flex items-center gap-1 px-3 py-2 border-b-2 whitespace-nowrap transition-colors ${
+                                        (activeFunction?.id ?? EVENT_GRAPH_ID) === tab.id ? 'border-blue-500 text-white' : 'border-transparent text-slate-400 hover:bg-slate-700/50'
+                                    }`}
+                                >
+                                    {tab.id !== EVENT_GRAPH_ID && <FunctionIcon className="w-3 h-3" />}
+                                    {tab.name}
+                                </button>
+                            ))}
+                        </div>
+                        <div ref={visualizerContainerRef} className="flex-1 relative">
+                             <BlueprintVisualizer
+                                key={activeFunction?.id ?? EVENT_GRAPH_ID}
+                                graphData={visibleGraph}
+                                isInteractive={true}
+                                onGraphChange={handleVisualizerChange}
+                                onCanvasClick={handleCanvasClick}
+                                nodeMarkers={nodeMarkers}
+                                breakpoints={breakpoints}
+                                onToggleBreakpoint={handleToggleBreakpoint}
+                                activeNodeId={debugSessionRef.current?.pending?.nodeId}
+                                activeConnection={debugSessionRef.current?.pending?.connection}
+                                focusRequest={focusRequest}
+                                customEvents={customEvents}
+                             />
+                             {nodePickerState.visible && (
+                                <NodePicker
+                                    x={nodePickerState.screenX}
+                                    y={nodePickerState.screenY}
+                                    nodeLibrary={nodeLibrary}
+                                    onPick={handleNodePick}
+                                    onClose={() => setNodePickerState({ ...nodePickerState, visible: false })}
+                                />
+                            )}
+                        </div>
                     </div>
                 </div>
 
+                {compileResult && (
+                    <CompilerResultsPanel
+                        messages={compileResult.messages}
+                        isOutdated={compileResult.document !== currentDocument(history)}
+                        onClose={() => setCompileResult(null)}
+                    />
+                )}
+                {isClassSettingsOpen && (
+                    <ClassSettingsPanel settings={classSettings} onChange={setClassSettings} onClose={() => setIsClassSettingsOpen(false)} />
+                )}
+
                  <div className="p-4 border-t border-slate-700">
-                    <button
-                        onClick={handleConvertToCpp}
-                        disabled={isLoading}
-                        className="w-full inline-flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 disabled:scale-100"
-                    >
-                        {isLoading ? (
-                            <>
-                                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                </svg>
-                                Convertendo...
-                            </>
-                        ) : (
-                            <>
-                                <MagicWandIcon className="w-5 h-5 mr-2" />
-                                Converter para C++
-                            </>
-                        )}
-                    </button>
+                    <div className="flex flex-wrap items-center justify-center gap-2 mb-3 text-xs">
+                        <span className="text-slate-400">Gerador:</span>
+                        <div className="flex bg-slate-700 rounded-md p-1">
+                            <button
+                                onClick={() => setGeneratorMode('local')}
+                                title="Gera código reproduzível sem acesso à rede"
+                                className={`px-3 py-1 rounded ${generatorMode === 'local' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+                            >
+                                Local (determinístico)
+                            </button>
+                            <button
+                                onClick={() => setGeneratorMode('ai')}
+                                title="Usa o provedor de IA configurado"
+                                className={`px-3 py-1 rounded ${generatorMode === 'ai' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+                            >
+                                IA
+                            </button>
+                        </div>
+                        <label className="flex items-center gap-2 ml-2 text-slate-300 cursor-pointer" title="Gera o código mesmo que a compilação encontre erros">
+                            <input
+                                type="checkbox"
+                                checked={convertDespiteErrors}
+                                onChange={(e) => setConvertDespiteErrors(e.target.checked)}
+                                className="accent-blue-500"
+                            />
+                            Converter mesmo com erros
+                        </label>
+                        <button
+                            onClick={() => setIsClassSettingsOpen(open => !open)}
+                            title="Nome, classe pai e módulo da classe C++ gerada"
+                            className={`ml-2 px-3 py-1 rounded font-mono ${isClassSettingsOpen ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                        >
+                            {cppClassNameOf(classSettings)} : {classSettings.parentClass}
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleCompile}
+                            disabled={isLoading}
+                            title="Verifica o grafo sem gerar código"
+                            className="px-5 py-3 text-base font-medium rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Compilar
+                        </button>
+                        <button
+                            onClick={handleConvertToCpp}
+                            disabled={isLoading}
+                            className="flex-1 inline-flex items-center justify-center px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-slate-500 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105 disabled:scale-100"
+                        >
+                            {isLoading ? (
+                                <>
+                                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                    </svg>
+                                    Convertendo...
+                                </>
+                            ) : (
+                                <>
+                                    <MagicWandIcon className="w-5 h-5 mr-2" />
+                                    Converter para C++
+                                </>
+                            )}
+                        </button>
+                    </div>
                 </div>
             </div>
             <CppCodeDisplay code={cppCode} isLoading={isLoading} error={error} />
@@ -1,21 +1,38 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { GraphData, GraphNode, GraphPin } from '../services/geminiService';
-import { PaletteIcon, XIcon } from './icons';
+import type { CustomEvent, GraphConnection, GraphData, GraphNode, GraphPin } from '../services/geminiService';
+import type { GraphChange } from '../services/editorHistory';
+import { arePinsCompatible } from '../services/graphValidation';
+import { canConnectWithConversion, connectWithConversion } from '../services/conversionNodes';
+import { autoLayoutGraph, calculateNodeHeight, NODE_HEADER_HEIGHT, NODE_WIDTH, PIN_HEIGHT, PIN_OFFSET_Y } from '../services/graphLayout';
+import { createSnippet, parseSnippet, pasteSnippet, serializeSnippet, GraphSnippet } from '../services/graphClipboard';
+import { formatPinType } from '../services/pinTypes';
+import { EVENT_REPLICATION_LABELS, isRemoteEvent } from '../services/eventReplication';
+import { pinTypeColor } from '../services/typeCatalogue';
+import { LayoutIcon, PaletteIcon, XIcon } from './icons';
 
 interface BlueprintVisualizerProps {
   graphData: GraphData;
   isInteractive?: boolean;
-  onGraphChange?: (newData: GraphData) => void;
+  onGraphChange?: (newData: GraphData, change?: GraphChange) => void;
   onCanvasClick?: (event: { screenX: number; screenY: number; graphX: number; graphY: number }) => void;
+  nodeMarkers?: { [nodeId: string]: 'error' | 'warning' }; // Compiler results to flag on the nodes
+  breakpoints?: Set<string>;
+  onToggleBreakpoint?: (nodeId: string) => void;
+  // Debugger position: the node about to run and the exec wire that led to it.
+  activeNodeId?: string | null;
+  activeConnection?: GraphConnection | null;
+  // Selects and centers a node; each new request object moves the view again, even for the same node.
+  focusRequest?: { nodeId: string } | null;
+  customEvents?: CustomEvent[]; // Definitions of the custom event nodes; defaults to graphData.customEvents
 }
 
-const NODE_WIDTH = 220;
-const NODE_HEADER_HEIGHT = 30;
-const PIN_HEIGHT = 22;
-const PIN_OFFSET_Y = 10;
 const PIN_TEXT_OFFSET = 15;
 const PIN_SIZE = 6;
 
+const MARKER_COLORS = { error: '#EF4444', warning: '#F59E0B' };
+const ACTIVE_EXEC_COLOR = '#FACC15';
+const REPLICATION_BADGE_COLOR = '#7C3AED';
+
 const INITIAL_NODE_COLORS = {
   event: '#A93226',
   function: '#1F618D',
@@ -26,24 +43,39 @@ const INITIAL_NODE_COLORS = {
   default: '#566573',
 };
 
-const DATA_TYPE_COLORS: { [key: string]: string } = {
-    'Exec': '#FFFFFF',
-    'Boolean': '#C0392B',
-    'Integer': '#2ECC71',
-    'Float': '#1ABC9C',
-    'String': '#F39C12',
-    'Name': '#D2B4DE',
-    'Vector': '#F1C40F',
-    'Rotator': '#A569BD',
-    'Transform': '#E67E22',
-    'Object': '#3498DB',
-    'default': '#95A5A6'
-};
-
-const calculateNodeHeight = (node: GraphNode) => {
-    const inputPins = node.pins.filter(p => p.direction === 'in').length;
-    const outputPins = node.pins.filter(p => p.direction === 'out').length;
-    return NODE_HEADER_HEIGHT + PIN_OFFSET_Y + Math.max(inputPins, outputPins) * PIN_HEIGHT;
+// Container pins use Unreal's shapes: a grid for arrays, braces for sets and a key/value pair for maps.
+const DataPinShape = ({ pin, cx, cy }: { pin: GraphPin, cx: number, cy: number }) => {
+    const color = pinTypeColor(pin.dataType);
+    const hitArea = <circle cx={cx} cy={cy} r={PIN_SIZE + 1} fill="transparent" />;
+    switch (pin.containerType) {
+        case 'Array':
+            return (
+                <g>
+                    {hitArea}
+                    {[-1, 0, 1].flatMap(row => [-1, 0, 1].map(col => (
+                        <rect key={`${row}${col}`} x={cx + col * 4 - 1.5} y={cy + row * 4 - 1.5} width={3} height={3} fill={color} />
+                    )))}
+                </g>
+            );
+        case 'Set':
+            return (
+                <g>
+                    {hitArea}
+                    <path d={`M ${cx - 2} ${cy - 6} Q ${cx - 5} ${cy - 6} ${cx - 5} ${cy - 3} V ${cy - 1} L ${cx - 7} ${cy} L ${cx - 5} ${cy + 1} V ${cy + 3} Q ${cx - 5} ${cy + 6} ${cx - 2} ${cy + 6}`} stroke={color} strokeWidth="2" fill="none" />
+                    <path d={`M ${cx + 2} ${cy - 6} Q ${cx + 5} ${cy - 6} ${cx + 5} ${cy - 3} V ${cy - 1} L ${cx + 7} ${cy} L ${cx + 5} ${cy + 1} V ${cy + 3} Q ${cx + 5} ${cy + 6} ${cx + 2} ${cy + 6}`} stroke={color} strokeWidth="2" fill="none" />
+                </g>
+            );
+        case 'Map':
+            return (
+                <g>
+                    {hitArea}
+                    <rect x={cx - 7} y={cy - 4} width={6} height={8} rx={1} fill={color} />
+                    <rect x={cx + 1} y={cy - 4} width={6} height={8} rx={1} fill={pinTypeColor(pin.valueType ?? pin.dataType)} />
+                </g>
+            );
+        default:
+            return <circle cx={cx} cy={cy} r={PIN_SIZE} fill={color} />;
+    }
 };
 
 const getPinPosition = (node: GraphNode, pinId: string): { x: number, y: number } => {
@@ -59,26 +91,7 @@ const getPinPosition = (node: GraphNode, pinId: string): { x: number, y: number
     return { x, y };
 };
 
-const arePinsCompatible = (
-  fromPin: GraphPin,
-  toPin: GraphPin,
-  fromNodeId: string,
-  toNodeId: string
-): boolean => {
-  // Connection must be from an output pin to an input pin.
-  if (fromPin.direction !== 'out' || toPin.direction !== 'in') return false;
-  // Can't connect to a pin on the same node.
-  if (fromNodeId === toNodeId) return false;
-  // Pin types must match (e.g., exec to exec, data to data).
-  if (fromPin.type !== toPin.type) return false;
-  // If they are data pins, their data types must also match.
-  if (fromPin.type === 'data' && fromPin.dataType !== toPin.dataType) return false;
-  
-  return true;
-};
-
-
-const NodeDetailPanel = ({ node, graphData, onClose }: { node: GraphNode, graphData: GraphData, onClose: () => void }) => {
+const NodeDetailPanel = ({ node, graphData, onClose, isBreakpoint, onToggleBreakpoint }: { node: GraphNode, graphData: GraphData, onClose: () => void, isBreakpoint?: boolean, onToggleBreakpoint?: () => void }) => {
     return (
         <div className="absolute top-0 right-0 h-full w-80 bg-slate-800/95 border-l border-slate-600 shadow-2xl z-30 p-4 text-white flex flex-col transition-transform transform translate-x-0">
             <div className="flex justify-between items-center border-b border-slate-600 pb-2 mb-4">
@@ -88,6 +101,15 @@ const NodeDetailPanel = ({ node, graphData, onClose }: { node: GraphNode, graphD
                 </button>
             </div>
             <div className="flex-grow overflow-y-auto pr-2">
+                {onToggleBreakpoint && (
+                    <button
+                        onClick={onToggleBreakpoint}
+                        className="mb-4 w-full text-xs py-1.5 px-2 rounded-md bg-slate-700 hover:bg-slate-600"
+                        title="Atalho: F9"
+                    >
+                        {isBreakpoint ? 'Remover breakpoint' : 'Adicionar breakpoint'}
+                    </button>
+                )}
                 <div className="mb-4">
                     <h4 className="font-semibold text-slate-400 text-sm mb-1">Tipo</h4>
                     <p className="text-sm capitalize bg-slate-700/50 px-2 py-1 rounded-md inline-block">{node.type.replace(/_/g, ' ')}</p>
@@ -105,7 +127,7 @@ const NodeDetailPanel = ({ node, graphData, onClose }: { node: GraphNode, graphD
                             <div className="w-4 h-4 mr-2 flex items-center justify-center">
                                 {pin.direction === 'in' ? '→' : '←'}
                             </div>
-                            <span className="font-bold mr-2" style={{color: DATA_TYPE_COLORS[pin.dataType] || DATA_TYPE_COLORS.default}}>{pin.dataType}</span>
+                            <span className="font-bold mr-2" style={{color: pinTypeColor(pin.dataType)}}>{formatPinType(pin)}</span>
                             <span>{pin.name || '(Exec)'}</span>
                         </div>
                      ))}
@@ -125,14 +147,17 @@ const NodeDetailPanel = ({ node, graphData, onClose }: { node: GraphNode, graphD
 };
 
 
-export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphData, isInteractive = true, onGraphChange, onCanvasClick }) => {
+export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphData, isInteractive = true, onGraphChange, onCanvasClick, nodeMarkers, breakpoints, onToggleBreakpoint, activeNodeId, activeConnection, focusRequest, customEvents = graphData.customEvents }) => {
     const [localGraphData, setLocalGraphData] = useState<GraphData>(graphData);
     const [viewTransform, setViewTransform] = useState({ x: 50, y: 50, scale: 1 });
     const [isPanning, setIsPanning] = useState(false);
-    const [draggingNode, setDraggingNode] = useState<{ id: string; initialX: number; initialY: number; } | null>(null);
+    // Dragging any selected node moves the whole selection, so the initial position of each one is kept.
+    const [draggingNode, setDraggingNode] = useState<{ id: string; initialPositions: { [nodeId: string]: { x: number; y: number } }; } | null>(null);
     const [nodeColors, setNodeColors] = useState(INITIAL_NODE_COLORS);
     const [isColorPickerVisible, setIsColorPickerVisible] = useState(false);
-    const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+    const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+    const [selectedConnection, setSelectedConnection] = useState<GraphConnection | null>(null);
+    const [marquee, setMarquee] = useState<{ start: { x: number; y: number }; current: { x: number; y: number }; baseSelection: string[] } | null>(null);
     const [draggingConnection, setDraggingConnection] = useState<{ fromPin: GraphPin; fromNode: GraphNode; mousePosition: { x: number; y: number; }; } | null>(null);
     const [hoveredPinInfo, setHoveredPinInfo] = useState<{ pin: GraphPin; node: GraphNode } | null>(null);
     
@@ -141,10 +166,13 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
     const interactionStartRef = useRef({ x: 0, y: 0 });
     const wasDraggedRef = useRef(false);
     const isPotentialClickRef = useRef(false);
+    const cursorPositionRef = useRef<{ x: number; y: number } | null>(null); // In graph coordinates; paste target
 
     useEffect(() => {
         setLocalGraphData(graphData);
-        setSelectedNode(null);
+        // Keep the selection across edits that come back from the parent; drop nodes that no longer exist.
+        setSelectedNodeIds(prev => prev.filter(id => graphData.nodes.some(node => node.id === id)));
+        setSelectedConnection(null);
 
         if (!isInteractive) {
             // Auto-fit logic
@@ -176,10 +204,22 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
                     setViewTransform({ x: newX, y: newY, scale });
                 }
             }
-        } else {
-             setViewTransform({ x: 50, y: 50, scale: 1 });
         }
+        // Interactive graphs keep the current pan/zoom, so edits and undo don't move the view.
     }, [graphData, isInteractive]);
+
+    useEffect(() => {
+        const node = focusRequest && graphData.nodes.find(n => n.id === focusRequest.nodeId);
+        if (!node || !containerRef.current) return;
+        const { width, height } = containerRef.current.getBoundingClientRect();
+        setViewTransform(prev => ({
+            ...prev,
+            x: width / 2 - (node.x + NODE_WIDTH / 2) * prev.scale,
+            y: height / 2 - (node.y + calculateNodeHeight(node) / 2) * prev.scale,
+        }));
+        setSelectedNodeIds([node.id]);
+        // Only a new request moves the view, not later edits of the graph.
+    }, [focusRequest]);
     
     const nodeMap = useRef(new Map<string, GraphNode>()).current;
     const pinMap = useRef(new Map<string, GraphPin>()).current;
@@ -199,29 +239,73 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
     }, [localGraphData.nodes, nodeMap, pinMap, pinToNodeMap]);
 
 
+    const toGraphPoint = useCallback((clientX: number, clientY: number) => {
+        const svgRect = svgRef.current?.getBoundingClientRect();
+        if (!svgRect) return { x: 0, y: 0 };
+        return {
+            x: (clientX - svgRect.left - viewTransform.x) / viewTransform.scale,
+            y: (clientY - svgRect.top - viewTransform.y) / viewTransform.scale,
+        };
+    }, [viewTransform]);
+
+    const commitGraphChange = useCallback((newGraphData: GraphData, label: string, coalesceKey?: string) => {
+        setLocalGraphData(newGraphData);
+        if (onGraphChange) {
+            onGraphChange(newGraphData, { label, coalesceKey });
+        }
+    }, [onGraphChange]);
+
     const handleNodeMouseDown = useCallback((e: React.MouseEvent, nodeId: string) => {
         if (!isInteractive) return;
         e.stopPropagation();
+        containerRef.current?.focus();
         const node = nodeMap.get(nodeId);
         if (!node) return;
-        setDraggingNode({ id: nodeId, initialX: node.x, initialY: node.y });
+        setSelectedConnection(null);
+
+        let selection = selectedNodeIds;
+        if (e.ctrlKey || e.metaKey || e.shiftKey) {
+            selection = selectedNodeIds.includes(nodeId) ? selectedNodeIds.filter(id => id !== nodeId) : [...selectedNodeIds, nodeId];
+            setSelectedNodeIds(selection);
+            if (!selection.includes(nodeId)) return;
+        } else if (!selectedNodeIds.includes(nodeId)) {
+            selection = [nodeId];
+            setSelectedNodeIds(selection);
+        }
+
+        const initialPositions: { [nodeId: string]: { x: number; y: number } } = {};
+        selection.forEach(id => {
+            const selected = nodeMap.get(id);
+            if (selected) initialPositions[id] = { x: selected.x, y: selected.y };
+        });
+        setDraggingNode({ id: nodeId, initialPositions });
         interactionStartRef.current = { x: e.clientX, y: e.clientY };
         wasDraggedRef.current = false;
-    }, [nodeMap, isInteractive]);
+    }, [nodeMap, isInteractive, selectedNodeIds]);
     
     const handleBackgroundMouseDown = useCallback((e: React.MouseEvent) => {
         if (!isInteractive) return;
         if (e.target === e.currentTarget) {
-            setIsPanning(true);
+            containerRef.current?.focus();
             interactionStartRef.current = { x: e.clientX, y: e.clientY };
-            setSelectedNode(null);
+            setSelectedConnection(null);
             setIsColorPickerVisible(false);
+            if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                // Box selection adds to the current selection.
+                const point = toGraphPoint(e.clientX, e.clientY);
+                setMarquee({ start: point, current: point, baseSelection: selectedNodeIds });
+                isPotentialClickRef.current = false;
+                return;
+            }
+            setIsPanning(true);
+            setSelectedNodeIds([]);
             isPotentialClickRef.current = true;
         }
-    }, [isInteractive]);
+    }, [isInteractive, selectedNodeIds, toGraphPoint]);
 
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
         if (!isInteractive) return;
+        cursorPositionRef.current = toGraphPoint(e.clientX, e.clientY);
         const dx = e.clientX - interactionStartRef.current.x;
         const dy = e.clientY - interactionStartRef.current.y;
 
@@ -232,47 +316,134 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
         if (draggingNode) {
             if(Math.abs(dx) > 5 || Math.abs(dy) > 5) {
                 wasDraggedRef.current = true;
-                 setSelectedNode(null);
             }
 
-            const newX = draggingNode.initialX + dx / viewTransform.scale;
-            const newY = draggingNode.initialY + dy / viewTransform.scale;
-            
             setLocalGraphData(prevData => {
-                 const newNodes = prevData.nodes.map(node =>
-                    node.id === draggingNode.id ? { ...node, x: newX, y: newY } : node
-                );
+                const newNodes = prevData.nodes.map(node => {
+                    const initial = draggingNode.initialPositions[node.id];
+                    return initial ? { ...node, x: initial.x + dx / viewTransform.scale, y: initial.y + dy / viewTransform.scale } : node;
+                });
                 return {...prevData, nodes: newNodes};
             });
+        } else if (marquee) {
+            const current = toGraphPoint(e.clientX, e.clientY);
+            const left = Math.min(marquee.start.x, current.x);
+            const right = Math.max(marquee.start.x, current.x);
+            const top = Math.min(marquee.start.y, current.y);
+            const bottom = Math.max(marquee.start.y, current.y);
+            const boxed = localGraphData.nodes
+                .filter(node => node.x < right && node.x + NODE_WIDTH > left && node.y < bottom && node.y + calculateNodeHeight(node) > top)
+                .map(node => node.id);
+            setMarquee({ ...marquee, current });
+            setSelectedNodeIds([...marquee.baseSelection, ...boxed.filter(id => !marquee.baseSelection.includes(id))]);
         } else if (isPanning) {
             setViewTransform(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }));
             interactionStartRef.current = { x: e.clientX, y: e.clientY };
         } else if (draggingConnection && svgRef.current) {
-            const svgRect = svgRef.current.getBoundingClientRect();
-            const mouseX = e.clientX - svgRect.left;
-            const mouseY = e.clientY - svgRect.top;
-            const transformedX = (mouseX - viewTransform.x) / viewTransform.scale;
-            const transformedY = (mouseY - viewTransform.y) / viewTransform.scale;
-            setDraggingConnection(prev => prev ? { ...prev, mousePosition: { x: transformedX, y: transformedY } } : null);
+            const mousePosition = toGraphPoint(e.clientX, e.clientY);
+            setDraggingConnection(prev => prev ? { ...prev, mousePosition } : null);
         }
-    }, [draggingNode, isPanning, viewTransform, isInteractive, draggingConnection]);
+    }, [draggingNode, isPanning, viewTransform, isInteractive, draggingConnection, marquee, localGraphData.nodes, toGraphPoint]);
 
     const handleMouseUp = useCallback(() => {
         if (!isInteractive) return;
         if (draggingNode) {
-            if (onGraphChange) {
-                onGraphChange(localGraphData);
-            }
-            if (!wasDraggedRef.current) {
-                const node = nodeMap.get(draggingNode.id);
-                setSelectedNode(node || null);
+            const movedIds = Object.keys(draggingNode.initialPositions);
+            if (wasDraggedRef.current && onGraphChange) {
+                const label = movedIds.length === 1 ? `Mover nó '${nodeMap.get(draggingNode.id)?.name ?? ''}'` : `Mover ${movedIds.length} nós`;
+                onGraphChange(localGraphData, { label, coalesceKey: `move-${[...movedIds].sort().join(',')}` });
             }
         }
         setIsPanning(false);
         setDraggingNode(null);
         setDraggingConnection(null);
+        setMarquee(null);
     }, [draggingNode, onGraphChange, localGraphData, nodeMap, isInteractive]);
 
+    const handleNodeClick = useCallback((e: React.MouseEvent, nodeId: string) => {
+        // A plain click on a node that was part of a larger selection narrows the selection to it.
+        if (!isInteractive || wasDraggedRef.current || e.ctrlKey || e.metaKey || e.shiftKey) return;
+        setSelectedNodeIds([nodeId]);
+    }, [isInteractive]);
+
+    const deleteSelection = useCallback(() => {
+        if (selectedConnection) {
+            const connections = localGraphData.connections.filter(c => c.fromPinId !== selectedConnection.fromPinId || c.toPinId !== selectedConnection.toPinId);
+            commitGraphChange({ ...localGraphData, connections }, 'Excluir conexão');
+            setSelectedConnection(null);
+            return;
+        }
+        if (selectedNodeIds.length === 0) return;
+        const removedPins = new Set(localGraphData.nodes.filter(n => selectedNodeIds.includes(n.id)).flatMap(n => n.pins.map(p => p.id)));
+        const label = selectedNodeIds.length === 1 ? `Excluir nó '${nodeMap.get(selectedNodeIds[0])?.name ?? ''}'` : `Excluir ${selectedNodeIds.length} nós`;
+        commitGraphChange({
+            ...localGraphData,
+            nodes: localGraphData.nodes.filter(n => !selectedNodeIds.includes(n.id)),
+            connections: localGraphData.connections.filter(c => !removedPins.has(c.fromPinId) && !removedPins.has(c.toPinId)),
+        }, label);
+        setSelectedNodeIds([]);
+    }, [selectedConnection, selectedNodeIds, localGraphData, nodeMap, commitGraphChange]);
+
+    const insertSnippet = useCallback((snippet: GraphSnippet, position: { x: number; y: number }, verb: string) => {
+        const result = pasteSnippet(localGraphData, snippet, position);
+        const count = result.nodeIds.length;
+        commitGraphChange(result.graphData, count === 1 ? `${verb} nó '${snippet.nodes[0].name}'` : `${verb} ${count} nós`);
+        setSelectedNodeIds(result.nodeIds);
+        setSelectedConnection(null);
+    }, [localGraphData, commitGraphChange]);
+
+    const handleCopy = useCallback((e: React.ClipboardEvent) => {
+        if (!isInteractive || selectedNodeIds.length === 0) return;
+        e.preventDefault();
+        e.clipboardData.setData('text/plain', serializeSnippet(createSnippet(localGraphData, selectedNodeIds)));
+    }, [isInteractive, selectedNodeIds, localGraphData]);
+
+    // Pasting needs an editor to report the change to; read-only result graphs can still be copied from.
+    const handlePaste = useCallback((e: React.ClipboardEvent) => {
+        if (!isInteractive || !onGraphChange) return;
+        const snippet = parseSnippet(e.clipboardData.getData('text/plain'));
+        if (!snippet) return;
+        e.preventDefault();
+        const fallback = { x: (50 - viewTransform.x) / viewTransform.scale, y: (50 - viewTransform.y) / viewTransform.scale };
+        insertSnippet(snippet, cursorPositionRef.current ?? fallback, 'Colar');
+    }, [isInteractive, onGraphChange, viewTransform, insertSnippet]);
+
+    const handleAutoArrange = useCallback(() => {
+        commitGraphChange(autoLayoutGraph(localGraphData), 'Organizar automaticamente');
+        setViewTransform(prev => ({ ...prev, x: 50, y: 50 }));
+    }, [localGraphData, commitGraphChange]);
+
+    const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+        if (!isInteractive) return;
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+            e.preventDefault();
+            if (!onGraphChange || selectedNodeIds.length === 0) return;
+            const snippet = createSnippet(localGraphData, selectedNodeIds);
+            const minX = Math.min(...snippet.nodes.map(node => node.x));
+            const minY = Math.min(...snippet.nodes.map(node => node.y));
+            insertSnippet(snippet, { x: minX + 40, y: minY + 40 }, 'Duplicar');
+        } else if (e.key === 'F9' && onToggleBreakpoint) {
+            e.preventDefault();
+            selectedNodeIds.forEach(onToggleBreakpoint);
+        } else if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            deleteSelection();
+        } else if (e.key === 'Escape') {
+            setSelectedNodeIds([]);
+            setSelectedConnection(null);
+        }
+    }, [isInteractive, deleteSelection, onGraphChange, selectedNodeIds, localGraphData, insertSnippet, onToggleBreakpoint]);
+
+    const handleConnectionMouseDown = useCallback((e: React.MouseEvent, connection: GraphConnection) => {
+        if (!isInteractive) return;
+        e.stopPropagation();
+        containerRef.current?.focus();
+        setSelectedNodeIds([]);
+        setSelectedConnection(connection);
+    }, [isInteractive]);
+
     const handleBackgroundMouseUp = useCallback((e: React.MouseEvent) => {
         if (!isInteractive || !isPotentialClickRef.current || e.target !== e.currentTarget) {
             return;
@@ -297,11 +468,21 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
     }, [isInteractive, onCanvasClick, viewTransform.x, viewTransform.y, viewTransform.scale]);
 
     const handlePinMouseDown = useCallback((e: React.MouseEvent, pin: GraphPin, node: GraphNode) => {
-        if (!isInteractive || pin.direction === 'in') return;
+        if (!isInteractive) return;
+        if (e.altKey) {
+            // Alt+click breaks every link on the pin, like in the Unreal editor.
+            e.stopPropagation();
+            const connections = localGraphData.connections.filter(c => c.fromPinId !== pin.id && c.toPinId !== pin.id);
+            if (connections.length !== localGraphData.connections.length) {
+                commitGraphChange({ ...localGraphData, connections }, 'Desconectar pinos');
+            }
+            return;
+        }
+        if (pin.direction === 'in') return;
         e.stopPropagation();
         const startPos = getPinPosition(node, pin.id);
         setDraggingConnection({ fromPin: pin, fromNode: node, mousePosition: startPos });
-    }, [isInteractive]);
+    }, [isInteractive, localGraphData, commitGraphChange]);
 
     const handlePinMouseUp = useCallback((e: React.MouseEvent, toPin: GraphPin, toNode: GraphNode) => {
         if (!isInteractive || !draggingConnection) return;
@@ -315,16 +496,16 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
             const connections = localGraphData.connections.filter(c => c.toPinId !== toPin.id);
             connections.push(newConnection);
 
-            const newGraphData = { ...localGraphData, connections };
-            setLocalGraphData(newGraphData);
-            if (onGraphChange) {
-                onGraphChange(newGraphData);
-            }
+            commitGraphChange({ ...localGraphData, connections }, 'Conectar pinos');
+        } else {
+            // Types Unreal converts between get a conversion node in the middle of the wire.
+            const converted = connectWithConversion(localGraphData, { node: fromNode, pin: fromPin }, { node: toNode, pin: toPin });
+            if (converted) commitGraphChange(converted.graph, `Conectar pinos com '${converted.node.name}'`);
         }
         
         // Always clear dragging state after a pin mouse up event
         setDraggingConnection(null);
-    }, [isInteractive, draggingConnection, localGraphData, onGraphChange]);
+    }, [isInteractive, draggingConnection, localGraphData, commitGraphChange]);
 
     const handleWheel = useCallback((e: React.WheelEvent) => {
         if (!isInteractive) return;
@@ -355,12 +536,17 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
         return <div className="p-4 text-slate-500">Não há dados para visualizar.</div>;
     }
     
-    const cursorClass = isInteractive ? (isPanning || draggingNode ? 'cursor-grabbing' : 'cursor-grab') : 'cursor-default';
+    const cursorClass = isInteractive ? (isPanning || draggingNode ? 'cursor-grabbing' : marquee ? 'cursor-crosshair' : 'cursor-grab') : 'cursor-default';
+    const detailNode = selectedNodeIds.length === 1 && !(draggingNode && wasDraggedRef.current) ? nodeMap.get(selectedNodeIds[0]) : undefined;
 
     return (
         <div
             ref={containerRef}
-            className={`relative w-full h-full bg-slate-900/70 rounded-md overflow-hidden ${cursorClass}`}
+            className={`relative w-full h-full bg-slate-900/70 rounded-md overflow-hidden focus:outline-none ${cursorClass}`}
+            tabIndex={isInteractive ? 0 : undefined}
+            onKeyDown={handleKeyDown}
+            onCopy={handleCopy}
+            onPaste={handlePaste}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseUp}
@@ -368,7 +554,14 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
         >
             {isInteractive && (
                 <>
-                <div className="absolute top-2 right-2 z-20">
+                <div className="absolute top-2 right-2 z-20 flex gap-2">
+                    <button
+                        onClick={handleAutoArrange}
+                        className="p-2 bg-slate-700/80 hover:bg-slate-600 rounded-full text-white transition-colors"
+                        title="Organizar Automaticamente"
+                    >
+                        <LayoutIcon className="w-5 h-5" />
+                    </button>
                     <button
                         onClick={() => setIsColorPickerVisible(!isColorPickerVisible)}
                         className="p-2 bg-slate-700/80 hover:bg-slate-600 rounded-full text-white transition-colors"
@@ -416,12 +609,38 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
                         const c2y = end.y;
 
                         const pathData = `M ${start.x} ${start.y} C ${c1x} ${c1y}, ${c2x} ${c2y}, ${end.x} ${end.y}`;
-                        const strokeColor = fromPin.type === 'exec' ? '#FFFFFF' : (DATA_TYPE_COLORS[fromPin.dataType] || DATA_TYPE_COLORS.default);
+                        const strokeColor = fromPin.type === 'exec' ? '#FFFFFF' : pinTypeColor(fromPin.dataType);
                         const strokeWidth = fromPin.type === 'exec' ? 2.5 : 2;
 
-                        return ( <path key={`${conn.fromPinId}-${conn.toPinId}-${index}`} d={pathData} stroke={strokeColor} strokeWidth={strokeWidth} fill="none" /> );
+                        const isSelected = selectedConnection?.fromPinId === conn.fromPinId && selectedConnection?.toPinId === conn.toPinId;
+
+                        return (
+                            <g key={`${conn.fromPinId}-${conn.toPinId}-${index}`}>
+                                {isSelected && <path d={pathData} stroke="#0EA5E9" strokeWidth={strokeWidth + 4} fill="none" opacity={0.6} />}
+                                <path d={pathData} stroke={strokeColor} strokeWidth={strokeWidth} fill="none" />
+                                {isInteractive && (
+                                    <path d={pathData} stroke="transparent" strokeWidth={12} fill="none" className="cursor-pointer" onMouseDown={(e) => handleConnectionMouseDown(e, conn)} />
+                                )}
+                            </g>
+                        );
                     })}
 
+                    {activeConnection && (() => {
+                        const fromNode = pinToNodeMap.get(activeConnection.fromPinId);
+                        const toNode = pinToNodeMap.get(activeConnection.toPinId);
+                        if (!fromNode || !toNode) return null;
+                        const start = getPinPosition(fromNode, activeConnection.fromPinId);
+                        const end = getPinPosition(toNode, activeConnection.toPinId);
+                        const c1x = start.x + Math.abs(end.x - start.x) * 0.6;
+                        const c2x = end.x - Math.abs(end.x - start.x) * 0.6;
+                        const pathData = `M ${start.x} ${start.y} C ${c1x} ${start.y}, ${c2x} ${end.y}, ${end.x} ${end.y}`;
+                        return (
+                            <path d={pathData} stroke={ACTIVE_EXEC_COLOR} strokeWidth={4} fill="none" strokeDasharray="10 6" className="pointer-events-none">
+                                <animate attributeName="stroke-dashoffset" from="32" to="0" dur="0.6s" repeatCount="indefinite" />
+                            </path>
+                        );
+                    })()}
+
                     {draggingConnection && (() => {
                         const { fromPin, fromNode, mousePosition } = draggingConnection;
                         const start = getPinPosition(fromNode, fromPin.id);
@@ -431,31 +650,54 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
                         const c2x = end.x - Math.abs(end.x - start.x) * 0.6;
                         const c2y = end.y;
                         const pathData = `M ${start.x} ${start.y} C ${c1x} ${c1y}, ${c2x} ${c2y}, ${end.x} ${end.y}`;
-                        const strokeColor = fromPin.type === 'exec' ? '#FFFFFF' : (DATA_TYPE_COLORS[fromPin.dataType] || DATA_TYPE_COLORS.default);
+                        const strokeColor = fromPin.type === 'exec' ? '#FFFFFF' : pinTypeColor(fromPin.dataType);
                         const strokeWidth = fromPin.type === 'exec' ? 2.5 : 2;
                         return <path d={pathData} stroke={strokeColor} strokeWidth={strokeWidth} fill="none" strokeDasharray="5 5" />;
                     })()}
 
                     {localGraphData.nodes.map(node => {
                         const nodeHeight = calculateNodeHeight(node);
+                        const remoteEvent = node.type === 'event' ? customEvents?.find(e => e.name === node.name) : undefined;
+                        const replicationBadge = isRemoteEvent(remoteEvent)
+                            ? `${EVENT_REPLICATION_LABELS[remoteEvent!.replication!]} · ${remoteEvent!.isReliable ? 'Reliable' : 'Unreliable'}`
+                            : null;
                         const nodeCursorClass = isInteractive ? 'cursor-grab' : 'cursor-default';
                         return (
-                        <g key={node.id} transform={`translate(${node.x}, ${node.y})`} onMouseDown={(e) => handleNodeMouseDown(e, node.id)} className={nodeCursorClass}>
-                            {isInteractive && selectedNode?.id === node.id && (
+                        <g key={node.id} transform={`translate(${node.x}, ${node.y})`} onMouseDown={(e) => handleNodeMouseDown(e, node.id)} onClick={(e) => handleNodeClick(e, node.id)} className={nodeCursorClass}>
+                            {isInteractive && selectedNodeIds.includes(node.id) && (
                                 <rect width={NODE_WIDTH + 8} height={nodeHeight + 8} x="-4" y="-4" rx="12" fill="none" stroke="#0EA5E9" strokeWidth="2" strokeDasharray="4 4" >
                                      <animate attributeName="stroke-dashoffset" from="0" to="8" dur="0.5s" repeatCount="indefinite" />
                                 </rect>
                             )}
                             <rect width={NODE_WIDTH} height={nodeHeight} rx="8" fill="#2C3E50" stroke="#1C2833" strokeWidth="1.5" />
                             <rect width={NODE_WIDTH} height={NODE_HEADER_HEIGHT} rx="8" ry="8" fill={nodeColors[node.type as keyof typeof nodeColors] || nodeColors.default} />
+                            {activeNodeId === node.id && (
+                                <rect width={NODE_WIDTH + 6} height={nodeHeight + 6} x="-3" y="-3" rx="11" fill="none" stroke={ACTIVE_EXEC_COLOR} strokeWidth="3" className="pointer-events-none" />
+                            )}
+                            {breakpoints?.has(node.id) && (
+                                <circle cx={-2} cy={-2} r="7" fill="#DC2626" stroke="white" strokeWidth="1.5" className="pointer-events-none" />
+                            )}
+                            {nodeMarkers?.[node.id] && (
+                                <g className="pointer-events-none">
+                                    <rect width={NODE_WIDTH} height={nodeHeight} rx="8" fill="none" stroke={MARKER_COLORS[nodeMarkers[node.id]]} strokeWidth="2.5" />
+                                    <circle cx={NODE_WIDTH - 4} cy={-4} r="9" fill={MARKER_COLORS[nodeMarkers[node.id]]} />
+                                    <text x={NODE_WIDTH - 4} y={-4} textAnchor="middle" dominantBaseline="central" fill="white" fontSize="12" fontWeight="bold" className="select-none">!</text>
+                                </g>
+                            )}
                             <text x={NODE_WIDTH / 2} y={NODE_HEADER_HEIGHT / 2} textAnchor="middle" dominantBaseline="middle" fill="white" fontSize="14" fontWeight="bold" className="pointer-events-none select-none" >
                                 {node.name}
                             </text>
+                            {replicationBadge && (
+                                <g className="pointer-events-none">
+                                    <rect x={12} y={-9} width={replicationBadge.length * 5.5 + 12} height={14} rx="7" fill={REPLICATION_BADGE_COLOR} stroke="#1C2833" />
+                                    <text x={18} y={-2} dominantBaseline="central" fill="white" fontSize="10" className="select-none">{replicationBadge}</text>
+                                </g>
+                            )}
 
                             {node.pins.map(pin => {
                                 const pos = getPinPosition(node, pin.id);
                                 const pinY = pos.y - node.y;
-                                const pinColor = DATA_TYPE_COLORS[pin.dataType] || DATA_TYPE_COLORS.default;
+                                const pinColor = pinTypeColor(pin.dataType);
                                 
                                 let isCompatible = false;
                                 let cursorStyle: React.CSSProperties = { cursor: pin.direction === 'out' ? 'crosshair' : 'default' };
@@ -464,7 +706,7 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
                                 if (draggingConnection) {
                                     if (pin.direction === 'in') {
                                         const { fromPin, fromNode } = draggingConnection;
-                                        isCompatible = arePinsCompatible(fromPin, pin, fromNode.id, node.id);
+                                        isCompatible = arePinsCompatible(fromPin, pin, fromNode.id, node.id) || canConnectWithConversion(fromPin, pin, fromNode.id, node.id);
                                         cursorStyle = { cursor: isCompatible ? 'pointer' : 'not-allowed' };
                                         if (!isCompatible) {
                                             pinOpacity = 0.5;
@@ -495,7 +737,7 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
                                                 fill={pinColor}
                                             />
                                         ) : (
-                                            <circle cx={pin.direction === 'in' ? 0 : NODE_WIDTH} cy={pinY} r={PIN_SIZE} fill={pinColor} />
+                                            <DataPinShape pin={pin} cx={pin.direction === 'in' ? 0 : NODE_WIDTH} cy={pinY} />
                                         )}
                                         <text
                                             x={pin.direction === 'in' ? PIN_TEXT_OFFSET : NODE_WIDTH - PIN_TEXT_OFFSET}
@@ -515,9 +757,29 @@ export const BlueprintVisualizer: React.FC<BlueprintVisualizerProps> = ({ graphD
 
                         </g>
                     )})}
+
+                    {marquee && (
+                        <rect
+                            x={Math.min(marquee.start.x, marquee.current.x)}
+                            y={Math.min(marquee.start.y, marquee.current.y)}
+                            width={Math.abs(marquee.current.x - marquee.start.x)}
+                            height={Math.abs(marquee.current.y - marquee.start.y)}
+                            fill="#0EA5E9"
+                            fillOpacity={0.1}
+                            stroke="#0EA5E9"
+                            strokeWidth={1 / viewTransform.scale}
+                            className="pointer-events-none"
+                        />
+                    )}
                 </g>
             </svg>
-            {isInteractive && selectedNode && <NodeDetailPanel node={selectedNode} graphData={localGraphData} onClose={() => setSelectedNode(null)} />}
+            {isInteractive && detailNode && <NodeDetailPanel
+                node={detailNode}
+                graphData={localGraphData}
+                onClose={() => setSelectedNodeIds([])}
+                isBreakpoint={breakpoints?.has(detailNode.id)}
+                onToggleBreakpoint={onToggleBreakpoint && (() => onToggleBreakpoint(detailNode.id))}
+            />}
         </div>
     );
 };
\ No newline at end of file
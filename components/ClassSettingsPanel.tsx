@@ -0,0 +1,63 @@
+import React from 'react';
+import type { ClassSettings, ParentClass } from '../services/geminiService';
+import { apiMacroFor, cppClassNameOf, headerIncludeOf, parentClasses } from '../services/classSettings';
+import { XIcon } from './icons';
+
+interface ClassSettingsPanelProps {
+  settings: ClassSettings;
+  onChange: (settings: ClassSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName = 'w-full bg-slate-700 border border-slate-600 rounded px-2 py-1 text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export const ClassSettingsPanel: React.FC<ClassSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const update = (changes: Partial<ClassSettings>) => onChange({ ...settings, ...changes });
+
+  // The macro follows the module name until it is edited by hand.
+  const handleModuleChange = (moduleName: string) => update({
+    moduleName,
+    ...(settings.apiMacro === apiMacroFor(settings.moduleName) && { apiMacro: apiMacroFor(moduleName) }),
+  });
+
+  const declaration = `class ${settings.apiMacro.trim() ? `${settings.apiMacro.trim()} ` : ''}${cppClassNameOf(settings)} : public ${settings.parentClass}`;
+
+  return (
+    <div className="border-t border-slate-700 bg-slate-900/60 text-xs flex-shrink-0">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700/60">
+        <span className="font-bold text-slate-300">Classe C++ Gerada</span>
+        <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-700" title="Fechar">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2 px-4 py-3">
+        <label className="space-y-1">
+          <span className="text-slate-400">Nome da classe</span>
+          <input type="text" value={settings.className} onChange={(e) => update({ className: e.target.value })} className={inputClassName} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-slate-400">Classe pai</span>
+          <select value={settings.parentClass} onChange={(e) => update({ parentClass: e.target.value as ParentClass })} className={inputClassName}>
+            {parentClasses.map(parent => <option key={parent} value={parent}>{parent}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-slate-400">Módulo</span>
+          <input type="text" value={settings.moduleName} onChange={(e) => handleModuleChange(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-slate-400">Macro de exportação</span>
+          <input type="text" value={settings.apiMacro} onChange={(e) => update({ apiMacro: e.target.value })} placeholder="Nenhuma" className={inputClassName} />
+        </label>
+        <label className="space-y-1 col-span-2">
+          <span className="text-slate-400">Pasta do cabeçalho (em Public/)</span>
+          <input type="text" value={settings.includePath} onChange={(e) => update({ includePath: e.target.value })} placeholder="Raiz do módulo" className={inputClassName} />
+        </label>
+      </div>
+      <div className="px-4 pb-3 font-mono text-slate-400 space-y-0.5">
+        <div>{declaration}</div>
+        <div>#include "{headerIncludeOf(settings)}"</div>
+      </div>
+    </div>
+  );
+};
@@ -2,14 +2,24 @@
 import React from 'react';
 import { MagicWandIcon } from './icons';
 
+export type ConverterMode = 'local' | 'ai';
+
 interface CodeEditorProps {
   code: string;
   setCode: (code: string) => void;
   onGenerate: () => void;
   isLoading: boolean;
+  converterMode: ConverterMode;
+  setConverterMode: (mode: ConverterMode) => void;
+  delegateUnsupported: boolean;
+  setDelegateUnsupported: (delegate: boolean) => void;
+  autoArrange: boolean;
+  setAutoArrange: (autoArrange: boolean) => void;
 }
 
-export const CodeEditor: React.FC<CodeEditorProps> = ({ code, setCode, onGenerate, isLoading }) => {
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  code, setCode, onGenerate, isLoading, converterMode, setConverterMode, delegateUnsupported, setDelegateUnsupported, autoArrange, setAutoArrange,
+}) => {
   return (
     <div className="flex flex-col h-full bg-slate-800/50 rounded-lg border border-slate-700 shadow-lg">
       <div className="p-4 border-b border-slate-700">
@@ -35,6 +45,47 @@ int main() {
         />
       </div>
       <div className="p-4 border-t border-slate-700">
+        <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 mb-3 text-xs">
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400">Conversor:</span>
+            <div className="flex bg-slate-700 rounded-md p-1">
+              <button
+                onClick={() => setConverterMode('local')}
+                title="Converte o subconjunto suportado de C++ sem acesso à rede"
+                className={`px-3 py-1 rounded ${converterMode === 'local' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+              >
+                Local (determinístico)
+              </button>
+              <button
+                onClick={() => setConverterMode('ai')}
+                title="Usa o provedor de IA configurado"
+                className={`px-3 py-1 rounded ${converterMode === 'ai' ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+              >
+                IA
+              </button>
+            </div>
+          </div>
+          {converterMode === 'local' && (
+            <label className="flex items-center gap-2 text-slate-300 cursor-pointer" title="Apenas as funções com construções não suportadas são enviadas à IA">
+              <input
+                type="checkbox"
+                checked={delegateUnsupported}
+                onChange={(e) => setDelegateUnsupported(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Delegar funções não suportadas à IA
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-slate-300 cursor-pointer" title="Ignora as posições geradas e reorganiza cada grafo seguindo o fluxo de execução">
+            <input
+              type="checkbox"
+              checked={autoArrange}
+              onChange={(e) => setAutoArrange(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Organizar grafos automaticamente
+          </label>
+        </div>
         <button
           onClick={onGenerate}
           disabled={isLoading}
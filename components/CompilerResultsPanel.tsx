@@ -0,0 +1,48 @@
+import React from 'react';
+import type { CompilerMessage } from '../services/graphCompiler';
+import { XIcon } from './icons';
+
+interface CompilerResultsPanelProps {
+  messages: CompilerMessage[];
+  isOutdated: boolean;
+  onClose: () => void;
+}
+
+export const CompilerResultsPanel: React.FC<CompilerResultsPanelProps> = ({ messages, isOutdated, onClose }) => {
+  const errorCount = messages.filter(message => message.severity === 'error').length;
+  const warningCount = messages.length - errorCount;
+
+  const summary = messages.length === 0
+    ? 'Compilado com sucesso, sem erros ou avisos.'
+    : [
+        errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'erro' : 'erros'}`,
+        warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'aviso' : 'avisos'}`,
+      ].filter(Boolean).join(', ');
+
+  return (
+    <div className="border-t border-slate-700 bg-slate-900/60 text-xs flex-shrink-0">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700/60">
+        <div className="flex items-center gap-2">
+          <span className="font-bold text-slate-300">Resultados da Compilação</span>
+          <span className={errorCount > 0 ? 'text-red-400' : warningCount > 0 ? 'text-amber-300' : 'text-green-400'}>{summary}</span>
+          {isOutdated && <span className="text-slate-500">(o grafo mudou desde a última compilação)</span>}
+        </div>
+        <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-700" title="Fechar">
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {messages.length > 0 && (
+        <ul className="px-4 py-2 space-y-1 max-h-40 overflow-y-auto">
+          {messages.map((message, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <span className={`font-bold uppercase flex-shrink-0 ${message.severity === 'error' ? 'text-red-400' : 'text-amber-300'}`}>
+                {message.severity === 'error' ? 'Erro' : 'Aviso'}
+              </span>
+              <span className="text-slate-300">{message.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
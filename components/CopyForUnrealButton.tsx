@@ -0,0 +1,38 @@
+import React, { useState, useEffect } from 'react';
+import type { GraphData } from '../services/geminiService';
+import { exportGraphToT3D } from '../services/unrealClipboard';
+import { UnrealIcon } from './icons';
+
+interface CopyForUnrealButtonProps {
+  graphData: GraphData;
+}
+
+export const CopyForUnrealButton: React.FC<CopyForUnrealButtonProps> = ({ graphData }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(exportGraphToT3D(graphData));
+    setCopied(true);
+  };
+
+  useEffect(() => {
+    if (copied) {
+      const timer = setTimeout(() => setCopied(false), 2000);
+      return () => clearTimeout(timer);
+    }
+  }, [copied]);
+
+  return (
+    <button
+      onClick={handleCopy}
+      disabled={graphData.nodes.length === 0}
+      title="Copia os nós no formato da área de transferência do Unreal; cole com Ctrl+V em um grafo de Blueprint"
+      className={`inline-flex items-center gap-2 px-3 py-1.5 text-xs font-semibold rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+        copied ? 'bg-green-600 text-white' : 'bg-slate-700 text-slate-200 hover:bg-slate-600'
+      }`}
+    >
+      <UnrealIcon className="w-4 h-4" />
+      {copied ? 'Copiado!' : 'Copiar para o Unreal'}
+    </button>
+  );
+};
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+
+interface CorrectionSummaryProps {
+  correctionRounds?: number;
+  unresolvedProblems?: string[];
+}
+
+export const CorrectionSummary: React.FC<CorrectionSummaryProps> = ({ correctionRounds = 0, unresolvedProblems = [] }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (correctionRounds === 0 && unresolvedProblems.length === 0) return null;
+
+  const hasProblems = unresolvedProblems.length > 0;
+  const roundsText = correctionRounds === 1 ? '1 rodada de correção' : `${correctionRounds} rodadas de correção`;
+
+  return (
+    <div className={`text-xs rounded-md border flex-shrink-0 ${hasProblems ? 'bg-amber-900/30 border-amber-800' : 'bg-green-900/30 border-green-800'}`}>
+      <button
+        onClick={() => hasProblems && setIsExpanded(!isExpanded)}
+        className={`w-full text-left px-3 py-2 ${hasProblems ? 'text-amber-300 hover:bg-amber-900/40' : 'text-green-300 cursor-default'} rounded-md`}
+      >
+        {!hasProblems
+          ? `A IA corrigiu a resposta em ${roundsText}.`
+          : correctionRounds === 0
+            ? `${unresolvedProblems.length} ${unresolvedProblems.length === 1 ? 'problema encontrado' : 'problemas encontrados'} ${isExpanded ? '▲' : '▼'}`
+            : `Após ${roundsText}, ${unresolvedProblems.length} ${unresolvedProblems.length === 1 ? 'problema continua' : 'problemas continuam'} sem solução ${isExpanded ? '▲' : '▼'}`}
+      </button>
+      {isExpanded && (
+        <ul className="px-3 pb-2 space-y-1 max-h-40 overflow-y-auto list-disc list-inside text-amber-200">
+          {unresolvedProblems.map((problem, index) => <li key={index}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { CppCodeResponse } from '../services/geminiService';
+import { CorrectionSummary } from './CorrectionSummary';
 import { CopyIcon, CodeIcon } from './icons';
 
 interface CppCodeDisplayProps {
@@ -75,6 +76,11 @@ export const CppCodeDisplay: React.FC<CppCodeDisplayProps> = ({ code, isLoading,
     }
     return (
         <div className="p-4">
+            {(code.correctionRounds || code.unresolvedProblems?.length) ? (
+                <div className="mb-4">
+                    <CorrectionSummary correctionRounds={code.correctionRounds} unresolvedProblems={code.unresolvedProblems} />
+                </div>
+            ) : null}
             <div className="mb-4 flex border-b border-slate-700">
                 <button
                     onClick={() => setActiveTab('header')}
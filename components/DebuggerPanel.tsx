@@ -0,0 +1,92 @@
+import React from 'react';
+import type { GraphNode } from '../services/geminiService';
+import { formatRuntimeValue, InterpreterState } from '../services/blueprintInterpreter';
+
+interface DebuggerPanelProps {
+  eventNodes: GraphNode[];
+  selectedEventId: string;
+  onSelectEvent: (nodeId: string) => void;
+  session: InterpreterState | null;
+  breakpointCount: number;
+  onStart: () => void;
+  onStep: () => void;
+  onContinue: () => void;
+  onStop: () => void;
+  onClearBreakpoints: () => void;
+}
+
+const LOG_COLORS = { print: 'text-sky-300', info: 'text-slate-500', warning: 'text-amber-300' };
+
+export const DebuggerPanel: React.FC<DebuggerPanelProps> = ({
+  eventNodes, selectedEventId, onSelectEvent, session, breakpointCount, onStart, onStep, onContinue, onStop, onClearBreakpoints,
+}) => {
+  const pendingNode = session?.pending ? session.nodes.get(session.pending.nodeId) : undefined;
+  const buttonClass = 'flex-1 px-2 py-1.5 text-xs rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <>
+      <div className="mb-3 p-3 bg-slate-800/70 rounded-md border border-slate-700">
+        <h4 className="text-sm font-bold text-slate-400 mb-2">Executar Evento</h4>
+        <select
+          value={selectedEventId}
+          onChange={(e) => onSelectEvent(e.target.value)}
+          className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {eventNodes.length === 0 && <option value="">Nenhum evento no grafo</option>}
+          {eventNodes.map(node => <option key={node.id} value={node.id}>{node.name}</option>)}
+        </select>
+        <div className="flex gap-2 mb-2">
+          <button onClick={onStart} disabled={!selectedEventId} className={buttonClass} title={session ? 'Dispara o evento na sessão atual' : 'Inicia uma nova sessão'}>
+            {session ? 'Disparar' : 'Iniciar'}
+          </button>
+          <button onClick={onStep} disabled={!pendingNode} className={buttonClass} title="Executa o nó atual e para no próximo">Passo</button>
+          <button onClick={onContinue} disabled={!pendingNode} className={buttonClass} title="Executa até o próximo breakpoint">Continuar</button>
+          <button onClick={onStop} disabled={!session} className={buttonClass}>Parar</button>
+        </div>
+        <div className="flex justify-between items-center text-xs text-slate-400">
+          <span>{breakpointCount} {breakpointCount === 1 ? 'breakpoint' : 'breakpoints'} (F9 no nó)</span>
+          {breakpointCount > 0 && <button onClick={onClearBreakpoints} className="hover:text-red-400">Limpar</button>}
+        </div>
+      </div>
+
+      {session && (
+        <div className="mb-3 text-xs px-1">
+          <p className={pendingNode ? 'text-yellow-300' : 'text-green-400'}>
+            {pendingNode ? `Pausado em '${pendingNode.name}'` : 'Execução concluída'}
+          </p>
+          <p className="text-slate-500">Tempo virtual: {session.clock.toFixed(2)}s · {session.steps} {session.steps === 1 ? 'nó executado' : 'nós executados'}</p>
+        </div>
+      )}
+
+      <div className="flex-1 flex flex-col overflow-hidden gap-3">
+        <div>
+          <h4 className="text-sm font-bold text-slate-400 mb-1 px-1">Variáveis</h4>
+          {session && Object.keys(session.variables).length > 0 ? (
+            <table className="w-full text-xs">
+              <tbody>
+                {Object.keys(session.variables).map(name => (
+                  <tr key={name} className="border-b border-slate-800">
+                    <td className="py-1 px-1 text-slate-300">{name}</td>
+                    <td className="py-1 px-1 text-right font-mono text-teal-300">{formatRuntimeValue(session.variables[name])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-xs text-slate-500 px-1">{session ? 'O grafo não possui variáveis.' : 'Inicie uma sessão para ver os valores.'}</p>
+          )}
+        </div>
+        <div className="flex-1 flex flex-col overflow-hidden">
+          <h4 className="text-sm font-bold text-slate-400 mb-1 px-1">Saída</h4>
+          <div className="flex-1 overflow-y-auto bg-slate-900/70 rounded-md border border-slate-700 p-2 font-mono text-xs space-y-0.5">
+            {session?.log.map((entry, index) => (
+              <p key={index} className={LOG_COLORS[entry.kind]}>
+                <span className="text-slate-600">[{entry.time.toFixed(2)}s]</span> {entry.message}
+              </p>
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { importGraphFromT3D, T3DImportResult } from '../services/unrealClipboard';
+
+interface ImportFromUnrealDialogProps {
+  onImport: (result: T3DImportResult) => void;
+  onClose: () => void;
+}
+
+export const ImportFromUnrealDialog: React.FC<ImportFromUnrealDialogProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = () => {
+    try {
+      onImport(importGraphFromT3D(text));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Ocorreu um erro desconhecido.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-2xl bg-slate-800 border border-slate-600 rounded-lg shadow-2xl flex flex-col"
+        onMouseDown={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-700">
+          <h3 className="text-lg font-bold text-slate-200">Importar do Unreal</h3>
+          <p className="text-sm text-slate-400">
+            Selecione os nós no editor de Blueprint do UE5, copie com Ctrl+C e cole o texto abaixo. O grafo atual será substituído.
+          </p>
+        </div>
+        <div className="p-4">
+          <textarea
+            value={text}
+            onChange={e => { setText(e.target.value); setError(null); }}
+            placeholder={'Begin Object Class=/Script/BlueprintGraph.K2Node_Event Name="K2Node_Event_0"\n   ...\nEnd Object'}
+            className="w-full h-64 p-3 bg-slate-900 border border-slate-600 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-xs"
+            autoFocus
+          />
+          {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+        </div>
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm rounded-md bg-slate-700 text-slate-200 hover:bg-slate-600">
+            Cancelar
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!text.trim()}
+            className="px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-500 disabled:cursor-not-allowed"
+          >
+            Importar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
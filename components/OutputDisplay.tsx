@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { GuideDisplay } from './GuideDisplay';
 import { BlueprintVisualizer } from './BlueprintVisualizer';
+import { CopyForUnrealButton } from './CopyForUnrealButton';
 import { BlueprintOverview } from './BlueprintOverview';
+import { CorrectionSummary } from './CorrectionSummary';
 import type { BlueprintGraph } from '../services/geminiService';
+import type { GraphValidationReport } from '../services/graphValidation';
 import { BookOpenIcon, ShareNodesIcon, FocusIcon, GridIcon } from './icons';
 
 interface OutputDisplayProps {
   guide: string;
   blueprintGraphs: BlueprintGraph[];
+  correctionRounds?: number;
+  unresolvedProblems?: string[];
   isLoading: boolean;
   error: string | null;
 }
@@ -31,7 +36,39 @@ const LoadingSkeleton: React.FC = () => (
   </div>
 );
 
-export const OutputDisplay: React.FC<OutputDisplayProps> = ({ guide, blueprintGraphs, isLoading, error }) => {
+const ValidationReportPanel: React.FC<{ report: GraphValidationReport }> = ({ report }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const fixedCount = report.issues.filter(issue => issue.severity === 'fixed').length;
+  const rejectedCount = report.issues.length - fixedCount;
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="text-xs text-green-300 mb-4 px-3 py-2 bg-green-900/30 border border-green-800 rounded-md flex-shrink-0">
+        Validação: nenhum problema encontrado no grafo.
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-xs mb-4 bg-amber-900/30 border border-amber-800 rounded-md flex-shrink-0">
+      <button onClick={() => setIsExpanded(!isExpanded)} className="w-full text-left px-3 py-2 text-amber-300 hover:bg-amber-900/40 rounded-md">
+        Validação: {fixedCount} {fixedCount === 1 ? 'correção aplicada' : 'correções aplicadas'}, {rejectedCount} {rejectedCount === 1 ? 'item rejeitado' : 'itens rejeitados'} {isExpanded ? '▲' : '▼'}
+      </button>
+      {isExpanded && (
+        <ul className="px-3 pb-2 space-y-1 max-h-40 overflow-y-auto">
+          {report.issues.map((issue, index) => (
+            <li key={index} className={issue.severity === 'fixed' ? 'text-slate-300' : 'text-red-300'}>
+              <span className="font-bold mr-1">{issue.severity === 'fixed' ? 'Corrigido:' : 'Rejeitado:'}</span>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const OutputDisplay: React.FC<OutputDisplayProps> = ({ guide, blueprintGraphs, correctionRounds, unresolvedProblems, isLoading, error }) => {
   const [activeTab, setActiveTab] = useState<ActiveTab>('guide');
   const [selectedGraphIndex, setSelectedGraphIndex] = useState(0);
   const [viewMode, setViewMode] = useState<ViewMode>('focus');
@@ -73,6 +110,10 @@ export const OutputDisplay: React.FC<OutputDisplayProps> = ({ guide, blueprintGr
                     <p className="text-sm text-slate-300 mb-4 p-3 bg-slate-900/50 rounded-md border border-slate-700 flex-shrink-0">
                         {selectedGraph.description}
                     </p>
+                    {selectedGraph.validationReport && <ValidationReportPanel key={selectedGraphIndex} report={selectedGraph.validationReport} />}
+                    <div className="flex justify-end mb-2 flex-shrink-0">
+                        <CopyForUnrealButton graphData={selectedGraph.graphData} />
+                    </div>
                     <div className="flex-grow h-0 min-h-[400px]">
                         <BlueprintVisualizer graphData={selectedGraph.graphData} isInteractive={true} />
                     </div>
@@ -104,6 +145,11 @@ export const OutputDisplay: React.FC<OutputDisplayProps> = ({ guide, blueprintGr
     }
     return (
       <>
+        {(correctionRounds || unresolvedProblems?.length) ? (
+          <div className="px-4 pt-4">
+            <CorrectionSummary correctionRounds={correctionRounds} unresolvedProblems={unresolvedProblems} />
+          </div>
+        ) : null}
         {activeTab === 'guide' ? (
           <div className="p-6">
             <GuideDisplay guide={guide} />
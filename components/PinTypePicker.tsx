@@ -0,0 +1,52 @@
+import React from 'react';
+import { classHierarchy, isReferenceType, pinTypeCatalogue, pinTypeGroups } from '../services/typeCatalogue';
+import { userPinTypes, UserTypes } from '../services/userTypes';
+
+export interface PinTypeValue {
+    type: string;
+    objectClass?: string;
+}
+
+interface PinTypeOptionsProps {
+    userTypes?: UserTypes; // The Blueprint's structs and enums, listed after the built-in ones
+}
+
+interface PinTypePickerProps extends PinTypeValue, PinTypeOptionsProps {
+    onChange: (value: PinTypeValue) => void;
+    className: string;
+}
+
+/** The catalogue as `<optgroup>`s, for any select that picks a pin type. */
+export const PinTypeOptions: React.FC<PinTypeOptionsProps> = ({ userTypes = {} }) => {
+    const entries = [...pinTypeCatalogue, ...userPinTypes(userTypes)];
+    return (
+        <>
+            {pinTypeGroups.map(group => (
+                <optgroup key={group} label={group}>
+                    {entries.filter(entry => entry.group === group).map(entry => <option key={entry.dataType} value={entry.dataType}>{entry.label}</option>)}
+                </optgroup>
+            ))}
+        </>
+    );
+};
+
+// Non-breaking spaces, since browsers collapse regular ones inside <option>.
+const CLASS_OPTIONS = classHierarchy().map(({ name, depth }) => ({ name, label: `${'\u00A0\u00A0'.repeat(depth)}${name}` }));
+
+export const PinTypePicker: React.FC<PinTypePickerProps> = ({ type, objectClass, userTypes, onChange, className }) => (
+    <div className="flex gap-1 flex-1 min-w-0">
+        <select
+            value={type}
+            // The class is kept when switching between reference kinds, e.g. Object → Soft Object.
+            onChange={(e) => onChange({ type: e.target.value, objectClass: isReferenceType(e.target.value) ? objectClass ?? 'Actor' : undefined })}
+            className={`flex-1 w-0 ${className}`}
+        >
+            <PinTypeOptions userTypes={userTypes} />
+        </select>
+        {isReferenceType(type) && (
+            <select value={objectClass ?? 'Object'} onChange={(e) => onChange({ type, objectClass: e.target.value })} title="Classe" className={`flex-1 w-0 ${className}`}>
+                {CLASS_OPTIONS.map(option => <option key={option.name} value={option.name}>{option.label}</option>)}
+            </select>
+        )}
+    </div>
+);
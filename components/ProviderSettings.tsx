@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import {
+  getProviderConfig,
+  setProviderConfig,
+  DEFAULT_PROVIDER_CONFIGS,
+  PROVIDER_LABELS,
+  LlmProviderConfig,
+  LlmProviderKind,
+} from '../services/llmProviders';
+import { CogIcon } from './icons';
+
+export const ProviderSettings: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [config, setConfig] = useState<LlmProviderConfig>(getProviderConfig());
+
+  const updateConfig = (changes: Partial<LlmProviderConfig>) => {
+    const newConfig = { ...config, ...changes };
+    setConfig(newConfig);
+    setProviderConfig(newConfig);
+  };
+
+  const handleKindChange = (kind: LlmProviderKind) => {
+    const newConfig = { ...DEFAULT_PROVIDER_CONFIGS[kind] };
+    setConfig(newConfig);
+    setProviderConfig(newConfig);
+  };
+
+  const inputClassName = "w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Configurar Provedor de IA"
+        className={`p-2 rounded-md transition-colors ${isOpen ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'}`}
+      >
+        <CogIcon className="w-5 h-5" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 z-40 w-80 bg-slate-800 border border-slate-600 rounded-lg shadow-2xl p-4 space-y-3 text-left">
+          <h4 className="text-sm font-bold text-slate-300">Provedor de IA</h4>
+          <select
+            value={config.kind}
+            onChange={(e) => handleKindChange(e.target.value as LlmProviderKind)}
+            className={inputClassName}
+          >
+            {(Object.keys(PROVIDER_LABELS) as LlmProviderKind[]).map(kind => (
+              <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+            ))}
+          </select>
+          {config.kind !== 'mock' && (
+            <>
+              <label className="block text-xs text-slate-400">
+                Modelo
+                <input type="text" value={config.model} onChange={(e) => updateConfig({ model: e.target.value })} className={`${inputClassName} mt-1`} />
+              </label>
+              {config.kind === 'openai-compatible' && (
+                <label className="block text-xs text-slate-400">
+                  URL Base
+                  <input type="text" value={config.baseUrl || ''} onChange={(e) => updateConfig({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={`${inputClassName} mt-1`} />
+                </label>
+              )}
+              <label className="block text-xs text-slate-400">
+                Chave de API {config.kind === 'gemini' ? '(opcional, usa GEMINI_API_KEY)' : '(opcional)'}
+                <input type="password" value={config.apiKey || ''} onChange={(e) => updateConfig({ apiKey: e.target.value })} className={`${inputClassName} mt-1`} />
+              </label>
+            </>
+          )}
+          {config.kind === 'mock' && (
+            <p className="text-xs text-slate-400">Retorna respostas fixas e determinísticas, sem acesso à rede.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import type { GraphVariable } from './geminiService';
+import { generateId } from './nodeLibrary';
+import { isSameVariable } from './variableReferences';
+
+// --- Component Types ---
+
+export interface ComponentType {
+    componentClass: string; // Blueprint class name, as in the type catalogue
+    label: string;
+    include: string;
+}
+
+export const componentTypes: ComponentType[] = [
+    { componentClass: 'SceneComponent', label: 'Scene', include: 'Components/SceneComponent.h' },
+    { componentClass: 'StaticMeshComponent', label: 'Static Mesh', include: 'Components/StaticMeshComponent.h' },
+    { componentClass: 'SkeletalMeshComponent', label: 'Skeletal Mesh', include: 'Components/SkeletalMeshComponent.h' },
+    { componentClass: 'BoxComponent', label: 'Box Collision', include: 'Components/BoxComponent.h' },
+    { componentClass: 'SphereComponent', label: 'Sphere Collision', include: 'Components/SphereComponent.h' },
+    { componentClass: 'CameraComponent', label: 'Camera', include: 'Camera/CameraComponent.h' },
+    { componentClass: 'SpringArmComponent', label: 'Spring Arm', include: 'GameFramework/SpringArmComponent.h' },
+    { componentClass: 'ArrowComponent', label: 'Arrow', include: 'Components/ArrowComponent.h' },
+    { componentClass: 'AudioComponent', label: 'Audio', include: 'Components/AudioComponent.h' },
+];
+
+export const findComponentType = (componentClass: string | undefined) =>
+    componentTypes.find(type => type.componentClass === componentClass) ?? componentTypes[0];
+
+// --- Component Tree ---
+
+export const isComponent = (variable: GraphVariable) => Boolean(variable.component);
+
+/** A read-only object reference to the component, so Get nodes can use it like any member. */
+export const createComponent = (name: string, componentClass: string, parentId?: string): GraphVariable => ({
+    id: generateId('comp'),
+    name,
+    type: 'Object',
+    objectClass: componentClass,
+    category: 'Components',
+    isReadOnly: true,
+    component: parentId ? { parentId } : {},
+});
+
+export interface ComponentTreeEntry {
+    component: GraphVariable;
+    parentId?: string; // Missing only on the root
+    depth: number;
+}
+
+/**
+ * The components in tree order, each after its parent. The first component without a parent is the
+ * root; the others without one, or whose parent is gone, are attached to it.
+ */
+export const componentTree = (variables: GraphVariable[]): ComponentTreeEntry[] => {
+    const components = variables.filter(isComponent);
+    const root = components.find(c => !components.some(other => other.id === c.component!.parentId));
+    if (!root) return [];
+    const parentOf = (component: GraphVariable) => components.some(c => c.id === component.component!.parentId) ? component.component!.parentId : root.id;
+
+    const visited = new Set<string>();
+    const visit = (parent: GraphVariable, depth: number): ComponentTreeEntry[] => components
+        .filter(c => c !== root && !visited.has(c.id!) && parentOf(c) === parent.id)
+        .flatMap(c => {
+            visited.add(c.id!);
+            return [{ component: c, parentId: parent.id, depth }, ...visit(c, depth + 1)];
+        });
+    const tree = [{ component: root, depth: 0 }, ...visit(root, 1)];
+    // Components caught in an attachment loop hang from the root.
+    const detached = components.filter(c => c !== root && !visited.has(c.id!)).map(c => ({ component: c, parentId: root.id, depth: 1 }));
+    return [...tree, ...detached];
+};
+
+/** The component and everything attached below it. */
+export const componentSubtree = (variables: GraphVariable[], componentId: string): Set<string> => {
+    const tree = componentTree(variables);
+    const ids = new Set([componentId]);
+    tree.forEach(entry => { if (entry.parentId && ids.has(entry.parentId)) ids.add(entry.component.id!); });
+    return ids;
+};
+
+/** Attaches a component to another; attaching it below itself is ignored. */
+export const attachComponent = (variables: GraphVariable[], componentId: string, parentId: string): GraphVariable[] =>
+    componentSubtree(variables, componentId).has(parentId)
+        ? variables
+        : variables.map(v => v.id === componentId ? { ...v, component: { parentId } } : v);
+
+/** Removes a variable; when it is a component, what was attached to it moves up to its parent. */
+export const removeVariable = (variables: GraphVariable[], variable: GraphVariable): GraphVariable[] => {
+    const remaining = variables.filter(v => !isSameVariable(v, variable));
+    if (!isComponent(variable) || !variable.id) return remaining;
+    const parentId = componentTree(variables).find(entry => entry.component.id === variable.id)?.parentId;
+    return remaining.map(v => v.component?.parentId === variable.id ? { ...v, component: parentId ? { parentId } : {} } : v);
+};
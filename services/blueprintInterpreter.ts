@@ -0,0 +1,515 @@
+import type { CustomFunction, EventDispatcher, GraphConnection, GraphData, GraphNode, GraphPin } from './geminiService';
+import { DispatcherNodeKind, delegateEventName, eventParameterPins, findDispatcherNode, isDelegatePin } from './eventDispatchers';
+import { isFunctionEntry, RETURN_NODE_NAME } from './functionGraph';
+import { findUserEnum, findUserStruct, findUserTypeNode, SWITCH_SELECTION_PIN, UserTypes } from './userTypes';
+import { findNodeVariable, isVariableNode, variableNameOf } from './variableReferences';
+
+// --- Runtime Values ---
+
+// Enum values are the name of their entry; struct values map field names to values.
+export type RuntimeValue = boolean | number | string | number[] | RuntimeStruct | null;
+
+export interface RuntimeStruct {
+    [field: string]: RuntimeValue;
+}
+
+// `visited` guards against structs that contain themselves, which only imported data can have.
+const defaultValue = (dataType: string, types: UserTypes = {}, visited: string[] = []): RuntimeValue => {
+    const struct = findUserStruct(types, dataType);
+    if (struct && !visited.includes(struct.name)) {
+        return Object.fromEntries(struct.fields.map(field => [field.name, defaultValue(field.type, types, [...visited, struct.name])]));
+    }
+    const userEnum = findUserEnum(types, dataType);
+    if (userEnum) return userEnum.entries[0] ?? '';
+    switch (dataType) {
+        case 'Boolean': return false;
+        case 'Integer': case 'Integer64': case 'Float': case 'Double': case 'Byte': return 0;
+        case 'String': case 'Name': case 'Text': return '';
+        case 'Vector': case 'Rotator': return [0, 0, 0];
+        case 'Vector2D': return [0, 0];
+        case 'LinearColor': return [0, 0, 0, 1];
+        default: return null;
+    }
+};
+
+const parseLiteral = (value: string, dataType: string, types: UserTypes = {}): RuntimeValue => {
+    const userEnum = findUserEnum(types, dataType);
+    if (userEnum) return userEnum.entries.includes(value.trim()) ? value.trim() : defaultValue(dataType, types);
+    switch (dataType) {
+        case 'Boolean': return /^(true|1)$/i.test(value.trim());
+        case 'Integer': case 'Integer64': case 'Byte': return parseInt(value, 10) || 0;
+        case 'Float': case 'Double': return parseFloat(value) || 0;
+        case 'Vector': case 'Rotator': case 'Vector2D': case 'LinearColor': {
+            const numbers = (value.match(/-?\d+(?:\.\d+)?(?:e-?\d+)?/gi) || []).map(Number);
+            const fallback = defaultValue(dataType) as number[];
+            return fallback.map((zero, index) => numbers[index] ?? zero);
+        }
+        case 'String': case 'Name': case 'Text': return value;
+        default: return defaultValue(dataType, types);
+    }
+};
+
+export const formatRuntimeValue = (value: RuntimeValue): string => {
+    if (value === null) return 'None';
+    if (Array.isArray(value)) return `X=${value[0]} Y=${value[1]} Z=${value[2]}`;
+    if (typeof value === 'object') return `(${Object.entries(value).map(([field, fieldValue]) => `${field}=${formatRuntimeValue(fieldValue)}`).join(', ')})`;
+    if (typeof value === 'boolean') return value ? 'true' : 'false';
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(6)));
+    return value;
+};
+
+// --- Interpreter State ---
+
+// Pending work of an execution thread: an event to enter, an exec output or wire to follow,
+// a For Loop waiting for its next iteration, or a function call to return from (with its locals).
+type Frame =
+    | { kind: 'event'; nodeId: string }
+    | { kind: 'exec'; pinId: string }
+    | { kind: 'wire'; connection: GraphConnection }
+    | { kind: 'loop'; nodeId: string; index: number; last: number }
+    | CallFrame;
+
+interface CallFrame {
+    kind: 'call';
+    nodeId: string;
+    locals: { [name: string]: RuntimeValue };
+}
+
+interface Timer {
+    time: number;
+    nodeId: string;
+    frames: Frame[];
+}
+
+export interface LogEntry {
+    time: number;
+    kind: 'print' | 'info' | 'warning';
+    message: string;
+}
+
+export interface InterpreterState {
+    nodes: Map<string, GraphNode>;
+    pins: Map<string, { pin: GraphPin; node: GraphNode }>;
+    sourceOf: Map<string, string>; // Input pin id -> connected output pin id
+    targetsOf: Map<string, string[]>; // Output pin id -> connected input pin ids
+    clock: number; // Virtual seconds; only Delay advances it
+    variables: { [name: string]: RuntimeValue };
+    nodeVariables: Map<string, string>; // Get/Set node id -> name of the variable it refers to
+    eventDispatchers: EventDispatcher[];
+    customFunctions: CustomFunction[];
+    userTypes: UserTypes;
+    bindings: Map<string, string[]>; // Dispatcher id -> bound event node ids, in binding order
+    outputValues: Map<string, RuntimeValue>; // Values left on output pins by executed nodes (event parameters, loop indices)
+    frames: Frame[]; // Current thread, top of the stack last
+    readyThreads: Frame[][]; // Threads started but not yet running
+    timers: Timer[];
+    // The node that runs on the next step and the wire that led to it.
+    pending: { nodeId: string; connection: GraphConnection | null } | null;
+    log: LogEntry[];
+    steps: number;
+}
+
+const MAX_RUN_STEPS = 10000;
+const MAX_CALL_DEPTH = 100;
+
+const findPin = (node: GraphNode, direction: GraphPin['direction'], type: GraphPin['type'], name?: string) =>
+    node.pins.find(pin => pin.direction === direction && pin.type === type && (name === undefined || pin.name === name));
+
+const BOOLEAN_OPERATORS: { [nodeName: string]: (a: boolean, b: boolean) => boolean } = {
+    'AND Boolean': (a, b) => a && b,
+    'OR Boolean': (a, b) => a || b,
+};
+
+const formatNumber = (value: number) => Number.isInteger(value) ? `${value}.0` : String(value);
+
+// Conversion nodes, formatting values the way Unreal's Conv_*ToString functions do.
+const CONVERSIONS: { [nodeName: string]: [string, (value: RuntimeValue) => RuntimeValue] } = {
+    'To Float (Integer)': ['In Int', value => Number(value)],
+    'To String (Integer)': ['In Int', value => String(value)],
+    'To String (Float)': ['In Float', value => formatNumber(Number(value))],
+    'To String (Boolean)': ['In Bool', value => value ? 'true' : 'false'],
+    'To String (Name)': ['In Name', value => String(value)],
+    'To String (Vector)': ['In Vec', value => {
+        const [x = 0, y = 0, z = 0] = Array.isArray(value) ? value : [];
+        return `X=${x.toFixed(3)} Y=${y.toFixed(3)} Z=${z.toFixed(3)}`;
+    }],
+};
+
+// Matches the math nodes of the library, e.g. 'Integer + Integer' or 'Float == Float'.
+const MATH_NODE_PATTERN = /^(Integer|Float) (\+|-|\*|\/|<|>|==) \1$/;
+
+// Function graphs are loaded next to the Event Graph; node and pin ids are unique across all of them.
+export const createInterpreter = (graphData: GraphData): InterpreterState => {
+    const customFunctions = graphData.customFunctions ?? [];
+    // Each graph with the variables its Get/Set nodes can refer to: the members, plus the locals in a function.
+    const scopes = [
+        { graph: graphData, variables: graphData.variables },
+        ...customFunctions.flatMap(func => func.graph ? [{ graph: func.graph, variables: [...(func.localVariables ?? []), ...graphData.variables] }] : []),
+    ];
+    const graphs = scopes.map(scope => scope.graph);
+    const allNodes = graphs.flatMap(graph => graph.nodes);
+    const nodes = new Map(allNodes.map(node => [node.id, node]));
+    const pins = new Map<string, { pin: GraphPin; node: GraphNode }>();
+    allNodes.forEach(node => node.pins.forEach(pin => pins.set(pin.id, { pin, node })));
+    const sourceOf = new Map<string, string>();
+    const targetsOf = new Map<string, string[]>();
+    graphs.flatMap(graph => graph.connections).forEach(({ fromPinId, toPinId }) => {
+        if (!pins.has(fromPinId) || !pins.has(toPinId)) return;
+        sourceOf.set(toPinId, fromPinId);
+        targetsOf.set(fromPinId, [...(targetsOf.get(fromPinId) || []), toPinId]);
+    });
+
+    const nodeVariables = new Map<string, string>();
+    scopes.forEach(({ graph, variables }) => graph.nodes.filter(isVariableNode).forEach(node => {
+        const variable = findNodeVariable(node, variables);
+        if (variable) nodeVariables.set(node.id, variable.name);
+    }));
+
+    const variables: { [name: string]: RuntimeValue } = {};
+    graphData.variables.forEach(variable => {
+        variables[variable.name] = variable.defaultValue ? parseLiteral(variable.defaultValue, variable.type, graphData) : defaultValue(variable.type, graphData);
+    });
+
+    return {
+        nodes, pins, sourceOf, targetsOf, variables, nodeVariables,
+        eventDispatchers: graphData.eventDispatchers ?? [],
+        customFunctions,
+        userTypes: { userStructs: graphData.userStructs ?? [], userEnums: graphData.userEnums ?? [] },
+        bindings: new Map(),
+        clock: 0,
+        outputValues: new Map(),
+        frames: [],
+        readyThreads: [],
+        timers: [],
+        pending: null,
+        log: [],
+        steps: 0,
+    };
+};
+
+const log = (state: InterpreterState, kind: LogEntry['kind'], message: string) => {
+    state.log.push({ time: state.clock, kind, message });
+};
+
+// Where a Get/Set node's variable lives: inside a function call its locals come first, and local names
+// never clash with member variables. Nodes that don't refer to an existing variable have no slot.
+const findVariableSlot = (state: InterpreterState, node: GraphNode) => {
+    const name = state.nodeVariables.get(node.id);
+    if (name === undefined) return undefined;
+    const call = [...state.frames].reverse().find((frame): frame is CallFrame => frame.kind === 'call' && name in frame.locals);
+    return { name, values: call?.locals ?? state.variables };
+};
+
+const findCustomFunction = (state: InterpreterState, node: GraphNode) =>
+    node.type === 'function' ? state.customFunctions.find(func => func.name === node.name) : undefined;
+
+// --- Data Evaluation (lazy, on demand) ---
+
+const evaluateInput = (state: InterpreterState, pin: GraphPin | undefined, stack: Set<string>): RuntimeValue => {
+    if (!pin) return null;
+    const sourcePinId = state.sourceOf.get(pin.id);
+    return sourcePinId ? evaluateOutput(state, sourcePinId, stack) : defaultValue(pin.dataType, state.userTypes);
+};
+
+const evaluateOutput = (state: InterpreterState, pinId: string, stack: Set<string>): RuntimeValue => {
+    if (state.outputValues.has(pinId)) return state.outputValues.get(pinId)!;
+    const { pin, node } = state.pins.get(pinId)!;
+    if (stack.has(node.id)) {
+        log(state, 'warning', `Dependência circular de dados envolvendo o nó '${node.name}'; o valor padrão foi usado.`);
+        return defaultValue(pin.dataType, state.userTypes);
+    }
+    const nextStack = new Set(stack).add(node.id);
+    const input = (name: string) => evaluateInput(state, findPin(node, 'in', 'data', name), nextStack);
+
+    if (node.type === 'literal') return parseLiteral(node.properties?.value ?? node.name, pin.dataType, state.userTypes);
+    if (node.type === 'variable_get' || node.type === 'variable_set') {
+        const slot = findVariableSlot(state, node);
+        if (!slot) log(state, 'warning', `A variável '${variableNameOf(node)}' não existe; o nó '${node.name}' usa o valor padrão.`);
+        return slot && slot.name in slot.values ? slot.values[slot.name] : defaultValue(pin.dataType, state.userTypes);
+    }
+
+    const mathMatch = node.name.match(MATH_NODE_PATTERN);
+    if (mathMatch) {
+        const isInteger = mathMatch[1] === 'Integer';
+        const a = Number(input('A')), b = Number(input('B'));
+        switch (mathMatch[2]) {
+            case '+': return isInteger ? (a + b) | 0 : a + b;
+            case '-': return isInteger ? (a - b) | 0 : a - b;
+            case '*': return isInteger ? Math.imul(a, b) : a * b;
+            case '/':
+                if (b === 0) {
+                    log(state, 'warning', `Divisão por zero em '${node.name}'; o resultado é 0.`);
+                    return 0;
+                }
+                return isInteger ? Math.trunc(a / b) : a / b;
+            case '<': return a < b;
+            case '>': return a > b;
+            case '==': return a === b;
+        }
+    }
+    if (BOOLEAN_OPERATORS[node.name]) return BOOLEAN_OPERATORS[node.name](Boolean(input('A')), Boolean(input('B')));
+    if (node.name === 'NOT Boolean') return !input('Input');
+    if (CONVERSIONS[node.name]) {
+        const [pinName, convert] = CONVERSIONS[node.name];
+        return convert(input(pinName));
+    }
+
+    const userTypeNode = findUserTypeNode(node, state.userTypes);
+    if (userTypeNode?.kind === 'make') {
+        return Object.fromEntries(userTypeNode.struct.fields.map(field => [field.name, input(field.name)]));
+    }
+    if (userTypeNode?.kind === 'break') {
+        const value = input(userTypeNode.struct.name);
+        return typeof value === 'object' && value !== null && !Array.isArray(value) && pin.name in value ? value[pin.name] : defaultValue(pin.dataType, state.userTypes);
+    }
+
+    const customFunction = findCustomFunction(state, node);
+    if (customFunction?.isPure) return callPureFunction(state, node, customFunction, pin);
+
+    log(state, 'warning', `O valor do pino '${pin.name}' do nó '${node.name}' não pôde ser avaliado; o valor padrão foi usado.`);
+    return defaultValue(pin.dataType, state.userTypes);
+};
+
+// --- Execution ---
+
+/** Queues an event; its payload pins start with default values (Tick gets a 60 FPS delta). */
+export const fireEvent = (state: InterpreterState, eventNodeId: string) => {
+    const node = state.nodes.get(eventNodeId);
+    if (!node || node.type !== 'event') return;
+    eventParameterPins(node)
+        .forEach(pin => state.outputValues.set(pin.id, pin.name === 'Delta Seconds' ? 1 / 60 : defaultValue(pin.dataType, state.userTypes)));
+    log(state, 'info', `Evento '${node.name}' disparado.`);
+    state.readyThreads.push([{ kind: 'event', nodeId: eventNodeId }]);
+    if (!state.pending) advance(state);
+};
+
+const pushExec = (state: InterpreterState, node: GraphNode, pinName?: string) => {
+    const pin = findPin(node, 'out', 'exec', pinName);
+    if (pin) state.frames.push({ kind: 'exec', pinId: pin.id });
+};
+
+// Finds the next node to run: pops frames of the current thread, then other threads, then due timers.
+// With a `floor` it only runs the frames above it, which is how pure calls run inside an evaluation.
+const advance = (state: InterpreterState, floor = 0) => {
+    state.pending = null;
+    while (!state.pending) {
+        const frame = state.frames.length > floor ? state.frames.pop() : undefined;
+        if (!frame) {
+            if (floor > 0) return;
+            const next = state.readyThreads.shift();
+            if (next) {
+                state.frames = next;
+                continue;
+            }
+            if (state.timers.length === 0) return;
+            state.timers.sort((a, b) => a.time - b.time);
+            const timer = state.timers.shift()!;
+            state.clock = Math.max(state.clock, timer.time);
+            state.frames = timer.frames;
+            continue;
+        }
+
+        if (frame.kind === 'loop') {
+            const node = state.nodes.get(frame.nodeId)!;
+            if (frame.index <= frame.last) {
+                const indexPin = findPin(node, 'out', 'data', 'Index');
+                if (indexPin) state.outputValues.set(indexPin.id, frame.index);
+                state.frames.push({ ...frame, index: frame.index + 1 });
+                pushExec(state, node, 'Loop Body');
+            } else {
+                pushExec(state, node, 'Completed');
+            }
+            continue;
+        }
+
+        // The function ended without reaching a Return Node, so its outputs keep their defaults.
+        if (frame.kind === 'call') continue;
+
+        if (frame.kind === 'event') {
+            state.pending = { nodeId: frame.nodeId, connection: null };
+        } else if (frame.kind === 'wire') {
+            state.pending = { nodeId: state.pins.get(frame.connection.toPinId)!.node.id, connection: frame.connection };
+        } else {
+            // An exec output wired to several inputs runs them in order.
+            [...(state.targetsOf.get(frame.pinId) || [])]
+                .reverse()
+                .forEach(toPinId => state.frames.push({ kind: 'wire', connection: { fromPinId: frame.pinId, toPinId } }));
+        }
+    }
+};
+
+// A broadcast runs the bound events right away, on top of the caller's thread, which continues once they finish.
+const executeDispatcherNode = (state: InterpreterState, node: GraphNode, kind: DispatcherNodeKind, dispatcher: EventDispatcher) => {
+    const bound = state.bindings.get(dispatcher.id) ?? [];
+    if (kind === 'call') {
+        const values = dispatcher.parameters.map(param => evaluateInput(state, findPin(node, 'in', 'data', param.name), new Set()));
+        log(state, 'info', `'${dispatcher.name}' transmitido para ${bound.length} ${bound.length === 1 ? 'evento' : 'eventos'}.`);
+        pushExec(state, node);
+        [...bound].reverse().forEach(eventNodeId => {
+            const eventNode = state.nodes.get(eventNodeId)!;
+            eventParameterPins(eventNode).forEach((pin, index) => state.outputValues.set(pin.id, values[index] ?? defaultValue(pin.dataType, state.userTypes)));
+            state.frames.push({ kind: 'event', nodeId: eventNodeId });
+        });
+        return;
+    }
+
+    const eventPin = node.pins.find(pin => pin.direction === 'in' && isDelegatePin(pin));
+    const sourcePinId = eventPin && state.sourceOf.get(eventPin.id);
+    const eventName = sourcePinId ? delegateEventName(state.pins.get(sourcePinId)!.node) : undefined;
+    const eventNode = [...state.nodes.values()].find(n => n.type === 'event' && n.name === eventName);
+    if (!eventNode) {
+        log(state, 'warning', `O nó '${node.name}' não tem um evento do grafo conectado e foi ignorado.`);
+    } else if (kind === 'bind') {
+        if (!bound.includes(eventNode.id)) state.bindings.set(dispatcher.id, [...bound, eventNode.id]);
+    } else {
+        state.bindings.set(dispatcher.id, bound.filter(id => id !== eventNode.id));
+    }
+    pushExec(state, node);
+};
+
+// --- Function Calls ---
+
+// A call runs the function's graph on top of the caller's thread, starting at its Function Entry;
+// the call frame below the entry marks where it returns to.
+const enterFunction = (state: InterpreterState, node: GraphNode, func: CustomFunction): boolean => {
+    const entry = func.graph?.nodes.find(isFunctionEntry);
+    if (!entry) {
+        log(state, 'warning', `A função '${func.name}' não tem um nó 'Function Entry'; a chamada foi ignorada.`);
+        return false;
+    }
+    if (state.frames.filter(frame => frame.kind === 'call').length >= MAX_CALL_DEPTH) {
+        log(state, 'warning', `A chamada de '${func.name}' passou de ${MAX_CALL_DEPTH} chamadas aninhadas e foi ignorada; pode haver uma recursão infinita.`);
+        return false;
+    }
+    const values = func.parameters.map(param => evaluateInput(state, findPin(node, 'in', 'data', param.name), new Set()));
+    entry.pins
+        .filter(pin => pin.type === 'data' && pin.direction === 'out')
+        .forEach(pin => {
+            const index = func.parameters.findIndex(param => param.name === pin.name);
+            state.outputValues.set(pin.id, index === -1 ? defaultValue(pin.dataType, state.userTypes) : values[index]);
+        });
+    node.pins
+        .filter(pin => pin.type === 'data' && pin.direction === 'out')
+        .forEach(pin => state.outputValues.set(pin.id, defaultValue(pin.dataType, state.userTypes)));
+    const locals: CallFrame['locals'] = {};
+    (func.localVariables ?? []).forEach(variable => {
+        locals[variable.name] = variable.defaultValue ? parseLiteral(variable.defaultValue, variable.type, state.userTypes) : defaultValue(variable.type, state.userTypes);
+    });
+    state.frames.push({ kind: 'call', nodeId: node.id, locals }, { kind: 'event', nodeId: entry.id });
+    return true;
+};
+
+// A Return Node hands its inputs to the outputs of the call node and drops what the function still had queued.
+const executeReturnNode = (state: InterpreterState, node: GraphNode) => {
+    const callIndex = state.frames.map(frame => frame.kind).lastIndexOf('call');
+    if (callIndex === -1) return;
+    const callNode = state.nodes.get((state.frames[callIndex] as CallFrame).nodeId)!;
+    node.pins
+        .filter(pin => pin.type === 'data' && pin.direction === 'in')
+        .map(pin => [findPin(callNode, 'out', 'data', pin.name), evaluateInput(state, pin, new Set())] as const)
+        .forEach(([output, value]) => output && state.outputValues.set(output.id, value));
+    state.frames.length = callIndex;
+};
+
+// Pure calls have no exec pins, so they run to the end right away, each time one of their outputs is read.
+const callPureFunction = (state: InterpreterState, node: GraphNode, func: CustomFunction, pin: GraphPin): RuntimeValue => {
+    const pending = state.pending;
+    const floor = state.frames.length;
+    if (enterFunction(state, node, func)) {
+        for (let count = 0; ; count++) {
+            advance(state, floor);
+            if (!state.pending) break;
+            if (count === MAX_RUN_STEPS) {
+                log(state, 'warning', `A função pura '${func.name}' foi interrompida após ${MAX_RUN_STEPS} passos; pode haver um laço infinito.`);
+                state.frames.length = floor;
+                break;
+            }
+            executeNode(state, state.nodes.get(state.pending.nodeId)!);
+        }
+    }
+    state.pending = pending;
+    const value = state.outputValues.get(pin.id) ?? defaultValue(pin.dataType, state.userTypes);
+    node.pins.forEach(callPin => state.outputValues.delete(callPin.id));
+    return value;
+};
+
+const executeNode = (state: InterpreterState, node: GraphNode) => {
+    const input = (name: string) => evaluateInput(state, findPin(node, 'in', 'data', name), new Set());
+    state.steps++;
+
+    if (node.type === 'event') return pushExec(state, node);
+    if (node.name === 'Branch') return pushExec(state, node, input('Condition') ? 'True' : 'False');
+    if (node.name === 'Sequence') {
+        node.pins
+            .filter(pin => pin.type === 'exec' && pin.direction === 'out')
+            .reverse()
+            .forEach(pin => state.frames.push({ kind: 'exec', pinId: pin.id }));
+        return;
+    }
+    if (node.name === 'For Loop') {
+        state.frames.push({ kind: 'loop', nodeId: node.id, index: Number(input('First Index')), last: Number(input('Last Index')) });
+        return;
+    }
+    if (node.name === 'Delay') {
+        // Like Unreal, a Delay that is already counting ignores new triggers; the caller continues right away.
+        if (state.timers.some(timer => timer.nodeId === node.id)) return;
+        const completed = findPin(node, 'out', 'exec', 'Completed');
+        const duration = Math.max(Number(input('Duration')), 0);
+        state.timers.push({ time: state.clock + duration, nodeId: node.id, frames: completed ? [{ kind: 'exec', pinId: completed.id }] : [] });
+        return;
+    }
+    if (node.name === 'Print String') {
+        const value = input('In String');
+        log(state, 'print', formatRuntimeValue(value));
+        return pushExec(state, node);
+    }
+    if (node.type === 'variable_set') {
+        const slot = findVariableSlot(state, node);
+        const valuePin = node.pins.find(pin => pin.type === 'data' && pin.direction === 'in');
+        if (slot) slot.values[slot.name] = evaluateInput(state, valuePin, new Set());
+        else log(state, 'warning', `A variável '${variableNameOf(node)}' não existe; o nó '${node.name}' foi ignorado.`);
+        return pushExec(state, node);
+    }
+    if (node.name === RETURN_NODE_NAME) return executeReturnNode(state, node);
+
+    const customFunction = findCustomFunction(state, node);
+    if (customFunction) {
+        pushExec(state, node);
+        enterFunction(state, node, customFunction);
+        return;
+    }
+
+    // A Switch leaves through the output of the selected entry.
+    const switchNode = findUserTypeNode(node, state.userTypes);
+    if (switchNode?.kind === 'switch') return pushExec(state, node, String(input(SWITCH_SELECTION_PIN)));
+
+    const dispatcherNode = findDispatcherNode(node, state.eventDispatchers);
+    if (dispatcherNode) return executeDispatcherNode(state, node, dispatcherNode.kind, dispatcherNode.dispatcher);
+
+    log(state, 'warning', `O nó '${node.name}' não é suportado pelo interpretador; a execução continua pelo pino de saída.`);
+    pushExec(state, node);
+};
+
+export const isFinished = (state: InterpreterState) => !state.pending;
+
+/** Runs the pending node (step over) and stops at the following one. */
+export const step = (state: InterpreterState) => {
+    if (!state.pending) return;
+    const node = state.nodes.get(state.pending.nodeId);
+    if (node) executeNode(state, node);
+    advance(state);
+};
+
+/**
+ * Runs until the next node with a breakpoint, the end of all threads and timers, or a step limit
+ * that guards against infinite loops. The pending node always runs, so continuing leaves a breakpoint.
+ */
+export const run = (state: InterpreterState, breakpoints: Set<string>): 'breakpoint' | 'finished' | 'limit' => {
+    for (let count = 0; count < MAX_RUN_STEPS; count++) {
+        step(state);
+        if (!state.pending) return 'finished';
+        if (breakpoints.has(state.pending.nodeId)) return 'breakpoint';
+    }
+    log(state, 'warning', `A execução foi pausada após ${MAX_RUN_STEPS} passos; pode haver um laço infinito.`);
+    return 'limit';
+};
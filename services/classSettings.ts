@@ -0,0 +1,72 @@
+import type { ClassSettings, ParentClass } from './geminiService';
+
+// --- Parent Classes ---
+
+// Decides the lifecycle methods, ticking and replication of the generated class: actors and components
+// tick and replicate, subsystems only initialize, and plain objects and function libraries do neither.
+export type ParentClassKind = 'actor' | 'component' | 'subsystem' | 'object' | 'library';
+
+export interface ParentClassInfo {
+    kind: ParentClassKind;
+    include: string;
+    classSpecifiers: string;
+}
+
+export const PARENT_CLASSES: { [parent in ParentClass]: ParentClassInfo } = {
+    'AActor': { kind: 'actor', include: 'GameFramework/Actor.h', classSpecifiers: 'UCLASS()' },
+    'APawn': { kind: 'actor', include: 'GameFramework/Pawn.h', classSpecifiers: 'UCLASS()' },
+    'ACharacter': { kind: 'actor', include: 'GameFramework/Character.h', classSpecifiers: 'UCLASS()' },
+    'UActorComponent': { kind: 'component', include: 'Components/ActorComponent.h', classSpecifiers: 'UCLASS(ClassGroup = (Custom), meta = (BlueprintSpawnableComponent))' },
+    'USceneComponent': { kind: 'component', include: 'Components/SceneComponent.h', classSpecifiers: 'UCLASS(ClassGroup = (Custom), meta = (BlueprintSpawnableComponent))' },
+    'UObject': { kind: 'object', include: 'UObject/NoExportTypes.h', classSpecifiers: 'UCLASS(BlueprintType, Blueprintable)' },
+    'UBlueprintFunctionLibrary': { kind: 'library', include: 'Kismet/BlueprintFunctionLibrary.h', classSpecifiers: 'UCLASS()' },
+    'UGameInstanceSubsystem': { kind: 'subsystem', include: 'Subsystems/GameInstanceSubsystem.h', classSpecifiers: 'UCLASS()' },
+};
+
+export const parentClasses = Object.keys(PARENT_CLASSES) as ParentClass[];
+
+// --- Settings ---
+
+export const apiMacroFor = (moduleName: string) => {
+    const name = moduleName.replace(/\W/g, '').toUpperCase();
+    return name ? `${name}_API` : '';
+};
+
+export const DEFAULT_CLASS_SETTINGS: ClassSettings = {
+    className: 'MyBlueprintActor',
+    parentClass: 'AActor',
+    moduleName: 'MyProject',
+    apiMacro: 'MYPROJECT_API',
+    includePath: '',
+};
+
+// A prefix typed into the name is dropped, so 'AMyActor' doesn't become AAMyActor.
+export const baseClassName = (settings: ClassSettings) => {
+    const name = settings.className.replace(/\W/g, '');
+    const withoutPrefix = name.startsWith(settings.parentClass[0]) && /^[AU][A-Z]/.test(name) ? name.slice(1) : name;
+    return withoutPrefix || DEFAULT_CLASS_SETTINGS.className;
+};
+
+/** The C++ name of the generated class, e.g. AMyBlueprintActor. */
+export const cppClassNameOf = (settings: ClassSettings) => `${settings.parentClass[0]}${baseClassName(settings)}`;
+
+/** The header as the .cpp includes it, relative to the module's Public directory. */
+export const headerIncludeOf = (settings: ClassSettings) => {
+    const folder = settings.includePath.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+    return folder ? `${folder}/${baseClassName(settings)}.h` : `${baseClassName(settings)}.h`;
+};
+
+const isObject = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Settings read from a project file, with missing or invalid fields taken from the defaults. */
+export const repairClassSettings = (raw: unknown): ClassSettings => {
+    if (!isObject(raw)) return DEFAULT_CLASS_SETTINGS;
+    const text = (key: keyof ClassSettings) => typeof raw[key] === 'string' ? raw[key] as string : DEFAULT_CLASS_SETTINGS[key];
+    return {
+        className: text('className'),
+        parentClass: parentClasses.find(parent => parent === raw.parentClass) ?? DEFAULT_CLASS_SETTINGS.parentClass,
+        moduleName: text('moduleName'),
+        apiMacro: text('apiMacro'),
+        includePath: text('includePath'),
+    };
+};
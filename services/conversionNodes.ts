@@ -0,0 +1,51 @@
+import type { FunctionGraph, GraphNode, GraphPin } from './geminiService';
+import { createNodeFromTemplate, findNodeTemplate, NodeTemplate } from './nodeLibrary';
+
+// Wires Unreal accepts between different types by inserting a conversion node. Object references to
+// a parent class need none: those pins are compatible as they are.
+const AUTO_CONVERSIONS: { from: string; to: string; nodeName: string }[] = [
+    { from: 'Integer', to: 'Float', nodeName: 'To Float (Integer)' },
+    { from: 'Integer', to: 'String', nodeName: 'To String (Integer)' },
+    { from: 'Float', to: 'String', nodeName: 'To String (Float)' },
+    { from: 'Boolean', to: 'String', nodeName: 'To String (Boolean)' },
+    { from: 'Name', to: 'String', nodeName: 'To String (Name)' },
+    { from: 'Vector', to: 'String', nodeName: 'To String (Vector)' },
+];
+
+/** The node that converts a wire from `fromPin` into `toPin`, if there is one. Containers never convert. */
+export const findConversion = (fromPin: GraphPin, toPin: GraphPin): NodeTemplate | undefined => {
+    if (fromPin.type !== 'data' || toPin.type !== 'data' || fromPin.containerType || toPin.containerType) return undefined;
+    const conversion = AUTO_CONVERSIONS.find(c => c.from === fromPin.dataType && c.to === toPin.dataType);
+    return conversion && findNodeTemplate(conversion.nodeName);
+};
+
+export const canConnectWithConversion = (fromPin: GraphPin, toPin: GraphPin, fromNodeId: string, toNodeId: string) =>
+    fromPin.direction === 'out' && toPin.direction === 'in' && fromNodeId !== toNodeId && Boolean(findConversion(fromPin, toPin));
+
+/**
+ * Wires `fromPin` to `toPin` through a new conversion node placed halfway between their nodes,
+ * replacing the wire already on the input. Returns null when the types don't convert.
+ */
+export const connectWithConversion = <T extends FunctionGraph>(
+    graph: T,
+    from: { node: GraphNode; pin: GraphPin },
+    to: { node: GraphNode; pin: GraphPin },
+): { graph: T; node: GraphNode } | null => {
+    const template = findConversion(from.pin, to.pin);
+    if (!template || !canConnectWithConversion(from.pin, to.pin, from.node.id, to.node.id)) return null;
+    const node = createNodeFromTemplate(template, Math.round((from.node.x + to.node.x) / 2), Math.round((from.node.y + to.node.y) / 2));
+    const input = node.pins.find(pin => pin.direction === 'in')!;
+    const output = node.pins.find(pin => pin.direction === 'out')!;
+    return {
+        graph: {
+            ...graph,
+            nodes: [...graph.nodes, node],
+            connections: [
+                ...graph.connections.filter(c => c.toPinId !== to.pin.id),
+                { fromPinId: from.pin.id, toPinId: input.id },
+                { fromPinId: output.id, toPinId: to.pin.id },
+            ],
+        },
+        node,
+    };
+};
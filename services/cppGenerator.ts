@@ -0,0 +1,954 @@
+import type { ClassSettings, CppCodeResponse, CustomEvent, CustomFunction, EventDispatcher, FunctionParameter, GraphData, GraphNode, GraphPin, GraphVariable, UserEnum, UserStruct } from './geminiService';
+import { baseClassName, cppClassNameOf, DEFAULT_CLASS_SETTINGS, headerIncludeOf, PARENT_CLASSES, ParentClassInfo, ParentClassKind } from './classSettings';
+import { isFunctionEntry, RETURN_NODE_NAME } from './functionGraph';
+import { componentTree, findComponentType, isComponent } from './actorComponents';
+import { delegateEventName, DispatcherNodeKind, findDispatcherNode, isDelegatePin } from './eventDispatchers';
+import { isRemoteEvent, rpcSpecifiers } from './eventReplication';
+import { PinType, variablePinType } from './pinTypes';
+import { findUserTypeNode, SWITCH_SELECTION_PIN } from './userTypes';
+import { cppClassName } from './typeCatalogue';
+import { findNodeVariable, variableNameOf } from './variableReferences';
+
+// --- Naming & Types ---
+
+const TAB = '\t';
+
+const CPP_TYPES: { [key: string]: string } = {
+    'Boolean': 'bool',
+    'Byte': 'uint8',
+    'Integer': 'int32',
+    'Integer64': 'int64',
+    'Float': 'float',
+    'Double': 'double',
+    'String': 'FString',
+    'Name': 'FName',
+    'Text': 'FText',
+    'Vector': 'FVector',
+    'Vector2D': 'FVector2D',
+    'Rotator': 'FRotator',
+    'Transform': 'FTransform',
+    'LinearColor': 'FLinearColor',
+    'HitResult': 'FHitResult',
+    'CollisionChannel': 'TEnumAsByte<ECollisionChannel>',
+    'MovementMode': 'TEnumAsByte<EMovementMode>',
+};
+
+const DEFAULT_VALUES: { [key: string]: string } = {
+    'Boolean': 'false',
+    'Byte': '0',
+    'Integer': '0',
+    'Integer64': '0',
+    'Float': '0.0f',
+    'Double': '0.0',
+    'String': 'FString()',
+    'Name': 'NAME_None',
+    'Text': 'FText::GetEmpty()',
+    'Vector': 'FVector::ZeroVector',
+    'Rotator': 'FRotator::ZeroRotator',
+    'Transform': 'FTransform::Identity',
+    'Vector2D': 'FVector2D::ZeroVector',
+    'LinearColor': 'FLinearColor::Black',
+    'CollisionChannel': 'ECC_WorldStatic',
+    'MovementMode': 'MOVE_None',
+    'Object': 'nullptr',
+    'Class': 'nullptr',
+};
+
+// Types cheap enough to pass by value; everything else goes by const reference.
+const BY_VALUE_TYPES = new Set(['Boolean', 'Byte', 'Integer', 'Integer64', 'Float', 'Double', 'Name', 'CollisionChannel', 'MovementMode', 'Object', 'Class']);
+
+export const toIdentifier = (name: string): string => {
+    const words = name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^A-Za-z0-9_]+/)
+        .filter(Boolean);
+    const identifier = words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+    if (!identifier) return 'Value';
+    return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+const findEnum = (userEnums: UserEnum[], dataType: string) => userEnums.find(e => e.name === dataType);
+
+// Reference types name their class; a missing class means UObject. Other unknown types are structs,
+// except the Blueprint's own enums, which `userEnums` lists.
+export const toCppType = (dataType: string, objectClass = 'Object', userEnums: UserEnum[] = []): string => {
+    switch (dataType) {
+        case 'Object': return `${cppClassName(objectClass)}*`;
+        case 'Class': return `TSubclassOf<${cppClassName(objectClass)}>`;
+        case 'SoftObject': return `TSoftObjectPtr<${cppClassName(objectClass)}>`;
+        case 'SoftClass': return `TSoftClassPtr<${cppClassName(objectClass)}>`;
+        default: return CPP_TYPES[dataType] ?? `${findEnum(userEnums, dataType) ? 'E' : 'F'}${toIdentifier(dataType)}`;
+    }
+};
+
+// A Blueprint enum starts at its first entry.
+const defaultValue = (dataType: string, objectClass?: string, userEnums: UserEnum[] = []): string => {
+    const firstEntry = findEnum(userEnums, dataType)?.entries[0];
+    if (firstEntry !== undefined) return `${toCppType(dataType, objectClass, userEnums)}::${toIdentifier(firstEntry)}`;
+    return DEFAULT_VALUES[dataType] ?? `${toCppType(dataType, objectClass, userEnums)}()`;
+};
+
+export const toCppPinType = ({ dataType, containerType, valueType, objectClass }: PinType, userEnums: UserEnum[] = []): string => {
+    switch (containerType) {
+        case 'Array': return `TArray<${toCppType(dataType, objectClass, userEnums)}>`;
+        case 'Set': return `TSet<${toCppType(dataType, objectClass, userEnums)}>`;
+        case 'Map': return `TMap<${toCppType(dataType, objectClass, userEnums)}, ${toCppType(valueType ?? dataType, undefined, userEnums)}>`;
+        default: return toCppType(dataType, objectClass, userEnums);
+    }
+};
+
+// Containers start out empty.
+const defaultPinValue = (type: PinType, userEnums: UserEnum[] = []): string =>
+    type.containerType ? `${toCppPinType(type, userEnums)}()` : defaultValue(type.dataType, type.objectClass, userEnums);
+
+const isPassedByValue = (dataType: string, userEnums: UserEnum[]) => BY_VALUE_TYPES.has(dataType) || Boolean(findEnum(userEnums, dataType));
+
+const toParameterType = (param: FunctionParameter, userEnums: UserEnum[] = []): string => {
+    const type = toCppType(param.type, param.objectClass, userEnums);
+    return isPassedByValue(param.type, userEnums) ? type : `const ${type}&`;
+};
+
+const toParameterDeclaration = (param: FunctionParameter, isOutput = false, userEnums: UserEnum[] = []): string => {
+    if (isOutput) return `${toCppType(param.type, param.objectClass, userEnums)}& ${toIdentifier(param.name)}`;
+    return `${toParameterType(param, userEnums)} ${toIdentifier(param.name)}`;
+};
+
+const escapeString = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatFloat = (value: number) => {
+    const text = String(Number.isFinite(value) ? value : 0);
+    return /[.e]/.test(text) ? text : `${text}.0`;
+};
+
+const parseNumbers = (value: string): number[] => (value.match(/-?\d+(?:\.\d+)?(?:e-?\d+)?/gi) || []).map(Number);
+
+// Enum literals hold the name of an entry.
+const formatLiteral = (value: string, dataType: string, objectClass?: string, userEnums: UserEnum[] = []): string => {
+    const userEnum = findEnum(userEnums, dataType);
+    if (userEnum) {
+        const entry = userEnum.entries.find(e => e === value.trim());
+        return entry !== undefined ? `${toCppType(dataType, objectClass, userEnums)}::${toIdentifier(entry)}` : defaultValue(dataType, objectClass, userEnums);
+    }
+    switch (dataType) {
+        case 'String': return `TEXT("${escapeString(value)}")`;
+        case 'Name': return `FName(TEXT("${escapeString(value)}"))`;
+        case 'Text': return `FText::FromString(TEXT("${escapeString(value)}"))`;
+        case 'Boolean': return /^(true|1)$/i.test(value.trim()) ? 'true' : 'false';
+        case 'Byte': return String(Math.min(255, Math.max(0, parseInt(value, 10) || 0)));
+        case 'Integer': return String(parseInt(value, 10) || 0);
+        case 'Integer64': return `${parseInt(value, 10) || 0}LL`;
+        case 'Float': return `${formatFloat(parseFloat(value))}f`;
+        case 'Double': return formatFloat(parseFloat(value));
+        case 'Vector': {
+            const [x = 0, y = 0, z = 0] = parseNumbers(value);
+            return `FVector(${formatFloat(x)}, ${formatFloat(y)}, ${formatFloat(z)})`;
+        }
+        case 'Rotator': {
+            const [pitch = 0, yaw = 0, roll = 0] = parseNumbers(value);
+            return `FRotator(${formatFloat(pitch)}, ${formatFloat(yaw)}, ${formatFloat(roll)})`;
+        }
+        case 'Vector2D': {
+            const [x = 0, y = 0] = parseNumbers(value);
+            return `FVector2D(${formatFloat(x)}, ${formatFloat(y)})`;
+        }
+        case 'LinearColor': {
+            const [r = 0, g = 0, b = 0, a = 1] = parseNumbers(value);
+            return `FLinearColor(${formatFloat(r)}f, ${formatFloat(g)}f, ${formatFloat(b)}f, ${formatFloat(a)}f)`;
+        }
+        // Soft references hold an asset path; hard references can't be written as literals.
+        case 'SoftObject': case 'SoftClass':
+            return value ? `${toCppType(dataType, objectClass)}(FSoftObjectPath(TEXT("${escapeString(value)}")))` : defaultValue(dataType, objectClass);
+        case 'Object': case 'Class': return defaultValue(dataType, objectClass);
+        default: return value || defaultValue(dataType);
+    }
+};
+
+// --- Member Variables ---
+
+export const repNotifyFunctionName = (variable: GraphVariable) => `OnRep_${toIdentifier(variable.name)}`;
+
+const isReplicated = (variable: GraphVariable) => variable.replication === 'replicated' || variable.replication === 'repNotify';
+
+const buildPropertySpecifiers = (variable: GraphVariable): string => {
+    // Component pointers are set in the constructor; only the component's own properties are editable.
+    const specifiers = isComponent(variable) ? ['VisibleAnywhere', 'BlueprintReadOnly'] : [
+        variable.isInstanceEditable ? 'EditAnywhere' : 'EditDefaultsOnly',
+        variable.isReadOnly ? 'BlueprintReadOnly' : 'BlueprintReadWrite',
+    ];
+    specifiers.push(`Category = "${escapeString(variable.category?.trim() || 'Default')}"`);
+    if (variable.replication === 'replicated') specifiers.push('Replicated');
+    if (variable.replication === 'repNotify') specifiers.push(`ReplicatedUsing = ${repNotifyFunctionName(variable)}`);
+    const meta = [
+        ...(variable.exposeOnSpawn ? ['ExposeOnSpawn = "true"'] : []),
+        // Blueprint access to a private property has to be allowed explicitly.
+        ...(variable.visibility === 'private' ? ['AllowPrivateAccess = "true"'] : []),
+    ];
+    if (meta.length > 0) specifiers.push(`meta = (${meta.join(', ')})`);
+    return `UPROPERTY(${specifiers.join(', ')})`;
+};
+
+// The tooltip becomes the doc comment, which Unreal shows as the property's tooltip.
+const declareVariable = (variable: GraphVariable, userEnums: UserEnum[]): string[] => [
+    ...(variable.tooltip?.trim() ? [`${TAB}/** ${variable.tooltip.trim().replace(/\s*\n\s*/g, ' ').replace(/\*\//g, '* /')} */`] : []),
+    `${TAB}${buildPropertySpecifiers(variable)}`,
+    `${TAB}${toCppPinType(variablePinType(variable), userEnums)} ${toIdentifier(variable.name)};`,
+    '',
+];
+
+// --- Event Dispatchers ---
+
+const DELEGATE_MACRO_SUFFIXES = ['', '_OneParam', '_TwoParams', '_ThreeParams', '_FourParams', '_FiveParams', '_SixParams', '_SevenParams', '_EightParams', '_NineParams'];
+
+export const delegateTypeName = (dispatcher: EventDispatcher) => `F${toIdentifier(dispatcher.name)}Signature`;
+
+const declareDelegateType = (dispatcher: EventDispatcher, userEnums: UserEnum[]): string => {
+    const parameters = dispatcher.parameters.flatMap(param => [toParameterType(param, userEnums), toIdentifier(param.name)]);
+    return `DECLARE_DYNAMIC_MULTICAST_DELEGATE${DELEGATE_MACRO_SUFFIXES[dispatcher.parameters.length]}(${[delegateTypeName(dispatcher), ...parameters].join(', ')});`;
+};
+
+const declareDispatcher = (dispatcher: EventDispatcher): string[] => [
+    `${TAB}UPROPERTY(BlueprintAssignable, Category = "Event Dispatchers")`,
+    `${TAB}${delegateTypeName(dispatcher)} ${toIdentifier(dispatcher.name)};`,
+    '',
+];
+
+const initialValue = (variable: GraphVariable, userEnums: UserEnum[]): string => variable.defaultValue && !variable.containerType
+    ? formatLiteral(variable.defaultValue, variable.type, variable.objectClass, userEnums)
+    : defaultPinValue(variablePinType(variable), userEnums);
+
+// --- Node Semantics ---
+
+interface NativeEvent {
+    method: string;
+    parameters: string;
+    superArguments: string;
+    pinNames: { [pinName: string]: string }; // Event output pin -> C++ parameter
+}
+
+const ACTOR_EVENTS: { [eventName: string]: NativeEvent } = {
+    'BeginPlay': { method: 'BeginPlay', parameters: '', superArguments: '', pinNames: {} },
+    'Tick': { method: 'Tick', parameters: 'float DeltaTime', superArguments: 'DeltaTime', pinNames: { 'Delta Seconds': 'DeltaTime' } },
+    'EndPlay': { method: 'EndPlay', parameters: 'const EEndPlayReason::Type EndPlayReason', superArguments: 'EndPlayReason', pinNames: { 'End Play Reason': 'EndPlayReason' } },
+};
+
+// The Blueprint events each kind of parent class implements, and the method that overrides them.
+const NATIVE_EVENTS: { [kind in ParentClassKind]: { [eventName: string]: NativeEvent } } = {
+    actor: ACTOR_EVENTS,
+    component: {
+        'BeginPlay': { method: 'InitializeComponent', parameters: '', superArguments: '', pinNames: {} },
+        'Tick': {
+            method: 'TickComponent',
+            parameters: 'float DeltaTime, ELevelTick TickType, FActorComponentTickFunction* ThisTickFunction',
+            superArguments: 'DeltaTime, TickType, ThisTickFunction',
+            pinNames: { 'Delta Seconds': 'DeltaTime' },
+        },
+        'EndPlay': ACTOR_EVENTS['EndPlay'],
+    },
+    subsystem: {
+        'BeginPlay': { method: 'Initialize', parameters: 'FSubsystemCollectionBase& Collection', superArguments: 'Collection', pinNames: {} },
+        'EndPlay': { method: 'Deinitialize', parameters: '', superArguments: '', pinNames: {} },
+    },
+    object: {},
+    library: {},
+};
+
+const nativeEventName = (node: GraphNode) => node.name.replace(/^Event\s+/, '').replace(/\s+/g, '');
+
+const findNativeEvent = (ctx: GeneratorContext, node: GraphNode): NativeEvent | undefined => NATIVE_EVENTS[ctx.parent.kind][nativeEventName(node)];
+
+// Lifecycle events of actors that the parent class has no counterpart for, e.g. Tick on a UObject.
+const isUnsupportedNativeEvent = (ctx: GeneratorContext, node: GraphNode) =>
+    node.type === 'event' && Boolean(ACTOR_EVENTS[nativeEventName(node)]) && !findNativeEvent(ctx, node);
+
+const BOOLEAN_OPERATORS: { [nodeName: string]: string } = {
+    'AND Boolean': '&&',
+    'OR Boolean': '||',
+};
+
+// Conversion nodes: the input pin and its type, and the C++ expression built from its value.
+const CONVERSIONS: { [nodeName: string]: [string, string, (value: string) => string] } = {
+    'To Float (Integer)': ['In Int', 'Integer', value => `static_cast<float>(${value})`],
+    'To String (Integer)': ['In Int', 'Integer', value => `FString::FromInt(${value})`],
+    'To String (Float)': ['In Float', 'Float', value => `FString::SanitizeFloat(${value})`],
+    'To String (Boolean)': ['In Bool', 'Boolean', value => `FString(${value} ? TEXT("true") : TEXT("false"))`],
+    'To String (Name)': ['In Name', 'Name', value => `${value}.ToString()`],
+    'To String (Vector)': ['In Vec', 'Vector', value => `${value}.ToString()`],
+};
+
+// Matches the math nodes of the library, e.g. 'Integer + Integer' or 'Float == Float'.
+const MATH_NODE_PATTERN = /^(Integer|Float) (\+|-|\*|\/|<|>|==) \1$/;
+
+// A pure function with a single output returns it, so calls can be used as expressions.
+const returnsValue = (func: CustomFunction) => Boolean(func.isPure) && func.outputs.length === 1;
+
+// --- Generation Context ---
+
+interface GeneratorContext {
+    className: string;
+    parentClass: string;
+    parent: ParentClassInfo;
+    pins: Map<string, { pin: GraphPin; node: GraphNode }>;
+    sourceOf: Map<string, string>; // Input pin id -> connected output pin id
+    targetsOf: Map<string, string[]>; // Output pin id -> connected input pin ids
+    pinExpressions: Map<string, string>; // Output pins whose value lives in a named local or parameter
+    variables: GraphVariable[];
+    customFunctions: CustomFunction[];
+    eventDispatchers: EventDispatcher[];
+    userStructs: UserStruct[];
+    userEnums: UserEnum[];
+    currentFunction?: CustomFunction; // Set while emitting the body of a custom function
+    droppedVariables: Set<string>; // Blueprint variables the class can't declare, e.g. any variable of a function library
+    usedNames: Set<string>;
+    includes: Set<string>;
+    warnings: string[];
+}
+
+const createContext = (graphData: GraphData, settings: ClassSettings, eventDispatchers: EventDispatcher[]): GeneratorContext => {
+    // Function graphs share the lookups with the Event Graph; node and pin ids are unique across all of them.
+    const graphs = [graphData, ...(graphData.customFunctions || []).flatMap(func => func.graph ? [func.graph] : [])];
+    const pins = new Map<string, { pin: GraphPin; node: GraphNode }>();
+    graphs.forEach(graph => graph.nodes.forEach(node => node.pins.forEach(pin => pins.set(pin.id, { pin, node }))));
+
+    const sourceOf = new Map<string, string>();
+    const targetsOf = new Map<string, string[]>();
+    graphs.flatMap(graph => graph.connections).forEach(({ fromPinId, toPinId }) => {
+        if (!pins.has(fromPinId) || !pins.has(toPinId)) return;
+        sourceOf.set(toPinId, fromPinId);
+        targetsOf.set(fromPinId, [...(targetsOf.get(fromPinId) || []), toPinId]);
+    });
+
+    return {
+        className: cppClassNameOf(settings),
+        parentClass: settings.parentClass,
+        parent: PARENT_CLASSES[settings.parentClass],
+        pins,
+        sourceOf,
+        targetsOf,
+        pinExpressions: new Map(),
+        variables: graphData.variables,
+        customFunctions: graphData.customFunctions || [],
+        eventDispatchers,
+        userStructs: graphData.userStructs || [],
+        userEnums: graphData.userEnums || [],
+        droppedVariables: new Set(),
+        usedNames: new Set([...graphData.variables, ...eventDispatchers].map(member => toIdentifier(member.name))),
+        includes: new Set(),
+        warnings: [],
+    };
+};
+
+const uniqueName = (ctx: GeneratorContext, base: string): string => {
+    let name = base;
+    for (let suffix = 1; ctx.usedNames.has(name); suffix++) name = `${base}_${suffix}`;
+    ctx.usedNames.add(name);
+    return name;
+};
+
+const warn = (ctx: GeneratorContext, message: string) => {
+    if (!ctx.warnings.includes(message)) ctx.warnings.push(message);
+};
+
+// Get and Set nodes find their variable the way the compiler does, by id or by name in graphs that predate ids.
+// Missing variables and dropped members are reported with what the node does instead.
+const resolveNodeVariable = (ctx: GeneratorContext, node: GraphNode, consequence: string): GraphVariable | undefined => {
+    const locals = ctx.currentFunction?.localVariables ?? [];
+    const variable = findNodeVariable(node, [...locals, ...ctx.variables]);
+    if (!variable) {
+        warn(ctx, `A variável '${variableNameOf(node)}' não existe; o nó '${node.name}' ${consequence}.`);
+    } else if (ctx.droppedVariables.has(variable.name) && !locals.includes(variable)) {
+        warn(ctx, `A variável '${variable.name}' não existe em ${ctx.parentClass}; o nó '${node.name}' ${consequence}.`);
+    } else {
+        return variable;
+    }
+    return undefined;
+};
+
+const findPin = (node: GraphNode, direction: GraphPin['direction'], type: GraphPin['type'], name?: string) =>
+    node.pins.find(pin => pin.direction === direction && pin.type === type && (name === undefined || pin.name === name));
+
+// --- Expressions (data pins) ---
+
+const resolveInput = (ctx: GeneratorContext, pin: GraphPin | undefined, dataType: string, stack: Set<string>): string => {
+    if (!pin) return defaultValue(dataType, undefined, ctx.userEnums);
+    const sourcePinId = ctx.sourceOf.get(pin.id);
+    return sourcePinId ? resolveOutput(ctx, sourcePinId, stack) : defaultPinValue(pin, ctx.userEnums);
+};
+
+const resolveOutput = (ctx: GeneratorContext, pinId: string, stack: Set<string>): string => {
+    const known = ctx.pinExpressions.get(pinId);
+    if (known) return known;
+
+    const owner = ctx.pins.get(pinId)!;
+    const { pin, node } = owner;
+    if (stack.has(node.id)) {
+        warn(ctx, `Dependência circular de dados envolvendo o nó '${node.name}'.`);
+        return defaultPinValue(pin, ctx.userEnums);
+    }
+    const nextStack = new Set(stack).add(node.id);
+    const input = (name: string, dataType: string) => resolveInput(ctx, findPin(node, 'in', 'data', name), dataType, nextStack);
+
+    if (node.type === 'literal') return formatLiteral(node.properties?.value ?? node.name, pin.dataType, pin.objectClass, ctx.userEnums);
+    if (node.type === 'variable_get') {
+        const variable = resolveNodeVariable(ctx, node, 'usa o valor padrão');
+        return variable ? toIdentifier(variable.name) : defaultPinValue(pin, ctx.userEnums);
+    }
+
+    const mathMatch = node.name.match(MATH_NODE_PATTERN);
+    if (mathMatch) return `(${input('A', mathMatch[1])} ${mathMatch[2]} ${input('B', mathMatch[1])})`;
+    if (BOOLEAN_OPERATORS[node.name]) return `(${input('A', 'Boolean')} ${BOOLEAN_OPERATORS[node.name]} ${input('B', 'Boolean')})`;
+    if (node.name === 'NOT Boolean') return `!${input('Input', 'Boolean')}`;
+    if (CONVERSIONS[node.name]) {
+        const [pinName, dataType, convert] = CONVERSIONS[node.name];
+        return convert(input(pinName, dataType));
+    }
+
+    if (node.name === 'Array Get') return `${input('Target Array', 'Object')}[${input('Index', 'Integer')}]`;
+    if (node.name === 'Array Length') return `${input('Target Array', 'Object')}.Num()`;
+    if (node.name === 'Array Contains') return `${input('Target Array', 'Object')}.Contains(${input('Item to Find', pin.dataType)})`;
+
+    const userTypeNode = findUserTypeNode(node, ctx);
+    if (userTypeNode?.kind === 'make') return makeStruct(ctx, node, userTypeNode.struct, nextStack);
+    if (userTypeNode?.kind === 'break') return `${input(userTypeNode.struct.name, userTypeNode.struct.name)}.${toIdentifier(pin.name)}`;
+
+    const pureFunction = node.type === 'function' ? ctx.customFunctions.find(f => f.name === node.name && f.isPure) : undefined;
+    if (pureFunction) {
+        const args = pureFunction.parameters.map(param => input(param.name, param.type));
+        if (returnsValue(pureFunction)) return `${toIdentifier(pureFunction.name)}(${args.join(', ')})`;
+        // Several outputs come back through out parameters, read inside an immediately invoked lambda.
+        const outputs = pureFunction.outputs.map(output => ({ output, local: toIdentifier(output.name) }));
+        const wanted = outputs.find(({ output }) => output.name === pin.name) ?? outputs[0];
+        if (!wanted) return defaultPinValue(pin, ctx.userEnums);
+        const declarations = outputs.map(({ output, local }) => `${toCppType(output.type, output.objectClass, ctx.userEnums)} ${local}; `).join('');
+        return `[&]() { ${declarations}${toIdentifier(pureFunction.name)}(${[...args, ...outputs.map(({ local }) => local)].join(', ')}); return ${wanted.local}; }()`;
+    }
+
+    warn(ctx, `O valor do pino '${pin.name}' do nó '${node.name}' não pôde ser resolvido; o valor padrão foi usado.`);
+    return defaultPinValue(pin, ctx.userEnums);
+};
+
+// Only the connected fields are set; the others keep the defaults of the struct declaration.
+const makeStruct = (ctx: GeneratorContext, node: GraphNode, struct: UserStruct, stack: Set<string>): string => {
+    const type = toCppType(struct.name, undefined, ctx.userEnums);
+    const fields = struct.fields.filter(field => {
+        const pin = findPin(node, 'in', 'data', field.name);
+        return pin && ctx.sourceOf.has(pin.id);
+    });
+    if (fields.length === 0) return `${type}()`;
+    const local = uniqueName(ctx, toIdentifier(struct.name));
+    const assignments = fields.map(field => `${local}.${toIdentifier(field.name)} = ${resolveInput(ctx, findPin(node, 'in', 'data', field.name), field.type, stack)}; `).join('');
+    return `[&]() { ${type} ${local}; ${assignments}return ${local}; }()`;
+};
+
+// --- Statements (exec pins) ---
+
+const emitExecFrom = (ctx: GeneratorContext, execPin: GraphPin | undefined, indent: string, path: Set<string>, locals: string[]): string[] => {
+    if (!execPin) return [];
+    return (ctx.targetsOf.get(execPin.id) || []).flatMap(targetPinId =>
+        emitNode(ctx, ctx.pins.get(targetPinId)!.node, indent, path, locals)
+    );
+};
+
+const emitBlock = (header: string, body: string[], indent: string): string[] => [
+    `${indent}${header}`,
+    `${indent}{`,
+    ...body,
+    `${indent}}`,
+];
+
+const emitNode = (ctx: GeneratorContext, node: GraphNode, indent: string, path: Set<string>, locals: string[]): string[] => {
+    if (path.has(node.id)) {
+        warn(ctx, `Ciclo de execução detectado no nó '${node.name}'.`);
+        return [`${indent}// Ciclo de execução detectado em '${node.name}'.`];
+    }
+    const nextPath = new Set(path).add(node.id);
+    const inner = indent + TAB;
+    const input = (name: string, dataType: string) => resolveInput(ctx, findPin(node, 'in', 'data', name), dataType, new Set());
+    const then = (pinName?: string, nextIndent = indent, nextLocals = locals) =>
+        emitExecFrom(ctx, findPin(node, 'out', 'exec', pinName), nextIndent, nextPath, nextLocals);
+
+    if (node.name === 'Branch') {
+        const lines = emitBlock(`if (${input('Condition', 'Boolean')})`, then('True', inner), indent);
+        const falseBranch = then('False', inner);
+        return falseBranch.length > 0 ? [...lines, ...emitBlock('else', falseBranch, indent)] : lines;
+    }
+
+    if (node.name === 'Sequence') {
+        return node.pins
+            .filter(pin => pin.type === 'exec' && pin.direction === 'out')
+            .flatMap(pin => emitExecFrom(ctx, pin, indent, nextPath, locals));
+    }
+
+    if (node.name === 'For Loop') {
+        const index = uniqueName(ctx, 'Index');
+        const indexPin = findPin(node, 'out', 'data', 'Index');
+        if (indexPin) ctx.pinExpressions.set(indexPin.id, index);
+        return [
+            ...emitBlock(
+                `for (int32 ${index} = ${input('First Index', 'Integer')}; ${index} <= ${input('Last Index', 'Integer')}; ++${index})`,
+                then('Loop Body', inner, [...locals, index]),
+                indent,
+            ),
+            ...then('Completed'),
+        ];
+    }
+
+    if (node.name === 'For Each Loop') {
+        const array = input('Array', 'Object');
+        const index = uniqueName(ctx, 'ArrayIndex');
+        const indexPin = findPin(node, 'out', 'data', 'Array Index');
+        const elementPin = findPin(node, 'out', 'data', 'Array Element');
+        if (indexPin) ctx.pinExpressions.set(indexPin.id, index);
+        if (elementPin) ctx.pinExpressions.set(elementPin.id, `${array}[${index}]`);
+        return [
+            ...emitBlock(`for (int32 ${index} = 0; ${index} < ${array}.Num(); ++${index})`, then('Loop Body', inner, [...locals, index]), indent),
+            ...then('Completed'),
+        ];
+    }
+
+    // Array Add and Array Remove only declare a local for their result when something reads it.
+    if (node.name === 'Array Add' || node.name === 'Array Remove') {
+        const isAdd = node.name === 'Array Add';
+        const array = input('Target Array', 'Object');
+        const call = isAdd ? `${array}.Add(${input('New Item', 'Object')})` : `${array}.Remove(${input('Item', 'Object')})`;
+        const resultPin = findPin(node, 'out', 'data', isAdd ? 'Index' : 'Return Value');
+        if (!resultPin || !ctx.targetsOf.has(resultPin.id)) return [`${indent}${call};`, ...then()];
+        const local = uniqueName(ctx, isAdd ? 'NewIndex' : 'bRemoved');
+        ctx.pinExpressions.set(resultPin.id, local);
+        const declaration = isAdd ? `const int32 ${local} = ${call};` : `const bool ${local} = ${call} > 0;`;
+        return [`${indent}${declaration}`, ...then(undefined, indent, [...locals, local])];
+    }
+
+    if (node.name === 'Delay') {
+        if (ctx.parent.kind === 'library') {
+            warn(ctx, `O nó 'Delay' não é suportado em ${ctx.parentClass}, cujas funções são estáticas; ele foi ignorado.`);
+            return then('Completed');
+        }
+        ctx.includes.add('TimerManager.h');
+        const timerManager = ctx.parent.kind === 'actor' ? 'GetWorldTimerManager()' : 'GetWorld()->GetTimerManager()';
+        const handle = uniqueName(ctx, 'DelayHandle');
+        const captures = ['this', ...locals].join(', ');
+        return [
+            `${indent}FTimerHandle ${handle};`,
+            `${indent}${timerManager}.SetTimer(${handle}, FTimerDelegate::CreateWeakLambda(this, [${captures}]()`,
+            `${indent}{`,
+            ...then('Completed', inner),
+            `${indent}}), FMath::Max(${input('Duration', 'Float')}, KINDA_SMALL_NUMBER), false);`,
+        ];
+    }
+
+    if (node.name === 'Print String') {
+        ctx.includes.add('Kismet/KismetSystemLibrary.h');
+        // Static library functions have no object to act as the world context.
+        const worldContext = ctx.parent.kind === 'library' ? 'nullptr' : 'this';
+        return [`${indent}UKismetSystemLibrary::PrintString(${worldContext}, ${input('In String', 'String')});`, ...then()];
+    }
+
+    if (node.name === RETURN_NODE_NAME && ctx.currentFunction) {
+        const func = ctx.currentFunction;
+        if (returnsValue(func)) return [`${indent}return ${input(func.outputs[0].name, func.outputs[0].type)};`];
+        // Out parameters already hold their defaults, so unconnected outputs need no assignment.
+        const connected = func.outputs.filter(output => {
+            const pin = findPin(node, 'in', 'data', output.name);
+            return pin && ctx.sourceOf.has(pin.id);
+        });
+        return [
+            ...connected.map(output => `${indent}${toIdentifier(output.name)} = ${input(output.name, output.type)};`),
+            `${indent}return;`,
+        ];
+    }
+
+    if (node.type === 'variable_set') {
+        const variable = resolveNodeVariable(ctx, node, 'foi ignorado');
+        if (!variable) return then();
+        const valuePin = node.pins.find(pin => pin.type === 'data' && pin.direction === 'in');
+        const value = resolveInput(ctx, valuePin, valuePin?.dataType ?? 'Object', new Set());
+        return [`${indent}${toIdentifier(variable.name)} = ${value};`, ...then()];
+    }
+
+    const switchNode = findUserTypeNode(node, ctx);
+    if (switchNode?.kind === 'switch') {
+        const { entries } = switchNode.userEnum;
+        const enumType = toCppType(switchNode.userEnum.name, undefined, ctx.userEnums);
+        const connected = entries.filter(entry => {
+            const pin = findPin(node, 'out', 'exec', entry);
+            return pin && ctx.targetsOf.has(pin.id);
+        });
+        if (connected.length === 0) return [];
+        const cases = connected.flatMap(entry => [
+            `${inner}case ${enumType}::${toIdentifier(entry)}:`,
+            `${inner}{`,
+            ...then(entry, inner + TAB),
+            `${inner}${TAB}break;`,
+            `${inner}}`,
+        ]);
+        const fallthrough = connected.length < entries.length ? [`${inner}default:`, `${inner}${TAB}break;`] : [];
+        return emitBlock(`switch (${input(SWITCH_SELECTION_PIN, switchNode.userEnum.name)})`, [...cases, ...fallthrough], indent);
+    }
+
+    const dispatcherNode = findDispatcherNode(node, ctx.eventDispatchers);
+    if (dispatcherNode) return [...emitDispatcherNode(ctx, node, dispatcherNode.kind, dispatcherNode.dispatcher, indent), ...then()];
+
+    const customFunction = node.type === 'function' ? ctx.customFunctions.find(f => f.name === node.name) : undefined;
+    if (customFunction) {
+        const declarations: string[] = [];
+        const outputLocals: string[] = [];
+        const args = [
+            ...customFunction.parameters.map(param => input(param.name, param.type)),
+            ...customFunction.outputs.map(output => {
+                const local = uniqueName(ctx, `${toIdentifier(customFunction.name)}${toIdentifier(output.name)}`);
+                const outputPin = findPin(node, 'out', 'data', output.name);
+                if (outputPin) ctx.pinExpressions.set(outputPin.id, local);
+                declarations.push(`${indent}${toCppType(output.type, output.objectClass, ctx.userEnums)} ${local} = ${defaultValue(output.type, output.objectClass, ctx.userEnums)};`);
+                outputLocals.push(local);
+                return local;
+            }),
+        ];
+        return [
+            ...declarations,
+            `${indent}${toIdentifier(customFunction.name)}(${args.join(', ')});`,
+            ...then(undefined, indent, [...locals, ...outputLocals]),
+        ];
+    }
+
+    warn(ctx, `O nó '${node.name}' não é suportado pelo gerador local e foi ignorado.`);
+    return then();
+};
+
+// Broadcast passes the Call node's inputs on; Bind and Unbind name the bound member function.
+const emitDispatcherNode = (ctx: GeneratorContext, node: GraphNode, kind: DispatcherNodeKind, dispatcher: EventDispatcher, indent: string): string[] => {
+    const member = toIdentifier(dispatcher.name);
+    if (kind === 'call') {
+        const args = dispatcher.parameters.map(param => resolveInput(ctx, findPin(node, 'in', 'data', param.name), param.type, new Set()));
+        return [`${indent}${member}.Broadcast(${args.join(', ')});`];
+    }
+    const eventPin = node.pins.find(pin => pin.direction === 'in' && isDelegatePin(pin));
+    const sourcePinId = eventPin && ctx.sourceOf.get(eventPin.id);
+    const handler = sourcePinId ? delegateEventName(ctx.pins.get(sourcePinId)!.node) : undefined;
+    if (!handler) {
+        warn(ctx, `O nó '${node.name}' não tem um evento conectado e foi ignorado.`);
+        return [];
+    }
+    return [`${indent}${member}.${kind === 'bind' ? 'AddDynamic' : 'RemoveDynamic'}(this, &${ctx.className}::${toIdentifier(handler)});`];
+};
+
+// --- User Types ---
+
+// Entries that aren't identifiers keep their Blueprint name as the display name.
+const declareEnum = (userEnum: UserEnum, userEnums: UserEnum[]): string => [
+    'UENUM(BlueprintType)',
+    `enum class ${toCppType(userEnum.name, undefined, userEnums)} : uint8`,
+    '{',
+    ...userEnum.entries.map(entry => `${TAB}${toIdentifier(entry)}${toIdentifier(entry) === entry ? '' : ` UMETA(DisplayName = "${escapeString(entry)}")`},`),
+    '};',
+].join('\n');
+
+// Fields passed by value would be left uninitialized, so they get their default.
+const declareStruct = (struct: UserStruct, userEnums: UserEnum[]): string => [
+    'USTRUCT(BlueprintType)',
+    `struct ${toCppType(struct.name, undefined, userEnums)}`,
+    '{',
+    `${TAB}GENERATED_BODY()`,
+    ...struct.fields.flatMap(field => {
+        const initializer = isPassedByValue(field.type, userEnums) ? ` = ${defaultValue(field.type, field.objectClass, userEnums)}` : '';
+        return ['', `${TAB}UPROPERTY(EditAnywhere, BlueprintReadWrite)`, `${TAB}${toCppType(field.type, field.objectClass, userEnums)} ${toIdentifier(field.name)}${initializer};`];
+    }),
+    '};',
+].join('\n');
+
+/** Enums first, then structs, each after the structs its fields hold, since C++ needs them complete. */
+const declareUserTypes = (ctx: GeneratorContext): string[] => {
+    const ordered: UserStruct[] = [];
+    const visit = (struct: UserStruct, visiting: Set<string>) => {
+        if (ordered.includes(struct)) return;
+        if (visiting.has(struct.id)) {
+            warn(ctx, `A estrutura '${struct.name}' contém a si mesma e não pode ser declarada em C++.`);
+            return;
+        }
+        const next = new Set(visiting).add(struct.id);
+        struct.fields.forEach(field => {
+            const inner = ctx.userStructs.find(s => s.name === field.type);
+            if (inner) visit(inner, next);
+        });
+        if (!ordered.includes(struct)) ordered.push(struct);
+    };
+    ctx.userStructs.forEach(struct => visit(struct, new Set()));
+    return [...ctx.userEnums.map(e => declareEnum(e, ctx.userEnums)), ...ordered.map(s => declareStruct(s, ctx.userEnums))];
+};
+
+// --- Class Assembly ---
+
+interface EventMethod {
+    declaration: string;
+    specifiers: string[]; // Of the UFUNCTION declaring a custom event
+    isOverride: boolean;
+    definition: string[];
+}
+
+const buildEventMethod = (ctx: GeneratorContext, node: GraphNode | undefined, customEvent: CustomEvent | undefined): EventMethod => {
+    const nativeEvent = node ? findNativeEvent(ctx, node) : undefined;
+    const locals: string[] = [];
+
+    let signature: string;
+    let prologue: string[] = [];
+    let implementation: string | undefined;
+    let validation: string[] = [];
+    if (nativeEvent) {
+        signature = `${nativeEvent.method}(${nativeEvent.parameters})`;
+        prologue = [`${TAB}Super::${nativeEvent.method}(${nativeEvent.superArguments});`];
+        node!.pins.filter(pin => pin.type === 'data' && pin.direction === 'out').forEach(pin => {
+            const parameter = nativeEvent.pinNames[pin.name];
+            if (parameter) {
+                ctx.pinExpressions.set(pin.id, parameter);
+                locals.push(parameter);
+            }
+        });
+    } else {
+        const name = customEvent?.name ?? node!.name;
+        // The Output Delegate pin refers to the event itself; it isn't a parameter.
+        const parameterPins = node?.pins.filter(pin => pin.type === 'data' && pin.direction === 'out' && !isDelegatePin(pin)) ?? [];
+        const parameters: FunctionParameter[] = customEvent?.parameters
+            ?? parameterPins.map(pin => ({ id: pin.id, name: pin.name, type: pin.dataType, objectClass: pin.objectClass }));
+        const parameterList = parameters.map(param => toParameterDeclaration(param, false, ctx.userEnums)).join(', ');
+        signature = `${toIdentifier(name)}(${parameterList})`;
+        // RPCs are declared under their own name, but the body goes in <Name>_Implementation.
+        if (isRemoteEvent(customEvent)) {
+            implementation = `${toIdentifier(name)}_Implementation(${parameterList})`;
+            if (customEvent!.withValidation) {
+                // Blueprints have no validation rule to translate, so every call is accepted.
+                warn(ctx, `O evento '${name}' usa validação; ${toIdentifier(name)}_Validate aceita todas as chamadas até que a regra seja escrita em C++.`);
+                validation = [
+                    '',
+                    `bool ${ctx.className}::${toIdentifier(name)}_Validate(${parameterList})`,
+                    '{',
+                    `${TAB}return true;`,
+                    '}',
+                ];
+            }
+        }
+        parameterPins.forEach(pin => {
+            const parameter = toIdentifier(pin.name);
+            ctx.pinExpressions.set(pin.id, parameter);
+            locals.push(parameter);
+        });
+    }
+    locals.forEach(local => ctx.usedNames.add(local));
+
+    const body = node ? emitExecFrom(ctx, findPin(node, 'out', 'exec'), TAB, new Set([node.id]), locals) : [];
+    return {
+        declaration: nativeEvent ? `virtual void ${signature} override;` : `void ${signature};`,
+        specifiers: [...(customEvent ? rpcSpecifiers(customEvent) : []), 'BlueprintCallable', 'Category = "Events"'],
+        isOverride: Boolean(nativeEvent),
+        definition: [`void ${ctx.className}::${implementation ?? signature}`, '{', ...prologue, ...body, '}', ...validation],
+    };
+};
+
+interface FunctionMethod {
+    declaration: string;
+    isPure: boolean;
+    definition: string[];
+}
+
+const buildFunctionMethod = (ctx: GeneratorContext, func: CustomFunction): FunctionMethod => {
+    const name = toIdentifier(func.name);
+    const hasReturnValue = returnsValue(func);
+    const returnType = hasReturnValue ? toCppType(func.outputs[0].type, func.outputs[0].objectClass, ctx.userEnums) : 'void';
+    const parameters = [
+        ...func.parameters.map(param => toParameterDeclaration(param, false, ctx.userEnums)),
+        ...(hasReturnValue ? [] : func.outputs.map(output => toParameterDeclaration(output, true, ctx.userEnums))),
+    ].join(', ');
+
+    // Outputs start at their default so paths that never reach a Return Node still leave them set.
+    const prologue = [
+        ...func.outputs.map(output => hasReturnValue
+            ? `${TAB}${toCppType(output.type, output.objectClass, ctx.userEnums)} ${toIdentifier(output.name)} = ${defaultValue(output.type, output.objectClass, ctx.userEnums)};`
+            : `${TAB}${toIdentifier(output.name)} = ${defaultValue(output.type, output.objectClass, ctx.userEnums)};`),
+        ...(func.localVariables ?? []).map(variable => variable.containerType
+            ? `${TAB}${toCppPinType(variablePinType(variable), ctx.userEnums)} ${toIdentifier(variable.name)};`
+            : `${TAB}${toCppType(variable.type, variable.objectClass, ctx.userEnums)} ${toIdentifier(variable.name)} = ${initialValue(variable, ctx.userEnums)};`),
+    ];
+
+    const entry = func.graph?.nodes.find(isFunctionEntry);
+    let body: string[] = [];
+    if (entry) {
+        const locals: string[] = [];
+        entry.pins.filter(pin => pin.type === 'data' && pin.direction === 'out').forEach(pin => {
+            const parameter = toIdentifier(pin.name);
+            ctx.pinExpressions.set(pin.id, parameter);
+            locals.push(parameter);
+        });
+        [...locals, ...func.outputs.map(o => toIdentifier(o.name)), ...(func.localVariables ?? []).map(v => toIdentifier(v.name))]
+            .forEach(local => ctx.usedNames.add(local));
+        ctx.currentFunction = func;
+        body = emitExecFrom(ctx, findPin(entry, 'out', 'exec'), TAB, new Set([entry.id]), locals);
+        ctx.currentFunction = undefined;
+    }
+
+    const last = body[body.length - 1];
+    if (last === `${TAB}return;`) body = body.slice(0, -1);
+    if (hasReturnValue && !last?.startsWith(`${TAB}return `)) body = [...body, `${TAB}return ${toIdentifier(func.outputs[0].name)};`];
+
+    return {
+        // Function libraries only hold static functions.
+        declaration: `${ctx.parent.kind === 'library' ? 'static ' : ''}${returnType} ${name}(${parameters});`,
+        isPure: Boolean(func.isPure),
+        definition: [`${returnType} ${ctx.className}::${name}(${parameters})`, '{', ...prologue, ...body, '}'],
+    };
+};
+
+/**
+ * Deterministic, rule-based Blueprint -> C++ conversion. Walks the exec wires from every event node,
+ * turns data pins into expressions and emits a header/source pair for the class described by `settings`.
+ * Nodes it doesn't understand are skipped and listed in `unresolvedProblems`.
+ */
+export const generateCppLocally = (graphData: GraphData, settings: ClassSettings = DEFAULT_CLASS_SETTINGS): CppCodeResponse => {
+    if (!graphData || graphData.nodes.length === 0) {
+        throw new Error("O grafo de Blueprint não pode estar vazio.");
+    }
+
+    const isLibrary = PARENT_CLASSES[settings.parentClass].kind === 'library';
+    const ctx = createContext(graphData, settings, isLibrary ? [] : (graphData.eventDispatchers || []).filter(d => d.parameters.length < DELEGATE_MACRO_SUFFIXES.length));
+    const { className, parentClass, parent, eventDispatchers } = ctx;
+
+    // Function libraries are stateless: they only keep their functions.
+    if (isLibrary && graphData.variables.length > 0) warn(ctx, `${parentClass} não pode ter variáveis; elas foram ignoradas.`);
+    if (isLibrary && (graphData.customEvents || []).length > 0) warn(ctx, `${parentClass} não pode ter eventos personalizados; eles foram ignorados.`);
+    if (isLibrary && (graphData.eventDispatchers || []).length > 0) warn(ctx, `${parentClass} não pode ter event dispatchers; eles foram ignorados.`);
+    (graphData.eventDispatchers || []).filter(d => !isLibrary && !eventDispatchers.includes(d)).forEach(d =>
+        warn(ctx, `O event dispatcher '${d.name}' tem mais de ${DELEGATE_MACRO_SUFFIXES.length - 1} parâmetros, o limite dos delegates dinâmicos, e foi ignorado.`));
+    const canReplicate = parent.kind === 'actor' || parent.kind === 'component';
+    if (!canReplicate && !isLibrary && graphData.variables.some(isReplicated)) warn(ctx, `${parentClass} não é replicada; a replicação das variáveis foi ignorada.`);
+    if (!canReplicate && !isLibrary && (graphData.customEvents || []).some(isRemoteEvent)) warn(ctx, `${parentClass} não é replicada; os eventos replicados viraram eventos locais.`);
+    const customEvents = isLibrary ? [] : (graphData.customEvents || []).map(e => canReplicate ? e : { ...e, replication: 'none' as const });
+    // Only actors own a component hierarchy.
+    const hasComponents = parent.kind === 'actor';
+    if (!hasComponents && !isLibrary && graphData.variables.some(isComponent)) warn(ctx, `${parentClass} não tem componentes; eles foram ignorados.`);
+    const variables = isLibrary ? [] : graphData.variables
+        .filter(variable => hasComponents || !isComponent(variable))
+        .map(variable => canReplicate ? variable : { ...variable, replication: 'none' as const });
+    graphData.variables.filter(variable => !variables.some(kept => kept.name === variable.name))
+        .forEach(variable => ctx.droppedVariables.add(variable.name));
+
+    // One method per distinct event name; custom events without a node still get an empty body.
+    const eventNodes = graphData.nodes.filter(node => node.type === 'event')
+        .filter((node, index, all) => all.findIndex(other => other.name === node.name) === index)
+        .filter(node => {
+            if (isUnsupportedNativeEvent(ctx, node)) {
+                warn(ctx, `O evento '${node.name}' não existe em ${parentClass} e foi ignorado.`);
+                return false;
+            }
+            return !isLibrary || Boolean(findNativeEvent(ctx, node));
+        });
+    const events = [
+        ...eventNodes.map(node => buildEventMethod(ctx, node, customEvents.find(e => e.name === node.name))),
+        ...customEvents.filter(e => !eventNodes.some(node => node.name === e.name)).map(e => buildEventMethod(ctx, undefined, e)),
+    ];
+
+    const functions = ctx.customFunctions.map(func => buildFunctionMethod(ctx, func));
+
+    const overrides = new Set(eventNodes.map(node => findNativeEvent(ctx, node)?.method));
+    const usesTick = overrides.has('Tick') || overrides.has('TickComponent');
+
+    const replicated = variables.filter(isReplicated);
+    if (replicated.length > 0) ctx.includes.add('Net/UnrealNetwork.h');
+    // RPCs only reach the other side when the object itself replicates.
+    const replicates = replicated.length > 0 || customEvents.some(isRemoteEvent);
+    // RepNotify variables whose OnRep function wasn't written as a custom function get an empty one.
+    const repNotifies = variables
+        .filter(variable => variable.replication === 'repNotify' && !ctx.customFunctions.some(f => toIdentifier(f.name) === repNotifyFunctionName(variable)))
+        .map(variable => ({
+            declaration: `void ${repNotifyFunctionName(variable)}();`,
+            definition: [`void ${className}::${repNotifyFunctionName(variable)}()`, '{', '}'],
+        }));
+    const replicationMethod = replicated.length > 0 ? [{
+        definition: [
+            `void ${className}::GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const`,
+            '{',
+            `${TAB}Super::GetLifetimeReplicatedProps(OutLifetimeProps);`,
+            '',
+            ...replicated.map(variable => `${TAB}DOREPLIFETIME(${className}, ${toIdentifier(variable.name)});`),
+            '}',
+        ],
+    }] : [];
+    // Classes named by reference members and signatures are forward declared; the header only needs pointers to them.
+    const forwardDeclarations = [...new Set([
+        ...variables,
+        ...customEvents.flatMap(e => e.parameters ?? []),
+        ...eventDispatchers.flatMap(d => d.parameters),
+        ...ctx.customFunctions.flatMap(f => [...f.parameters, ...f.outputs]),
+        ...ctx.userStructs.flatMap(s => s.fields),
+    ].map(typed => typed.objectClass).filter(cls => cls && !['Object', 'Actor'].includes(cls)))].sort().map(cls => `class ${cppClassName(cls)};`);
+    const variablesWith = (visibility: GraphVariable['visibility']) =>
+        variables.filter(variable => (variable.visibility ?? 'public') === visibility).flatMap(variable => declareVariable(variable, ctx.userEnums));
+
+    // Actors and components always set up ticking in the constructor; other classes only need one to initialize variables.
+    const componentSetup = componentTree(variables).flatMap(({ component, parentId }) => {
+        const name = toIdentifier(component.name);
+        ctx.includes.add(findComponentType(component.objectClass).include);
+        // A character's capsule is already its root, so the whole tree hangs below it.
+        // Anything whose parent can't be found hangs from the root.
+        const parent = parentId ? variables.find(v => v.id === parentId) : undefined;
+        const attachment = parentId || parentClass === 'ACharacter'
+            ? `${name}->SetupAttachment(${parent ? toIdentifier(parent.name) : 'GetRootComponent()'});`
+            : `RootComponent = ${name};`;
+        return [`${TAB}${name} = CreateDefaultSubobject<${cppClassName(component.objectClass ?? 'SceneComponent')}>(TEXT("${name}"));`, `${TAB}${attachment}`];
+    });
+    const initializers = variables.filter(variable => !variable.containerType && !isComponent(variable)).map(variable => `${TAB}${toIdentifier(variable.name)} = ${initialValue(variable, ctx.userEnums)};`);
+    const constructorBody = parent.kind === 'actor' ? [
+        `${TAB}PrimaryActorTick.bCanEverTick = ${usesTick};`,
+        ...(replicates ? [`${TAB}bReplicates = true;`] : []),
+        ...componentSetup,
+        ...initializers,
+    ] : parent.kind === 'component' ? [
+        `${TAB}PrimaryComponentTick.bCanEverTick = ${usesTick};`,
+        ...(overrides.has('InitializeComponent') ? [`${TAB}bWantsInitializeComponent = true;`] : []),
+        ...(replicates ? [`${TAB}SetIsReplicatedByDefault(true);`] : []),
+        ...initializers,
+    ] : initializers;
+    const hasConstructor = parent.kind === 'actor' || parent.kind === 'component' || constructorBody.length > 0;
+
+    const publicMembers = [
+        ...(hasConstructor ? [`${TAB}${className}();`, ''] : []),
+        ...variablesWith('public'),
+        ...eventDispatchers.flatMap(declareDispatcher),
+        ...events.filter(e => !e.isOverride).flatMap(e => [`${TAB}UFUNCTION(${e.specifiers.join(', ')})`, `${TAB}${e.declaration}`, '']),
+        ...functions.flatMap(f => [`${TAB}UFUNCTION(${f.isPure ? 'BlueprintPure' : 'BlueprintCallable'}, Category = "Functions")`, `${TAB}${f.declaration}`, '']),
+        ...repNotifies.flatMap(f => [`${TAB}UFUNCTION()`, `${TAB}${f.declaration}`, '']),
+        ...(replicated.length > 0 ? [`${TAB}virtual void GetLifetimeReplicatedProps(TArray<FLifetimeProperty>& OutLifetimeProps) const override;`, ''] : []),
+    ];
+    const protectedMembers = [...variablesWith('protected'), ...events.filter(e => e.isOverride).map(e => `${TAB}${e.declaration}`)];
+    const privateMembers = variablesWith('private');
+
+    const header = [
+        '#pragma once',
+        '',
+        '#include "CoreMinimal.h"',
+        `#include "${parent.include}"`,
+        `#include "${baseClassName(settings)}.generated.h"`,
+        '',
+        ...(forwardDeclarations.length > 0 ? [...forwardDeclarations, ''] : []),
+        ...declareUserTypes(ctx).flatMap(declaration => [declaration, '']),
+        ...(eventDispatchers.length > 0 ? [...eventDispatchers.map(d => declareDelegateType(d, ctx.userEnums)), ''] : []),
+        parent.classSpecifiers,
+        `class ${settings.apiMacro.trim() ? `${settings.apiMacro.trim()} ` : ''}${className} : public ${parentClass}`,
+        '{',
+        `${TAB}GENERATED_BODY()`,
+        '',
+        'public:',
+        ...publicMembers,
+        ...(protectedMembers.length > 0 ? ['protected:', ...protectedMembers, ''] : []),
+        ...(privateMembers.length > 0 ? ['private:', ...privateMembers] : []),
+        '};',
+        '',
+    ].join('\n').replace(/\n\n\n+/g, '\n\n').replace(/\n\n};/, '\n};').replace(/public:\n\n/, 'public:\n');
+
+    const source = [
+        `#include "${headerIncludeOf(settings)}"`,
+        ...[...ctx.includes].sort().map(include => `#include "${include}"`),
+        ...(hasConstructor ? ['', `${className}::${className}()`, '{', ...constructorBody, '}'] : []),
+        ...[...events, ...functions, ...repNotifies, ...replicationMethod].flatMap(member => ['', ...member.definition]),
+        '',
+    ].join('\n');
+
+    return { header, source, unresolvedProblems: ctx.warnings };
+};
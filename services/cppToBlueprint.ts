@@ -0,0 +1,1412 @@
+import { generateBlueprintGuide } from './geminiService';
+import type { BlueprintGraph, BlueprintResponse, EventDispatcher, FunctionParameter, GraphConnection, GraphData, GraphNode, GraphPin, GraphVariable, UserEnum, UserStruct } from './geminiService';
+import { normalizeDataType, validateAndRepairGraph } from './graphValidation';
+import { createNodeFromTemplate, findNodeTemplate } from './nodeLibrary';
+import { EVENT_REPLICATION_LABELS, parseRpcSpecifiers, RpcSettings } from './eventReplication';
+import { CREATE_EVENT_NODE_NAME, createEventNodePins, DELEGATE_TYPE, dispatcherNodeName, dispatcherNodePins, DispatcherNodeKind } from './eventDispatchers';
+import { formatPinType, PinType, variablePinType } from './pinTypes';
+import { isReferenceType, toClassName } from './typeCatalogue';
+import { findUserEnum, findUserStruct, SWITCH_SELECTION_PIN, userTypeNodeName, userTypeNodePins } from './userTypes';
+
+// --- Tokenizer ---
+
+interface Token {
+    kind: 'identifier' | 'number' | 'string' | 'symbol' | 'eof';
+    value: string;
+    line: number;
+}
+
+const MULTI_CHAR_SYMBOLS = ['<<=', '>>=', '->', '::', '++', '--', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '&&', '||', '<<', '>>'];
+
+const unescapeString = (value: string) => value.replace(/\\(.)/g, (_, char: string) => ({ n: '\n', t: '\t', r: '\r' } as { [key: string]: string })[char] ?? char);
+
+const tokenize = (code: string): Token[] => {
+    const tokens: Token[] = [];
+    let line = 1;
+    let i = 0;
+    const countLines = (text: string) => (text.match(/\n/g) || []).length;
+
+    while (i < code.length) {
+        const char = code[i];
+        const rest = code.slice(i);
+        if (char === '\n') { line++; i++; continue; }
+        if (/\s/.test(char)) { i++; continue; }
+        if (rest.startsWith('//')) {
+            while (i < code.length && code[i] !== '\n') i++;
+            continue;
+        }
+        if (rest.startsWith('/*')) {
+            const end = code.indexOf('*/', i + 2);
+            const stop = end === -1 ? code.length : end + 2;
+            line += countLines(code.slice(i, stop));
+            i = stop;
+            continue;
+        }
+        // Preprocessor directives (including line continuations) carry no graph logic.
+        if (char === '#') {
+            while (i < code.length && code[i] !== '\n') {
+                if (code[i] === '\\' && code[i + 1] === '\n') { line++; i++; }
+                i++;
+            }
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            let j = i + 1;
+            while (j < code.length && code[j] !== char && code[j] !== '\n') j += code[j] === '\\' ? 2 : 1;
+            tokens.push({ kind: 'string', value: unescapeString(code.slice(i + 1, j)), line });
+            i = j + 1;
+            continue;
+        }
+        const number = rest.match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?[fFuUlL]*/);
+        if (number) {
+            tokens.push({ kind: 'number', value: number[0], line });
+            i += number[0].length;
+            continue;
+        }
+        const identifier = rest.match(/^[A-Za-z_]\w*/);
+        if (identifier) {
+            tokens.push({ kind: 'identifier', value: identifier[0], line });
+            i += identifier[0].length;
+            continue;
+        }
+        const symbol = MULTI_CHAR_SYMBOLS.find(s => rest.startsWith(s)) ?? char;
+        tokens.push({ kind: 'symbol', value: symbol, line });
+        i += symbol.length;
+    }
+    tokens.push({ kind: 'eof', value: '', line });
+    return tokens;
+};
+
+const OPENING: { [key: string]: string } = { '(': ')', '{': '}', '[': ']' };
+
+// Returns the index of the token that closes the bracket opened at `start`.
+const findClosing = (tokens: Token[], start: number): number => {
+    const stack: string[] = [];
+    for (let i = start; i < tokens.length; i++) {
+        const value = tokens[i].kind === 'symbol' ? tokens[i].value : '';
+        if (OPENING[value]) stack.push(OPENING[value]);
+        else if (value === stack[stack.length - 1]) {
+            stack.pop();
+            if (stack.length === 0) return i;
+        }
+    }
+    return tokens.length - 1;
+};
+
+// Splits a token range on top-level commas, ignoring commas inside brackets and template arguments.
+const splitOnCommas = (tokens: Token[]): Token[][] => {
+    const parts: Token[][] = [[]];
+    let depth = 0;
+    tokens.forEach(token => {
+        if (token.kind === 'symbol' && ['(', '{', '[', '<'].includes(token.value)) depth++;
+        if (token.kind === 'symbol' && [')', '}', ']', '>'].includes(token.value)) depth--;
+        if (depth === 0 && token.kind === 'symbol' && token.value === ',') parts.push([]);
+        else parts[parts.length - 1].push(token);
+    });
+    return parts.filter(part => part.length > 0);
+};
+
+const joinTokens = (tokens: Token[]) => tokens.map(token => token.value).join(' ').replace(/\s*(::|->|\*|&|<|>)\s*/g, '$1');
+
+// --- Source Structure ---
+
+interface ParsedParameter {
+    name: string;
+    type: string; // Blueprint data type
+}
+
+interface ParsedFunction {
+    className: string | null;
+    name: string;
+    returnType: string; // Blueprint data type, 'void' when there is no return value
+    parameters: ParsedParameter[];
+    body: Token[];
+    startLine: number;
+    endLine: number;
+    rpc?: RpcSettings; // Set on the _Implementation of an RPC, which becomes a replicated custom event
+}
+
+interface SourceStructure {
+    functions: ParsedFunction[];
+    memberVariables: GraphVariable[];
+    eventDispatchers: EventDispatcher[]; // Members whose type was declared with DECLARE_DYNAMIC_MULTICAST_DELEGATE
+    userStructs: UserStruct[]; // Declared with USTRUCT
+    userEnums: UserEnum[];
+    enumEntries: Map<string, Map<string, string>>; // Per enum, the Blueprint entry of each C++ enumerator
+}
+
+const INTEGER_TYPES = new Set(['int8', 'int16', 'uint16', 'uint32', 'uint64', 'short', 'long', 'unsigned', 'size_t']);
+
+export const toBlueprintType = (cppType: string): string => {
+    const cleaned = cppType
+        .replace(/\b(?:const|static|inline|virtual|mutable|volatile|class|struct|unsigned)\b/g, '')
+        .replace(/[&\s]/g, '')
+        .replace(/^TObjectPtr<(.+)>$/, '$1*')
+        .replace(/^TEnumAsByte<(.+)>$/, '$1');
+    if (cleaned === 'void' || cleaned === '') return 'void';
+    const reference = cleaned.match(REFERENCE_PATTERN);
+    if (reference) return REFERENCE_KINDS[reference[1] as keyof typeof REFERENCE_KINDS];
+    if (INTEGER_TYPES.has(cleaned)) return 'Integer';
+    const normalized = normalizeDataType(cleaned);
+    if (normalized !== cleaned) return normalized;
+    if (cleaned.endsWith('*')) return 'Object';
+    return normalized.replace(/^[FUAE](?=[A-Z])/, '');
+};
+
+const REFERENCE_PATTERN = /^(TSubclassOf|TSoftObjectPtr|TSoftClassPtr)<(.+)>$/;
+const REFERENCE_KINDS = { TSubclassOf: 'Class', TSoftObjectPtr: 'SoftObject', TSoftClassPtr: 'SoftClass' } as const;
+
+// References keep the class they point at, e.g. APawn* becomes an Object reference to Pawn.
+const toElementPinType = (cppType: string): PinType => {
+    const dataType = toBlueprintType(cppType);
+    if (!isReferenceType(dataType)) return { dataType };
+    const cleaned = cppType.replace(/\b(?:const|class)\b/g, '').replace(/[&\s]/g, '').replace(/^TObjectPtr<(.+)>$/, '$1*');
+    const className = cleaned.match(REFERENCE_PATTERN)?.[2] ?? cleaned.replace(/\*$/, '');
+    const objectClass = toClassName(className);
+    return objectClass && objectClass !== 'Object' && /^\w+$/.test(objectClass) ? { dataType, objectClass } : { dataType };
+};
+
+const CONTAINER_PATTERN = /^(TArray|TSet|TMap)<(.+)>$/;
+const CONTAINER_KINDS = { TArray: 'Array', TSet: 'Set', TMap: 'Map' } as const;
+
+// Splits `K, V` at the top-level comma only, so nested template arguments stay whole.
+const splitTemplateArguments = (text: string): string[] => {
+    const parts = [''];
+    let depth = 0;
+    [...text].forEach(char => {
+        if (char === '<') depth++;
+        if (char === '>') depth--;
+        if (char === ',' && depth === 0) parts.push('');
+        else parts[parts.length - 1] += char;
+    });
+    return parts;
+};
+
+/**
+ * Like `toBlueprintType`, but TArray, TSet and TMap become container pin types of their element
+ * types, and references keep their class.
+ */
+export const toBlueprintPinType = (cppType: string): PinType => {
+    const match = cppType.replace(/\b(?:const|static|mutable)\b/g, '').replace(/[&\s]/g, '').match(CONTAINER_PATTERN);
+    if (!match) return toElementPinType(cppType);
+    const [key, value = key] = splitTemplateArguments(match[2]);
+    const containerType = CONTAINER_KINDS[match[1] as keyof typeof CONTAINER_KINDS];
+    return containerType === 'Map'
+        ? { ...toElementPinType(key), containerType, valueType: toBlueprintType(value) }
+        : { ...toElementPinType(key), containerType };
+};
+
+const ACCESS_SPECIFIERS = new Set(['public', 'protected', 'private']);
+const FUNCTION_QUALIFIERS = new Set(['const', 'override', 'final', 'noexcept']);
+const NON_MEMBER_KEYWORDS = new Set(['using', 'friend', 'typedef', 'static', 'virtual', 'enum', 'class', 'struct', 'template', 'return']);
+
+const parseParameters = (tokens: Token[]): ParsedParameter[] =>
+    splitOnCommas(tokens).flatMap(part => {
+        const declaration = part.slice(0, part.findIndex(t => t.value === '=') === -1 ? part.length : part.findIndex(t => t.value === '='));
+        const nameToken = [...declaration].reverse().find(t => t.kind === 'identifier');
+        if (!nameToken || (declaration.length === 1 && nameToken.value === 'void')) return [];
+        const typeTokens = declaration.slice(0, declaration.lastIndexOf(nameToken));
+        return typeTokens.length > 0 ? [{ name: nameToken.value, type: toBlueprintType(joinTokens(typeTokens)) }] : [];
+    });
+
+const parseMemberDeclaration = (tokens: Token[]): GraphVariable | null => {
+    if (tokens.length < 2 || NON_MEMBER_KEYWORDS.has(tokens[0].value)) return null;
+    const equals = tokens.findIndex(t => t.value === '=');
+    const declaration = equals === -1 ? tokens : tokens.slice(0, equals);
+    if (declaration.some(t => t.value === '(') || splitOnCommas(declaration).length > 1) return null;
+    const nameToken = declaration[declaration.length - 1];
+    if (nameToken.kind !== 'identifier' || declaration.length < 2) return null;
+    const { dataType, ...container } = toBlueprintPinType(joinTokens(declaration.slice(0, -1)));
+    return { name: nameToken.value, type: dataType, ...container };
+};
+
+// DECLARE_DYNAMIC_MULTICAST_DELEGATE_TwoParams(FOnHit, AActor*, Other, float, Damage): the type, then type/name pairs.
+const DELEGATE_DECLARATION_PATTERN = /^DECLARE_DYNAMIC_MULTICAST_DELEGATE(?:_\w+)?$/;
+
+const parseDelegateDeclaration = (tokens: Token[]): { typeName: string; parameters: FunctionParameter[] } | null => {
+    const [typeTokens, ...rest] = splitOnCommas(tokens);
+    if (!typeTokens || typeTokens.length !== 1 || rest.length % 2 !== 0) return null;
+    const typeName = typeTokens[0].value;
+    const parameters = Array.from({ length: rest.length / 2 }, (_, i) => {
+        const name = joinTokens(rest[i * 2 + 1]);
+        const { dataType, objectClass } = toElementPinType(joinTokens(rest[i * 2]));
+        return { id: `cpp-${typeName}-${name}`, name, type: dataType, ...(objectClass && { objectClass }) };
+    });
+    return { typeName, parameters };
+};
+
+// enum class EWeapon : uint8 { Sword, Bow UMETA(DisplayName = "Long Bow") }: entries keep their display name.
+const parseEnumEntries = (tokens: Token[]): { identifier: string; entry: string }[] =>
+    splitOnCommas(tokens).flatMap(entry => {
+        if (entry.length === 0 || entry[0].kind !== 'identifier') return [];
+        const meta = entry.findIndex(t => t.value === 'UMETA');
+        const specifiers = meta === -1 ? [] : entry.slice(meta + 2, findClosing(entry, meta + 1));
+        if (specifiers.some(t => t.value === 'Hidden')) return [];
+        const displayName = specifiers.find((t, i) => t.kind === 'string' && specifiers[i - 2]?.value === 'DisplayName');
+        return [{ identifier: entry[0].value, entry: displayName?.value ?? entry[0].value }];
+    });
+
+const parseStructure = (tokens: Token[]): SourceStructure => {
+    const functions: ParsedFunction[] = [];
+    const memberVariables: GraphVariable[] = [];
+    const eventDispatchers: EventDispatcher[] = [];
+    const userStructs: UserStruct[] = [];
+    const userEnums: UserEnum[] = [];
+    const enumEntries = new Map<string, Map<string, string>>();
+    const delegateSignatures = new Map<string, FunctionParameter[]>();
+    const rpcs = new Map<string, RpcSettings>();
+    let functionSpecifiers: { statementStart: number; values: string[] } | null = null; // Of the last UFUNCTION(...)
+    let typeMacroEnd = -1; // Token after the last USTRUCT(...) or UENUM(...)
+    // Class name for class bodies, the struct for USTRUCT bodies, null for any other block.
+    const scopes: (string | UserStruct | null)[] = [];
+    let pendingClassName: string | null = null;
+    let pendingStruct: UserStruct | null = null;
+    const enclosingClass = () => scopes.filter((scope): scope is string => typeof scope === 'string').pop() ?? null;
+    let statementStart = 0;
+    let i = 0;
+
+    while (tokens[i].kind !== 'eof') {
+        const token = tokens[i];
+        const next = tokens[i + 1];
+
+        // Reflection macros such as UPROPERTY(...) or GENERATED_BODY() never contain logic.
+        const isDelegateDeclaration = DELEGATE_DECLARATION_PATTERN.test(token.value);
+        if (token.kind === 'identifier' && (isDelegateDeclaration || /^[A-Z][A-Z0-9_]+$/.test(token.value)) && next.value === '(') {
+            const close = findClosing(tokens, i + 1);
+            const delegate = isDelegateDeclaration ? parseDelegateDeclaration(tokens.slice(i + 2, close)) : null;
+            if (delegate) delegateSignatures.set(delegate.typeName, delegate.parameters);
+            if (token.value === 'UFUNCTION') functionSpecifiers = { statementStart: close + 1, values: tokens.slice(i + 2, close).map(t => t.value) };
+            if (token.value === 'USTRUCT' || token.value === 'UENUM') typeMacroEnd = close + 1;
+            i = close + 1;
+            statementStart = i;
+            continue;
+        }
+        if (token.value === 'enum' && typeMacroEnd === i) {
+            let j = i + 1;
+            while (tokens[j].kind !== 'eof' && !['{', ';'].includes(tokens[j].value)) j++;
+            const nameToken = tokens.slice(i + 1, j).find(t => t.kind === 'identifier' && t.value !== 'class' && t.value !== 'struct');
+            if (tokens[j].value === '{' && nameToken) {
+                const close = findClosing(tokens, j);
+                const name = toBlueprintType(nameToken.value);
+                if (!userEnums.some(e => e.name === name)) {
+                    const entries = parseEnumEntries(tokens.slice(j + 1, close));
+                    userEnums.push({ id: `cpp-enum-${name}`, name, entries: entries.map(e => e.entry) });
+                    enumEntries.set(name, new Map(entries.map(e => [e.identifier, e.entry])));
+                }
+                j = close + 1;
+            }
+            i = j;
+            statementStart = i;
+            continue;
+        }
+        if (token.value === 'struct' && typeMacroEnd === i && next.kind === 'identifier') {
+            // The name is the last identifier before the body, after any API macro.
+            let j = i + 1;
+            while (tokens[j].kind !== 'eof' && !['{', ';', ':'].includes(tokens[j].value)) j++;
+            const name = toBlueprintType(tokens[j - 1].value);
+            pendingStruct = userStructs.find(s => s.name === name) ?? null;
+            if (!pendingStruct) {
+                pendingStruct = { id: `cpp-struct-${name}`, name, fields: [] };
+                userStructs.push(pendingStruct);
+            }
+            i = j;
+            continue;
+        }
+        if ((token.value === 'class' || token.value === 'struct') && next.kind === 'identifier') {
+            let j = i + 1;
+            while (tokens[j].kind !== 'eof' && !['{', ';', ':'].includes(tokens[j].value)) j++;
+            if (tokens[j].value !== ';') {
+                pendingClassName = tokens[j - 1].value;
+                while (tokens[j].kind !== 'eof' && !['{', ';'].includes(tokens[j].value)) j++;
+                if (tokens[j].value === ';') pendingClassName = null;
+            }
+            i++;
+            continue;
+        }
+        if (token.value === '{') {
+            scopes.push(pendingStruct ?? pendingClassName);
+            pendingClassName = null;
+            pendingStruct = null;
+            i++;
+            statementStart = i;
+            continue;
+        }
+        if (token.value === '}') {
+            scopes.pop();
+            i++;
+            statementStart = i;
+            continue;
+        }
+        if (token.value === ':' && ACCESS_SPECIFIERS.has(tokens[i - 1]?.value)) {
+            i++;
+            statementStart = i;
+            continue;
+        }
+        if (token.value === ';') {
+            const currentClass = scopes[scopes.length - 1];
+            // Struct fields take the types a parameter can have, so containers are left out.
+            const struct = currentClass && typeof currentClass !== 'string' ? currentClass : null;
+            const field = struct ? parseMemberDeclaration(tokens.slice(statementStart, i)) : null;
+            if (struct && field && !field.containerType && !struct.fields.some(f => f.name === field.name)) {
+                struct.fields.push({ id: `cpp-${struct.name}-${field.name}`, name: field.name, type: field.type, ...(field.objectClass && { objectClass: field.objectClass }) });
+            }
+            if (typeof currentClass === 'string') {
+                const statement = tokens.slice(statementStart, i);
+                const signature = statement.length === 2 ? delegateSignatures.get(statement[0].value) : undefined;
+                const variable = signature ? null : parseMemberDeclaration(statement);
+                if (signature && !eventDispatchers.some(d => d.name === statement[1].value)) {
+                    eventDispatchers.push({ id: `cpp-dispatcher-${statement[1].value}`, name: statement[1].value, parameters: signature });
+                }
+                if (variable && !memberVariables.some(v => v.name === variable.name)) memberVariables.push(variable);
+            }
+            i++;
+            statementStart = i;
+            continue;
+        }
+        if (token.value === '(' && tokens[i - 1]?.kind === 'identifier') {
+            const close = findClosing(tokens, i);
+            const rpc = functionSpecifiers?.statementStart === statementStart ? parseRpcSpecifiers(functionSpecifiers.values) : null;
+            if (rpc) rpcs.set(tokens[i - 1].value, rpc);
+            let j = close + 1;
+            while (FUNCTION_QUALIFIERS.has(tokens[j].value)) j++;
+
+            if (tokens[j].value === ':') {
+                // Constructor with an initializer list: skip it together with its body.
+                while (tokens[j].kind !== 'eof' && tokens[j].value !== '{') j = OPENING[tokens[j].value] ? findClosing(tokens, j) + 1 : j + 1;
+                i = findClosing(tokens, j) + 1;
+                statementStart = i;
+                continue;
+            }
+            if (tokens[j].value !== '{') {
+                i = close + 1;
+                continue;
+            }
+
+            const end = findClosing(tokens, j);
+            const name = tokens[i - 1].value;
+            const isQualified = tokens[i - 2]?.value === '::';
+            const className = isQualified ? tokens[i - 3].value : enclosingClass();
+            const returnTokens = tokens.slice(statementStart, isQualified ? i - 3 : i - 1).filter(t => !['virtual', 'static', 'inline', 'FORCEINLINE'].includes(t.value));
+            const isConstructor = returnTokens.length === 0 || tokens[isQualified ? i - 4 : i - 2]?.value === '~';
+            if (!isConstructor) {
+                functions.push({
+                    className,
+                    name,
+                    returnType: toBlueprintType(joinTokens(returnTokens)),
+                    parameters: parseParameters(tokens.slice(i + 1, close)),
+                    body: [...tokens.slice(j + 1, end), { kind: 'eof', value: '', line: tokens[end].line }],
+                    startLine: tokens[statementStart].line,
+                    endLine: tokens[end].line,
+                });
+            }
+            i = end + 1;
+            statementStart = i;
+            continue;
+        }
+        i++;
+    }
+
+    // An RPC's body is its <Name>_Implementation, converted as the event it declares. _Validate functions have no Blueprint counterpart.
+    const rpcFunctions = functions
+        .filter(fn => !(fn.name.endsWith('_Validate') && rpcs.has(fn.name.slice(0, -'_Validate'.length))))
+        .map(fn => {
+            const name = fn.name.replace(/_Implementation$/, '');
+            const rpc = name !== fn.name ? rpcs.get(name) : undefined;
+            return rpc ? { ...fn, name, rpc } : fn;
+        });
+    return { functions: rpcFunctions, memberVariables, eventDispatchers, userStructs, userEnums, enumEntries };
+};
+
+// --- Graph Builder ---
+
+export interface LocalConversionIssue {
+    functionName: string;
+    line: number;
+    message: string;
+    code: string;
+}
+
+class UnsupportedConstructError extends Error {
+    constructor(message: string, public line: number) {
+        super(message);
+    }
+}
+
+type Value =
+    | { kind: 'pin'; pinId: string; dataType: string }
+    | { kind: 'literal'; value: string; dataType: string };
+
+interface ConversionContext {
+    fn: ParsedFunction;
+    structure: SourceStructure;
+    idPrefix: string;
+    nextId: number;
+    nodes: GraphNode[];
+    connections: GraphConnection[];
+    variables: GraphVariable[];
+    eventDispatchers: EventDispatcher[]; // Dispatchers used by this function
+    scopes: Map<string, Value>[]; // Local names visible to expressions, innermost last
+    exec: string[]; // Exec output pins that the next statement must be wired to
+    column: number;
+    lane: number;
+    placedNodeIds: Set<string>;
+    tokens: Token[];
+    pos: number;
+    issues: LocalConversionIssue[];
+    sourceLines: string[];
+}
+
+const EXEC_SPACING_X = 300;
+const LANE_SPACING_Y = 260;
+const DATA_SPACING_X = 260;
+const DATA_SPACING_Y = 80;
+
+const makeId = (ctx: ConversionContext) => (prefix: string) => `${ctx.idPrefix}-${prefix}-${++ctx.nextId}`;
+
+const fail = (ctx: ConversionContext, message: string): never => {
+    throw new UnsupportedConstructError(message, ctx.tokens[Math.min(ctx.pos, ctx.tokens.length - 1)].line);
+};
+
+const addTemplateNode = (ctx: ConversionContext, templateName: string): GraphNode => {
+    const node = createNodeFromTemplate(findNodeTemplate(templateName)!, 0, 0, makeId(ctx));
+    ctx.nodes.push(node);
+    return node;
+};
+
+const addNode = (ctx: ConversionContext, name: string, type: GraphNode['type'], pins: Omit<GraphPin, 'id'>[], properties?: GraphNode['properties']): GraphNode => {
+    const id = makeId(ctx);
+    const node: GraphNode = { id: id('node'), name, type, x: 0, y: 0, pins: pins.map(pin => ({ ...pin, id: id('pin') })) };
+    if (properties) node.properties = properties;
+    ctx.nodes.push(node);
+    return node;
+};
+
+const execIn = (): Omit<GraphPin, 'id'> => ({ name: '', type: 'exec', direction: 'in', dataType: 'Exec' });
+const execOut = (name = ''): Omit<GraphPin, 'id'> => ({ name, type: 'exec', direction: 'out', dataType: 'Exec' });
+const dataPin = (name: string, direction: GraphPin['direction'], dataType: string): Omit<GraphPin, 'id'> => ({ name, type: 'data', direction, dataType });
+
+const pinOf = (node: GraphNode, direction: GraphPin['direction'], type: GraphPin['type'], name?: string) =>
+    node.pins.find(pin => pin.direction === direction && pin.type === type && (name === undefined || pin.name === name))!;
+
+const codeSnippetAt = (ctx: ConversionContext, line: number) => ctx.sourceLines[line - 1]?.trim() ?? '';
+
+const literalValue = (value: string, dataType: string): Value => ({ kind: 'literal', value, dataType });
+
+// Integer literals may be used where a Float is expected; everything else must already match.
+const coerce = (ctx: ConversionContext, value: Value, dataType: string): Value => {
+    if (value.dataType === dataType) return value;
+    if (value.kind === 'literal' && value.dataType === 'Integer' && dataType === 'Float') return literalValue(value.value, 'Float');
+    return fail(ctx, `Tipo '${value.dataType}' usado onde '${dataType}' era esperado.`);
+};
+
+const connectValue = (ctx: ConversionContext, value: Value, targetPin: GraphPin) => {
+    const coerced = coerce(ctx, value, targetPin.dataType);
+    let fromPinId: string;
+    if (coerced.kind === 'literal') {
+        const literal = addNode(ctx, coerced.value || '""', 'literal', [dataPin('Value', 'out', coerced.dataType)], { value: coerced.value });
+        fromPinId = literal.pins[0].id;
+    } else {
+        fromPinId = coerced.pinId;
+    }
+    ctx.connections.push({ fromPinId, toPinId: targetPin.id });
+};
+
+// Places an exec node on the current lane and wires every pending exec output into it.
+const appendExecNode = (ctx: ConversionContext, node: GraphNode, line: number, thenPinName?: string) => {
+    node.x = 50 + ctx.column * EXEC_SPACING_X;
+    node.y = 100 + ctx.lane * LANE_SPACING_Y;
+    node.codeSnippet = codeSnippetAt(ctx, line);
+    ctx.column++;
+    const input = pinOf(node, 'in', 'exec');
+    ctx.exec.forEach(fromPinId => ctx.connections.push({ fromPinId, toPinId: input.id }));
+    const then = node.pins.find(pin => pin.type === 'exec' && pin.direction === 'out' && (thenPinName === undefined || pin.name === thenPinName));
+    ctx.exec = then ? [then.id] : [];
+    placeDataInputs(ctx, node, 1);
+};
+
+// Pure nodes feeding `node` are laid out in columns to its left.
+const placeDataInputs = (ctx: ConversionContext, node: GraphNode, depth: number) => {
+    let slot = 0;
+    node.pins.filter(pin => pin.type === 'data' && pin.direction === 'in').forEach(pin => {
+        const connection = ctx.connections.find(c => c.toPinId === pin.id);
+        const source = connection && ctx.nodes.find(n => n.pins.some(p => p.id === connection.fromPinId));
+        if (!source || ctx.placedNodeIds.has(source.id) || source.pins.some(p => p.type === 'exec')) return;
+        ctx.placedNodeIds.add(source.id);
+        source.x = node.x - DATA_SPACING_X;
+        source.y = node.y + (depth === 1 ? 120 : 0) + slot * DATA_SPACING_Y;
+        source.codeSnippet = node.codeSnippet;
+        slot++;
+        placeDataInputs(ctx, source, depth + 1);
+    });
+};
+
+const getMemberVariable = (ctx: ConversionContext, name: string): GraphVariable | undefined => {
+    const variable = ctx.variables.find(v => v.name === name) ?? ctx.structure.memberVariables.find(v => v.name === name);
+    if (variable?.containerType) fail(ctx, `A variável '${name}' (${formatPinType(variablePinType(variable))}) é um contêiner, que o conversor local não suporta.`);
+    if (variable && !ctx.variables.includes(variable)) ctx.variables.push(variable);
+    return variable;
+};
+
+const addGetter = (ctx: ConversionContext, variable: GraphVariable): Value => {
+    const getter = addNode(ctx, `Get ${variable.name}`, 'variable_get', [dataPin('Value', 'out', variable.type)]);
+    return { kind: 'pin', pinId: getter.pins[0].id, dataType: variable.type };
+};
+
+const lookupLocal = (ctx: ConversionContext, name: string): Value | undefined => {
+    for (let i = ctx.scopes.length - 1; i >= 0; i--) {
+        const value = ctx.scopes[i].get(name);
+        if (value) return value;
+    }
+    return undefined;
+};
+
+// --- Expressions ---
+
+const peek = (ctx: ConversionContext, offset = 0) => ctx.tokens[ctx.pos + offset];
+const advance = (ctx: ConversionContext) => ctx.tokens[ctx.pos++];
+const accept = (ctx: ConversionContext, value: string) => {
+    if (peek(ctx).value === value && peek(ctx).kind !== 'string') {
+        ctx.pos++;
+        return true;
+    }
+    return false;
+};
+const expect = (ctx: ConversionContext, value: string) => {
+    if (!accept(ctx, value)) fail(ctx, `Esperado '${value}' mas encontrado '${peek(ctx).value || 'fim do código'}'.`);
+};
+
+const BINARY_LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '>', '<=', '>='], ['+', '-'], ['*', '/', '%']];
+
+const addPureNode = (ctx: ConversionContext, templateName: string, inputs: { [pinName: string]: Value }): Value => {
+    const node = addTemplateNode(ctx, templateName);
+    Object.entries(inputs).forEach(([pinName, value]) => connectValue(ctx, value, pinOf(node, 'in', 'data', pinName)));
+    const output = pinOf(node, 'out', 'data');
+    return { kind: 'pin', pinId: output.id, dataType: output.dataType };
+};
+
+// `Stats.Damage` reads the field from a Break node; every field read from the same value shares one.
+const breakMember = (ctx: ConversionContext, value: Value, field: string): Value => {
+    const struct = findUserStruct(ctx.structure, value.dataType);
+    if (!struct) return fail(ctx, `Acesso a membros de '${value.dataType}' não é suportado; somente campos de estruturas declaradas com USTRUCT.`);
+    if (!struct.fields.some(f => f.name === field)) return fail(ctx, `A estrutura '${struct.name}' não tem o campo '${field}'.`);
+    const name = userTypeNodeName('break', struct.name);
+    const existing = value.kind === 'pin'
+        ? ctx.nodes.find(node => node.name === name && ctx.connections.some(c => c.fromPinId === value.pinId && c.toPinId === pinOf(node, 'in', 'data').id))
+        : undefined;
+    const node = existing ?? addNode(ctx, name, 'function', userTypeNodePins({ kind: 'break', struct }));
+    if (!existing) connectValue(ctx, value, pinOf(node, 'in', 'data'));
+    const output = pinOf(node, 'out', 'data', field);
+    return { kind: 'pin', pinId: output.id, dataType: output.dataType };
+};
+
+// `Stats.Damage = X` becomes a Make node fed by the fields of the old value, with X in place of Damage.
+const replaceMember = (ctx: ConversionContext, value: Value, path: string[], replacement: Value): Value => {
+    breakMember(ctx, value, path[0]);
+    const struct = findUserStruct(ctx.structure, value.dataType)!;
+    const make = addNode(ctx, userTypeNodeName('make', struct.name), 'function', userTypeNodePins({ kind: 'make', struct }));
+    struct.fields.forEach(field => {
+        const current = breakMember(ctx, value, field.name);
+        const updated = field.name !== path[0] ? current : path.length === 1 ? replacement : replaceMember(ctx, current, path.slice(1), replacement);
+        connectValue(ctx, updated, pinOf(make, 'in', 'data', field.name));
+    });
+    const output = pinOf(make, 'out', 'data');
+    return { kind: 'pin', pinId: output.id, dataType: output.dataType };
+};
+
+const applyBinaryOperator = (ctx: ConversionContext, operator: string, left: Value, right: Value): Value => {
+    if (operator === '&&' || operator === '||') {
+        return addPureNode(ctx, operator === '&&' ? 'AND Boolean' : 'OR Boolean', { A: coerce(ctx, left, 'Boolean'), B: coerce(ctx, right, 'Boolean') });
+    }
+    const numericTypes = ['Integer', 'Float'];
+    if (!numericTypes.includes(left.dataType) || !numericTypes.includes(right.dataType)) {
+        return fail(ctx, `O operador '${operator}' entre '${left.dataType}' e '${right.dataType}' não é suportado.`);
+    }
+    if (operator === '%') return fail(ctx, `O operador '%' não é suportado.`);
+    const type = left.dataType === 'Float' || right.dataType === 'Float' ? 'Float' : 'Integer';
+    const operands = { A: coerce(ctx, left, type), B: coerce(ctx, right, type) };
+
+    // The library has no <=, >= or != nodes, so they are built from their negations.
+    const negated: { [key: string]: string } = { '<=': '>', '>=': '<', '!=': '==' };
+    if (negated[operator]) {
+        return addPureNode(ctx, 'NOT Boolean', { Input: addPureNode(ctx, `${type} ${negated[operator]} ${type}`, operands) });
+    }
+    return addPureNode(ctx, `${type} ${operator} ${type}`, operands);
+};
+
+const parseExpression = (ctx: ConversionContext, level = 0): Value => {
+    if (level === BINARY_LEVELS.length) return parseUnary(ctx);
+    let left = parseExpression(ctx, level + 1);
+    while (peek(ctx).kind === 'symbol' && BINARY_LEVELS[level].includes(peek(ctx).value)) {
+        const operator = advance(ctx).value;
+        const right = parseExpression(ctx, level + 1);
+        left = applyBinaryOperator(ctx, operator, left, right);
+    }
+    return left;
+};
+
+const parseUnary = (ctx: ConversionContext): Value => {
+    if (accept(ctx, '!')) return addPureNode(ctx, 'NOT Boolean', { Input: coerce(ctx, parseUnary(ctx), 'Boolean') });
+    if (accept(ctx, '+')) return parseUnary(ctx);
+    if (accept(ctx, '-')) {
+        const operand = parseUnary(ctx);
+        if (operand.kind === 'literal') return literalValue(operand.value.startsWith('-') ? operand.value.slice(1) : `-${operand.value}`, operand.dataType);
+        return applyBinaryOperator(ctx, '-', literalValue('0', operand.dataType), operand);
+    }
+    return parsePrimary(ctx);
+};
+
+const parseNumericArguments = (ctx: ConversionContext, count: number): string => {
+    expect(ctx, '(');
+    const values: string[] = [];
+    while (!accept(ctx, ')')) {
+        const value = parseExpression(ctx);
+        if (value.kind !== 'literal' || !['Integer', 'Float'].includes(value.dataType)) fail(ctx, `Somente valores numéricos constantes são suportados em construtores de vetor.`);
+        values.push((value as { value: string }).value);
+        accept(ctx, ',');
+    }
+    if (values.length !== count && values.length !== 1) fail(ctx, `Número de argumentos inesperado.`);
+    return (values.length === 1 ? Array(count).fill(values[0]) : values).join(', ');
+};
+
+const STRING_CONSTRUCTORS: { [name: string]: string } = { 'TEXT': 'String', 'FString': 'String', 'FName': 'Name' };
+const CONSTANTS: { [name: string]: Value } = {
+    'FVector::ZeroVector': literalValue('0, 0, 0', 'Vector'),
+    'FVector::OneVector': literalValue('1, 1, 1', 'Vector'),
+    'FVector::UpVector': literalValue('0, 0, 1', 'Vector'),
+    'FVector::ForwardVector': literalValue('1, 0, 0', 'Vector'),
+    'FVector::RightVector': literalValue('0, 1, 0', 'Vector'),
+    'FRotator::ZeroRotator': literalValue('0, 0, 0', 'Rotator'),
+};
+
+const parsePrimary = (ctx: ConversionContext): Value => {
+    const token = advance(ctx);
+
+    if (token.kind === 'number') {
+        const isFloat = /[.eEfF]/.test(token.value) && !/^0x/i.test(token.value);
+        return literalValue(token.value.replace(/[fFuUlL]+$/, ''), isFloat ? 'Float' : 'Integer');
+    }
+    if (token.kind === 'string') return literalValue(token.value, 'String');
+    if (token.value === 'true' || token.value === 'false') return literalValue(token.value, 'Boolean');
+    if (token.value === '(') {
+        const value = parseExpression(ctx);
+        expect(ctx, ')');
+        return value;
+    }
+    if (token.kind !== 'identifier') return fail(ctx, `Expressão não suportada começando em '${token.value}'.`);
+
+    if (STRING_CONSTRUCTORS[token.value] && peek(ctx).value === '(') {
+        expect(ctx, '(');
+        const inner = parseExpression(ctx);
+        expect(ctx, ')');
+        if (inner.kind !== 'literal' || inner.dataType !== 'String') return fail(ctx, `'${token.value}(...)' só é suportado com texto constante.`);
+        return literalValue(inner.value, STRING_CONSTRUCTORS[token.value]);
+    }
+    if (token.value === 'FVector' && peek(ctx).value === '(') return literalValue(parseNumericArguments(ctx, 3), 'Vector');
+    if (token.value === 'FRotator' && peek(ctx).value === '(') return literalValue(parseNumericArguments(ctx, 3), 'Rotator');
+    if (peek(ctx).value === '::') {
+        advance(ctx);
+        const member = advance(ctx);
+        // Enumerators become literals holding the entry's Blueprint name, which is its display name when it has one.
+        const enumName = toBlueprintType(token.value);
+        const entry = ctx.structure.enumEntries.get(enumName)?.get(member.value);
+        if (entry !== undefined) return literalValue(entry, enumName);
+        const constant = CONSTANTS[`${token.value}::${member.value}`];
+        return constant ?? fail(ctx, `'${token.value}::${member.value}' não é suportado.`);
+    }
+
+    let name = token.value;
+    if (name === 'this') {
+        expect(ctx, '->');
+        name = advance(ctx).value;
+    }
+    if (peek(ctx).value === '(') {
+        const result = emitCall(ctx, name, token.line, true);
+        return result!;
+    }
+    if (peek(ctx).value === '->' || peek(ctx).value === '[') {
+        return fail(ctx, `Acesso a membros de objetos ('${name}${peek(ctx).value}') não é suportado.`);
+    }
+
+    const local = lookupLocal(ctx, name);
+    const variable = local ? undefined : getMemberVariable(ctx, name);
+    if (!local && !variable) return fail(ctx, `Identificador desconhecido '${name}'.`);
+    let value = local ?? addGetter(ctx, variable!);
+    while (accept(ctx, '.')) value = breakMember(ctx, value, advance(ctx).value);
+    return value;
+};
+
+const parseArguments = (ctx: ConversionContext): Value[] => {
+    expect(ctx, '(');
+    const args: Value[] = [];
+    while (!accept(ctx, ')')) {
+        args.push(parseExpression(ctx));
+        if (peek(ctx).value !== ')') expect(ctx, ',');
+    }
+    return args;
+};
+
+// Calls become impure function nodes on the exec chain; their return value (if any) feeds the expression.
+const emitCall = (ctx: ConversionContext, name: string, line: number, needsResult: boolean): Value | undefined => {
+    const args = parseArguments(ctx);
+    if (['->', '.'].includes(peek(ctx).value)) return fail(ctx, `Acesso a membros do resultado de '${name}()' não é suportado.`);
+    const known = ctx.structure.functions.find(f => f.name === name && (f.className === ctx.fn.className || !f.className));
+    if (!known && needsResult) return fail(ctx, `O valor de retorno de '${name}' não pode ser usado: a função não está definida no código.`);
+    if (known && args.length !== known.parameters.length) return fail(ctx, `'${name}' espera ${known.parameters.length} argumento(s), mas recebeu ${args.length}.`);
+
+    const parameters = known ? known.parameters : args.map((arg, index) => ({ name: `Arg ${index}`, type: arg.dataType }));
+    const returnsValue = known !== undefined && known.returnType !== 'void';
+    const node = addNode(ctx, name, 'function', [
+        execIn(),
+        execOut(),
+        ...parameters.map(param => dataPin(param.name, 'in', param.type)),
+        ...(returnsValue ? [dataPin('Return Value', 'out', known!.returnType)] : []),
+    ]);
+    parameters.forEach((param, index) => connectValue(ctx, args[index], pinOf(node, 'in', 'data', param.name)));
+    appendExecNode(ctx, node, line);
+    if (!returnsValue) return undefined;
+    const output = pinOf(node, 'out', 'data');
+    return { kind: 'pin', pinId: output.id, dataType: output.dataType };
+};
+
+// --- Statements ---
+
+// Returns the index just past the statement starting at `start`.
+const findStatementEnd = (tokens: Token[], start: number): number => {
+    const first = tokens[start].value;
+    if (first === '{') return findClosing(tokens, start) + 1;
+    if (['if', 'for', 'while', 'switch'].includes(first) && tokens[start + 1].value === '(') {
+        let end = findStatementEnd(tokens, findClosing(tokens, start + 1) + 1);
+        if (first === 'if' && tokens[end].value === 'else') end = findStatementEnd(tokens, end + 1);
+        return end;
+    }
+    if (first === 'do') {
+        const end = findStatementEnd(tokens, start + 1);
+        return findStatementEnd(tokens, end);
+    }
+    let i = start;
+    while (tokens[i].kind !== 'eof' && tokens[i].value !== ';') i = OPENING[tokens[i].value] ? findClosing(tokens, i) + 1 : i + 1;
+    return Math.min(i + 1, tokens.length - 1);
+};
+
+const PRINT_FUNCTIONS = ['PrintString', 'UKismetSystemLibrary::PrintString'];
+
+const emitPrint = (ctx: ConversionContext, value: Value, line: number) => {
+    const node = addTemplateNode(ctx, 'Print String');
+    connectValue(ctx, value, pinOf(node, 'in', 'data', 'In String'));
+    appendExecNode(ctx, node, line);
+};
+
+const convertUeLog = (ctx: ConversionContext, line: number) => {
+    expect(ctx, '(');
+    const args = splitOnCommas(ctx.tokens.slice(ctx.pos, findClosing(ctx.tokens, ctx.pos - 1)));
+    const format = args[2]?.find(t => t.kind === 'string');
+    if (!format) fail(ctx, `UE_LOG sem texto de formato constante não é suportado.`);
+    emitPrint(ctx, literalValue(format!.value, 'String'), line);
+    if (args.length > 3) {
+        // The message is still converted, but the lost arguments must be reported.
+        ctx.issues.push({ functionName: ctx.fn.name, line, message: `Os argumentos de formatação do UE_LOG foram ignorados; apenas o texto fixo foi convertido.`, code: codeSnippetAt(ctx, line) });
+    }
+};
+
+const convertStreamOutput = (ctx: ConversionContext, line: number) => {
+    const pieces: Value[] = [];
+    while (accept(ctx, '<<')) {
+        if (peek(ctx).value === 'std' && peek(ctx, 2)?.value === 'endl') { ctx.pos += 3; continue; }
+        if (peek(ctx).value === 'endl') { ctx.pos++; continue; }
+        pieces.push(parseExpression(ctx, BINARY_LEVELS.length - 2));
+    }
+    if (pieces.length === 1) return emitPrint(ctx, pieces[0], line);
+    if (pieces.every(piece => piece.kind === 'literal')) {
+        return emitPrint(ctx, literalValue(pieces.map(piece => (piece as { value: string }).value).join(''), 'String'), line);
+    }
+    fail(ctx, `Saída com vários valores não constantes não é suportada.`);
+};
+
+const emitVariableSet = (ctx: ConversionContext, variable: GraphVariable, value: Value, line: number) => {
+    const node = addNode(ctx, `Set ${variable.name}`, 'variable_set', [execIn(), execOut(), dataPin(variable.name, 'in', variable.type)]);
+    connectValue(ctx, value, pinOf(node, 'in', 'data'));
+    appendExecNode(ctx, node, line);
+};
+
+const ASSIGNMENT_OPERATORS = ['=', '+=', '-=', '*=', '/='];
+
+const convertAssignment = (ctx: ConversionContext, name: string, line: number, prefixOperator?: string) => {
+    const path: string[] = []; // Struct fields, as in Stats.Damage = 5
+    while (accept(ctx, '.')) path.push(advance(ctx).value);
+    let operator: string;
+    let right: Value;
+    const increment = prefixOperator ?? (accept(ctx, '++') || accept(ctx, '--') ? ctx.tokens[ctx.pos - 1].value : undefined);
+    if (increment) {
+        operator = increment === '++' ? '+=' : '-=';
+        right = literalValue('1', 'Integer');
+    } else {
+        operator = advance(ctx).value;
+        if (!ASSIGNMENT_OPERATORS.includes(operator)) fail(ctx, `Instrução não suportada.`);
+        right = parseExpression(ctx);
+    }
+    // The new value of `target`; with a field path, the whole struct rebuilt around the new field.
+    const assign = (target: Value): Value => {
+        const current = path.reduce((value, field) => breakMember(ctx, value, field), target);
+        const value = operator === '=' ? right : applyBinaryOperator(ctx, operator[0], current, right);
+        return path.length > 0 ? replaceMember(ctx, target, path, value) : value;
+    };
+
+    const local = lookupLocal(ctx, name);
+    if (local) {
+        // Locals are tracked as aliases of the value they hold; that is only sound in the declaring block.
+        if (!ctx.scopes[ctx.scopes.length - 1].has(name)) fail(ctx, `Atribuição à variável local '${name}' dentro de um bloco aninhado não é suportada.`);
+        ctx.scopes[ctx.scopes.length - 1].set(name, coerce(ctx, assign(local), local.dataType));
+        return;
+    }
+
+    let variable = getMemberVariable(ctx, name);
+    if (!variable) {
+        // A member declared in a header that wasn't pasted: infer its type from the assigned value.
+        if (operator !== '=' || path.length > 0) fail(ctx, `Identificador desconhecido '${name}'.`);
+        variable = { name, type: right.dataType };
+        ctx.variables.push(variable);
+    }
+    emitVariableSet(ctx, variable, operator === '=' && path.length === 0 ? right : assign(addGetter(ctx, variable)), line);
+};
+
+const isDeclarationStart = (ctx: ConversionContext): boolean => {
+    let i = ctx.pos;
+    if (ctx.tokens[i].value === 'const') i++;
+    if (ctx.tokens[i].kind !== 'identifier') return false;
+    i++;
+    while (ctx.tokens[i].value === '::' && ctx.tokens[i + 1].kind === 'identifier') i += 2;
+    if (ctx.tokens[i].value === '<') {
+        let depth = 0;
+        do {
+            if (ctx.tokens[i].value === '<') depth++;
+            if (ctx.tokens[i].value === '>') depth--;
+            i++;
+        } while (depth > 0 && ctx.tokens[i].kind !== 'eof');
+    }
+    while (ctx.tokens[i].value === '*' || ctx.tokens[i].value === '&') i++;
+    return ctx.tokens[i].kind === 'identifier' && ['=', ';', '('].includes(ctx.tokens[i + 1].value);
+};
+
+const convertDeclaration = (ctx: ConversionContext, line: number) => {
+    const start = ctx.pos;
+    while (!(peek(ctx).kind === 'identifier' && ['=', ';', '('].includes(peek(ctx, 1).value))) advance(ctx);
+    const typeText = joinTokens(ctx.tokens.slice(start, ctx.pos));
+    const name = advance(ctx).value;
+    let value: Value;
+    if (accept(ctx, '=')) {
+        value = parseExpression(ctx);
+    } else if (peek(ctx).value === '(') {
+        return fail(ctx, `Inicialização por construtor da variável local '${name}' não é suportada.`);
+    } else {
+        // Structs start from a Make node with default fields, enums from their first entry.
+        const type = toBlueprintType(typeText);
+        const struct = findUserStruct(ctx.structure, type);
+        const firstEntry = findUserEnum(ctx.structure, type)?.entries[0];
+        if (struct) {
+            const make = addNode(ctx, userTypeNodeName('make', struct.name), 'function', userTypeNodePins({ kind: 'make', struct }));
+            value = { kind: 'pin', pinId: pinOf(make, 'out', 'data').id, dataType: type };
+        } else {
+            value = literalValue(firstEntry ?? (type === 'Boolean' ? 'false' : type === 'String' ? '' : '0'), type);
+        }
+    }
+    const declaredType = typeText === 'auto' || typeText === 'const auto' ? value.dataType : toBlueprintType(typeText);
+    ctx.scopes[ctx.scopes.length - 1].set(name, coerce(ctx, value, declaredType));
+};
+
+const convertIf = (ctx: ConversionContext, end: number, line: number) => {
+    expect(ctx, '(');
+    // `if (GEngine)` only guards debug output, so its body is converted unconditionally.
+    if (peek(ctx).value === 'GEngine' && peek(ctx, 1).value === ')') {
+        ctx.pos += 2;
+        convertStatements(ctx, findStatementEnd(ctx.tokens, ctx.pos));
+        if (accept(ctx, 'else')) ctx.pos = end;
+        return;
+    }
+    const condition = coerce(ctx, parseExpression(ctx), 'Boolean');
+    expect(ctx, ')');
+    const branch = addTemplateNode(ctx, 'Branch');
+    connectValue(ctx, condition, pinOf(branch, 'in', 'data', 'Condition'));
+    appendExecNode(ctx, branch, line, 'True');
+
+    const startColumn = ctx.column;
+    const startLane = ctx.lane;
+    convertScoped(ctx, findStatementEnd(ctx.tokens, ctx.pos));
+    const trueExec = ctx.exec;
+    const trueColumn = ctx.column;
+
+    ctx.exec = [pinOf(branch, 'out', 'exec', 'False').id];
+    ctx.column = startColumn;
+    ctx.lane = startLane + 1;
+    if (accept(ctx, 'else')) convertScoped(ctx, end);
+    ctx.exec = [...trueExec, ...ctx.exec];
+    ctx.column = Math.max(trueColumn, ctx.column);
+    ctx.lane = startLane;
+};
+
+const convertFor = (ctx: ConversionContext, line: number) => {
+    const openParen = ctx.pos;
+    expect(ctx, '(');
+    if (peek(ctx).value === 'const') advance(ctx);
+    if (peek(ctx, 1).kind === 'identifier') advance(ctx); // Loop variable type
+    const indexName = advance(ctx).value;
+    expect(ctx, '=');
+    const first = coerce(ctx, parseExpression(ctx), 'Integer');
+    expect(ctx, ';');
+
+    if (advance(ctx).value !== indexName) fail(ctx, `Somente laços 'for' no formato 'i < N' ou 'i <= N' são suportados.`);
+    const comparison = advance(ctx).value;
+    if (comparison !== '<' && comparison !== '<=') fail(ctx, `Somente laços 'for' no formato 'i < N' ou 'i <= N' são suportados.`);
+    const bound = coerce(ctx, parseExpression(ctx), 'Integer');
+    expect(ctx, ';');
+
+    const closeParen = findClosing(ctx.tokens, openParen);
+    const update = ctx.tokens.slice(ctx.pos, closeParen).map(t => t.value).join(' ');
+    if (![`++ ${indexName}`, `${indexName} ++`, `${indexName} += 1`, `${indexName} = ${indexName} + 1`].includes(update)) {
+        fail(ctx, `Somente laços 'for' que incrementam o índice em 1 são suportados.`);
+    }
+    ctx.pos = closeParen + 1;
+
+    // For Loop's Last Index is inclusive, so 'i < N' becomes N - 1.
+    const last = comparison === '<='
+        ? bound
+        : bound.kind === 'literal' ? literalValue(String(parseInt(bound.value, 10) - 1), 'Integer') : applyBinaryOperator(ctx, '-', bound, literalValue('1', 'Integer'));
+
+    const loop = addTemplateNode(ctx, 'For Loop');
+    connectValue(ctx, first, pinOf(loop, 'in', 'data', 'First Index'));
+    connectValue(ctx, last, pinOf(loop, 'in', 'data', 'Last Index'));
+    appendExecNode(ctx, loop, line, 'Loop Body');
+
+    const index = pinOf(loop, 'out', 'data', 'Index');
+    ctx.scopes.push(new Map([[indexName, { kind: 'pin', pinId: index.id, dataType: 'Integer' }]]));
+    const startLane = ctx.lane;
+    convertScoped(ctx, findStatementEnd(ctx.tokens, ctx.pos));
+    ctx.scopes.pop();
+    ctx.lane = startLane;
+    ctx.exec = [pinOf(loop, 'out', 'exec', 'Completed').id];
+};
+
+// A switch over a UENUM becomes a Switch node; each case leaves through its entries' outputs, `default` through the rest.
+const convertSwitch = (ctx: ConversionContext, line: number) => {
+    expect(ctx, '(');
+    const selection = parseExpression(ctx);
+    expect(ctx, ')');
+    const userEnum = findUserEnum(ctx.structure, selection.dataType);
+    if (!userEnum) return fail(ctx, `Somente instruções 'switch' sobre enums declarados com UENUM são suportadas.`);
+    if (peek(ctx).value !== '{') return fail(ctx, `Esperado '{' mas encontrado '${peek(ctx).value || 'fim do código'}'.`);
+    const close = findClosing(ctx.tokens, ctx.pos);
+    ctx.pos++;
+
+    // Consecutive labels share a section; a section runs until the next label.
+    const sections: { entries: string[]; isDefault: boolean; start: number; end: number; last: number }[] = [];
+    while (ctx.pos < close) {
+        if (peek(ctx).value === 'case' || peek(ctx).value === 'default') {
+            const previous = sections[sections.length - 1];
+            const section = previous && previous.start === previous.end ? previous : { entries: [], isDefault: false, start: 0, end: 0, last: -1 };
+            if (accept(ctx, 'default')) {
+                section.isDefault = true;
+            } else {
+                advance(ctx);
+                const label = parseExpression(ctx);
+                if (label.kind !== 'literal' || label.dataType !== userEnum.name) fail(ctx, `Somente entradas de '${userEnum.name}' são suportadas nos 'case'.`);
+                section.entries.push((label as { value: string }).value);
+            }
+            expect(ctx, ':');
+            section.start = section.end = ctx.pos;
+            if (section !== previous) sections.push(section);
+            continue;
+        }
+        const section = sections[sections.length - 1];
+        if (!section) return fail(ctx, `Instrução fora de um 'case'.`);
+        section.last = ctx.pos;
+        ctx.pos = section.end = findStatementEnd(ctx.tokens, ctx.pos);
+    }
+    const endsWith = (section: typeof sections[number], keyword: string) => section.last !== -1 && ctx.tokens[section.last].value === keyword;
+    const fallthrough = sections.findIndex((section, index) => index < sections.length - 1 && section.last !== -1 && !endsWith(section, 'break') && !endsWith(section, 'return'));
+    if (fallthrough !== -1) {
+        ctx.pos = sections[fallthrough].start;
+        fail(ctx, `Seções 'case' que continuam na seguinte (sem 'break') não são suportadas.`);
+    }
+
+    const node = addNode(ctx, userTypeNodeName('switch', userEnum.name), 'flow_control', userTypeNodePins({ kind: 'switch', userEnum }));
+    connectValue(ctx, selection, pinOf(node, 'in', 'data', SWITCH_SELECTION_PIN));
+    appendExecNode(ctx, node, line);
+    const outputsOf = (entries: string[]) => node.pins.filter(pin => pin.type === 'exec' && pin.direction === 'out' && entries.includes(pin.name)).map(pin => pin.id);
+    const cased = sections.flatMap(section => section.entries);
+    const uncased = userEnum.entries.filter(entry => !cased.includes(entry));
+
+    const startColumn = ctx.column;
+    const startLane = ctx.lane;
+    let endColumn = ctx.column;
+    // Entries without a case continue after the switch, as in C++.
+    const exec: string[] = sections.some(section => section.isDefault) ? [] : outputsOf(uncased);
+    sections.forEach((section, index) => {
+        ctx.exec = outputsOf(section.isDefault ? [...section.entries, ...uncased] : section.entries);
+        if (ctx.exec.length === 0) return; // A default that no entry reaches
+        ctx.column = startColumn;
+        ctx.lane = startLane + index;
+        ctx.pos = section.start;
+        convertScoped(ctx, endsWith(section, 'break') ? section.last : section.end);
+        exec.push(...ctx.exec);
+        endColumn = Math.max(endColumn, ctx.column);
+    });
+    ctx.exec = exec;
+    ctx.column = endColumn;
+    ctx.lane = startLane;
+    ctx.pos = close + 1;
+};
+
+const convertReturn = (ctx: ConversionContext, line: number) => {
+    if (peek(ctx).value !== ';') {
+        const value = parseExpression(ctx);
+        if (ctx.fn.returnType === 'void') fail(ctx, `'return' com valor em uma função void.`);
+        const node = addNode(ctx, 'Return Node', 'function', [execIn(), dataPin('Return Value', 'in', ctx.fn.returnType)]);
+        connectValue(ctx, value, pinOf(node, 'in', 'data'));
+        appendExecNode(ctx, node, line);
+    }
+    ctx.exec = [];
+};
+
+// Dispatchers declared in the pasted header keep their signature; others are inferred from their first use.
+const getDispatcher = (ctx: ConversionContext, name: string, inferredParameters: ParsedParameter[]): EventDispatcher => {
+    const dispatcher = ctx.eventDispatchers.find(d => d.name === name) ?? ctx.structure.eventDispatchers.find(d => d.name === name) ?? {
+        id: `cpp-dispatcher-${name}`,
+        name,
+        parameters: inferredParameters.map(param => ({ id: `cpp-dispatcher-${name}-${param.name}`, name: param.name, type: param.type })),
+    };
+    if (!ctx.eventDispatchers.includes(dispatcher)) ctx.eventDispatchers.push(dispatcher);
+    return dispatcher;
+};
+
+const DISPATCHER_METHODS: { [method: string]: DispatcherNodeKind } = {
+    'Broadcast': 'call',
+    'AddDynamic': 'bind',
+    'AddUniqueDynamic': 'bind',
+    'RemoveDynamic': 'unbind',
+};
+
+// `X.Broadcast(...)` becomes a Call node; `X.AddDynamic(this, &AClass::Handler)` a Bind node fed by a Create Event node.
+const convertDispatcherStatement = (ctx: ConversionContext, name: string, line: number) => {
+    expect(ctx, '.');
+    const method = advance(ctx).value;
+    const kind = DISPATCHER_METHODS[method];
+    if (kind === 'call') {
+        const args = parseArguments(ctx);
+        const dispatcher = getDispatcher(ctx, name, args.map((arg, index) => ({ name: `Arg ${index}`, type: arg.dataType })));
+        if (args.length !== dispatcher.parameters.length) fail(ctx, `'${name}' espera ${dispatcher.parameters.length} argumento(s), mas recebeu ${args.length}.`);
+        const node = addNode(ctx, dispatcherNodeName('call', dispatcher.name), 'function', dispatcherNodePins('call', dispatcher));
+        dispatcher.parameters.forEach((param, index) => connectValue(ctx, args[index], pinOf(node, 'in', 'data', param.name)));
+        appendExecNode(ctx, node, line);
+        return;
+    }
+
+    expect(ctx, '(');
+    if (!accept(ctx, 'this')) fail(ctx, `Somente '${name}.${method}(this, &Classe::Função)' é suportado.`);
+    expect(ctx, ',');
+    expect(ctx, '&');
+    let handler = advance(ctx).value;
+    while (accept(ctx, '::')) handler = advance(ctx).value;
+    expect(ctx, ')');
+    const handlerFunction = ctx.structure.functions.find(f => f.name === handler);
+    const dispatcher = getDispatcher(ctx, name, handlerFunction?.parameters ?? []);
+    const createEvent = addNode(ctx, CREATE_EVENT_NODE_NAME, 'function', createEventNodePins(), { value: handler });
+    const node = addNode(ctx, dispatcherNodeName(kind, dispatcher.name), 'function', dispatcherNodePins(kind, dispatcher));
+    connectValue(ctx, { kind: 'pin', pinId: createEvent.pins[0].id, dataType: DELEGATE_TYPE }, pinOf(node, 'in', 'data'));
+    appendExecNode(ctx, node, line);
+};
+
+const UNSUPPORTED_KEYWORDS: { [keyword: string]: string } = {
+    'while': "Laços 'while' não são suportados.",
+    'do': "Laços 'do/while' não são suportados.",
+    'break': "'break' não é suportado.",
+    'continue': "'continue' não é suportado.",
+    'goto': "'goto' não é suportado.",
+    'try': "Exceções não são suportadas.",
+    'throw': "Exceções não são suportadas.",
+};
+
+const convertStatement = (ctx: ConversionContext, end: number) => {
+    const token = peek(ctx);
+    const line = token.line;
+
+    if (token.value === ';') { advance(ctx); return; }
+    if (token.value === '{') {
+        advance(ctx);
+        ctx.scopes.push(new Map());
+        convertStatements(ctx, end - 1);
+        ctx.scopes.pop();
+        expect(ctx, '}');
+        return;
+    }
+    if (UNSUPPORTED_KEYWORDS[token.value]) fail(ctx, UNSUPPORTED_KEYWORDS[token.value]);
+    if (accept(ctx, 'if')) return convertIf(ctx, end, line);
+    if (accept(ctx, 'for')) return convertFor(ctx, line);
+    if (accept(ctx, 'switch')) return convertSwitch(ctx, line);
+    if (accept(ctx, 'return')) return convertReturn(ctx, line);
+
+    // Super::Event() calls are implicit in Blueprint event graphs.
+    if (token.value === 'Super' && peek(ctx, 1).value === '::') { ctx.pos = end; return; }
+    if (token.value === 'UE_LOG') { advance(ctx); convertUeLog(ctx, line); ctx.pos = end; return; }
+    if ((token.value === 'std' && peek(ctx, 2).value === 'cout') || token.value === 'cout') {
+        ctx.pos += token.value === 'std' ? 3 : 1;
+        return convertStreamOutput(ctx, line);
+    }
+    if (token.value === 'GEngine' && peek(ctx, 1).value === '->' && peek(ctx, 2).value === 'AddOnScreenDebugMessage') {
+        // Only the message matters to the graph; key, duration and colour are dropped.
+        const args = splitOnCommas(ctx.tokens.slice(ctx.pos + 4, findClosing(ctx.tokens, ctx.pos + 3)));
+        if (args.length < 4) fail(ctx, `AddOnScreenDebugMessage com argumentos insuficientes.`);
+        ctx.pos = ctx.tokens.indexOf(args[3][0]);
+        const message = parseExpression(ctx);
+        ctx.pos = end;
+        return emitPrint(ctx, message, line);
+    }
+    const qualifiedName = token.value === 'UKismetSystemLibrary' ? `${token.value}::${peek(ctx, 2).value}` : token.value;
+    if (PRINT_FUNCTIONS.includes(qualifiedName)) {
+        ctx.pos += qualifiedName.includes('::') ? 3 : 1;
+        const args = parseArguments(ctx);
+        const message = qualifiedName.includes('::') ? args[1] : args[0];
+        if (!message) fail(ctx, `PrintString sem mensagem.`);
+        return emitPrint(ctx, message, line);
+    }
+
+    if (accept(ctx, '++') || accept(ctx, '--')) {
+        const operator = ctx.tokens[ctx.pos - 1].value;
+        if (accept(ctx, 'this')) expect(ctx, '->');
+        return convertAssignment(ctx, advance(ctx).value, line, operator);
+    }
+    if (token.kind === 'identifier' && isDeclarationStart(ctx)) return convertDeclaration(ctx, line);
+
+    let name = token.value;
+    if (accept(ctx, 'this')) expect(ctx, '->');
+    else advance(ctx);
+    if (name === 'this') name = advance(ctx).value;
+
+    if (ASSIGNMENT_OPERATORS.includes(peek(ctx).value) || peek(ctx).value === '++' || peek(ctx).value === '--') return convertAssignment(ctx, name, line);
+    if (peek(ctx).value === '(') { emitCall(ctx, name, line, false); return; }
+    if (peek(ctx).value === '.' && DISPATCHER_METHODS[peek(ctx, 1).value]) return convertDispatcherStatement(ctx, name, line);
+    if (peek(ctx).value === '.') return convertAssignment(ctx, name, line);
+    fail(ctx, `Instrução não suportada.`);
+};
+
+const convertScoped = (ctx: ConversionContext, end: number) => {
+    ctx.scopes.push(new Map());
+    try {
+        convertStatements(ctx, end);
+    } finally {
+        ctx.scopes.pop();
+    }
+};
+
+// Converts statements until `end`, recording unsupported ones instead of aborting the whole function.
+const convertStatements = (ctx: ConversionContext, end: number) => {
+    while (ctx.pos < end && peek(ctx).kind !== 'eof') {
+        const statementEnd = findStatementEnd(ctx.tokens, ctx.pos);
+        const snapshot = { nodes: ctx.nodes.length, connections: ctx.connections.length, variables: ctx.variables.length, eventDispatchers: ctx.eventDispatchers.length, exec: ctx.exec, column: ctx.column, lane: ctx.lane };
+        try {
+            convertStatement(ctx, statementEnd);
+            if (ctx.pos < statementEnd && ctx.tokens[ctx.pos].value === ';') ctx.pos++;
+        } catch (error) {
+            if (!(error instanceof UnsupportedConstructError)) throw error;
+            // Drop whatever the failed statement had already added so the graph stays wired as before it.
+            ctx.nodes.length = snapshot.nodes;
+            ctx.connections.length = snapshot.connections;
+            ctx.variables.length = snapshot.variables;
+            ctx.eventDispatchers.length = snapshot.eventDispatchers;
+            Object.assign(ctx, { exec: snapshot.exec, column: snapshot.column, lane: snapshot.lane });
+            ctx.issues.push({ functionName: ctx.fn.name, line: error.line, message: error.message, code: codeSnippetAt(ctx, error.line) });
+        }
+        ctx.pos = Math.max(ctx.pos, statementEnd);
+    }
+};
+
+// --- Conversion ---
+
+const NATIVE_EVENTS: { [name: string]: { nodeName: string; pins: { [parameterIndex: number]: Omit<GraphPin, 'id'> } } } = {
+    'BeginPlay': { nodeName: 'Event BeginPlay', pins: {} },
+    'Tick': { nodeName: 'Event Tick', pins: { 0: dataPin('Delta Seconds', 'out', 'Float') } },
+};
+
+// The structs and enums a graph's pins and variables use, with the ones their fields use in turn.
+const usedUserTypes = (graphData: GraphData, structure: SourceStructure): Pick<GraphData, 'userStructs' | 'userEnums'> => {
+    const names = new Set([
+        ...graphData.nodes.flatMap(node => node.pins.flatMap(pin => [pin.dataType, pin.valueType])),
+        ...graphData.variables.flatMap(variable => [variable.type, variable.valueType]),
+    ].filter((name): name is string => Boolean(name)));
+    const pending = [...names];
+    while (pending.length > 0) {
+        const name = pending.pop()!;
+        structure.userStructs.find(s => s.name === name)?.fields
+            .filter(field => !names.has(field.type))
+            .forEach(field => { names.add(field.type); pending.push(field.type); });
+    }
+    const userStructs = structure.userStructs.filter(s => names.has(s.name));
+    const userEnums = structure.userEnums.filter(e => names.has(e.name));
+    return { ...(userStructs.length > 0 && { userStructs }), ...(userEnums.length > 0 && { userEnums }) };
+};
+
+const convertFunction = (fn: ParsedFunction, index: number, structure: SourceStructure, sourceLines: string[], issues: LocalConversionIssue[]): BlueprintGraph => {
+    const ctx: ConversionContext = {
+        fn,
+        structure,
+        idPrefix: `cpp${index}`,
+        nextId: 0,
+        nodes: [],
+        connections: [],
+        variables: [],
+        eventDispatchers: [],
+        scopes: [new Map()],
+        exec: [],
+        column: 1,
+        lane: 0,
+        placedNodeIds: new Set(),
+        tokens: fn.body,
+        pos: 0,
+        issues,
+        sourceLines,
+    };
+
+    const native = NATIVE_EVENTS[fn.name];
+    const parameterPins = fn.parameters.map((param, i) => native?.pins[i] ?? dataPin(param.name, 'out', param.type));
+    const entry = addNode(ctx, native?.nodeName ?? fn.name, 'event', [execOut(), ...parameterPins]);
+    entry.x = 50;
+    entry.y = 100;
+    entry.codeSnippet = codeSnippetAt(ctx, fn.startLine);
+    fn.parameters.forEach((param, i) => {
+        const pin = entry.pins[i + 1];
+        ctx.scopes[0].set(param.name, { kind: 'pin', pinId: pin.id, dataType: pin.dataType });
+    });
+    ctx.exec = [entry.pins[0].id];
+
+    convertStatements(ctx, fn.body.length - 1);
+
+    const qualifiedName = fn.className ? `${fn.className}::${fn.name}` : fn.name;
+    const graphData: GraphData = { nodes: ctx.nodes, connections: ctx.connections, variables: ctx.variables };
+    return {
+        name: native?.nodeName ?? fn.name,
+        description: `Convertido localmente de '${qualifiedName}' (linhas ${fn.startLine}–${fn.endLine}).`,
+        graphData: {
+            ...graphData,
+            ...usedUserTypes(graphData, structure),
+            ...(ctx.eventDispatchers.length > 0 && { eventDispatchers: ctx.eventDispatchers }),
+            ...(fn.rpc && { customEvents: [{
+                id: `cpp-event-${fn.name}`,
+                name: fn.name,
+                parameters: fn.parameters.map(param => ({ id: `cpp-event-${fn.name}-${param.name}`, name: param.name, type: param.type })),
+                ...fn.rpc,
+            }] }),
+        },
+    };
+};
+
+export interface LocalConversionResult extends BlueprintResponse {
+    issues: LocalConversionIssue[];
+    functionSources: { [graphName: string]: string }; // Original source of each converted function
+}
+
+const formatIssue = (issue: LocalConversionIssue) => `Linha ${issue.line} (${issue.functionName}): ${issue.message}${issue.code ? ` — \`${issue.code}\`` : ''}`;
+
+const buildGuide = (functions: ParsedFunction[], graphs: BlueprintGraph[], issues: LocalConversionIssue[], variables: GraphVariable[], dispatchers: EventDispatcher[], structure: SourceStructure): string => {
+    const lines = [
+        '## Conversão Local',
+        '',
+        'Este resultado foi gerado pelo conversor local, sem IA. Cada função do código virou um grafo de Blueprint:',
+        '',
+        ...functions.map((fn, i) => {
+            const count = issues.filter(issue => issue.functionName === fn.name).length;
+            const status = count === 0 ? 'convertida' : `convertida parcialmente (${count} ${count === 1 ? 'construção não suportada' : 'construções não suportadas'})`;
+            return `- **${graphs[i].name}** (linhas ${fn.startLine}–${fn.endLine}): ${status}`;
+        }),
+    ];
+    if (variables.length > 0) {
+        lines.push('', '### Variáveis', '', ...variables.map(v => `- \`${v.name}\`: ${v.type}`));
+    }
+    const rpcs = functions.filter(fn => fn.rpc);
+    if (rpcs.length > 0) {
+        lines.push('', '### Eventos Replicados', '', ...rpcs.map(fn => {
+            const flags = [EVENT_REPLICATION_LABELS[fn.rpc!.replication!], fn.rpc!.isReliable ? 'Reliable' : 'Unreliable', ...(fn.rpc!.withValidation ? ['WithValidation'] : [])];
+            return `- \`${fn.name}\`: ${flags.join(', ')}`;
+        }));
+    }
+    if (dispatchers.length > 0) {
+        lines.push('', '### Event Dispatchers', '', ...dispatchers.map(d => `- \`${d.name}\`(${d.parameters.map(p => p.type).join(', ')})`));
+    }
+    if (structure.userStructs.length > 0 || structure.userEnums.length > 0) {
+        lines.push('', '### Estruturas e Enums', '',
+            ...structure.userStructs.map(s => `- Estrutura \`${s.name}\` { ${s.fields.map(f => `${f.name}: ${f.type}`).join(', ')} }`),
+            ...structure.userEnums.map(e => `- Enum \`${e.name}\` { ${e.entries.join(', ')} }`));
+    }
+    if (issues.length > 0) {
+        lines.push('', '### Construções Não Suportadas', '', ...issues.map(issue => `- ${formatIssue(issue)}`));
+    }
+    return lines.join('\n');
+};
+
+/**
+ * Parses a supported subset of UE C++ (event bodies, member assignments, if/else, counting for loops,
+ * switches over enums, struct fields, arithmetic, logging and member function calls) into Blueprint graphs without calling any AI.
+ * Output is deterministic: the same code always yields the same node ids and positions.
+ */
+export const convertCppLocally = (cppCode: string): LocalConversionResult => {
+    if (!cppCode.trim()) {
+        throw new Error("O código C++ não pode estar vazio.");
+    }
+    const structure = parseStructure(tokenize(cppCode));
+    if (structure.functions.length === 0) {
+        throw new Error("Nenhuma definição de função foi encontrada no código C++.");
+    }
+
+    const sourceLines = cppCode.split('\n');
+    const issues: LocalConversionIssue[] = [];
+    const graphs = structure.functions.map((fn, index) => convertFunction(fn, index, structure, sourceLines, issues));
+    const usedVariables = structure.memberVariables.filter(v => graphs.some(g => g.graphData.variables.some(used => used.name === v.name)));
+    const usedDispatchers = graphs.flatMap(g => g.graphData.eventDispatchers ?? []).filter((d, i, all) => all.findIndex(other => other.name === d.name) === i);
+
+    const functionSources: { [graphName: string]: string } = {};
+    structure.functions.forEach((fn, i) => {
+        functionSources[graphs[i].name] = sourceLines.slice(fn.startLine - 1, fn.endLine).join('\n');
+    });
+
+    const seenPinIds = new Set<string>();
+    return {
+        guide: buildGuide(structure.functions, graphs, issues, usedVariables, usedDispatchers, structure),
+        blueprintGraphs: graphs.map(graph => {
+            const { graph: checked, report } = validateAndRepairGraph(graph, seenPinIds);
+            return { ...checked, validationReport: report };
+        }),
+        unresolvedProblems: issues.map(formatIssue),
+        issues,
+        functionSources,
+    };
+};
+
+/**
+ * Local conversion that optionally hands the functions with unsupported constructs to the AI,
+ * one function at a time, and merges the AI graphs back in place of the partial local ones.
+ */
+export const convertCppWithFallback = async (cppCode: string, delegateUnsupported: boolean): Promise<BlueprintResponse> => {
+    const local = convertCppLocally(cppCode);
+    if (!delegateUnsupported || local.issues.length === 0) return local;
+
+    const functionsToDelegate = [...new Set(local.issues.map(issue => issue.functionName))];
+    let guide = local.guide;
+    let graphs = local.blueprintGraphs;
+    let issues = local.issues;
+    const problems: string[] = [];
+
+    for (const functionName of functionsToDelegate) {
+        const graphIndex = graphs.findIndex(graph => graph.name === functionName || graph.name === NATIVE_EVENTS[functionName]?.nodeName);
+        const source = graphIndex === -1 ? undefined : local.functionSources[graphs[graphIndex].name];
+        if (!source) continue;
+        try {
+            const response = await generateBlueprintGuide(source);
+            graphs = [...graphs.slice(0, graphIndex), ...response.blueprintGraphs, ...graphs.slice(graphIndex + 1)];
+            issues = issues.filter(issue => issue.functionName !== functionName);
+            guide += `\n\n### ${functionName} (convertida pela IA)\n\n${response.guide}`;
+            problems.push(...(response.unresolvedProblems || []));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'erro desconhecido';
+            problems.push(`A IA não conseguiu converter '${functionName}': ${message}`);
+        }
+    }
+
+    return { guide, blueprintGraphs: graphs, unresolvedProblems: [...issues.map(formatIssue), ...problems] };
+};
@@ -0,0 +1,97 @@
+import type { CppCodeResponse } from './geminiService';
+
+// Removes comments and string/char literals so braces and names inside them aren't counted.
+const stripCommentsAndStrings = (code: string): string =>
+    code
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/\/\/.*$/gm, '')
+        .replace(/"(?:\\.|[^"\\])*"/g, '""')
+        .replace(/'(?:\\.|[^'\\])*'/g, "''");
+
+const checkBraces = (code: string, fileLabel: string, problems: string[]) => {
+    let depth = 0;
+    for (const char of stripCommentsAndStrings(code)) {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        if (depth < 0) {
+            problems.push(`${fileLabel}: há uma '}' sem a '{' correspondente.`);
+            return;
+        }
+    }
+    if (depth > 0) problems.push(`${fileLabel}: ${depth} '{' não foram fechadas.`);
+};
+
+export const findClassName = (header: string): string | null => {
+    const match = stripCommentsAndStrings(header).match(/\b(?:class|struct)\s+(?:\w+_API\s+)?(\w+)\s*(?:final\s*)?:\s*public\b/);
+    return match ? match[1] : null;
+};
+
+/**
+ * Basic consistency checks between a generated header/source pair. These don't replace a compiler,
+ * they catch the mistakes models make most often: truncated files, mismatched class names and
+ * methods that are declared but never implemented (or the other way around).
+ */
+export const findCppProblems = (code: CppCodeResponse): string[] => {
+    const problems: string[] = [];
+    if (!code.header?.trim()) problems.push(`O arquivo de cabeçalho (.h) está vazio.`);
+    if (!code.source?.trim()) problems.push(`O arquivo de origem (.cpp) está vazio.`);
+    if (problems.length > 0) return problems;
+
+    const header = stripCommentsAndStrings(code.header);
+    const source = stripCommentsAndStrings(code.source);
+
+    checkBraces(code.header, 'Cabeçalho', problems);
+    checkBraces(code.source, 'Fonte', problems);
+
+    if (!/#pragma\s+once/.test(code.header)) problems.push(`O cabeçalho não contém '#pragma once'.`);
+    if (!/\bGENERATED_BODY\s*\(\s*\)/.test(header)) problems.push(`O cabeçalho não contém 'GENERATED_BODY()'.`);
+
+    const className = findClassName(code.header);
+    if (!className) {
+        problems.push(`Não foi possível encontrar a declaração da classe no cabeçalho.`);
+        return problems;
+    }
+
+    const generatedInclude = code.header.match(/#include\s+"([\w\/]+)\.generated\.h"/);
+    const includes = code.header.match(/^\s*#include\s+[^\n]+/gm) || [];
+    if (!generatedInclude) {
+        problems.push(`O cabeçalho não inclui o arquivo '.generated.h'.`);
+    } else if (!/\.generated\.h"/.test(includes[includes.length - 1])) {
+        problems.push(`O include '.generated.h' deve ser o último include do cabeçalho.`);
+    }
+
+    const headerFileName = generatedInclude ? generatedInclude[1].split('/').pop() : className.replace(/^[AU]/, '');
+    if (!new RegExp(`#include\\s+"(?:[\\w/]+/)?${headerFileName}\\.h"`).test(code.source)) {
+        problems.push(`O arquivo de origem não inclui '${headerFileName}.h'.`);
+    }
+
+    const defined = new Set<string>();
+    const definitionPattern = new RegExp(`\\b${className}::(~?\\w+)\\s*\\(`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = definitionPattern.exec(source)) !== null) {
+        defined.add(match[1]);
+    }
+    defined.forEach(name => {
+        const declaredName = name.replace(/_(?:Implementation|Validate)$/, '');
+        if (!new RegExp(`\\b${declaredName}\\s*\\(`).test(header)) {
+            problems.push(`'${className}::${name}' é implementado no .cpp mas não foi declarado no cabeçalho.`);
+        }
+    });
+
+    // Every UFUNCTION that needs a C++ body must have one in the source file.
+    const ufunctionPattern = /UFUNCTION\s*\(((?:[^()]|\([^()]*\))*)\)\s*(?:virtual\s+|static\s+)*[\w:<>,\s*&]+?\s+(\w+)\s*\([^)]*\)[^;{]*([;{])/g;
+    while ((match = ufunctionPattern.exec(header)) !== null) {
+        const [, specifiers, name, terminator] = match;
+        if (terminator === '{' || /\bBlueprintImplementableEvent\b/.test(specifiers)) continue;
+        const needsImplementationSuffix = /\b(?:BlueprintNativeEvent|Server|Client|NetMulticast)\b/.test(specifiers);
+        const expectedName = needsImplementationSuffix ? `${name}_Implementation` : name;
+        if (!defined.has(expectedName)) {
+            problems.push(`A UFUNCTION '${name}' foi declarada mas '${className}::${expectedName}' não foi implementada no .cpp.`);
+        }
+        if (/\bWithValidation\b/.test(specifiers) && !defined.has(`${name}_Validate`)) {
+            problems.push(`A UFUNCTION '${name}' usa WithValidation mas '${className}::${name}_Validate' não foi implementada.`);
+        }
+    }
+
+    return problems;
+};
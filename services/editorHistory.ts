@@ -0,0 +1,67 @@
+import type { CustomEvent, CustomFunction, EventDispatcher, GraphData, UserEnum, UserStruct } from './geminiService';
+
+// Everything in the Blueprint editor that undo/redo restores. Generated C++ isn't part of it.
+export interface EditorDocument {
+    graphData: GraphData;
+    customEvents: CustomEvent[];
+    customFunctions: CustomFunction[];
+    eventDispatchers: EventDispatcher[];
+    userStructs: UserStruct[];
+    userEnums: UserEnum[];
+}
+
+// Describes an edit reported by the visualizer, so the editor can label and coalesce it.
+export interface GraphChange {
+    label: string;
+    coalesceKey?: string;
+}
+
+export interface HistoryEntry {
+    label: string;
+    document: EditorDocument;
+    coalesceKey?: string;
+    timestamp: number;
+}
+
+// Entries after `index` are the redo stack; recording a new change discards them.
+export interface EditorHistory {
+    entries: HistoryEntry[];
+    index: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Consecutive changes with the same coalesce key inside this window become a single step.
+const COALESCE_WINDOW_MS = 1000;
+
+export const createHistory = (document: EditorDocument, label = 'Estado inicial'): EditorHistory => ({
+    entries: [{ label, document, timestamp: Date.now() }],
+    index: 0,
+});
+
+export const currentDocument = (history: EditorHistory): EditorDocument => history.entries[history.index].document;
+
+export const recordChange = (history: EditorHistory, document: EditorDocument, label: string, coalesceKey?: string): EditorHistory => {
+    const present = history.entries[history.index];
+    if (document === present.document) return history;
+
+    const now = Date.now();
+    if (coalesceKey && history.index > 0 && present.coalesceKey === coalesceKey && now - present.timestamp < COALESCE_WINDOW_MS) {
+        const entries = history.entries.slice(0, history.index + 1);
+        entries[history.index] = { ...present, document, timestamp: now };
+        return { entries, index: history.index };
+    }
+
+    const entries = [...history.entries.slice(0, history.index + 1), { label, document, coalesceKey, timestamp: now }];
+    const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+    return { entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+};
+
+export const canUndo = (history: EditorHistory) => history.index > 0;
+export const canRedo = (history: EditorHistory) => history.index < history.entries.length - 1;
+
+export const undo = (history: EditorHistory): EditorHistory => canUndo(history) ? { ...history, index: history.index - 1 } : history;
+export const redo = (history: EditorHistory): EditorHistory => canRedo(history) ? { ...history, index: history.index + 1 } : history;
+
+export const jumpTo = (history: EditorHistory, index: number): EditorHistory =>
+    index >= 0 && index < history.entries.length ? { ...history, index } : history;
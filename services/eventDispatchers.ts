@@ -0,0 +1,115 @@
+import type { CustomEvent, EventDispatcher, FunctionParameter, GraphConnection, GraphNode, GraphPin } from './geminiService';
+import { generateId } from './nodeLibrary';
+import { formatPinType, parameterPinType } from './pinTypes';
+
+// --- Delegate Pins ---
+
+// A reference to an event, carried by Unreal's red delegate pins. They only connect to each other.
+export const DELEGATE_TYPE = 'Delegate';
+
+export const OUTPUT_DELEGATE_PIN = 'Output Delegate';
+export const DISPATCHER_EVENT_PIN = 'Event';
+
+// A delegate to a member function by name, for handlers that live outside the Event Graph.
+export const CREATE_EVENT_NODE_NAME = 'Create Event';
+
+export const isDelegatePin = (pin: GraphPin) => pin.dataType === DELEGATE_TYPE;
+
+/** The pins of a custom event node: its parameters and the delegate that binds it to a dispatcher. */
+export const customEventPins = (event: CustomEvent): GraphPin[] => [
+    { id: generateId('pin'), name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
+    ...(event.parameters || []).map(p => ({ id: generateId('pin'), name: p.name, type: 'data' as const, direction: 'out' as const, ...parameterPinType(p) })),
+    { id: generateId('pin'), name: OUTPUT_DELEGATE_PIN, type: 'data', direction: 'out', dataType: DELEGATE_TYPE },
+];
+
+export const createEventNodePins = (): Omit<GraphPin, 'id'>[] => [
+    { name: OUTPUT_DELEGATE_PIN, type: 'data', direction: 'out', dataType: DELEGATE_TYPE },
+];
+
+/** The event a delegate pin refers to: the custom event it comes from, or the function a Create Event node names. */
+export const delegateEventName = (node: GraphNode): string | undefined => {
+    if (node.type === 'event') return node.name;
+    return node.name === CREATE_EVENT_NODE_NAME ? node.properties?.value : undefined;
+};
+
+// --- Dispatcher Nodes ---
+
+export type DispatcherNodeKind = 'call' | 'bind' | 'unbind';
+
+const NODE_PREFIXES: { [kind in DispatcherNodeKind]: string } = {
+    call: 'Call ',
+    bind: 'Bind Event to ',
+    unbind: 'Unbind Event from ',
+};
+
+export const dispatcherNodeName = (kind: DispatcherNodeKind, dispatcherName: string) => `${NODE_PREFIXES[kind]}${dispatcherName}`;
+
+/** Call nodes take the dispatcher's parameters; Bind and Unbind nodes take the event to (un)bind. */
+export const dispatcherNodePins = (kind: DispatcherNodeKind, dispatcher: EventDispatcher): Omit<GraphPin, 'id'>[] => [
+    { name: '', type: 'exec', direction: 'in', dataType: 'Exec' },
+    { name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
+    ...(kind === 'call'
+        ? dispatcher.parameters.map(p => ({ name: p.name, type: 'data' as const, direction: 'in' as const, ...parameterPinType(p) }))
+        : [{ name: DISPATCHER_EVENT_PIN, type: 'data' as const, direction: 'in' as const, dataType: DELEGATE_TYPE }]),
+];
+
+export const createDispatcherNode = (kind: DispatcherNodeKind, dispatcher: EventDispatcher, x: number, y: number): GraphNode => ({
+    id: generateId('node'),
+    name: dispatcherNodeName(kind, dispatcher.name),
+    type: 'function',
+    x,
+    y,
+    pins: dispatcherNodePins(kind, dispatcher).map(pin => ({ ...pin, id: generateId('pin') })),
+});
+
+/** The dispatcher a node calls, binds or unbinds. Nodes find their dispatcher by name, like function calls. */
+export const findDispatcherNode = (node: GraphNode, dispatchers: EventDispatcher[] = []): { kind: DispatcherNodeKind; dispatcher: EventDispatcher } | null => {
+    if (node.type !== 'function') return null;
+    for (const kind of Object.keys(NODE_PREFIXES) as DispatcherNodeKind[]) {
+        const dispatcher = dispatchers.find(d => node.name === dispatcherNodeName(kind, d.name));
+        if (dispatcher) return { kind, dispatcher };
+    }
+    return null;
+};
+
+/** The dispatcher name in a Call, Bind or Unbind node's name, whether or not the dispatcher exists. */
+export const dispatcherNameOf = (node: GraphNode): string | undefined => {
+    if (node.type !== 'function') return undefined;
+    const prefix = Object.values(NODE_PREFIXES).find(p => node.name.startsWith(p));
+    return prefix && node.name.slice(prefix.length);
+};
+
+/** Brings a dispatcher node in line with the dispatcher's name and signature, keeping pins that still match. */
+export const syncDispatcherNode = (node: GraphNode, kind: DispatcherNodeKind, dispatcher: EventDispatcher): GraphNode => ({
+    ...node,
+    name: dispatcherNodeName(kind, dispatcher.name),
+    pins: dispatcherNodePins(kind, dispatcher).map(pin => ({
+        ...pin,
+        id: node.pins.find(p => p.type === pin.type && p.direction === pin.direction && p.name === pin.name)?.id ?? generateId('pin'),
+    })),
+});
+
+// --- Signatures ---
+
+/** Bound events must take the dispatcher's parameter types in order; their names don't matter. */
+export const matchesDispatcherSignature = (params: Pick<GraphPin, 'dataType' | 'objectClass'>[], dispatcher: EventDispatcher) =>
+    params.length === dispatcher.parameters.length
+    && dispatcher.parameters.every((param, index) => formatPinType(params[index]) === formatPinType(parameterPinType(param)));
+
+/** The data pins of an event node that are parameters, i.e. all but its Output Delegate. */
+export const eventParameterPins = (node: GraphNode) => node.pins.filter(pin => pin.type === 'data' && pin.direction === 'out' && !isDelegatePin(pin));
+
+const copyParameters = (parameters: FunctionParameter[]) => parameters.map(p => ({ ...p, id: generateId('param') }));
+
+/**
+ * Unreal's 'Assign' action: a custom event with the dispatcher's signature and a Bind node already
+ * wired to it. The Bind node still needs an exec wire.
+ */
+export const createDispatcherAssignment = (dispatcher: EventDispatcher, eventName: string, x: number, y: number): { event: CustomEvent; nodes: GraphNode[]; connection: GraphConnection } => {
+    const event: CustomEvent = { id: generateId('eventDef'), name: eventName, parameters: copyParameters(dispatcher.parameters) };
+    const eventNode: GraphNode = { id: generateId('node'), name: eventName, type: 'event', x, y: y + 150, pins: customEventPins(event) };
+    const bindNode = createDispatcherNode('bind', dispatcher, x, y);
+    const delegatePin = eventNode.pins.find(isDelegatePin)!;
+    const eventPin = bindNode.pins.find(isDelegatePin)!;
+    return { event, nodes: [bindNode, eventNode], connection: { fromPinId: delegatePin.id, toPinId: eventPin.id } };
+};
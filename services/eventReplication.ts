@@ -0,0 +1,72 @@
+import type { CustomEvent, EventReplication } from './geminiService';
+
+// --- Replication Modes ---
+
+// As the Replicates setting in the Details panel of a custom event.
+export const EVENT_REPLICATION_LABELS: { [mode in EventReplication]: string } = {
+    none: 'Not Replicated',
+    server: 'Run on Server',
+    client: 'Run on Owning Client',
+    multicast: 'Multicast',
+};
+
+export const eventReplicationModes = Object.keys(EVENT_REPLICATION_LABELS) as EventReplication[];
+
+/** True for events that are RPCs: calling them sends the call over the network. */
+export const isRemoteEvent = (event: CustomEvent | undefined) => Boolean(event?.replication && event.replication !== 'none');
+
+type RemoteReplication = Exclude<EventReplication, 'none'>;
+
+// --- C++ Specifiers ---
+
+const RPC_SPECIFIERS: { [mode in RemoteReplication]: string } = {
+    server: 'Server',
+    client: 'Client',
+    multicast: 'NetMulticast',
+};
+
+/** The UFUNCTION specifiers of an RPC, e.g. Server, Reliable, WithValidation. */
+export const rpcSpecifiers = (event: CustomEvent): string[] => {
+    if (!isRemoteEvent(event)) return [];
+    return [
+        RPC_SPECIFIERS[event.replication as RemoteReplication],
+        event.isReliable ? 'Reliable' : 'Unreliable',
+        ...(event.withValidation ? ['WithValidation'] : []),
+    ];
+};
+
+export type RpcSettings = Pick<CustomEvent, 'replication' | 'isReliable' | 'withValidation'>;
+
+/** Reads the replication of an event back from UFUNCTION specifiers; null when they declare no RPC. */
+export const parseRpcSpecifiers = (specifiers: string[]): RpcSettings | null => {
+    const replication = (Object.keys(RPC_SPECIFIERS) as RemoteReplication[]).find(mode => specifiers.includes(RPC_SPECIFIERS[mode]));
+    if (!replication) return null;
+    return {
+        replication,
+        ...(specifiers.includes('Reliable') && { isReliable: true }),
+        ...(specifiers.includes('WithValidation') && { withValidation: true }),
+    };
+};
+
+// --- Function Flags ---
+
+// EFunctionFlags bits that K2Node_CustomEvent stores in its FunctionFlags property.
+const FUNC_NET = 0x00000040;
+const FUNC_NET_RELIABLE = 0x00000080;
+const FUNC_NET_FLAGS: { [mode in RemoteReplication]: number } = {
+    server: 0x00200000,
+    client: 0x01000000,
+    multicast: 0x00004000,
+};
+
+export const rpcFunctionFlags = (event: CustomEvent | undefined): number => {
+    if (!isRemoteEvent(event)) return 0;
+    return FUNC_NET | FUNC_NET_FLAGS[event!.replication as RemoteReplication] | (event!.isReliable ? FUNC_NET_RELIABLE : 0);
+};
+
+export const fromFunctionFlags = (flags: number): RpcSettings | null => {
+    if (!(flags & FUNC_NET)) return null;
+    const replication = (Object.keys(FUNC_NET_FLAGS) as RemoteReplication[]).find(mode => flags & FUNC_NET_FLAGS[mode]);
+    if (!replication) return null;
+    return { replication, ...(flags & FUNC_NET_RELIABLE ? { isReliable: true } : {}) };
+};
@@ -0,0 +1,95 @@
+import type { CustomFunction, FunctionGraph, FunctionParameter, GraphData, GraphNode, GraphPin } from './geminiService';
+import { generateId } from './nodeLibrary';
+import { parameterPinType } from './pinTypes';
+
+export const FUNCTION_ENTRY_NAME = 'Function Entry';
+export const RETURN_NODE_NAME = 'Return Node';
+
+export const isFunctionEntry = (node: GraphNode) => node.type === 'event' && node.name === FUNCTION_ENTRY_NAME;
+
+const execPin = (direction: GraphPin['direction']): GraphPin => ({ id: generateId('pin'), name: '', type: 'exec', direction, dataType: 'Exec' });
+
+// Rebuilds the data pins from a signature, keeping the id of every pin whose name survives so its wires do too.
+const syncDataPins = (pins: GraphPin[], params: FunctionParameter[], direction: GraphPin['direction']): GraphPin[] =>
+    params.map(param => {
+        const existing = pins.find(pin => pin.type === 'data' && pin.direction === direction && pin.name === param.name);
+        return { id: existing?.id ?? generateId('pin'), name: param.name, type: 'data', direction, ...parameterPinType(param) };
+    });
+
+const syncExecPin = (pins: GraphPin[], direction: GraphPin['direction']): GraphPin =>
+    pins.find(pin => pin.type === 'exec' && pin.direction === direction) ?? execPin(direction);
+
+const dropDanglingConnections = <T extends FunctionGraph>(graph: T): T => {
+    const pinIds = new Set(graph.nodes.flatMap(node => node.pins.map(pin => pin.id)));
+    const connections = graph.connections.filter(c => pinIds.has(c.fromPinId) && pinIds.has(c.toPinId));
+    return connections.length === graph.connections.length ? graph : { ...graph, connections };
+};
+
+// --- Function Graphs ---
+
+export const createFunctionGraph = (func: CustomFunction): FunctionGraph => {
+    const entry: GraphNode = {
+        id: generateId('node'), name: FUNCTION_ENTRY_NAME, type: 'event', x: 50, y: 150,
+        pins: [execPin('out'), ...syncDataPins([], func.parameters, 'out')],
+    };
+    const returnNode: GraphNode = {
+        id: generateId('node'), name: RETURN_NODE_NAME, type: 'function', x: 450, y: 150,
+        pins: [execPin('in'), ...syncDataPins([], func.outputs, 'in')],
+    };
+    return { nodes: [entry, returnNode], connections: [{ fromPinId: entry.pins[0].id, toPinId: returnNode.pins[0].id }] };
+};
+
+// Gives functions loaded from older projects or imports a graph of their own.
+export const withFunctionGraph = (func: CustomFunction): CustomFunction => func.graph ? func : { ...func, graph: createFunctionGraph(func) };
+
+/** Updates the Function Entry and Return nodes of a function's graph after its signature changed. */
+export const syncFunctionGraph = (func: CustomFunction): CustomFunction => {
+    if (!func.graph) return withFunctionGraph(func);
+    const nodes = func.graph.nodes.map(node => {
+        if (isFunctionEntry(node)) return { ...node, pins: [syncExecPin(node.pins, 'out'), ...syncDataPins(node.pins, func.parameters, 'out')] };
+        if (node.name === RETURN_NODE_NAME) return { ...node, pins: [syncExecPin(node.pins, 'in'), ...syncDataPins(node.pins, func.outputs, 'in')] };
+        return node;
+    });
+    return { ...func, graph: dropDanglingConnections({ ...func.graph, nodes }) };
+};
+
+/** The graph edited on a function's tab: its nodes with the Blueprint's variables plus the function's locals. */
+export const functionScopeGraph = (func: CustomFunction, memberVariables: GraphData['variables']): GraphData => ({
+    nodes: func.graph?.nodes ?? [],
+    connections: func.graph?.connections ?? [],
+    variables: [...memberVariables, ...(func.localVariables ?? [])],
+});
+
+// --- Call Nodes ---
+
+export const createFunctionCallPins = (func: CustomFunction): GraphPin[] => [
+    ...(func.isPure ? [] : [execPin('in'), execPin('out')]),
+    ...syncDataPins([], func.parameters, 'in'),
+    ...syncDataPins([], func.outputs, 'out'),
+];
+
+/** Brings a call node in line with the function's signature and pure flag, keeping pins that still match. */
+export const syncFunctionCallNode = (node: GraphNode, func: CustomFunction): GraphNode => ({
+    ...node,
+    name: func.name,
+    pins: [
+        ...(func.isPure ? [] : [syncExecPin(node.pins, 'in'), syncExecPin(node.pins, 'out')]),
+        ...syncDataPins(node.pins, func.parameters, 'in'),
+        ...syncDataPins(node.pins, func.outputs, 'out'),
+    ],
+});
+
+// --- Whole Document ---
+
+/**
+ * Applies `update` to the Event Graph and to every function graph, dropping wires whose pins were
+ * removed. Used by edits that cascade across graphs, like deleting a variable or a function.
+ */
+export const updateAllGraphs = (
+    graphData: GraphData,
+    customFunctions: CustomFunction[],
+    update: (graph: FunctionGraph) => FunctionGraph,
+): { graphData: GraphData; customFunctions: CustomFunction[] } => ({
+    graphData: dropDanglingConnections({ ...graphData, ...update(graphData) }),
+    customFunctions: customFunctions.map(func => func.graph ? { ...func, graph: dropDanglingConnections(update(func.graph)) } : func),
+});
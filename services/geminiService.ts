@@ -1,4 +1,8 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import { getActiveProvider, getProviderConfig, LlmJsonRequest, LlmMessage, LlmProvider, PROVIDER_LABELS } from "./llmProviders";
+import { validateBlueprintResponse, findGraphProblems, GraphValidationReport } from "./graphValidation";
+import { findCppProblems } from "./cppValidation";
+import { baseClassName, cppClassNameOf, DEFAULT_CLASS_SETTINGS, headerIncludeOf, PARENT_CLASSES, ParentClassKind } from "./classSettings";
 
 // --- Data Structures for Blueprint Visualization ---
 
@@ -7,9 +11,14 @@ export interface GraphPin {
   name: string;
   type: 'exec' | 'data';
   direction: 'in' | 'out';
-  dataType: string; // e.g., 'Integer', 'Boolean', 'Exec', 'String', 'Object'
+  dataType: string; // e.g., 'Integer', 'Boolean', 'Exec', 'String', 'Object'. For containers, the element (or Map key) type
+  containerType?: PinContainerType; // Missing for single values
+  valueType?: string; // Map value type
+  objectClass?: string; // Class of 'Object', 'Class', 'SoftObject' and 'SoftClass' pins, e.g. 'Pawn'; missing means Object
 }
 
+export type PinContainerType = 'Array' | 'Set' | 'Map';
+
 export interface GraphNode {
   id: string;
   name: string;
@@ -18,6 +27,7 @@ export interface GraphNode {
   y: number;
   properties?: { value?: string };
   codeSnippet?: string;
+  variableId?: string; // The GraphVariable read or written by a variable_get/variable_set node
   pins: GraphPin[];
 }
 
@@ -26,21 +36,75 @@ export interface GraphConnection {
   toPinId: string;
 }
 
+export type VariableReplication = 'none' | 'replicated' | 'repNotify';
+export type VariableVisibility = 'public' | 'protected' | 'private';
+export type EventReplication = 'none' | 'server' | 'client' | 'multicast';
+
 export interface GraphVariable {
+    id?: string; // Missing on graphs from the AI and from projects saved before variables had ids
     name: string;
-    type: string;
+    type: string; // Element (or Map key) type when the variable is a container
+    containerType?: PinContainerType;
+    valueType?: string; // Map value type
+    objectClass?: string; // See GraphPin
+    // Details shown in the Variables tab; they drive the generated UPROPERTY. Missing flags are false.
+    defaultValue?: string; // Literal text, as in a literal node
+    category?: string;
+    tooltip?: string;
+    isInstanceEditable?: boolean;
+    exposeOnSpawn?: boolean;
+    isReadOnly?: boolean;
+    replication?: VariableReplication; // 'repNotify' calls the OnRep_<Name> function when the value arrives
+    visibility?: VariableVisibility;
+    component?: ComponentAttachment; // Set on the actor's components, which the Components tab manages
+}
+
+export interface ComponentAttachment {
+    parentId?: string; // Id of the component this one is attached to; missing on the root
 }
 
 export interface CustomEvent {
     id: string;
     name: string;
     parameters?: FunctionParameter[];
+    // Replicated events are RPCs: 'server' runs on the server, 'client' on the owning client and 'multicast' everywhere.
+    replication?: EventReplication;
+    isReliable?: boolean;
+    withValidation?: boolean; // Adds a _Validate function that can reject the call
+}
+
+// A Blueprint event dispatcher: a multicast delegate that bound events listen to.
+export interface EventDispatcher {
+    id: string;
+    name: string;
+    parameters: FunctionParameter[];
 }
 
 export interface FunctionParameter {
     id: string;
     name: string;
     type: string;
+    objectClass?: string; // See GraphPin
+}
+
+// Types declared in the Blueprint, like Unreal's User Defined Structures and Enumerations. Pins, variables
+// and parameters refer to them by name, without the F/E prefix of the generated C++ type.
+export interface UserStruct {
+    id: string;
+    name: string;
+    fields: FunctionParameter[];
+}
+
+export interface UserEnum {
+    id: string;
+    name: string;
+    entries: string[];
+}
+
+// The body of a custom function: a graph that starts at its 'Function Entry' node.
+export interface FunctionGraph {
+    nodes: GraphNode[];
+    connections: GraphConnection[];
 }
 
 export interface CustomFunction {
@@ -48,6 +112,9 @@ export interface CustomFunction {
     name: string;
     parameters: FunctionParameter[];
     outputs: FunctionParameter[];
+    isPure?: boolean; // Pure calls have no exec pins and are evaluated wherever their outputs are read
+    localVariables?: GraphVariable[];
+    graph?: FunctionGraph; // Missing on functions that only have a signature
 }
 
 export interface GraphData {
@@ -56,6 +123,9 @@ export interface GraphData {
     variables: GraphVariable[];
     customEvents?: CustomEvent[];
     customFunctions?: CustomFunction[];
+    eventDispatchers?: EventDispatcher[];
+    userStructs?: UserStruct[];
+    userEnums?: UserEnum[];
 }
 
 
@@ -64,24 +134,108 @@ export interface BlueprintGraph {
     name: string;
     description: string;
     graphData: GraphData;
+    validationReport?: GraphValidationReport; // Filled in client-side after the response is checked
 }
 
 // Updated main response structure for C++ to BP
 export interface BlueprintResponse {
     guide: string;
     blueprintGraphs: BlueprintGraph[];
+    correctionRounds?: number;
+    unresolvedProblems?: string[]; // Problems still present in the best attempt
 }
 
 // New response structure for BP to C++
 export interface CppCodeResponse {
     header: string;
     source: string;
+    correctionRounds?: number;
+    unresolvedProblems?: string[];
+}
+
+export type ParentClass = 'AActor' | 'APawn' | 'ACharacter' | 'UActorComponent' | 'USceneComponent' | 'UObject' | 'UBlueprintFunctionLibrary' | 'UGameInstanceSubsystem';
+
+// Where and how the generated C++ class is declared.
+export interface ClassSettings {
+    className: string; // Without the A/U prefix, which follows the parent class
+    parentClass: ParentClass;
+    moduleName: string;
+    apiMacro: string; // e.g. MYPROJECT_API; empty leaves the class unexported
+    includePath: string; // Folder of the header inside the module's Public directory; empty for the root
+}
+
+
+// --- Conversion Service ---
+
+// Models behind OpenAI-compatible servers often wrap their JSON in markdown fences.
+const parseJsonResponse = <T>(rawText: string): T => {
+    let jsonText = rawText.trim();
+    const fenceMatch = jsonText.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    if (fenceMatch) {
+        jsonText = fenceMatch[1];
+    }
+    return JSON.parse(jsonText) as T;
+};
+
+// --- Self-correction ---
+
+const MAX_CORRECTION_ROUNDS = 2;
+
+interface CorrectionOutcome<T> {
+    result: T;
+    correctionRounds: number;
+    unresolvedProblems: string[];
 }
 
+/**
+ * Sends the request and, while the result has problems, feeds them back to the model as follow-up
+ * turns. The attempt with the fewest problems wins, so a worse correction never replaces a better answer.
+ * Only the first attempt may throw; a failed correction round ends the loop.
+ */
+const generateWithCorrections = async <T>(
+    provider: LlmProvider,
+    request: LlmJsonRequest,
+    parse: (rawText: string) => T,
+    findProblems: (result: T) => string[],
+    buildCorrectionPrompt: (problems: string[]) => string,
+): Promise<CorrectionOutcome<T>> => {
+    const firstRawText = await provider.generateJson(request);
+    let best = parse(firstRawText);
+    let bestProblems = findProblems(best);
+    let problems = bestProblems;
+    let correctionRounds = 0;
+    const history: LlmMessage[] = [...(request.history || []), { role: 'user', text: request.prompt }, { role: 'model', text: firstRawText }];
+
+    while (problems.length > 0 && correctionRounds < MAX_CORRECTION_ROUNDS) {
+        correctionRounds++;
+        const correctionPrompt = buildCorrectionPrompt(problems);
+        try {
+            const rawText = await provider.generateJson({ ...request, prompt: correctionPrompt, history });
+            const candidate = parse(rawText);
+            problems = findProblems(candidate);
+            if (problems.length < bestProblems.length) {
+                best = candidate;
+                bestProblems = problems;
+            }
+            history.push({ role: 'user', text: correctionPrompt }, { role: 'model', text: rawText });
+        } catch (error) {
+            console.error(`Correction round ${correctionRounds} failed:`, error);
+            break;
+        }
+    }
+
+    return { result: best, correctionRounds, unresolvedProblems: bestProblems };
+};
 
-// --- Gemini API Service ---
+const formatProblemList = (problems: string[]) => problems.map(problem => `    - ${problem}`).join('\n');
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const findBlueprintProblems = (response: BlueprintResponse): string[] => {
+    if (response.blueprintGraphs.length === 0) return ['A resposta não contém nenhum grafo em \'blueprintGraphs\'.'];
+    return response.blueprintGraphs.flatMap(graph => [
+        ...(graph.validationReport?.issues.filter(issue => issue.severity === 'rejected').map(issue => issue.message) ?? []),
+        ...findGraphProblems(graph.graphData),
+    ].map(problem => `[${graph.name}] ${problem}`));
+};
 
 const graphDataSchema = {
     type: Type.OBJECT,
@@ -111,7 +265,10 @@ const graphDataSchema = {
                 name: { type: Type.STRING },
                 type: { type: Type.STRING, description: "'exec' ou 'data'" },
                 direction: { type: Type.STRING, description: "'in' ou 'out'" },
-                dataType: { type: Type.STRING, description: "Tipo de dado do pino, e.g., 'Integer', 'Boolean', 'Exec'" }
+                dataType: { type: Type.STRING, description: "Tipo de dado do pino, e.g., 'Integer', 'Boolean', 'Exec'. Em contêineres, o tipo do elemento (ou da chave do Map)" },
+                containerType: { type: Type.STRING, description: "Opcional: 'Array', 'Set' ou 'Map' para pinos de contêiner" },
+                valueType: { type: Type.STRING, description: "Tipo do valor quando containerType é 'Map'" },
+                objectClass: { type: Type.STRING, description: "Classe referenciada (sem prefixo A/U, e.g. 'Pawn') quando dataType é 'Object', 'Class', 'SoftObject' ou 'SoftClass'" }
                 },
                 required: ['id', 'name', 'type', 'direction', 'dataType']
             }
@@ -137,10 +294,79 @@ const graphDataSchema = {
         type: Type.OBJECT,
         properties: {
             name: { type: Type.STRING },
-            type: { type: Type.STRING }
+            type: { type: Type.STRING },
+            containerType: { type: Type.STRING },
+            valueType: { type: Type.STRING },
+            objectClass: { type: Type.STRING }
         },
         required: ['name', 'type']
         }
+    },
+    customEvents: {
+        type: Type.ARRAY,
+        description: "Eventos personalizados do grafo, incluindo as RPCs do código C++.",
+        items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING },
+            name: { type: Type.STRING },
+            parameters: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                id: { type: Type.STRING },
+                name: { type: Type.STRING },
+                type: { type: Type.STRING },
+                objectClass: { type: Type.STRING }
+                },
+                required: ['id', 'name', 'type']
+            }
+            },
+            replication: { type: Type.STRING, description: "'none', 'server', 'client' ou 'multicast'" },
+            isReliable: { type: Type.BOOLEAN },
+            withValidation: { type: Type.BOOLEAN }
+        },
+        required: ['id', 'name']
+        }
+    },
+    userStructs: {
+        type: Type.ARRAY,
+        description: "Estruturas declaradas com USTRUCT, pelo nome sem o prefixo F.",
+        items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING },
+            name: { type: Type.STRING },
+            fields: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                id: { type: Type.STRING },
+                name: { type: Type.STRING },
+                type: { type: Type.STRING },
+                objectClass: { type: Type.STRING }
+                },
+                required: ['id', 'name', 'type']
+            }
+            }
+        },
+        required: ['id', 'name', 'fields']
+        }
+    },
+    userEnums: {
+        type: Type.ARRAY,
+        description: "Enums declarados com UENUM, pelo nome sem o prefixo E.",
+        items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING },
+            name: { type: Type.STRING },
+            entries: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ['id', 'name', 'entries']
+        }
     }
     },
     required: ['nodes', 'connections', 'variables']
@@ -176,8 +402,6 @@ export const generateBlueprintGuide = async (cppCode: string): Promise<Blueprint
     throw new Error("O código C++ não pode estar vazio.");
   }
 
-  const model = "gemini-2.5-pro";
-
   const prompt = `
     Você é um desenvolvedor especialista em Unreal Engine 5. Sua tarefa é analisar o código C++ e dividí-lo em múltiplos grafos de Blueprint, um para cada função ou evento principal.
     Sua resposta DEVE ser um único objeto JSON VÁLIDO que corresponda ao schema.
@@ -192,6 +416,10 @@ export const generateBlueprintGuide = async (cppCode: string): Promise<Blueprint
         - **graphData**: Os dados do grafo (nós, conexões, etc.) para esta função.
     - **codeSnippet**: Para cada nó, o campo opcional 'codeSnippet' DEVE conter a linha de código C++ exata que resultou na sua criação.
     - **Pinos**: Cada nó deve ter uma lista detalhada de 'pins', cada um com um 'id' único globalmente. Conexões usam 'fromPinId' e 'toPinId'.
+    - **Contêineres**: TArray<T>, TSet<T> e TMap<K, V> viram pinos e variáveis com 'containerType' 'Array', 'Set' ou 'Map'; 'dataType' (ou 'type') é o tipo do elemento ou da chave e 'valueType' o tipo do valor do Map.
+    - **RPCs**: Funções declaradas com 'UFUNCTION(Server, ...)', 'UFUNCTION(Client, ...)' ou 'UFUNCTION(NetMulticast, ...)' viram eventos personalizados replicados. O grafo recebe o nome da função (sem o sufixo '_Implementation'), começa por um nó 'event' com esse nome e implementa o corpo de '<Nome>_Implementation'; declare o evento em 'graphData.customEvents' com 'replication' 'server', 'client' ou 'multicast', 'isReliable' verdadeiro para 'Reliable' e 'withValidation' verdadeiro para 'WithValidation'. Funções '<Nome>_Validate' não geram grafos.
+    - **Estruturas e Enums**: Tipos declarados com 'USTRUCT(BlueprintType)' e 'UENUM(BlueprintType)' vão em 'graphData.userStructs' (com os 'fields' de cada UPROPERTY) e 'graphData.userEnums' (com as 'entries', usando o DisplayName do UMETA quando houver). Pinos e variáveis usam o nome sem prefixo (FWeaponStats → 'WeaponStats'). Montar ou ler campos de uma estrutura usa os nós puros 'Make <Nome>' e 'Break <Nome>', com um pino por campo; um 'switch' sobre um enum vira um nó 'flow_control' 'Switch on <Nome>' com a entrada 'Selection' e uma saída exec por entrada do enum.
+    - **Referências**: Ponteiros e TObjectPtr viram o tipo 'Object', TSubclassOf 'Class', TSoftObjectPtr 'SoftObject' e TSoftClassPtr 'SoftClass', com a classe sem prefixo em 'objectClass' (e.g. AActor* → 'Object' com 'objectClass' 'Actor'). Use também 'Byte', 'Integer64', 'Double', 'Text', 'Vector2D' e 'LinearColor' quando o código usar esses tipos.
 
     **Código C++ para Análise:**
     \`\`\`cpp
@@ -201,71 +429,87 @@ export const generateBlueprintGuide = async (cppCode: string): Promise<Blueprint
     Gere o objeto JSON completo agora, analisando todas as funções no código fornecido.
   `;
   
+  const buildCorrectionPrompt = (problems: string[]) => `
+    Os grafos que você retornou possuem os seguintes problemas estruturais:
+${formatProblemList(problems)}
+
+    Corrija o 'graphData' dos grafos afetados: todo grafo precisa de um nó 'event' de entrada, todo nó com pino de execução de entrada deve estar ligado à cadeia de execução de um evento e as conexões de dados devem ligar pinos com o mesmo 'dataType'.
+    Retorne o objeto JSON completo novamente, com o mesmo schema, mantendo os grafos que já estavam corretos.
+  `;
+
+  // The label comes from the configuration, so a provider that fails to be created is still named in the error.
+  const providerLabel = PROVIDER_LABELS[getProviderConfig().kind];
   let rawResponseText = '';
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema,
-      },
-    });
-    
-    rawResponseText = response.text;
-    let jsonText = rawResponseText.trim();
-
-    if (jsonText.startsWith('```json')) {
-        jsonText = jsonText.substring(7);
-        if (jsonText.endsWith('```')) {
-            jsonText = jsonText.slice(0, -3);
-        }
-    }
-    
-    return JSON.parse(jsonText) as BlueprintResponse;
-
+    const outcome = await generateWithCorrections(
+        getActiveProvider(),
+        { task: 'blueprintGuide', prompt, responseSchema },
+        rawText => {
+            rawResponseText = rawText;
+            return validateBlueprintResponse(parseJsonResponse<BlueprintResponse>(rawText));
+        },
+        findBlueprintProblems,
+        buildCorrectionPrompt,
+    );
+    return { ...outcome.result, correctionRounds: outcome.correctionRounds, unresolvedProblems: outcome.unresolvedProblems };
   } catch (error) {
-    console.error("Error calling or parsing Gemini API response:", error);
+    console.error(`Error calling or parsing ${providerLabel} response:`, error);
     console.error("Raw response text that caused the error:\n", rawResponseText);
     if (error instanceof Error) {
-        throw new Error(`A chamada para a API Gemini falhou ou a resposta não era um JSON válido: ${error.message}`);
+        throw new Error(`A chamada para o provedor ${providerLabel} falhou ou a resposta não era um JSON válido: ${error.message}`);
     }
-    throw new Error("Ocorreu um erro desconhecido ao se comunicar com a API Gemini.");
+    throw new Error(`Ocorreu um erro desconhecido ao se comunicar com o provedor ${providerLabel}.`);
   }
 };
 
-export const generateCppCode = async (graphData: GraphData): Promise<CppCodeResponse> => {
+// How the Blueprint lifecycle events map onto each kind of parent class, for the C++ prompt.
+const LIFECYCLE_INSTRUCTIONS: { [kind in ParentClassKind]: string } = {
+  actor: "Os eventos 'BeginPlay', 'Tick' e 'EndPlay' sobrescrevem os métodos de mesmo nome. No construtor, defina 'PrimaryActorTick.bCanEverTick' e, se houver variáveis replicadas, 'bReplicates = true'.",
+  component: "'BeginPlay' vira 'InitializeComponent' (defina 'bWantsInitializeComponent = true' no construtor), 'Tick' vira 'TickComponent' e 'EndPlay' continua 'EndPlay'. No construtor, defina 'PrimaryComponentTick.bCanEverTick' e, se houver variáveis replicadas, chame 'SetIsReplicatedByDefault(true)'.",
+  subsystem: "'BeginPlay' vira 'Initialize(FSubsystemCollectionBase& Collection)' e 'EndPlay' vira 'Deinitialize()'. Não há 'Tick' nem replicação.",
+  object: "A classe não tem eventos de ciclo de vida, 'Tick' nem replicação; eventos nativos do grafo devem ser ignorados.",
+  library: "Todas as funções são 'static' e a classe não tem variáveis, eventos nem construtor. Use 'nullptr' como contexto de mundo.",
+};
+
+export const generateCppCode = async (graphData: GraphData, settings: ClassSettings = DEFAULT_CLASS_SETTINGS): Promise<CppCodeResponse> => {
   if (!graphData || graphData.nodes.length === 0) {
     throw new Error("O grafo de Blueprint não pode estar vazio.");
   }
 
-  const model = "gemini-2.5-pro";
-
+  const className = cppClassNameOf(settings);
+  const parent = PARENT_CLASSES[settings.parentClass];
   const prompt = `
-    Você é um desenvolvedor especialista em Unreal Engine 5 C++. Sua tarefa é converter uma representação JSON de um grafo de Blueprint em código C++ para uma nova classe AActor.
+    Você é um desenvolvedor especialista em Unreal Engine 5 C++. Sua tarefa é converter uma representação JSON de um grafo de Blueprint em código C++ para uma nova classe ${settings.parentClass}.
 
     **JSON de Entrada:**
     O JSON a seguir descreve os nós, conexões, variáveis e definições de funções/eventos personalizados.
     - 'nodes': A lista de nós do Blueprint. Nós com 'type: 'event'' são pontos de entrada para a lógica.
     - 'connections': O fluxo de execução e de dados.
     - 'variables': Variáveis de membro para a classe.
-    - 'customEvents': Definições para eventos personalizados. A implementação para estes é encontrada no grafo de 'nodes', começando pelo nó com o nome correspondente.
-    - 'customFunctions': Definições para funções personalizadas. Estas funções devem ser criadas com corpos vazios, pois sua lógica não é definida neste grafo; elas estão apenas sendo chamadas.
+    - 'customEvents': Definições para eventos personalizados. A implementação para estes é encontrada no grafo de 'nodes', começando pelo nó com o nome correspondente. 'replication' ('server', 'client' ou 'multicast') faz do evento uma RPC, 'isReliable' a torna confiável e 'withValidation' pede uma função de validação.
+    - 'customFunctions': Definições para funções personalizadas. Cada função pode ter um 'graph' próprio com a sua implementação, começando pelo nó 'Function Entry' (cujos pinos de saída são os parâmetros) e terminando em nós 'Return Node' (cujos pinos de entrada são as saídas). 'localVariables' são variáveis locais da função e 'isPure' indica uma função pura, sem pinos de execução nas chamadas.
+    - 'userStructs' e 'userEnums': Estruturas e enums do Blueprint, referidos pelos pinos e variáveis pelo nome sem prefixo. Os nós 'Make <Nome>' e 'Break <Nome>' montam e desmontam uma estrutura, e 'Switch on <Nome>' desvia a execução pela saída com o nome da entrada do pino 'Selection'.
+    - 'eventDispatchers': Event dispatchers (delegates multicast) com os seus 'parameters'. Os nós 'Call <Nome>', 'Bind Event to <Nome>' e 'Unbind Event from <Nome>' os usam; o pino 'Event' dos nós Bind/Unbind recebe o pino 'Output Delegate' de um evento personalizado ou um nó 'Create Event' cujo 'properties.value' é o nome da função.
 
     \`\`\`json
     ${JSON.stringify(graphData, null, 2)}
     \`\`\`
 
     **Instruções:**
-    1.  Crie uma nova classe C++ que herda de 'AActor'. Nomeie-a 'MyBlueprintActor'.
+    1.  Crie uma nova classe C++ '${className}' que herda de '${settings.parentClass}' (incluindo "${parent.include}"), com '${parent.classSpecifiers}'${settings.apiMacro.trim() ? ` e a macro de exportação '${settings.apiMacro.trim()}'` : ''}. O cabeçalho é '${baseClassName(settings)}.h' e o .cpp o inclui como "${headerIncludeOf(settings)}". ${LIFECYCLE_INSTRUCTIONS[parent.kind]}
     2.  **Arquivo de Cabeçalho (.h):**
-        -   Declare todas as variáveis da lista 'variables' como UPROPERTYs. Use 'EditAnywhere' e 'BlueprintReadWrite'. Escolha tipos C++ apropriados (e.g., 'bool' para Boolean, 'int32' para Integer, 'FString' para String).
-        -   Para cada função em 'customFunctions', declare uma 'UFUNCTION(BlueprintCallable)' correspondente.
-        -   Para cada evento em 'customEvents', declare uma 'UFUNCTION(BlueprintCallable)' correspondente.
+        -   Declare todas as variáveis da lista 'variables' como UPROPERTYs. Escolha tipos C++ apropriados (e.g., 'bool' para Boolean, 'int32' para Integer, 'FString' para String); variáveis com 'containerType' usam TArray, TSet ou TMap (com 'valueType' como tipo do valor); tipos de referência usam 'objectClass' (e.g. 'Object' com 'Pawn' → APawn*, 'Class' → TSubclassOf, 'SoftObject' → TSoftObjectPtr, 'SoftClass' → TSoftClassPtr). Os especificadores seguem os metadados de cada variável: 'EditAnywhere' se 'isInstanceEditable' for verdadeiro (senão 'EditDefaultsOnly'), 'BlueprintReadOnly' se 'isReadOnly' for verdadeiro (senão 'BlueprintReadWrite'), 'Category' de 'category' (ou "Default"), 'meta=(ExposeOnSpawn="true")' se 'exposeOnSpawn' for verdadeiro, 'Replicated' ou 'ReplicatedUsing=OnRep_<Nome>' conforme 'replication', a seção public/protected/private de 'visibility' e 'tooltip' como comentário de documentação.
+        -   Variáveis com 'component' são os componentes do ator: declare-as como 'UPROPERTY(VisibleAnywhere, BlueprintReadOnly, Category = "Components")', crie-as no construtor com 'CreateDefaultSubobject' e anexe cada uma com 'SetupAttachment' ao componente de 'component.parentId'; a que não tem 'parentId' é o 'RootComponent'.
+        -   Se alguma variável for replicada, declare 'GetLifetimeReplicatedProps' e, para 'repNotify', a função 'OnRep_<Nome>'.
+        -   Para cada função em 'customFunctions', declare uma 'UFUNCTION(BlueprintCallable)' correspondente, ou 'UFUNCTION(BlueprintPure)' se 'isPure' for verdadeiro.
+        -   Para cada evento em 'customEvents', declare uma 'UFUNCTION(BlueprintCallable)' correspondente. Eventos com 'replication' são RPCs: use 'Server', 'Client' ou 'NetMulticast' conforme 'replication', 'Reliable' ou 'Unreliable' conforme 'isReliable' e 'WithValidation' se 'withValidation' for verdadeiro (e.g. 'UFUNCTION(Server, Reliable, WithValidation, BlueprintCallable)'); implemente o corpo em '<Nome>_Implementation' e, com validação, 'bool <Nome>_Validate(...)' retornando true. A classe precisa ser replicada ('bReplicates = true' ou 'SetIsReplicatedByDefault(true)').
+        -   Para cada enum em 'userEnums', declare antes da classe um 'UENUM(BlueprintType)' 'enum class E<Nome> : uint8' e, para cada estrutura em 'userStructs', um 'USTRUCT(BlueprintType)' 'struct F<Nome>' com 'GENERATED_BODY()' e um 'UPROPERTY(EditAnywhere, BlueprintReadWrite)' por campo. Nós 'Make' viram a construção da estrutura, 'Break' o acesso aos campos e 'Switch on' um 'switch' com um 'case' por saída conectada.
+        -   Para cada dispatcher em 'eventDispatchers', declare antes da classe 'DECLARE_DYNAMIC_MULTICAST_DELEGATE' (com o sufixo '_OneParam', '_TwoParams' etc. conforme o número de parâmetros) e, na classe, um membro 'UPROPERTY(BlueprintAssignable, Category = "Event Dispatchers")' desse tipo. Nós 'Call' viram 'Broadcast', 'Bind' vira 'AddDynamic' e 'Unbind' vira 'RemoveDynamic'.
         -   Declare também eventos nativos como 'BeginPlay' ou 'Tick' se eles forem usados como pontos de entrada no grafo.
     3.  **Arquivo de Origem (.cpp):**
+        -   Inicialize no construtor as variáveis com 'defaultValue'. Implemente 'GetLifetimeReplicatedProps' com 'DOREPLIFETIME' para cada variável replicada.
         -   Implemente a lógica para cada evento/função que tenha um nó de ponto de entrada no grafo (e.g., 'BeginPlay', eventos personalizados). Siga as 'connections' para estruturar o código corretamente.
-        -   Para cada função de 'customFunctions', forneça uma implementação C++ vazia.
+        -   Para cada função de 'customFunctions', implemente o corpo seguindo o seu 'graph' a partir do nó 'Function Entry', declarando as 'localVariables' no início. Funções sem 'graph' recebem um corpo vazio.
         -   Use a sintaxe e as convenções padrão do C++ da UE5.
     4.  **Formato de Saída:**
         -   Sua resposta DEVE ser um único objeto JSON válido.
@@ -291,23 +535,28 @@ export const generateCppCode = async (graphData: GraphData): Promise<CppCodeResp
       required: ['header', 'source']
   };
 
-  try {
-      const response = await ai.models.generateContent({
-          model,
-          contents: prompt,
-          config: {
-              responseMimeType: "application/json",
-              responseSchema: cppResponseSchema,
-          },
-      });
+  const buildCorrectionPrompt = (problems: string[]) => `
+    O par de arquivos C++ que você retornou não passou nas verificações de consistência:
+${formatProblemList(problems)}
 
-      const jsonText = response.text.trim();
-      return JSON.parse(jsonText) as CppCodeResponse;
+    Corrija esses problemas e retorne novamente o objeto JSON completo com as chaves "header" e "source".
+  `;
+
+  const providerLabel = PROVIDER_LABELS[getProviderConfig().kind];
+  try {
+      const outcome = await generateWithCorrections(
+          getActiveProvider(),
+          { task: 'cppCode', prompt, responseSchema: cppResponseSchema },
+          rawText => parseJsonResponse<CppCodeResponse>(rawText),
+          findCppProblems,
+          buildCorrectionPrompt,
+      );
+      return { ...outcome.result, correctionRounds: outcome.correctionRounds, unresolvedProblems: outcome.unresolvedProblems };
   } catch (error) {
-    console.error("Error calling or parsing Gemini API response for C++ generation:", error);
+    console.error(`Error calling or parsing ${providerLabel} response for C++ generation:`, error);
     if (error instanceof Error) {
-        throw new Error(`A chamada para a API Gemini falhou ou a resposta não era um JSON válido: ${error.message}`);
+        throw new Error(`A chamada para o provedor ${providerLabel} falhou ou a resposta não era um JSON válido: ${error.message}`);
     }
-    throw new Error("Ocorreu um erro desconhecido ao se comunicar com a API Gemini.");
+    throw new Error(`Ocorreu um erro desconhecido ao se comunicar com o provedor ${providerLabel}.`);
   }
 };
\ No newline at end of file
@@ -0,0 +1,106 @@
+import type { GraphConnection, GraphData, GraphNode, GraphVariable } from './geminiService';
+import { generateId } from './nodeLibrary';
+import { repairNodes, repairVariables } from './graphValidation';
+import { findNodeVariable, isVariableNode } from './variableReferences';
+
+// --- Node Snippets ---
+// A selection of nodes with the wires between them, as JSON on the system clipboard.
+
+export const SNIPPET_FORMAT = 'ue-blueprint-converter-nodes';
+
+export interface GraphSnippet {
+    format: typeof SNIPPET_FORMAT;
+    nodes: GraphNode[];
+    connections: GraphConnection[];
+    variables: GraphVariable[]; // Variables read or written by the copied nodes, recreated on paste if missing
+}
+
+export const createSnippet = (graphData: GraphData, nodeIds: string[]): GraphSnippet => {
+    const nodes = graphData.nodes.filter(node => nodeIds.includes(node.id));
+    const pinIds = new Set(nodes.flatMap(node => node.pins.map(pin => pin.id)));
+    const variables = nodes.map(node => findNodeVariable(node, graphData.variables)).filter(Boolean);
+    return {
+        format: SNIPPET_FORMAT,
+        nodes,
+        connections: graphData.connections.filter(c => pinIds.has(c.fromPinId) && pinIds.has(c.toPinId)),
+        variables: graphData.variables.filter(variable => variables.includes(variable)),
+    };
+};
+
+export const serializeSnippet = (snippet: GraphSnippet): string => JSON.stringify(snippet);
+
+const isObject = (value: unknown): value is { [key: string]: unknown } => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isConnection = (value: unknown): value is GraphConnection =>
+    isObject(value) && typeof value.fromPinId === 'string' && typeof value.toPinId === 'string';
+
+// Returns null for anything that isn't a snippet, so pasting arbitrary text is a no-op.
+// The clipboard may hold an edited or foreign snippet, so its nodes and variables are repaired like an AI graph.
+export const parseSnippet = (text: string): GraphSnippet | null => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return null;
+    }
+    if (!isObject(data) || data.format !== SNIPPET_FORMAT || !Array.isArray(data.nodes)) return null;
+    const nodes = repairNodes(data.nodes);
+    if (nodes.length === 0) return null;
+    return {
+        format: SNIPPET_FORMAT,
+        nodes,
+        connections: Array.isArray(data.connections) ? data.connections.filter(isConnection) : [],
+        variables: repairVariables(data.variables),
+    };
+};
+
+/**
+ * Adds a copy of the snippet to the graph with fresh node and pin ids, placing the
+ * top-left corner of the snippet at `position`. Returns the new graph and the pasted node ids.
+ */
+export const pasteSnippet = (graphData: GraphData, snippet: GraphSnippet, position: { x: number; y: number }): { graphData: GraphData; nodeIds: string[] } => {
+    const minX = Math.min(...snippet.nodes.map(node => node.x));
+    const minY = Math.min(...snippet.nodes.map(node => node.y));
+    const pinIdMap = new Map<string, string>();
+
+    // Copied variables map onto the target's variable of the same name, or are added with a new id.
+    const variableIdMap = new Map<string, string>();
+    const variables: GraphVariable[] = [];
+    snippet.variables.forEach(variable => {
+        const existing = graphData.variables.find(v => v.name === variable.name);
+        const id = existing?.id ?? generateId('var');
+        if (variable.id) variableIdMap.set(variable.id, id);
+        if (!existing) variables.push({ ...variable, id });
+    });
+
+    // Ids of variables the snippet doesn't carry belong to another document, so those nodes link by name.
+    const nodes = snippet.nodes.map(({ variableId: copiedVariableId, ...node }) => {
+        const variableId = !isVariableNode(node) ? undefined
+            : (copiedVariableId && variableIdMap.get(copiedVariableId)) || findNodeVariable(node, [...graphData.variables, ...variables])?.id;
+        return {
+            ...node,
+            id: generateId('node'),
+            ...(variableId && { variableId }),
+            x: position.x + node.x - minX,
+            y: position.y + node.y - minY,
+            pins: node.pins.map(pin => {
+                const id = generateId('pin');
+                pinIdMap.set(pin.id, id);
+                return { ...pin, id };
+            }),
+        };
+    });
+    const connections = snippet.connections
+        .filter(c => pinIdMap.has(c.fromPinId) && pinIdMap.has(c.toPinId))
+        .map(c => ({ fromPinId: pinIdMap.get(c.fromPinId)!, toPinId: pinIdMap.get(c.toPinId)! }));
+
+    return {
+        graphData: {
+            ...graphData,
+            nodes: [...graphData.nodes, ...nodes],
+            connections: [...graphData.connections, ...connections],
+            variables: [...graphData.variables, ...variables],
+        },
+        nodeIds: nodes.map(node => node.id),
+    };
+};
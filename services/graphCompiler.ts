@@ -0,0 +1,239 @@
+import type { CustomFunction, EventDispatcher, GraphConnection, GraphData, GraphNode, GraphPin } from './geminiService';
+import { arePinsCompatible } from './graphValidation';
+import { functionScopeGraph, isFunctionEntry } from './functionGraph';
+import { findNodeVariable, isVariableNode, variableNameOf } from './variableReferences';
+import { variableTypes } from './nodeLibrary';
+import { formatPinType, parameterPinType, WILDCARD_TYPE } from './pinTypes';
+import { isReferenceType } from './typeCatalogue';
+import { dispatcherNameOf, eventParameterPins, findDispatcherNode, isDelegatePin, matchesDispatcherSignature } from './eventDispatchers';
+import { findUserEnum, findUserStruct, findUserTypeNode, userTypeNameOf, UserTypes } from './userTypes';
+
+// --- Compiler Messages ---
+
+export interface CompilerMessage {
+    severity: 'error' | 'warning';
+    message: string;
+    nodeIds: string[]; // Nodes to mark in the editor; empty for graph-wide messages
+}
+
+// Inputs of these types fall back to a zero value when left unconnected, as in Unreal. References don't.
+const DEFAULTABLE_TYPES = new Set(variableTypes.filter(type => !isReferenceType(type)));
+
+// The Blueprint's own structs and enums have defaults too.
+const isDefaultable = (dataType: string, userTypes: UserTypes) =>
+    DEFAULTABLE_TYPES.has(dataType) || Boolean(findUserStruct(userTypes, dataType) || findUserEnum(userTypes, dataType));
+
+// 'Target'/'self' inputs default to the Blueprint itself. Container inputs are passed by reference.
+const isRequiredInput = (pin: GraphPin, userTypes: UserTypes) =>
+    pin.type === 'data' && pin.direction === 'in' && (Boolean(pin.containerType) || !isDefaultable(pin.dataType, userTypes))
+    && !['target', 'self'].includes(pin.name.toLowerCase());
+
+const isPure = (node: GraphNode) => !node.pins.some(pin => pin.type === 'exec');
+
+const pinLabel = (pin: GraphPin) => pin.name || (pin.type === 'exec' ? 'Exec' : pin.id);
+
+// Nodes that suspend execution, which Unreal only allows in the Event Graph.
+const LATENT_NODES = new Set(['Delay']);
+
+const describeSignature = (pins: Pick<GraphPin, 'name' | 'dataType' | 'objectClass'>[]) =>
+    pins.length > 0 ? pins.map(pin => `${pin.name}: ${formatPinType(pin)}`).join(', ') : 'nenhum';
+
+const checkFunctionSignature = (node: GraphNode, func: CustomFunction): string | null => {
+    const inputs = node.pins.filter(pin => pin.type === 'data' && pin.direction === 'in');
+    const outputs = node.pins.filter(pin => pin.type === 'data' && pin.direction === 'out');
+    const matches = (pins: GraphPin[], params: CustomFunction['parameters']) =>
+        pins.length === params.length && params.every((param, index) => pins[index].name === param.name && formatPinType(pins[index]) === formatPinType(parameterPinType(param)));
+    if (matches(inputs, func.parameters) && matches(outputs, func.outputs)) return null;
+
+    const expected = `entradas (${describeSignature(func.parameters.map(p => ({ name: p.name, ...parameterPinType(p) })))}) e saídas (${describeSignature(func.outputs.map(p => ({ name: p.name, ...parameterPinType(p) })))})`;
+    const actual = `entradas (${describeSignature(inputs)}) e saídas (${describeSignature(outputs)})`;
+    return `A chamada de '${node.name}' não corresponde à assinatura da função: esperado ${expected}, encontrado ${actual}. Recrie o nó.`;
+};
+
+// Tarjan's algorithm over the data wires between pure nodes; every component with a loop is a cycle.
+const findPureDataCycles = (nodes: GraphNode[], connections: GraphConnection[], pinOwners: Map<string, GraphNode>): GraphNode[][] => {
+    const pureNodes = nodes.filter(isPure);
+    const successors = new Map<string, string[]>(pureNodes.map(node => [node.id, []]));
+    connections.forEach(connection => {
+        const from = pinOwners.get(connection.fromPinId);
+        const to = pinOwners.get(connection.toPinId);
+        if (from && to && successors.has(from.id) && successors.has(to.id)) successors.get(from.id)!.push(to.id);
+    });
+
+    const nodeById = new Map(pureNodes.map(node => [node.id, node]));
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: GraphNode[][] = [];
+    let counter = 0;
+
+    const connect = (id: string) => {
+        index.set(id, counter);
+        lowLink.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+        successors.get(id)!.forEach(next => {
+            if (!index.has(next)) {
+                connect(next);
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+            }
+        });
+        if (lowLink.get(id) !== index.get(id)) return;
+        const component: string[] = [];
+        let member: string;
+        do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+        } while (member !== id);
+        if (component.length > 1 || successors.get(id)!.includes(id)) cycles.push(component.reverse().map(nodeId => nodeById.get(nodeId)!));
+    };
+    pureNodes.forEach(node => { if (!index.has(node.id)) connect(node.id); });
+    return cycles;
+};
+
+/**
+ * Static checks run before C++ generation, like Unreal's Blueprint compiler: nodes that never run,
+ * inputs that need a wire, pure data cycles, references to deleted variables, stale function calls
+ * and events bound to dispatchers with another signature. Errors come first in the returned list.
+ */
+export const compileGraph = (graphData: GraphData, customFunctions: CustomFunction[] = [], eventDispatchers: EventDispatcher[] = [], userTypes: UserTypes = {}): CompilerMessage[] => {
+    const errors: CompilerMessage[] = [];
+    const warnings: CompilerMessage[] = [];
+    const error = (message: string, nodeIds: string[] = []) => errors.push({ severity: 'error', message, nodeIds });
+    const warning = (message: string, nodeIds: string[] = []) => warnings.push({ severity: 'warning', message, nodeIds });
+
+    const pinOwners = new Map<string, GraphNode>();
+    graphData.nodes.forEach(node => node.pins.forEach(pin => pinOwners.set(pin.id, node)));
+    const connectedPins = new Set(graphData.connections.flatMap(c => [c.fromPinId, c.toPinId]));
+
+    graphData.connections.forEach(connection => {
+        const from = pinOwners.get(connection.fromPinId);
+        const to = pinOwners.get(connection.toPinId);
+        if (!from || !to) return;
+        const fromPin = from.pins.find(pin => pin.id === connection.fromPinId)!;
+        const toPin = to.pins.find(pin => pin.id === connection.toPinId)!;
+        if (!arePinsCompatible(fromPin, toPin, from.id, to.id)) {
+            error(`A conexão de '${from.name}.${pinLabel(fromPin)}' (${formatPinType(fromPin)}) para '${to.name}.${pinLabel(toPin)}' (${formatPinType(toPin)}) liga tipos incompatíveis.`, [from.id, to.id]);
+        }
+    });
+
+    // Nodes that run: everything reachable from an event through exec wires.
+    const events = graphData.nodes.filter(node => node.type === 'event');
+    if (events.length === 0) warning('O grafo não possui nenhum evento; nenhum nó será executado.');
+    const executed = new Set(events.map(node => node.id));
+    const execQueue = [...events];
+    while (execQueue.length > 0) {
+        const node = execQueue.shift()!;
+        const outputs = new Set(node.pins.filter(pin => pin.type === 'exec' && pin.direction === 'out').map(pin => pin.id));
+        graphData.connections.filter(c => outputs.has(c.fromPinId)).forEach(c => {
+            const target = pinOwners.get(c.toPinId);
+            if (target && !executed.has(target.id)) {
+                executed.add(target.id);
+                execQueue.push(target);
+            }
+        });
+    }
+
+    // Nodes whose values are needed: data providers of executed nodes, transitively.
+    const used = new Set(executed);
+    const dataQueue = graphData.nodes.filter(node => executed.has(node.id));
+    while (dataQueue.length > 0) {
+        const node = dataQueue.shift()!;
+        const inputs = new Set(node.pins.filter(pin => pin.type === 'data' && pin.direction === 'in').map(pin => pin.id));
+        graphData.connections.filter(c => inputs.has(c.toPinId)).forEach(c => {
+            const source = pinOwners.get(c.fromPinId);
+            if (source && !used.has(source.id)) {
+                used.add(source.id);
+                dataQueue.push(source);
+            }
+        });
+    }
+
+    graphData.nodes.forEach(node => {
+        const execInput = node.pins.find(pin => pin.type === 'exec' && pin.direction === 'in');
+        if (!isPure(node) && !executed.has(node.id)) {
+            if (used.has(node.id)) {
+                error(execInput && !connectedPins.has(execInput.id)
+                    ? `O pino de execução de entrada de '${node.name}' não está conectado, mas seus valores são usados por nós executados.`
+                    : `'${node.name}' fornece valores para nós executados, mas nunca é executado.`, [node.id]);
+            } else if (node.type !== 'event') {
+                warning(`'${node.name}' não é alcançável a partir de nenhum evento e nunca será executado.`, [node.id]);
+            }
+        } else if (isPure(node) && !used.has(node.id) && !node.pins.some(pin => pin.direction === 'out' && connectedPins.has(pin.id))) {
+            warning(`O nó '${node.name}' não está conectado a nada e será ignorado.`, [node.id]);
+        }
+
+        if (used.has(node.id)) {
+            node.pins
+                .filter(pin => isRequiredInput(pin, userTypes) && !connectedPins.has(pin.id))
+                .forEach(pin => error(`O pino '${pinLabel(pin)}' (${formatPinType(pin)}) de '${node.name}' precisa de uma conexão.`, [node.id]));
+            if (node.pins.some(pin => pin.dataType === WILDCARD_TYPE && connectedPins.has(pin.id))) {
+                error(`O tipo dos pinos Wildcard de '${node.name}' não pôde ser determinado; conecte-os a um valor com tipo definido.`, [node.id]);
+            }
+        }
+
+        const variable = isVariableNode(node) ? findNodeVariable(node, graphData.variables) : undefined;
+        if (isVariableNode(node) && !variable) {
+            error(`'${node.name}' referencia a variável '${variableNameOf(node)}', que não existe mais.`, [node.id]);
+        }
+        if (node.type === 'variable_set' && variable?.component) {
+            error(`'${node.name}' altera o componente '${variable.name}', que só pode ser lido.`, [node.id]);
+        }
+
+        const func = node.type === 'function' ? customFunctions.find(f => f.name === node.name) : undefined;
+        const signatureProblem = func && checkFunctionSignature(node, func);
+        if (signatureProblem) error(signatureProblem, [node.id]);
+
+        const dispatcherNode = findDispatcherNode(node, eventDispatchers);
+        if (!dispatcherNode && !func && dispatcherNameOf(node) && node.pins.some(pin => pin.type === 'exec')) {
+            error(`'${node.name}' referencia o event dispatcher '${dispatcherNameOf(node)}', que não existe mais.`, [node.id]);
+        }
+        // Make/Break nodes of built-in structs, such as 'Make Vector', are library nodes.
+        const userTypeName = !func && !variableTypes.includes(userTypeNameOf(node) ?? '') ? userTypeNameOf(node) : undefined;
+        if (userTypeName && !findUserTypeNode(node, userTypes)) {
+            error(`'${node.name}' referencia o tipo '${userTypeName}', que não existe mais.`, [node.id]);
+        }
+        if (dispatcherNode && dispatcherNode.kind !== 'call') {
+            const eventPin = node.pins.find(pin => pin.direction === 'in' && isDelegatePin(pin));
+            const connection = eventPin && graphData.connections.find(c => c.toPinId === eventPin.id);
+            const source = connection && pinOwners.get(connection.fromPinId);
+            const dispatcher = dispatcherNode.dispatcher;
+            if (source?.type === 'event' && !matchesDispatcherSignature(eventParameterPins(source), dispatcher)) {
+                const expected = describeSignature(dispatcher.parameters.map(p => ({ name: p.name, ...parameterPinType(p) })));
+                error(`O evento '${source.name}' não corresponde à assinatura de '${dispatcher.name}': esperado (${expected}), encontrado (${describeSignature(eventParameterPins(source))}).`, [node.id, source.id]);
+            }
+        }
+    });
+
+    findPureDataCycles(graphData.nodes, graphData.connections, pinOwners).forEach(cycle =>
+        error(`Dependência circular entre nós puros: ${cycle.map(node => `'${node.name}'`).join(' → ')}.`, cycle.map(node => node.id)));
+
+    return [...errors, ...warnings];
+};
+
+/**
+ * Compiles the Event Graph and the graph of every custom function, each with the variables in its
+ * scope. Messages about a function graph are prefixed with the function's name.
+ */
+export const compileProject = (graphData: GraphData, customFunctions: CustomFunction[] = [], eventDispatchers: EventDispatcher[] = [], userTypes: UserTypes = {}): CompilerMessage[] => {
+    const messages = compileGraph(graphData, customFunctions, eventDispatchers, userTypes);
+    customFunctions.filter(func => func.graph).forEach(func => {
+        const prefix = (message: string) => `[${func.name}] ${message}`;
+        const scope = functionScopeGraph(func, graphData.variables);
+        const entries = scope.nodes.filter(isFunctionEntry);
+        if (entries.length !== 1) {
+            messages.push({ severity: 'error', message: prefix(entries.length === 0 ? 'A função não possui um nó Function Entry.' : 'A função possui mais de um nó Function Entry.'), nodeIds: entries.map(node => node.id) });
+        }
+        scope.nodes.filter(node => node.type === 'event' && !isFunctionEntry(node)).forEach(node =>
+            messages.push({ severity: 'error', message: prefix(`O evento '${node.name}' só pode ser usado no Event Graph.`), nodeIds: [node.id] }));
+        scope.nodes.filter(node => LATENT_NODES.has(node.name)).forEach(node =>
+            messages.push({ severity: 'error', message: prefix(`O nó latente '${node.name}' não pode ser usado dentro de funções.`), nodeIds: [node.id] }));
+        compileGraph(scope, customFunctions, eventDispatchers, userTypes).forEach(message => messages.push({ ...message, message: prefix(message.message) }));
+    });
+    return [...messages.filter(m => m.severity === 'error'), ...messages.filter(m => m.severity === 'warning')];
+};
@@ -0,0 +1,249 @@
+import type { GraphData, GraphNode } from './geminiService';
+
+// --- Node Geometry ---
+// Shared with BlueprintVisualizer so the layout reserves exactly the space a node is drawn with.
+
+export const NODE_WIDTH = 220;
+export const NODE_HEADER_HEIGHT = 30;
+export const PIN_HEIGHT = 22;
+export const PIN_OFFSET_Y = 10;
+
+export const calculateNodeHeight = (node: GraphNode) => {
+    const inputPins = node.pins.filter(p => p.direction === 'in').length;
+    const outputPins = node.pins.filter(p => p.direction === 'out').length;
+    return NODE_HEADER_HEIGHT + PIN_OFFSET_Y + Math.max(inputPins, outputPins) * PIN_HEIGHT;
+};
+
+// --- Layered Layout ---
+
+const COLUMN_GAP = 80;
+const ROW_GAP = 40;
+const COMPONENT_GAP = 120;
+const ORDERING_SWEEPS = 4;
+
+interface LayoutEdge {
+    from: string;
+    to: string;
+    isExec: boolean;
+    // Row of each pin among the pins on its side of the node, as drawn by the visualizer.
+    fromRow: number;
+    toRow: number;
+}
+
+const isPure = (node: GraphNode) => !node.pins.some(pin => pin.type === 'exec');
+
+const pinRow = (node: GraphNode, pinId: string) => {
+    const pin = node.pins.find(p => p.id === pinId)!;
+    return node.pins.filter(p => p.direction === pin.direction).indexOf(pin);
+};
+
+const collectEdges = (graphData: GraphData, pinOwner: Map<string, GraphNode>): LayoutEdge[] =>
+    graphData.connections.flatMap(connection => {
+        const from = pinOwner.get(connection.fromPinId);
+        const to = pinOwner.get(connection.toPinId);
+        if (!from || !to || from.id === to.id) return [];
+        const isExec = from.pins.find(pin => pin.id === connection.fromPinId)?.type === 'exec';
+        return [{ from: from.id, to: to.id, isExec, fromRow: pinRow(from, connection.fromPinId), toRow: pinRow(to, connection.toPinId) }];
+    });
+
+// Impure nodes follow the exec wires; pure nodes follow the data wires to the nodes they feed.
+const layoutEdgesOf = (node: GraphNode, edges: LayoutEdge[]) =>
+    edges.filter(edge => (edge.from === node.id || edge.to === node.id) && edge.isExec !== isPure(node));
+
+const findComponents = (nodes: GraphNode[], edges: LayoutEdge[]): GraphNode[][] => {
+    const neighbours = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+    edges.forEach(edge => {
+        neighbours.get(edge.from)!.push(edge.to);
+        neighbours.get(edge.to)!.push(edge.from);
+    });
+    const nodeById = new Map(nodes.map(node => [node.id, node]));
+    const visited = new Set<string>();
+    const components: GraphNode[][] = [];
+    nodes.forEach(start => {
+        if (visited.has(start.id)) return;
+        const component: GraphNode[] = [];
+        const stack = [start.id];
+        visited.add(start.id);
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            component.push(nodeById.get(id)!);
+            neighbours.get(id)!.forEach(next => {
+                if (!visited.has(next)) {
+                    visited.add(next);
+                    stack.push(next);
+                }
+            });
+        }
+        components.push(component);
+    });
+    // Components with events come first, keeping the original top-to-bottom order otherwise.
+    return components.sort((a, b) =>
+        Number(!a.some(n => n.type === 'event')) - Number(!b.some(n => n.type === 'event'))
+        || Math.min(...a.map(n => n.y)) - Math.min(...b.map(n => n.y)));
+};
+
+/**
+ * Assigns columns: impure nodes by longest exec path from their entry points (back edges
+ * of loops are ignored), pure nodes one column to the left of their earliest consumer.
+ */
+const assignLayers = (nodes: GraphNode[], edges: LayoutEdge[]): Map<string, number> => {
+    const layers = new Map<string, number>();
+    const execSuccessors = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+    const execIncoming = new Set<string>();
+    edges.filter(edge => edge.isExec).forEach(edge => {
+        execSuccessors.get(edge.from)!.push(edge.to);
+        execIncoming.add(edge.to);
+    });
+
+    const impure = nodes.filter(node => !isPure(node));
+    const roots = [
+        ...impure.filter(node => node.type === 'event' && !execIncoming.has(node.id)),
+        ...impure.filter(node => node.type !== 'event' && !execIncoming.has(node.id)),
+        ...impure, // Nodes only reachable through a cycle
+    ];
+
+    // Depth-first order so back edges can be told apart; the finishing order reversed is a topological order.
+    const state = new Map<string, 'active' | 'done'>();
+    const backEdges = new Set<string>();
+    const finished: string[] = [];
+    const visit = (id: string) => {
+        state.set(id, 'active');
+        execSuccessors.get(id)!.forEach(next => {
+            if (state.get(next) === 'active') backEdges.add(`${id}>${next}`);
+            else if (!state.has(next)) visit(next);
+        });
+        state.set(id, 'done');
+        finished.push(id);
+    };
+    roots.forEach(node => { if (!state.has(node.id)) visit(node.id); });
+
+    finished.reverse().forEach(id => {
+        if (!layers.has(id)) layers.set(id, 0);
+        execSuccessors.get(id)!.forEach(next => {
+            if (backEdges.has(`${id}>${next}`)) return;
+            layers.set(next, Math.max(layers.get(next) ?? 0, layers.get(id)! + 1));
+        });
+    });
+
+    const consumers = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+    edges.filter(edge => !edge.isExec).forEach(edge => consumers.get(edge.from)!.push(edge.to));
+    const pureLayer = (id: string, seen: Set<string>): number => {
+        if (layers.has(id)) return layers.get(id)!;
+        if (seen.has(id)) return 0;
+        seen.add(id);
+        const consumerLayers = consumers.get(id)!.map(consumer => pureLayer(consumer, seen));
+        const layer = consumerLayers.length > 0 ? Math.min(...consumerLayers) - 1 : 0;
+        layers.set(id, layer);
+        return layer;
+    };
+    nodes.filter(isPure).forEach(node => pureLayer(node.id, new Set()));
+
+    const minLayer = Math.min(...layers.values());
+    layers.forEach((layer, id) => layers.set(id, layer - minLayer));
+    return layers;
+};
+
+// Orders each column to reduce crossings with the barycenter heuristic, sweeping right then left.
+// Pure nodes go below the exec nodes sharing their column, as in hand-made Blueprints.
+const orderLayers = (nodes: GraphNode[], edges: LayoutEdge[], layers: Map<string, number>): string[][] => {
+    const nodeById = new Map(nodes.map(node => [node.id, node]));
+    const columns: string[][] = [];
+    [...nodes].sort((a, b) => a.y - b.y).forEach(node => {
+        const layer = layers.get(node.id)!;
+        (columns[layer] ??= []).push(node.id);
+    });
+    for (let i = 0; i < columns.length; i++) columns[i] ??= [];
+
+    const position = new Map<string, number>();
+    const updatePositions = () => columns.forEach(column => column.forEach((id, index) => position.set(id, index)));
+    updatePositions();
+
+    for (let sweep = 0; sweep < ORDERING_SWEEPS; sweep++) {
+        const forward = sweep % 2 === 0;
+        const indices = columns.map((_, index) => index);
+        if (!forward) indices.reverse();
+        indices.forEach(layerIndex => {
+            const barycenter = new Map(columns[layerIndex].map(id => {
+                // Pin rows break ties, so a Branch's True target stays above its False target.
+                const references = layoutEdgesOf(nodeById.get(id)!, edges).flatMap(edge => {
+                    const other = edge.from === id ? edge.to : edge.from;
+                    const isReference = forward ? layers.get(other)! < layerIndex : layers.get(other)! > layerIndex;
+                    return isReference ? [position.get(other)! + (edge.from === id ? edge.toRow : edge.fromRow) * 0.01] : [];
+                });
+                return [id, references.length > 0 ? references.reduce((sum, value) => sum + value, 0) / references.length : position.get(id)!] as const;
+            }));
+            columns[layerIndex].sort((a, b) =>
+                Number(isPure(nodeById.get(a)!)) - Number(isPure(nodeById.get(b)!)) || barycenter.get(a)! - barycenter.get(b)!);
+            updatePositions();
+        });
+    }
+    return columns;
+};
+
+// Lines nodes up with the pins they connect to where possible, then pushes overlapping nodes down.
+const assignCoordinates = (nodes: GraphNode[], edges: LayoutEdge[], layers: Map<string, number>, columns: string[][]): Map<string, { x: number; y: number }> => {
+    const nodeById = new Map(nodes.map(node => [node.id, node]));
+    const coordinates = new Map<string, { x: number; y: number }>();
+
+    // The top of `id` that would make each wire to a neighbour on the given side horizontal.
+    const alignedTops = (id: string, side: 'left' | 'right') => layoutEdgesOf(nodeById.get(id)!, edges).flatMap(edge => {
+        const other = edge.from === id ? edge.to : edge.from;
+        const isOnSide = side === 'left' ? layers.get(other)! < layers.get(id)! : layers.get(other)! > layers.get(id)!;
+        if (!isOnSide || !coordinates.has(other)) return [];
+        const [ownRow, otherRow] = edge.from === id ? [edge.fromRow, edge.toRow] : [edge.toRow, edge.fromRow];
+        return [coordinates.get(other)!.y + (otherRow - ownRow) * PIN_HEIGHT];
+    });
+    const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+    const placeColumn = (layer: number, desiredTop: (id: string) => number | null) => {
+        let nextFreeY = 0;
+        columns[layer].forEach(id => {
+            const wanted = desiredTop(id);
+            const y = Math.max(nextFreeY, wanted ?? nextFreeY);
+            coordinates.set(id, { x: layer * (NODE_WIDTH + COLUMN_GAP), y });
+            nextFreeY = y + calculateNodeHeight(nodeById.get(id)!) + ROW_GAP;
+        });
+    };
+
+    columns.forEach((_, layer) => placeColumn(layer, id => isPure(nodeById.get(id)!) ? null : average(alignedTops(id, 'left'))));
+    // Data providers are placed once the nodes they feed are settled, right to left.
+    for (let layer = columns.length - 1; layer >= 0; layer--) {
+        const current = new Map(columns[layer].map(id => [id, coordinates.get(id)!.y]));
+        placeColumn(layer, id => isPure(nodeById.get(id)!) ? average(alignedTops(id, 'right')) : current.get(id)!);
+    }
+    return coordinates;
+};
+
+/**
+ * Lays the graph out left to right along the exec flow (layered/Sugiyama style), with pure
+ * data nodes next to the pins they feed. Disconnected parts are stacked vertically.
+ */
+export const autoLayoutGraph = (graphData: GraphData): GraphData => {
+    if (graphData.nodes.length === 0) return graphData;
+    const pinOwner = new Map<string, GraphNode>();
+    graphData.nodes.forEach(node => node.pins.forEach(pin => pinOwner.set(pin.id, node)));
+    const edges = collectEdges(graphData, pinOwner);
+
+    const positions = new Map<string, { x: number; y: number }>();
+    let offsetY = 0;
+    findComponents(graphData.nodes, edges).forEach(component => {
+        const ids = new Set(component.map(node => node.id));
+        const componentEdges = edges.filter(edge => ids.has(edge.from));
+        const layers = assignLayers(component, componentEdges);
+        const columns = orderLayers(component, componentEdges, layers);
+        const coordinates = assignCoordinates(component, componentEdges, layers, columns);
+
+        const top = Math.min(...component.map(node => coordinates.get(node.id)!.y));
+        const bottom = Math.max(...component.map(node => coordinates.get(node.id)!.y + calculateNodeHeight(node)));
+        component.forEach(node => {
+            const { x, y } = coordinates.get(node.id)!;
+            positions.set(node.id, { x, y: y - top + offsetY });
+        });
+        offsetY += bottom - top + COMPONENT_GAP;
+    });
+
+    return {
+        ...graphData,
+        nodes: graphData.nodes.map(node => ({ ...node, ...positions.get(node.id)! })),
+    };
+};
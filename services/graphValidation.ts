@@ -0,0 +1,481 @@
+import type { BlueprintGraph, BlueprintResponse, FunctionGraph, GraphConnection, GraphData, GraphNode, GraphPin, GraphVariable } from './geminiService';
+import { arePinTypesCompatible, containerTypes, formatPinType } from './pinTypes';
+import { isReferenceType, toClassName } from './typeCatalogue';
+
+// --- Validation Report ---
+
+export interface ValidationIssue {
+    severity: 'fixed' | 'rejected';
+    message: string;
+}
+
+export interface GraphValidationReport {
+    graphName: string;
+    issues: ValidationIssue[];
+}
+
+// --- Allowed Literals ---
+
+export const NODE_TYPES: GraphNode['type'][] = ['event', 'function', 'flow_control', 'variable_get', 'variable_set', 'literal'];
+
+const NODE_TYPE_ALIASES: { [key: string]: GraphNode['type'] } = {
+    'custom_event': 'event',
+    'input_event': 'event',
+    'function_call': 'function',
+    'call': 'function',
+    'pure_function': 'function',
+    'macro': 'flow_control',
+    'branch': 'flow_control',
+    'sequence': 'flow_control',
+    'loop': 'flow_control',
+    'get': 'variable_get',
+    'getter': 'variable_get',
+    'variable': 'variable_get',
+    'set': 'variable_set',
+    'setter': 'variable_set',
+    'constant': 'literal',
+    'value': 'literal',
+};
+
+// Maps lower-cased C++/Blueprint spellings to the data type names used by the editor.
+const DATA_TYPE_ALIASES: { [key: string]: string } = {
+    'exec': 'Exec',
+    'execution': 'Exec',
+    'bool': 'Boolean',
+    'boolean': 'Boolean',
+    'byte': 'Byte',
+    'uint8': 'Byte',
+    'int': 'Integer',
+    'int32': 'Integer',
+    'integer': 'Integer',
+    'int64': 'Integer64',
+    'integer64': 'Integer64',
+    'float': 'Float',
+    'real': 'Float',
+    'double': 'Double',
+    'string': 'String',
+    'fstring': 'String',
+    'std::string': 'String',
+    'text': 'Text',
+    'ftext': 'Text',
+    'name': 'Name',
+    'fname': 'Name',
+    'vector': 'Vector',
+    'fvector': 'Vector',
+    'vector2d': 'Vector2D',
+    'fvector2d': 'Vector2D',
+    'rotator': 'Rotator',
+    'frotator': 'Rotator',
+    'transform': 'Transform',
+    'ftransform': 'Transform',
+    'linearcolor': 'LinearColor',
+    'flinearcolor': 'LinearColor',
+    'hitresult': 'HitResult',
+    'fhitresult': 'HitResult',
+    'object': 'Object',
+    'class': 'Class',
+    'softobject': 'SoftObject',
+    'softclass': 'SoftClass',
+    'actor': 'Object',
+};
+
+// C++ pointers such as AActor* or UStaticMeshComponent* are object references to that class.
+const POINTER_TYPE_PATTERN = /^([AU][A-Z]\w*)\s*\*$/;
+
+export const normalizeDataType = (dataType: string): string =>
+    DATA_TYPE_ALIASES[dataType.trim().toLowerCase()] ?? (POINTER_TYPE_PATTERN.test(dataType.trim()) ? 'Object' : dataType.trim());
+
+// The class of a reference: an explicit `objectClass`, else the class a pointer spelling names.
+const repairObjectClass = (dataType: string, rawDataType: string, rawObjectClass: unknown): string | undefined => {
+    if (!isReferenceType(dataType)) return undefined;
+    if (typeof rawObjectClass === 'string' && rawObjectClass.trim()) return toClassName(rawObjectClass);
+    const pointer = rawDataType.trim().match(POINTER_TYPE_PATTERN);
+    if (pointer) return toClassName(pointer[1]);
+    return rawDataType.trim().toLowerCase() === 'actor' ? 'Actor' : undefined;
+};
+
+const generateRepairId = (prefix: string) => `${prefix}-${Math.random().toString(36).substring(2, 11)}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Connection Rules ---
+
+export const arePinsCompatible = (
+  fromPin: GraphPin,
+  toPin: GraphPin,
+  fromNodeId: string,
+  toNodeId: string
+): boolean => {
+  // Connection must be from an output pin to an input pin.
+  if (fromPin.direction !== 'out' || toPin.direction !== 'in') return false;
+  // Can't connect to a pin on the same node.
+  if (fromNodeId === toNodeId) return false;
+  // Pin types must match (e.g., exec to exec, data to data).
+  if (fromPin.type !== toPin.type) return false;
+  // If they are data pins, their container kinds and data types must also match.
+  if (fromPin.type === 'data' && !arePinTypesCompatible(fromPin, toPin)) return false;
+  
+  return true;
+};
+
+// --- Repair ---
+
+interface PinIdContext {
+    previousGraphPinIds: Set<string>; // Ids already taken by earlier graphs of the same response
+    localPinIds: Set<string>;
+    pinIdRemap: Map<string, string>; // Original id -> new id, for ids that collided with an earlier graph
+}
+
+const repairPin = (raw: unknown, nodeName: string, ids: PinIdContext, issues: ValidationIssue[]): GraphPin | null => {
+    if (!isObject(raw)) {
+        issues.push({ severity: 'rejected', message: `Pino inválido removido do nó '${nodeName}'.` });
+        return null;
+    }
+    const label = `'${raw.name || raw.id}' do nó '${nodeName}'`;
+
+    const rawId = typeof raw.id === 'string' ? raw.id : '';
+    let id = rawId;
+    if (!id) {
+        id = generateRepairId('pin');
+        issues.push({ severity: 'fixed', message: `Pino ${label} sem ID recebeu um novo ID.` });
+    } else if (ids.localPinIds.has(id)) {
+        // Connections within this graph keep pointing at the pin that used the id first.
+        id = generateRepairId('pin');
+        issues.push({ severity: 'fixed', message: `ID de pino duplicado '${rawId}' no pino ${label} foi renomeado.` });
+    } else if (ids.previousGraphPinIds.has(id)) {
+        id = generateRepairId('pin');
+        ids.pinIdRemap.set(rawId, id);
+        issues.push({ severity: 'fixed', message: `ID de pino '${rawId}' já usado em outro grafo; o pino ${label} foi renomeado.` });
+    }
+    ids.localPinIds.add(id);
+    if (rawId) ids.localPinIds.add(rawId);
+
+    let dataType = typeof raw.dataType === 'string' && raw.dataType.trim() ? raw.dataType : '';
+    let type = typeof raw.type === 'string' ? raw.type.toLowerCase() : '';
+    if (type !== 'exec' && type !== 'data') {
+        const inferred = normalizeDataType(dataType || '') === 'Exec' ? 'exec' : 'data';
+        issues.push({ severity: 'fixed', message: `Tipo de pino inválido '${raw.type}' no pino ${label} foi alterado para '${inferred}'.` });
+        type = inferred;
+    }
+
+    let direction = typeof raw.direction === 'string' ? raw.direction.toLowerCase() : '';
+    if (direction === 'input') direction = 'in';
+    if (direction === 'output') direction = 'out';
+    if (direction !== 'in' && direction !== 'out') {
+        issues.push({ severity: 'rejected', message: `Pino ${label} removido: direção inválida '${raw.direction}'.` });
+        return null;
+    }
+    if (direction !== raw.direction) {
+        issues.push({ severity: 'fixed', message: `Direção '${raw.direction}' do pino ${label} normalizada para '${direction}'.` });
+    }
+
+    const rawDataType = dataType;
+    if (type === 'exec') {
+        if (dataType !== 'Exec') {
+            if (dataType) issues.push({ severity: 'fixed', message: `Tipo de dado '${dataType}' do pino de execução ${label} alterado para 'Exec'.` });
+            dataType = 'Exec';
+        }
+    } else {
+        const normalized = dataType ? normalizeDataType(dataType) : 'Object';
+        if (normalized === 'Exec') {
+            issues.push({ severity: 'fixed', message: `Pino de dados ${label} com tipo 'Exec' foi convertido em pino de execução.` });
+            type = 'exec';
+        } else if (normalized !== dataType) {
+            issues.push({ severity: 'fixed', message: `Tipo de dado '${dataType || '(vazio)'}' do pino ${label} normalizado para '${normalized}'.` });
+        }
+        dataType = normalized;
+    }
+
+    const objectClass = type === 'data' ? repairObjectClass(dataType, rawDataType, raw.objectClass) : undefined;
+    const containerType = type === 'data' ? containerTypes.find(kind => kind === raw.containerType) : undefined;
+    if (raw.containerType !== undefined && !containerType) {
+        issues.push({ severity: 'fixed', message: `Contêiner inválido '${raw.containerType}' do pino ${label} removido.` });
+    }
+
+    return {
+        id,
+        name: typeof raw.name === 'string' ? raw.name : '',
+        type: type as GraphPin['type'],
+        direction: direction as GraphPin['direction'],
+        dataType,
+        ...(objectClass && { objectClass }),
+        ...(containerType && { containerType }),
+        ...(containerType === 'Map' && { valueType: typeof raw.valueType === 'string' && raw.valueType.trim() ? normalizeDataType(raw.valueType) : dataType }),
+    };
+};
+
+const repairNode = (raw: unknown, index: number, seenNodeIds: Set<string>, ids: PinIdContext, issues: ValidationIssue[]): GraphNode | null => {
+    if (!isObject(raw)) {
+        issues.push({ severity: 'rejected', message: `Nó #${index + 1} removido: não é um objeto.` });
+        return null;
+    }
+    const name = typeof raw.name === 'string' && raw.name ? raw.name : `Node ${index + 1}`;
+
+    let id = typeof raw.id === 'string' && raw.id ? raw.id : '';
+    if (!id || seenNodeIds.has(id)) {
+        const newId = generateRepairId('node');
+        issues.push({ severity: 'fixed', message: id ? `ID de nó duplicado '${id}' no nó '${name}' foi renomeado.` : `Nó '${name}' sem ID recebeu um novo ID.` });
+        id = newId;
+    }
+    seenNodeIds.add(id);
+
+    let type = typeof raw.type === 'string' ? raw.type.toLowerCase() : '';
+    if (!NODE_TYPES.includes(type as GraphNode['type'])) {
+        const mapped = NODE_TYPE_ALIASES[type] ?? 'function';
+        issues.push({ severity: 'fixed', message: `Tipo de nó desconhecido '${raw.type}' no nó '${name}' alterado para '${mapped}'.` });
+        type = mapped;
+    }
+
+    const coordinate = (value: unknown, axis: string) => {
+        const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+        if (Number.isFinite(parsed)) return parsed;
+        issues.push({ severity: 'fixed', message: `Coordenada ${axis} inválida no nó '${name}' substituída por 0.` });
+        return 0;
+    };
+
+    let rawPins: unknown[] = [];
+    if (Array.isArray(raw.pins)) {
+        rawPins = raw.pins;
+    } else {
+        issues.push({ severity: 'fixed', message: `Nó '${name}' não tinha uma lista de pinos; uma lista vazia foi criada.` });
+    }
+    const pins = rawPins
+        .map(pin => repairPin(pin, name, ids, issues))
+        .filter((pin): pin is GraphPin => pin !== null);
+
+    const node: GraphNode = {
+        id,
+        name,
+        type: type as GraphNode['type'],
+        x: coordinate(raw.x, 'x'),
+        y: coordinate(raw.y, 'y'),
+        pins,
+    };
+    if (isObject(raw.properties)) {
+        node.properties = raw.properties.value !== undefined ? { value: String(raw.properties.value) } : {};
+    }
+    if (typeof raw.codeSnippet === 'string') node.codeSnippet = raw.codeSnippet;
+    if (typeof raw.variableId === 'string' && raw.variableId && (type === 'variable_get' || type === 'variable_set')) node.variableId = raw.variableId;
+    return node;
+};
+
+/** Repairs nodes that come without a graph, such as pasted ones; nodes that can't be repaired are dropped. */
+export const repairNodes = (rawNodes: unknown[], issues: ValidationIssue[] = []): GraphNode[] => {
+    const seenNodeIds = new Set<string>();
+    const ids: PinIdContext = { previousGraphPinIds: new Set(), localPinIds: new Set(), pinIdRemap: new Map() };
+    return rawNodes
+        .map((node, index) => repairNode(node, index, seenNodeIds, ids, issues))
+        .filter((node): node is GraphNode => node !== null);
+};
+
+const repairConnections = (rawConnections: unknown, pins: Map<string, { pin: GraphPin; nodeId: string }>, pinIdRemap: Map<string, string>, issues: ValidationIssue[]): GraphConnection[] => {
+    if (!Array.isArray(rawConnections)) {
+        issues.push({ severity: 'fixed', message: `A lista de conexões estava ausente; uma lista vazia foi criada.` });
+        return [];
+    }
+
+    const connections: GraphConnection[] = [];
+    const seen = new Set<string>();
+    const connectedDataInputs = new Set<string>();
+
+    rawConnections.forEach(raw => {
+        if (!isObject(raw) || typeof raw.fromPinId !== 'string' || typeof raw.toPinId !== 'string') {
+            issues.push({ severity: 'rejected', message: `Conexão malformada removida.` });
+            return;
+        }
+        let fromPinId = pinIdRemap.get(raw.fromPinId) ?? raw.fromPinId;
+        let toPinId = pinIdRemap.get(raw.toPinId) ?? raw.toPinId;
+        let from = pins.get(fromPinId);
+        let to = pins.get(toPinId);
+
+        if (!from || !to) {
+            const missing = [!from && raw.fromPinId, !to && raw.toPinId].filter(Boolean).join("', '");
+            issues.push({ severity: 'rejected', message: `Conexão órfã removida: pino '${missing}' não existe.` });
+            return;
+        }
+        if (from.pin.direction === 'in' && to.pin.direction === 'out') {
+            [fromPinId, toPinId] = [toPinId, fromPinId];
+            [from, to] = [to, from];
+            issues.push({ severity: 'fixed', message: `Conexão invertida entre '${from.pin.name || from.pin.id}' e '${to.pin.name || to.pin.id}' foi corrigida.` });
+        }
+        if (from.pin.direction !== 'out' || to.pin.direction !== 'in') {
+            issues.push({ severity: 'rejected', message: `Conexão entre '${fromPinId}' e '${toPinId}' removida: deve ligar uma saída a uma entrada.` });
+            return;
+        }
+        if (from.nodeId === to.nodeId) {
+            issues.push({ severity: 'rejected', message: `Conexão entre pinos do mesmo nó removida ('${fromPinId}' → '${toPinId}').` });
+            return;
+        }
+        if (from.pin.type !== to.pin.type) {
+            issues.push({ severity: 'rejected', message: `Conexão entre '${fromPinId}' e '${toPinId}' removida: não é possível ligar pinos de execução e de dados.` });
+            return;
+        }
+
+        const key = `${fromPinId}->${toPinId}`;
+        if (seen.has(key)) {
+            issues.push({ severity: 'fixed', message: `Conexão duplicada '${fromPinId}' → '${toPinId}' removida.` });
+            return;
+        }
+        // A data input can only be driven by a single output.
+        if (to.pin.type === 'data' && connectedDataInputs.has(toPinId)) {
+            issues.push({ severity: 'rejected', message: `Conexão extra para a entrada de dados '${to.pin.name || toPinId}' removida: apenas uma é permitida.` });
+            return;
+        }
+        seen.add(key);
+        if (to.pin.type === 'data') connectedDataInputs.add(toPinId);
+        connections.push({ fromPinId, toPinId });
+    });
+
+    return connections;
+};
+
+export const repairVariables = (rawVariables: unknown, issues: ValidationIssue[] = []): GraphVariable[] => {
+    if (!Array.isArray(rawVariables)) {
+        if (rawVariables !== undefined) issues.push({ severity: 'fixed', message: `A lista de variáveis era inválida e foi substituída por uma lista vazia.` });
+        return [];
+    }
+    const names = new Set<string>();
+    return rawVariables.flatMap(raw => {
+        if (!isObject(raw) || typeof raw.name !== 'string' || !raw.name.trim()) {
+            issues.push({ severity: 'rejected', message: `Variável sem nome removida.` });
+            return [];
+        }
+        if (names.has(raw.name)) {
+            issues.push({ severity: 'fixed', message: `Variável duplicada '${raw.name}' removida.` });
+            return [];
+        }
+        names.add(raw.name);
+        const rawType = typeof raw.type === 'string' && raw.type.trim() ? raw.type : 'Object';
+        const type = normalizeDataType(rawType);
+        if (type !== raw.type) {
+            issues.push({ severity: 'fixed', message: `Tipo '${raw.type ?? '(vazio)'}' da variável '${raw.name}' normalizado para '${type}'.` });
+        }
+        const { containerType: rawContainerType, valueType, objectClass: rawObjectClass, ...details } = raw;
+        const objectClass = repairObjectClass(type, rawType, rawObjectClass);
+        const containerType = containerTypes.find(kind => kind === rawContainerType);
+        if (rawContainerType !== undefined && !containerType) {
+            issues.push({ severity: 'fixed', message: `Contêiner inválido '${rawContainerType}' da variável '${raw.name}' removido.` });
+        }
+        return [{
+            ...details,
+            name: raw.name,
+            type,
+            ...(objectClass && { objectClass }),
+            ...(containerType && { containerType }),
+            ...(containerType === 'Map' && { valueType: typeof valueType === 'string' && valueType.trim() ? normalizeDataType(valueType) : type }),
+        } as GraphVariable];
+    });
+};
+
+/**
+ * Repairs the nodes and connections of one graph. Graphs sharing `seenPinIds` keep their pin ids unique
+ * between them, like the graphs of one response or of one project.
+ */
+export const repairGraphElements = (rawData: Record<string, unknown>, seenPinIds: Set<string>, issues: ValidationIssue[] = []): FunctionGraph => {
+    const seenNodeIds = new Set<string>();
+    const ids: PinIdContext = { previousGraphPinIds: seenPinIds, localPinIds: new Set(), pinIdRemap: new Map() };
+    const nodes = (Array.isArray(rawData.nodes) ? rawData.nodes : [])
+        .map((node: unknown, index: number) => repairNode(node, index, seenNodeIds, ids, issues))
+        .filter((node: GraphNode | null): node is GraphNode => node !== null);
+
+    const pins = new Map<string, { pin: GraphPin; nodeId: string }>();
+    nodes.forEach(node => node.pins.forEach(pin => {
+        pins.set(pin.id, { pin, nodeId: node.id });
+        seenPinIds.add(pin.id);
+    }));
+    return { nodes, connections: repairConnections(rawData.connections, pins, ids.pinIdRemap, issues) };
+};
+
+/**
+ * Checks a single graph against the GraphData model and repairs what it can.
+ * `seenPinIds` is shared between graphs of the same response so pin ids stay globally unique.
+ */
+export const validateAndRepairGraph = (graph: BlueprintGraph, seenPinIds: Set<string> = new Set()): { graph: BlueprintGraph; report: GraphValidationReport } => {
+    const issues: ValidationIssue[] = [];
+    const graphName = typeof graph?.name === 'string' && graph.name ? graph.name : 'Grafo sem nome';
+    const rawData: unknown = graph?.graphData;
+
+    if (!isObject(rawData)) {
+        issues.push({ severity: 'rejected', message: `O grafo não continha 'graphData' válido.` });
+        return {
+            graph: { name: graphName, description: graph?.description ?? '', graphData: { nodes: [], connections: [], variables: [] } },
+            report: { graphName, issues },
+        };
+    }
+
+    if (!Array.isArray(rawData.nodes)) {
+        issues.push({ severity: 'rejected', message: `O grafo não continha uma lista de nós.` });
+    }
+
+    const graphData: GraphData = {
+        ...rawData,
+        ...repairGraphElements(rawData, seenPinIds, issues),
+        variables: repairVariables(rawData.variables, issues),
+    };
+
+    return {
+        graph: { name: graphName, description: typeof graph.description === 'string' ? graph.description : '', graphData },
+        report: { graphName, issues },
+    };
+};
+
+export const validateBlueprintResponse = (response: BlueprintResponse): BlueprintResponse => {
+    const seenPinIds = new Set<string>();
+    const graphs = Array.isArray(response?.blueprintGraphs) ? response.blueprintGraphs : [];
+    return {
+        guide: typeof response?.guide === 'string' ? response.guide : '',
+        blueprintGraphs: graphs.map(rawGraph => {
+            const { graph, report } = validateAndRepairGraph(rawGraph, seenPinIds);
+            return { ...graph, validationReport: report };
+        }),
+    };
+};
+
+// --- Structural Checks ---
+
+/**
+ * Finds problems that can't be repaired locally and must be fixed by whoever produced the graph:
+ * a missing entry event, exec chains that aren't reachable from an event and type-mismatched wires.
+ */
+export const findGraphProblems = (graphData: GraphData): string[] => {
+    const problems: string[] = [];
+    const pinOwners = new Map<string, { pin: GraphPin; node: GraphNode }>();
+    graphData.nodes.forEach(node => node.pins.forEach(pin => pinOwners.set(pin.id, { pin, node })));
+
+    const eventNodes = graphData.nodes.filter(node => node.type === 'event');
+    if (eventNodes.length === 0) {
+        problems.push(`O grafo não possui um nó de evento de entrada (type 'event').`);
+    }
+
+    graphData.connections.forEach(connection => {
+        const from = pinOwners.get(connection.fromPinId);
+        const to = pinOwners.get(connection.toPinId);
+        if (!from || !to) return;
+        if (!arePinsCompatible(from.pin, to.pin, from.node.id, to.node.id)) {
+            problems.push(`A conexão de '${from.node.name}.${from.pin.name || from.pin.id}' (${formatPinType(from.pin)}) para '${to.node.name}.${to.pin.name || to.pin.id}' (${formatPinType(to.pin)}) liga tipos incompatíveis.`);
+        }
+    });
+
+    // Walk exec wires from every event to find the nodes that actually run.
+    const reachable = new Set<string>(eventNodes.map(node => node.id));
+    const queue = [...eventNodes];
+    while (queue.length > 0) {
+        const node = queue.shift()!;
+        node.pins
+            .filter(pin => pin.type === 'exec' && pin.direction === 'out')
+            .forEach(pin => graphData.connections
+                .filter(connection => connection.fromPinId === pin.id)
+                .forEach(connection => {
+                    const target = pinOwners.get(connection.toPinId)?.node;
+                    if (target && !reachable.has(target.id)) {
+                        reachable.add(target.id);
+                        queue.push(target);
+                    }
+                }));
+    }
+    graphData.nodes
+        .filter(node => node.pins.some(pin => pin.type === 'exec' && pin.direction === 'in') && !reachable.has(node.id))
+        .forEach(node => problems.push(`O nó '${node.name}' (${node.id}) não está conectado a nenhuma cadeia de execução iniciada por um evento.`));
+
+    return problems;
+};
@@ -0,0 +1,257 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import type { BlueprintResponse, CppCodeResponse } from "./geminiService";
+
+// --- Provider Types ---
+
+export type LlmProviderKind = 'gemini' | 'openai-compatible' | 'mock';
+
+// Identifies which conversion a request belongs to, so providers that don't
+// call a real model (the mock) can answer with the right shape.
+export type LlmTask = 'blueprintGuide' | 'cppCode';
+
+export interface LlmProviderConfig {
+    kind: LlmProviderKind;
+    model: string;
+    baseUrl?: string; // Only used by 'openai-compatible', e.g. 'http://localhost:11434/v1'
+    apiKey?: string;
+}
+
+export interface LlmMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface LlmJsonRequest {
+    task: LlmTask;
+    prompt: string;
+    responseSchema: Schema; // In the @google/genai `Type` format
+    history?: LlmMessage[]; // Earlier turns of the conversation, oldest first
+}
+
+export interface LlmProvider {
+    readonly label: string;
+    // Resolves with the raw JSON text produced by the model.
+    generateJson: (request: LlmJsonRequest) => Promise<string>;
+}
+
+export const PROVIDER_LABELS: Record<LlmProviderKind, string> = {
+    'gemini': 'Google Gemini',
+    'openai-compatible': 'Compatível com OpenAI (llama.cpp, Ollama...)',
+    'mock': 'Simulado (offline)',
+};
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<LlmProviderKind, LlmProviderConfig> = {
+    'gemini': { kind: 'gemini', model: 'gemini-2.5-pro' },
+    'openai-compatible': { kind: 'openai-compatible', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' },
+    'mock': { kind: 'mock', model: 'mock' },
+};
+
+// --- Gemini ---
+
+const createGeminiProvider = (config: LlmProviderConfig): LlmProvider => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey || process.env.API_KEY });
+    return {
+        label: PROVIDER_LABELS.gemini,
+        generateJson: async ({ prompt, responseSchema, history = [] }) => {
+            const response = await ai.models.generateContent({
+                model: config.model,
+                contents: [
+                    ...history.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+                    { role: 'user', parts: [{ text: prompt }] },
+                ],
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema,
+                },
+            });
+            return response.text ?? '';
+        },
+    };
+};
+
+// --- OpenAI-compatible HTTP endpoint ---
+
+// Converts a @google/genai schema (upper-case `Type` values) into standard JSON Schema.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+    Object.entries(schema).forEach(([key, value]) => {
+        if (key === 'type' && typeof value === 'string') {
+            result.type = value.toLowerCase();
+        } else if (key === 'properties' && schema.properties) {
+            result.properties = Object.fromEntries(
+                Object.entries(schema.properties).map(([name, prop]) => [name, toJsonSchema(prop)])
+            );
+        } else if (key === 'items' && schema.items) {
+            result.items = toJsonSchema(schema.items);
+        } else if (key === 'anyOf' && schema.anyOf) {
+            result.anyOf = schema.anyOf.map(toJsonSchema);
+        } else {
+            result[key] = value;
+        }
+    });
+    return result;
+};
+
+const createOpenAiCompatibleProvider = (config: LlmProviderConfig): LlmProvider => {
+    const baseUrl = (config.baseUrl || DEFAULT_PROVIDER_CONFIGS['openai-compatible'].baseUrl!).replace(/\/+$/, '');
+    return {
+        label: PROVIDER_LABELS['openai-compatible'],
+        generateJson: async ({ task, prompt, responseSchema, history = [] }) => {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    model: config.model,
+                    temperature: 0.2,
+                    messages: [
+                        { role: 'system', content: 'Responda apenas com um único objeto JSON válido que siga o schema fornecido, sem texto adicional.' },
+                        ...history.map(message => ({ role: message.role === 'model' ? 'assistant' : 'user', content: message.text })),
+                        { role: 'user', content: prompt },
+                    ],
+                    response_format: {
+                        type: 'json_schema',
+                        json_schema: { name: task, schema: toJsonSchema(responseSchema) },
+                    },
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error(`O servidor respondeu com ${response.status}: ${await response.text()}`);
+            }
+            const data = await response.json();
+            return data?.choices?.[0]?.message?.content ?? '';
+        },
+    };
+};
+
+// --- Deterministic mock ---
+
+const MOCK_BLUEPRINT_RESPONSE: BlueprintResponse = {
+    guide: "## Resposta Simulada\n\nEste guia foi gerado pelo provedor **simulado** e não analisa o código de entrada. Use-o para testes ou em máquinas sem acesso à rede.",
+    blueprintGraphs: [
+        {
+            name: 'Event BeginPlay',
+            description: 'Grafo de exemplo produzido pelo provedor simulado.',
+            graphData: {
+                nodes: [
+                    {
+                        id: 'mock-node-1', name: 'Event BeginPlay', type: 'event', x: 0, y: 0,
+                        pins: [{ id: 'mock-pin-1', name: '', type: 'exec', direction: 'out', dataType: 'Exec' }],
+                    },
+                    {
+                        id: 'mock-node-2', name: 'Print String', type: 'function', x: 300, y: 0,
+                        codeSnippet: 'UE_LOG(LogTemp, Log, TEXT("Hello"));',
+                        pins: [
+                            { id: 'mock-pin-2', name: '', type: 'exec', direction: 'in', dataType: 'Exec' },
+                            { id: 'mock-pin-3', name: '', type: 'exec', direction: 'out', dataType: 'Exec' },
+                            { id: 'mock-pin-4', name: 'In String', type: 'data', direction: 'in', dataType: 'String' },
+                        ],
+                    },
+                    {
+                        id: 'mock-node-3', name: 'Hello', type: 'literal', x: 0, y: 120,
+                        properties: { value: 'Hello' },
+                        pins: [{ id: 'mock-pin-5', name: 'Value', type: 'data', direction: 'out', dataType: 'String' }],
+                    },
+                ],
+                connections: [
+                    { fromPinId: 'mock-pin-1', toPinId: 'mock-pin-2' },
+                    { fromPinId: 'mock-pin-5', toPinId: 'mock-pin-4' },
+                ],
+                variables: [],
+            },
+        },
+    ],
+};
+
+const MOCK_CPP_RESPONSE: CppCodeResponse = {
+    header: `#pragma once
+
+#include "CoreMinimal.h"
+#include "GameFramework/Actor.h"
+#include "MyBlueprintActor.generated.h"
+
+UCLASS()
+class AMyBlueprintActor : public AActor
+{
+    GENERATED_BODY()
+
+public:
+    AMyBlueprintActor();
+
+protected:
+    virtual void BeginPlay() override;
+};
+`,
+    source: `#include "MyBlueprintActor.h"
+
+AMyBlueprintActor::AMyBlueprintActor()
+{
+    PrimaryActorTick.bCanEverTick = false;
+}
+
+void AMyBlueprintActor::BeginPlay()
+{
+    Super::BeginPlay();
+}
+`,
+};
+
+const MOCK_RESPONSES: Record<LlmTask, unknown> = {
+    blueprintGuide: MOCK_BLUEPRINT_RESPONSE,
+    cppCode: MOCK_CPP_RESPONSE,
+};
+
+const createMockProvider = (): LlmProvider => ({
+    label: PROVIDER_LABELS.mock,
+    generateJson: async ({ task }) => JSON.stringify(MOCK_RESPONSES[task]),
+});
+
+// --- Runtime selection ---
+
+const STORAGE_KEY = 'llmProviderConfig';
+
+const loadStoredConfig = (): LlmProviderConfig => {
+    try {
+        const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+        if (stored) {
+            const parsed = JSON.parse(stored) as LlmProviderConfig;
+            if (parsed.kind in DEFAULT_PROVIDER_CONFIGS) return { ...DEFAULT_PROVIDER_CONFIGS[parsed.kind], ...parsed };
+        }
+    } catch (error) {
+        console.error("Could not read the stored LLM provider config:", error);
+    }
+    return DEFAULT_PROVIDER_CONFIGS.gemini;
+};
+
+let activeConfig: LlmProviderConfig = loadStoredConfig();
+let activeProvider: LlmProvider | null = null;
+
+export const createProvider = (config: LlmProviderConfig): LlmProvider => {
+    switch (config.kind) {
+        case 'gemini': return createGeminiProvider(config);
+        case 'openai-compatible': return createOpenAiCompatibleProvider(config);
+        case 'mock': return createMockProvider();
+    }
+};
+
+export const getProviderConfig = (): LlmProviderConfig => activeConfig;
+
+export const setProviderConfig = (config: LlmProviderConfig) => {
+    activeConfig = config;
+    activeProvider = null;
+    try {
+        if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    } catch (error) {
+        console.error("Could not persist the LLM provider config:", error);
+    }
+};
+
+// The client is created lazily so that selecting a provider without credentials
+// (e.g. the mock on an air-gapped machine) never touches the Gemini SDK.
+export const getActiveProvider = (): LlmProvider => {
+    if (!activeProvider) activeProvider = createProvider(activeConfig);
+    return activeProvider;
+};
@@ -0,0 +1,104 @@
+import type { GraphNode, GraphPin } from './geminiService';
+import { pinTypeCatalogue } from './typeCatalogue';
+
+export const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+export const variableTypes = pinTypeCatalogue.map(type => type.dataType);
+
+export interface NodeTemplate {
+  name: string;
+  type: GraphNode['type'];
+  pins: Omit<GraphPin, 'id'>[];
+}
+
+export interface NodeCategory {
+  category: string;
+  nodes: NodeTemplate[];
+}
+
+export const nodeLibrary: NodeCategory[] = [
+  {
+    category: 'Flow Control',
+    nodes: [
+      { name: 'Branch', type: 'flow_control' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'Condition', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'True', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'False', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] },
+      { name: 'Sequence', type: 'flow_control' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'Then 0', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'Then 1', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] },
+      { name: 'For Loop', type: 'flow_control' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'First Index', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Last Index', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Loop Body', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'Index', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' }, { name: 'Completed', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] },
+      { name: 'Delay', type: 'function' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'Duration', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Completed', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] }
+    ]
+  },
+  {
+    category: 'Boolean Logic',
+    nodes: [
+      { name: 'AND Boolean', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+      { name: 'OR Boolean', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+      { name: 'NOT Boolean', type: 'function' as const, pins: [ { name: 'Input', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+    ]
+  },
+  {
+    category: 'Math (Integer)',
+    nodes: [
+      { name: 'Integer + Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
+      { name: 'Integer - Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
+      { name: 'Integer * Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
+      { name: 'Integer / Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
+      { name: 'Integer < Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+      { name: 'Integer > Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+      { name: 'Integer == Integer', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+    ]
+  },
+  {
+    category: 'Math (Float)',
+    nodes: [
+      { name: 'Float + Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
+      { name: 'Float - Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
+      { name: 'Float * Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
+      { name: 'Float / Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
+      { name: 'Float < Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+      { name: 'Float > Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+      { name: 'Float == Float', type: 'function' as const, pins: [ { name: 'A', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'B', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+    ]
+  },
+  {
+    category: 'Conversions',
+    nodes: [
+      { name: 'To Float (Integer)', type: 'function' as const, pins: [ { name: 'In Int', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Float' } ] },
+      { name: 'To String (Integer)', type: 'function' as const, pins: [ { name: 'In Int', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'String' } ] },
+      { name: 'To String (Float)', type: 'function' as const, pins: [ { name: 'In Float', type: 'data' as const, direction: 'in' as const, dataType: 'Float' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'String' } ] },
+      { name: 'To String (Boolean)', type: 'function' as const, pins: [ { name: 'In Bool', type: 'data' as const, direction: 'in' as const, dataType: 'Boolean' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'String' } ] },
+      { name: 'To String (Name)', type: 'function' as const, pins: [ { name: 'In Name', type: 'data' as const, direction: 'in' as const, dataType: 'Name' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'String' } ] },
+      { name: 'To String (Vector)', type: 'function' as const, pins: [ { name: 'In Vec', type: 'data' as const, direction: 'in' as const, dataType: 'Vector' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'String' } ] }
+    ]
+  },
+  {
+    category: 'Array',
+    nodes: [
+      { name: 'Array Add', type: 'function' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: '', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'Target Array', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard', containerType: 'Array' as const }, { name: 'New Item', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard' }, { name: 'Index', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
+      { name: 'Array Get', type: 'function' as const, pins: [ { name: 'Target Array', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard', containerType: 'Array' as const }, { name: 'Index', type: 'data' as const, direction: 'in' as const, dataType: 'Integer' }, { name: 'Item', type: 'data' as const, direction: 'out' as const, dataType: 'Wildcard' } ] },
+      { name: 'Array Length', type: 'function' as const, pins: [ { name: 'Target Array', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard', containerType: 'Array' as const }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' } ] },
+      { name: 'For Each Loop', type: 'flow_control' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: 'Array', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard', containerType: 'Array' as const }, { name: 'Loop Body', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'Array Element', type: 'data' as const, direction: 'out' as const, dataType: 'Wildcard' }, { name: 'Array Index', type: 'data' as const, direction: 'out' as const, dataType: 'Integer' }, { name: 'Completed', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' } ] },
+      { name: 'Array Contains', type: 'function' as const, pins: [ { name: 'Target Array', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard', containerType: 'Array' as const }, { name: 'Item to Find', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] },
+      { name: 'Array Remove', type: 'function' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: '', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'Target Array', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard', containerType: 'Array' as const }, { name: 'Item', type: 'data' as const, direction: 'in' as const, dataType: 'Wildcard' }, { name: 'Return Value', type: 'data' as const, direction: 'out' as const, dataType: 'Boolean' } ] }
+    ]
+  },
+  {
+    category: 'Utilities',
+    nodes: [
+      { name: 'Print String', type: 'function' as const, pins: [ { name: '', type: 'exec' as const, direction: 'in' as const, dataType: 'Exec' }, { name: '', type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' }, { name: 'In String', type: 'data' as const, direction: 'in' as const, dataType: 'String' } ] }
+    ]
+  }
+];
+
+export const findNodeTemplate = (name: string): NodeTemplate | undefined =>
+  nodeLibrary.flatMap(category => category.nodes).find(node => node.name === name);
+
+// `makeId` lets callers that need reproducible output (e.g. the local C++ parser) supply their own ids.
+export const createNodeFromTemplate = (nodeTemplate: NodeTemplate, x: number, y: number, makeId: (prefix: string) => string = generateId): GraphNode => ({
+  id: makeId('node'),
+  name: nodeTemplate.name,
+  type: nodeTemplate.type,
+  x,
+  y,
+  pins: nodeTemplate.pins.map((pin): GraphPin => ({
+    ...pin,
+    id: makeId('pin'),
+  })),
+});
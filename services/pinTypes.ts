@@ -0,0 +1,90 @@
+import type { FunctionGraph, FunctionParameter, GraphPin, GraphVariable, PinContainerType } from './geminiService';
+import { findNodeTemplate } from './nodeLibrary';
+import { isChildOf, isReferenceType } from './typeCatalogue';
+
+export const WILDCARD_TYPE = 'Wildcard';
+export const containerTypes: PinContainerType[] = ['Array', 'Set', 'Map'];
+
+export type PinType = Pick<GraphPin, 'dataType' | 'containerType' | 'valueType' | 'objectClass'>;
+
+const classOf = (type: PinType) => type.objectClass ?? 'Object';
+
+/** The pin type of a variable's Get/Set nodes. */
+export const variablePinType = (variable: GraphVariable): PinType => ({
+    dataType: variable.type,
+    ...(isReferenceType(variable.type) && variable.objectClass && { objectClass: variable.objectClass }),
+    ...(variable.containerType && { containerType: variable.containerType }),
+    ...(variable.containerType === 'Map' && { valueType: variable.valueType ?? variable.type }),
+});
+
+/** The pin type of a function or event parameter. */
+export const parameterPinType = (param: FunctionParameter): PinType => ({
+    dataType: param.type,
+    ...(isReferenceType(param.type) && param.objectClass && { objectClass: param.objectClass }),
+});
+
+const formatElementType = (type: PinType) => {
+    switch (type.dataType) {
+        case 'Object': return classOf(type);
+        case 'Class': case 'SoftObject': case 'SoftClass': return `${type.dataType}<${classOf(type)}>`;
+        default: return type.dataType;
+    }
+};
+
+export const formatPinType = (type: PinType) => {
+    if (type.containerType === 'Map') return `Map<${formatElementType(type)}, ${type.valueType ?? WILDCARD_TYPE}>`;
+    return type.containerType ? `${type.containerType}<${formatElementType(type)}>` : formatElementType(type);
+};
+
+const matches = (a: string | undefined, b: string | undefined) => a === b || a === WILDCARD_TYPE || b === WILDCARD_TYPE;
+
+/**
+ * Data pins connect when they hold the same kind of container (or single values) of matching element
+ * types. References also connect to references of a base class, e.g. a Pawn to an Actor input.
+ */
+export const arePinTypesCompatible = (from: PinType, to: PinType) =>
+    (from.containerType ?? null) === (to.containerType ?? null)
+    && matches(from.dataType, to.dataType)
+    && (!isReferenceType(from.dataType) || from.dataType !== to.dataType || isChildOf(classOf(from), classOf(to)))
+    && (from.containerType !== 'Map' || matches(from.valueType, to.valueType));
+
+// --- Wildcards ---
+
+const wildcardPinIds = (graph: FunctionGraph) => new Set(graph.nodes.flatMap(node => {
+    const template = findNodeTemplate(node.name);
+    if (!template) return [];
+    return node.pins
+        .filter(pin => template.pins.some(t => t.dataType === WILDCARD_TYPE && t.name === pin.name && t.direction === pin.direction))
+        .map(pin => pin.id);
+}));
+
+/**
+ * Gives the wildcard pins of library nodes (e.g. the array nodes) the element type of the first typed
+ * pin wired to any of them, and turns them back into wildcards once nothing typed is connected.
+ * Returns the same graph when no pin changed.
+ */
+export const resolveWildcardPins = <T extends FunctionGraph>(graph: T): T => {
+    const wildcards = wildcardPinIds(graph);
+    if (wildcards.size === 0) return graph;
+    const pins = new Map(graph.nodes.flatMap(node => node.pins.map(pin => [pin.id, pin] as const)));
+    const peersOf = (pinId: string) => graph.connections.flatMap(c =>
+        c.fromPinId === pinId ? [c.toPinId] : c.toPinId === pinId ? [c.fromPinId] : []);
+
+    let changed = false;
+    const nodes = graph.nodes.map(node => {
+        const nodeWildcards = node.pins.filter(pin => wildcards.has(pin.id));
+        if (nodeWildcards.length === 0) return node;
+        // Only concretely typed peers resolve a node, so two wildcard nodes never keep each other typed.
+        const peer = nodeWildcards
+            .flatMap(pin => peersOf(pin.id))
+            .filter(peerId => !wildcards.has(peerId))
+            .map(peerId => pins.get(peerId))
+            .find(pin => pin && pin.dataType !== WILDCARD_TYPE);
+        const dataType = peer?.dataType ?? WILDCARD_TYPE;
+        const objectClass = peer?.objectClass;
+        if (nodeWildcards.every(pin => pin.dataType === dataType && pin.objectClass === objectClass)) return node;
+        changed = true;
+        return { ...node, pins: node.pins.map(pin => wildcards.has(pin.id) ? { ...pin, dataType, objectClass } : pin) };
+    });
+    return changed ? { ...graph, nodes } : graph;
+};
@@ -0,0 +1,224 @@
+import type { ClassSettings, CppCodeResponse, CustomEvent, CustomFunction, EventDispatcher, FunctionParameter, GraphData, UserEnum, UserStruct } from './geminiService';
+import { repairClassSettings } from './classSettings';
+import { repairGraphElements, repairVariables } from './graphValidation';
+import { linkVariableReferences } from './variableReferences';
+
+// --- Project Format ---
+
+export const PROJECT_FORMAT = 'ue-blueprint-converter-project';
+export const PROJECT_VERSION = 2;
+
+export interface ProjectState {
+    graphData: GraphData;
+    customEvents: CustomEvent[];
+    customFunctions: CustomFunction[];
+    eventDispatchers: EventDispatcher[];
+    userStructs: UserStruct[];
+    userEnums: UserEnum[];
+    classSettings: ClassSettings;
+    cppCode: CppCodeResponse | null; // Last generated code, kept so reopening a project shows it again
+}
+
+export interface ProjectFile extends ProjectState {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration upgrades a project from version N to N + 1.
+const MIGRATIONS: { [fromVersion: number]: (project: Record<string, unknown>) => Record<string, unknown> } = {
+    // Version 0: the bare GraphData sent to the C++ generators, with custom events/functions embedded.
+    0: graph => ({
+        format: PROJECT_FORMAT,
+        version: 1,
+        savedAt: new Date(0).toISOString(),
+        graphData: { nodes: graph.nodes, connections: graph.connections, variables: graph.variables ?? [] },
+        customEvents: graph.customEvents ?? [],
+        customFunctions: graph.customFunctions ?? [],
+        cppCode: null,
+    }),
+    // Version 1: Get/Set nodes found their variable by name; variables now have ids the nodes point to.
+    // parseProjectFile links them, for every version, once the graphs are repaired.
+    1: project => ({ ...project, version: 2 }),
+};
+
+export const createProjectFile = (state: ProjectState): ProjectFile => ({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    graphData: { nodes: state.graphData.nodes, connections: state.graphData.connections, variables: state.graphData.variables },
+    customEvents: state.customEvents,
+    customFunctions: state.customFunctions,
+    eventDispatchers: state.eventDispatchers,
+    userStructs: state.userStructs,
+    userEnums: state.userEnums,
+    classSettings: state.classSettings,
+    cppCode: state.cppCode,
+});
+
+export const serializeProject = (state: ProjectState): string => JSON.stringify(createProjectFile(state), null, 2);
+
+// Generated code without both files is dropped rather than shown half empty.
+const parseCppCode = (value: unknown): CppCodeResponse | null => {
+    if (!isObject(value) || typeof value.header !== 'string' || typeof value.source !== 'string') return null;
+    return {
+        header: value.header,
+        source: value.source,
+        ...(typeof value.correctionRounds === 'number' && { correctionRounds: value.correctionRounds }),
+        ...(Array.isArray(value.unresolvedProblems) && { unresolvedProblems: value.unresolvedProblems.filter(problem => typeof problem === 'string') }),
+    };
+};
+
+// --- Definitions ---
+
+const isDefinition = (value: unknown): value is Record<string, unknown> & { id: string; name: string } =>
+    isObject(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+const isParameterList = (value: unknown): value is FunctionParameter[] =>
+    Array.isArray(value) && value.every(param => isDefinition(param) && typeof param.type === 'string');
+
+// A missing list is empty; a list with a malformed entry makes the whole file invalid.
+const parseList = <T>(value: unknown, parseItem: (item: unknown) => T | null, error: string): T[] => {
+    if (value === undefined) return [];
+    const items = Array.isArray(value) ? value.map(parseItem) : [null];
+    if (items.some(item => item === null)) throw new Error(error);
+    return items as T[];
+};
+
+const parseCustomEvent = (value: unknown): CustomEvent | null => {
+    if (!isDefinition(value) || (value.parameters !== undefined && !isParameterList(value.parameters))) return null;
+    return { ...value, ...(isParameterList(value.parameters) && { parameters: value.parameters }) };
+};
+
+// Function graphs are repaired like the Event Graph, sharing its pin ids so they stay unique across graphs.
+const parseCustomFunction = (value: unknown, seenPinIds: Set<string>): CustomFunction | null => {
+    if (!isDefinition(value) || !isParameterList(value.parameters) || !isParameterList(value.outputs)) return null;
+    if (value.graph !== undefined && !isObject(value.graph)) return null;
+    return {
+        ...value,
+        parameters: value.parameters,
+        outputs: value.outputs,
+        localVariables: repairVariables(value.localVariables),
+        ...(isObject(value.graph) && { graph: repairGraphElements(value.graph, seenPinIds) }),
+    };
+};
+
+const parseEventDispatcher = (value: unknown): EventDispatcher | null =>
+    isDefinition(value) && isParameterList(value.parameters) ? { ...value, parameters: value.parameters } : null;
+
+const parseUserStruct = (value: unknown): UserStruct | null =>
+    isDefinition(value) && isParameterList(value.fields) ? { ...value, fields: value.fields } : null;
+
+const parseUserEnum = (value: unknown): UserEnum | null =>
+    isDefinition(value) && Array.isArray(value.entries) && value.entries.every(entry => typeof entry === 'string')
+        ? { ...value, entries: value.entries } : null;
+
+/**
+ * Parses a project file, upgrading older versions step by step through MIGRATIONS.
+ * Throws with a user-facing message when the file isn't a project, comes from a newer version or has
+ * malformed definitions; graphs are repaired the way AI responses are.
+ */
+export const parseProjectFile = (text: string): ProjectFile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("O arquivo não contém um JSON válido.");
+    }
+    if (!isObject(data)) throw new Error("O arquivo não é um projeto válido.");
+
+    const isLegacyGraph = data.format === undefined && Array.isArray(data.nodes);
+    if (!isLegacyGraph && data.format !== PROJECT_FORMAT) throw new Error("O arquivo não é um projeto deste conversor.");
+
+    let version = isLegacyGraph ? 0 : Number(data.version);
+    if (!Number.isInteger(version) || version < 0) throw new Error("A versão do projeto é inválida.");
+    if (version > PROJECT_VERSION) {
+        throw new Error(`O projeto foi salvo por uma versão mais nova do conversor (versão ${version}; esta aplicação suporta até a ${PROJECT_VERSION}).`);
+    }
+
+    let project: Record<string, unknown> = data;
+    while (version < PROJECT_VERSION) {
+        project = MIGRATIONS[version](project);
+        version++;
+    }
+
+    const graphData = project.graphData;
+    if (!isObject(graphData) || !Array.isArray(graphData.nodes) || !Array.isArray(graphData.connections)) {
+        throw new Error("O projeto não contém um grafo válido.");
+    }
+    const seenPinIds = new Set<string>();
+    // Files of any version are linked, so a variable without an id never reaches the editor.
+    const linked = linkVariableReferences(
+        { ...repairGraphElements(graphData, seenPinIds), variables: repairVariables(graphData.variables) },
+        parseList(project.customFunctions, value => parseCustomFunction(value, seenPinIds), "O projeto contém uma função inválida."),
+    );
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: typeof project.savedAt === 'string' ? project.savedAt : new Date(0).toISOString(),
+        graphData: linked.graphData,
+        customEvents: parseList(project.customEvents, parseCustomEvent, "O projeto contém um evento personalizado inválido."),
+        customFunctions: linked.customFunctions,
+        eventDispatchers: parseList(project.eventDispatchers, parseEventDispatcher, "O projeto contém um event dispatcher inválido."),
+        userStructs: parseList(project.userStructs, parseUserStruct, "O projeto contém uma estrutura inválida."),
+        userEnums: parseList(project.userEnums, parseUserEnum, "O projeto contém uma enumeração inválida."),
+        // Projects saved before class settings existed generate the default actor.
+        classSettings: repairClassSettings(project.classSettings),
+        cppCode: parseCppCode(project.cppCode),
+    };
+};
+
+export const downloadProjectFile = (state: ProjectState, fileName = 'blueprint-project.json') => {
+    const url = URL.createObjectURL(new Blob([serializeProject(state)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- Autosave (IndexedDB) ---
+
+const DATABASE_NAME = 'ue-blueprint-converter';
+const STORE_NAME = 'projects';
+const AUTOSAVE_KEY = 'autosave';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB não está disponível neste navegador."));
+        return;
+    }
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = action(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        database.close();
+    }
+};
+
+// The serialized text is stored (not the object) so autosaves go through the same migrations as files.
+export const saveAutosave = async (state: ProjectState): Promise<void> => {
+    await runTransaction('readwrite', store => store.put(serializeProject(state), AUTOSAVE_KEY));
+};
+
+export const loadAutosave = async (): Promise<ProjectFile | null> => {
+    const text = await runTransaction<string | undefined>('readonly', store => store.get(AUTOSAVE_KEY));
+    return text ? parseProjectFile(text) : null;
+};
+
+export const clearAutosave = async (): Promise<void> => {
+    await runTransaction('readwrite', store => store.delete(AUTOSAVE_KEY));
+};
@@ -0,0 +1,140 @@
+// --- Pin Types ---
+
+export type PinTypeGroup = 'Básicos' | 'Estruturas' | 'Enums' | 'Referências';
+
+export interface PinTypeInfo {
+    dataType: string;
+    label: string;
+    group: PinTypeGroup;
+    color: string; // Unreal's default pin colour (Editor Preferences > Graph Editor)
+}
+
+export const pinTypeGroups: PinTypeGroup[] = ['Básicos', 'Estruturas', 'Enums', 'Referências'];
+
+// Reference types point at a class, stored in the `objectClass` of the pin, variable or parameter.
+export const REFERENCE_TYPES = ['Object', 'Class', 'SoftObject', 'SoftClass'];
+
+export const isReferenceType = (dataType: string) => REFERENCE_TYPES.includes(dataType);
+
+export const pinTypeCatalogue: PinTypeInfo[] = [
+    { dataType: 'Boolean', label: 'Boolean', group: 'Básicos', color: '#950000' },
+    { dataType: 'Byte', label: 'Byte', group: 'Básicos', color: '#006F65' },
+    { dataType: 'Integer', label: 'Integer', group: 'Básicos', color: '#1FE3AF' },
+    { dataType: 'Integer64', label: 'Integer64', group: 'Básicos', color: '#ACE3AF' },
+    { dataType: 'Float', label: 'Float', group: 'Básicos', color: '#A1FF45' },
+    { dataType: 'Double', label: 'Double', group: 'Básicos', color: '#38D500' },
+    { dataType: 'Name', label: 'Name', group: 'Básicos', color: '#CD82FF' },
+    { dataType: 'String', label: 'String', group: 'Básicos', color: '#FF00D4' },
+    { dataType: 'Text', label: 'Text', group: 'Básicos', color: '#E77CAA' },
+    { dataType: 'Vector', label: 'Vector', group: 'Estruturas', color: '#FFCA23' },
+    { dataType: 'Vector2D', label: 'Vector 2D', group: 'Estruturas', color: '#0059CB' },
+    { dataType: 'Rotator', label: 'Rotator', group: 'Estruturas', color: '#A0B4FF' },
+    { dataType: 'Transform', label: 'Transform', group: 'Estruturas', color: '#FF7300' },
+    { dataType: 'LinearColor', label: 'Linear Color', group: 'Estruturas', color: '#0059CB' },
+    { dataType: 'HitResult', label: 'Hit Result', group: 'Estruturas', color: '#0059CB' },
+    { dataType: 'CollisionChannel', label: 'ECollisionChannel', group: 'Enums', color: '#006F65' },
+    { dataType: 'MovementMode', label: 'EMovementMode', group: 'Enums', color: '#006F65' },
+    { dataType: 'Object', label: 'Object Reference', group: 'Referências', color: '#00AAF5' },
+    { dataType: 'Class', label: 'Class Reference', group: 'Referências', color: '#5900BC' },
+    { dataType: 'SoftObject', label: 'Soft Object Reference', group: 'Referências', color: '#95FFFF' },
+    { dataType: 'SoftClass', label: 'Soft Class Reference', group: 'Referências', color: '#FF95FF' },
+];
+
+const STRUCT_COLOR = '#0059CB';
+const DELEGATE_COLOR = '#FF3838';
+export const WILDCARD_COLOR = '#817A7A';
+
+// Types outside the catalogue are structs declared elsewhere, so they take the struct colour.
+export const pinTypeColor = (dataType: string): string => {
+    if (dataType === 'Exec') return '#FFFFFF';
+    if (dataType === 'Wildcard') return WILDCARD_COLOR;
+    if (dataType === 'Delegate') return DELEGATE_COLOR;
+    return pinTypeCatalogue.find(type => type.dataType === dataType)?.color ?? STRUCT_COLOR;
+};
+
+// --- Classes ---
+
+export interface UnrealClass {
+    name: string; // Without the A/U prefix, as Blueprints show it
+    parent: string | null;
+    module: string; // Script package, e.g. /Script/Engine
+}
+
+export const unrealClasses: UnrealClass[] = [
+    { name: 'Object', parent: null, module: 'CoreUObject' },
+    { name: 'Actor', parent: 'Object', module: 'Engine' },
+    { name: 'Pawn', parent: 'Actor', module: 'Engine' },
+    { name: 'Character', parent: 'Pawn', module: 'Engine' },
+    { name: 'Controller', parent: 'Actor', module: 'Engine' },
+    { name: 'PlayerController', parent: 'Controller', module: 'Engine' },
+    { name: 'AIController', parent: 'Controller', module: 'AIModule' },
+    { name: 'Info', parent: 'Actor', module: 'Engine' },
+    { name: 'GameModeBase', parent: 'Info', module: 'Engine' },
+    { name: 'GameStateBase', parent: 'Info', module: 'Engine' },
+    { name: 'PlayerState', parent: 'Info', module: 'Engine' },
+    { name: 'HUD', parent: 'Actor', module: 'Engine' },
+    { name: 'CameraActor', parent: 'Actor', module: 'Engine' },
+    { name: 'StaticMeshActor', parent: 'Actor', module: 'Engine' },
+    { name: 'TriggerBase', parent: 'Actor', module: 'Engine' },
+    { name: 'TriggerBox', parent: 'TriggerBase', module: 'Engine' },
+    { name: 'ActorComponent', parent: 'Object', module: 'Engine' },
+    { name: 'MovementComponent', parent: 'ActorComponent', module: 'Engine' },
+    { name: 'NavMovementComponent', parent: 'MovementComponent', module: 'Engine' },
+    { name: 'PawnMovementComponent', parent: 'NavMovementComponent', module: 'Engine' },
+    { name: 'CharacterMovementComponent', parent: 'PawnMovementComponent', module: 'Engine' },
+    { name: 'SceneComponent', parent: 'ActorComponent', module: 'Engine' },
+    { name: 'CameraComponent', parent: 'SceneComponent', module: 'Engine' },
+    { name: 'SpringArmComponent', parent: 'SceneComponent', module: 'Engine' },
+    { name: 'AudioComponent', parent: 'SceneComponent', module: 'Engine' },
+    { name: 'ArrowComponent', parent: 'PrimitiveComponent', module: 'Engine' },
+    { name: 'PrimitiveComponent', parent: 'SceneComponent', module: 'Engine' },
+    { name: 'ShapeComponent', parent: 'PrimitiveComponent', module: 'Engine' },
+    { name: 'BoxComponent', parent: 'ShapeComponent', module: 'Engine' },
+    { name: 'SphereComponent', parent: 'ShapeComponent', module: 'Engine' },
+    { name: 'CapsuleComponent', parent: 'ShapeComponent', module: 'Engine' },
+    { name: 'MeshComponent', parent: 'PrimitiveComponent', module: 'Engine' },
+    { name: 'StaticMeshComponent', parent: 'MeshComponent', module: 'Engine' },
+    { name: 'SkinnedMeshComponent', parent: 'MeshComponent', module: 'Engine' },
+    { name: 'SkeletalMeshComponent', parent: 'SkinnedMeshComponent', module: 'Engine' },
+    { name: 'StaticMesh', parent: 'Object', module: 'Engine' },
+    { name: 'SkeletalMesh', parent: 'Object', module: 'Engine' },
+    { name: 'MaterialInterface', parent: 'Object', module: 'Engine' },
+    { name: 'Material', parent: 'MaterialInterface', module: 'Engine' },
+    { name: 'MaterialInstance', parent: 'MaterialInterface', module: 'Engine' },
+    { name: 'Texture', parent: 'Object', module: 'Engine' },
+    { name: 'Texture2D', parent: 'Texture', module: 'Engine' },
+    { name: 'SoundBase', parent: 'Object', module: 'Engine' },
+    { name: 'DataAsset', parent: 'Object', module: 'Engine' },
+    { name: 'Visual', parent: 'Object', module: 'UMG' },
+    { name: 'Widget', parent: 'Visual', module: 'UMG' },
+    { name: 'UserWidget', parent: 'Widget', module: 'UMG' },
+];
+
+const findClass = (name: string) => unrealClasses.find(cls => cls.name === name);
+
+/** True when `name` is `ancestor` or derives from it. Classes outside the catalogue only derive from Object. */
+export const isChildOf = (name: string, ancestor: string): boolean => {
+    if (name === ancestor || ancestor === 'Object') return true;
+    const parent = findClass(name)?.parent;
+    return parent ? isChildOf(parent, ancestor) : false;
+};
+
+/** The Blueprint name of a C++ class (AActor → Actor); classes without a known prefix keep their name. */
+export const toClassName = (cppName: string) => {
+    const name = cppName.trim();
+    if (findClass(name)) return name;
+    return /^[AU][A-Z]/.test(name) ? name.slice(1) : name;
+};
+
+// The C++ prefix: A for actors, U for every other UObject.
+export const cppClassName = (name: string) => `${isChildOf(name, 'Actor') ? 'A' : 'U'}${name}`;
+
+/** Script path of a class, as T3D text and soft references spell it. */
+export const classPath = (name: string) => `/Script/${findClass(name)?.module ?? 'Engine'}.${name}`;
+
+/** The catalogue in tree order, each class after its parent, for indented pickers. */
+export const classHierarchy = (): { name: string; depth: number }[] => {
+    const visit = (parent: string | null, depth: number): { name: string; depth: number }[] =>
+        unrealClasses.filter(cls => cls.parent === parent).flatMap(cls => [{ name: cls.name, depth }, ...visit(cls.name, depth + 1)]);
+    return visit(null, 0);
+};
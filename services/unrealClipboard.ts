@@ -0,0 +1,773 @@
+import type { CustomEvent, CustomFunction, EventDispatcher, GraphConnection, GraphData, GraphNode, GraphPin, GraphVariable, PinContainerType } from './geminiService';
+import { toIdentifier } from './cppGenerator';
+import { isFunctionEntry } from './functionGraph';
+import { CREATE_EVENT_NODE_NAME, DELEGATE_TYPE, dispatcherNodeName, DispatcherNodeKind, findDispatcherNode, isDelegatePin } from './eventDispatchers';
+import { fromFunctionFlags, rpcFunctionFlags } from './eventReplication';
+import { createNodeFromTemplate, findNodeTemplate, generateId, NodeTemplate } from './nodeLibrary';
+import { containerTypes, resolveWildcardPins } from './pinTypes';
+import { classPath, isReferenceType, toClassName } from './typeCatalogue';
+import { findNodeVariable, variableNameOf } from './variableReferences';
+
+// --- Pin Types ---
+
+interface UnrealPinType {
+    category: string;
+    subCategory?: string;
+    subCategoryObject?: string;
+}
+
+const PIN_TYPES: { [dataType: string]: UnrealPinType } = {
+    'Exec': { category: 'exec' },
+    'Boolean': { category: 'bool' },
+    'Byte': { category: 'byte' },
+    'Integer': { category: 'int' },
+    'Integer64': { category: 'int64' },
+    // UE5 Blueprints store both floating point types as 'real'; only the precision differs.
+    'Float': { category: 'real', subCategory: 'double' },
+    'Double': { category: 'real', subCategory: 'double' },
+    'String': { category: 'string' },
+    'Name': { category: 'name' },
+    'Text': { category: 'text' },
+    'Vector': { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.Vector"'` },
+    'Vector2D': { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.Vector2D"'` },
+    'Rotator': { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.Rotator"'` },
+    'Transform': { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.Transform"'` },
+    'LinearColor': { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.LinearColor"'` },
+    'HitResult': { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/Engine.HitResult"'` },
+    'CollisionChannel': { category: 'byte', subCategoryObject: `/Script/CoreUObject.Enum'"/Script/Engine.ECollisionChannel"'` },
+    'MovementMode': { category: 'byte', subCategoryObject: `/Script/CoreUObject.Enum'"/Script/Engine.EMovementMode"'` },
+    [DELEGATE_TYPE]: { category: 'delegate' },
+};
+
+// Byte pins typed by one of these enums import as that enum.
+const ENUM_TYPES: { [enumName: string]: string } = {
+    'ECollisionChannel': 'CollisionChannel',
+    'EMovementMode': 'MovementMode',
+};
+
+// Reference pins name their class in the sub-category object, e.g. /Script/Engine.Pawn.
+const toUnrealPinType = (dataType: string, objectClass = 'Object'): UnrealPinType => isReferenceType(dataType)
+    ? { category: dataType.toLowerCase(), subCategoryObject: `/Script/CoreUObject.Class'"${classPath(objectClass)}"'` }
+    : PIN_TYPES[dataType] ?? { category: 'wildcard' };
+
+// --- Node Mapping ---
+
+const ACTOR_CLASS = `/Script/CoreUObject.Class'"/Script/Engine.Actor"'`;
+const MATH_LIBRARY = `/Script/CoreUObject.Class'"/Script/Engine.KismetMathLibrary"'`;
+const SYSTEM_LIBRARY = `/Script/CoreUObject.Class'"/Script/Engine.KismetSystemLibrary"'`;
+const STRING_LIBRARY = `/Script/CoreUObject.Class'"/Script/Engine.KismetStringLibrary"'`;
+const ARRAY_LIBRARY = `/Script/CoreUObject.Class'"/Script/Engine.KismetArrayLibrary"'`;
+const FOR_LOOP_MACRO = `(MacroGraph=/Script/Engine.EdGraph'"/Engine/EditorBlueprintResources/StandardMacros.StandardMacros:ForLoop"',GraphBlueprint=/Script/Engine.Blueprint'"/Engine/EditorBlueprintResources/StandardMacros.StandardMacros"',GraphGuid=99DBFD5540A796041F72A5A9DA655026)`;
+const FOR_EACH_LOOP_MACRO = `(MacroGraph=/Script/Engine.EdGraph'"/Engine/EditorBlueprintResources/StandardMacros.StandardMacros:ForEachLoop"',GraphBlueprint=/Script/Engine.Blueprint'"/Engine/EditorBlueprintResources/StandardMacros.StandardMacros"')`;
+
+const NATIVE_EVENTS: { [eventName: string]: { memberName: string; pinNames: { [pinName: string]: string } } } = {
+    'BeginPlay': { memberName: 'ReceiveBeginPlay', pinNames: {} },
+    'Tick': { memberName: 'ReceiveTick', pinNames: { 'Delta Seconds': 'DeltaSeconds' } },
+    'EndPlay': { memberName: 'ReceiveEndPlay', pinNames: { 'End Play Reason': 'EndPlayReason' } },
+};
+
+const MATH_OPERATIONS: { [operator: string]: string } = {
+    '+': 'Add', '-': 'Subtract', '*': 'Multiply', '/': 'Divide', '<': 'Less', '>': 'Greater', '==': 'EqualEqual',
+};
+
+// Library nodes that map to a static UFUNCTION: node name -> [owning class, function name].
+const LIBRARY_FUNCTIONS: { [nodeName: string]: [string, string] } = {
+    'AND Boolean': [MATH_LIBRARY, 'BooleanAND'],
+    'OR Boolean': [MATH_LIBRARY, 'BooleanOR'],
+    'NOT Boolean': [MATH_LIBRARY, 'Not_PreBool'],
+    'Print String': [SYSTEM_LIBRARY, 'PrintString'],
+    'Delay': [SYSTEM_LIBRARY, 'Delay'],
+    'Array Add': [ARRAY_LIBRARY, 'Array_Add'],
+    'Array Get': [ARRAY_LIBRARY, 'Array_Get'],
+    'Array Length': [ARRAY_LIBRARY, 'Array_Length'],
+    'Array Contains': [ARRAY_LIBRARY, 'Array_Contains'],
+    'Array Remove': [ARRAY_LIBRARY, 'Array_RemoveItem'],
+    'To Float (Integer)': [MATH_LIBRARY, 'Conv_IntToDouble'],
+    'To String (Integer)': [STRING_LIBRARY, 'Conv_IntToString'],
+    'To String (Float)': [STRING_LIBRARY, 'Conv_DoubleToString'],
+    'To String (Boolean)': [STRING_LIBRARY, 'Conv_BoolToString'],
+    'To String (Name)': [STRING_LIBRARY, 'Conv_NameToString'],
+    'To String (Vector)': [STRING_LIBRARY, 'Conv_VectorToString'],
+    ...Object.fromEntries(['Integer', 'Float'].flatMap(type => Object.entries(MATH_OPERATIONS).map(([operator, operation]) => [
+        `${type} ${operator} ${type}`,
+        [MATH_LIBRARY, `${operation}_${type === 'Integer' ? 'IntInt' : 'DoubleDouble'}`] as [string, string],
+    ]))),
+};
+
+// Pin names that differ between our node library and the engine's nodes.
+const LIBRARY_PIN_NAMES: { [pinName: string]: string } = {
+    'Return Value': 'ReturnValue',
+    'In String': 'InString',
+    'Input': 'A',
+    'First Index': 'FirstIndex',
+    'Last Index': 'LastIndex',
+    'Loop Body': 'LoopBody',
+    'In Float': 'InDouble',
+};
+
+interface NodeMapping {
+    className: string;
+    properties: string[];
+    pinName: (pin: GraphPin) => string;
+}
+
+const DISPATCHER_NODE_CLASSES: { [kind in DispatcherNodeKind]: string } = {
+    call: 'K2Node_CallDelegate',
+    bind: 'K2Node_AddDelegate',
+    unbind: 'K2Node_RemoveDelegate',
+};
+
+const defaultPinName = (pin: GraphPin) => {
+    if (pin.type === 'exec') return pin.direction === 'in' ? 'execute' : 'then';
+    return LIBRARY_PIN_NAMES[pin.name] ?? toIdentifier(pin.name);
+};
+
+const mapNode = (node: GraphNode, dispatchers: EventDispatcher[] = [], customEvents: CustomEvent[] = [], variables: GraphVariable[] = []): NodeMapping => {
+    if (isFunctionEntry(node)) return { className: 'K2Node_FunctionEntry', properties: [], pinName: defaultPinName };
+    if (node.type === 'event') {
+        const native = NATIVE_EVENTS[node.name.replace(/^Event\s+/, '').replace(/\s+/g, '')];
+        if (native) {
+            return {
+                className: 'K2Node_Event',
+                properties: [`EventReference=(MemberParent=${ACTOR_CLASS},MemberName="${native.memberName}")`, 'bOverrideFunction=True'],
+                pinName: pin => native.pinNames[pin.name] ?? defaultPinName(pin),
+            };
+        }
+        const parameters = node.pins.filter(pin => pin.type === 'data' && pin.direction === 'out' && !isDelegatePin(pin));
+        const functionFlags = rpcFunctionFlags(customEvents.find(e => e.name === node.name));
+        return {
+            className: 'K2Node_CustomEvent',
+            properties: [
+                `CustomFunctionName="${toIdentifier(node.name)}"`,
+                ...(functionFlags ? [`FunctionFlags=${functionFlags}`] : []),
+                ...parameters.map(pin => {
+                    const type = toUnrealPinType(pin.dataType, pin.objectClass);
+                    return `UserDefinedPins=(PinName="${defaultPinName(pin)}",PinType=(PinCategory="${type.category}",PinSubCategoryObject=${type.subCategoryObject ?? 'None'}),DesiredPinDirection=EGPD_Output)`;
+                }),
+            ],
+            pinName: defaultPinName,
+        };
+    }
+    if (node.type === 'variable_get' || node.type === 'variable_set') {
+        // Nodes whose variable is missing keep the name they show, so Unreal reports the missing member.
+        const variableName = findNodeVariable(node, variables)?.name ?? variableNameOf(node);
+        return {
+            className: node.type === 'variable_get' ? 'K2Node_VariableGet' : 'K2Node_VariableSet',
+            properties: [`VariableReference=(MemberName="${variableName}",bSelfContext=True)`],
+            pinName: pin => pin.type === 'data' && pin.direction === (node.type === 'variable_get' ? 'out' : 'in') ? variableName : defaultPinName(pin),
+        };
+    }
+    const dispatcherNode = findDispatcherNode(node, dispatchers);
+    if (dispatcherNode) {
+        return {
+            className: DISPATCHER_NODE_CLASSES[dispatcherNode.kind],
+            properties: [`DelegateReference=(MemberName="${toIdentifier(dispatcherNode.dispatcher.name)}",bSelfContext=True)`],
+            pinName: pin => isDelegatePin(pin) ? 'Delegate' : defaultPinName(pin),
+        };
+    }
+    switch (node.name) {
+        case CREATE_EVENT_NODE_NAME:
+            return {
+                className: 'K2Node_CreateDelegate',
+                properties: [`SelectedFunctionName="${toIdentifier(node.properties?.value ?? '')}"`],
+                pinName: defaultPinName,
+            };
+        case 'Branch':
+            return {
+                className: 'K2Node_IfThenElse',
+                properties: [],
+                pinName: pin => ({ 'True': 'then', 'False': 'else' } as { [name: string]: string })[pin.name] ?? defaultPinName(pin),
+            };
+        case 'Sequence':
+            return {
+                className: 'K2Node_ExecutionSequence',
+                properties: [],
+                pinName: pin => pin.type === 'exec' && pin.direction === 'out' ? pin.name.replace(/^Then\s+/i, 'then_') : defaultPinName(pin),
+            };
+        case 'For Loop':
+            return {
+                className: 'K2Node_MacroInstance',
+                properties: [`MacroGraphReference=${FOR_LOOP_MACRO}`],
+                pinName: pin => pin.type === 'exec' ? (pin.direction === 'in' ? 'Exec' : LIBRARY_PIN_NAMES[pin.name] ?? pin.name) : defaultPinName(pin),
+            };
+        case 'For Each Loop':
+            return {
+                className: 'K2Node_MacroInstance',
+                properties: [`MacroGraphReference=${FOR_EACH_LOOP_MACRO}`],
+                // The macro's outputs keep their display names ('Array Element', 'Array Index').
+                pinName: pin => pin.type === 'exec' ? (pin.direction === 'in' ? 'Exec' : LIBRARY_PIN_NAMES[pin.name] ?? pin.name) : pin.name,
+            };
+        case 'Return Node':
+            return { className: 'K2Node_FunctionResult', properties: [], pinName: defaultPinName };
+    }
+    const library = LIBRARY_FUNCTIONS[node.name];
+    return {
+        className: library?.[0] === ARRAY_LIBRARY ? 'K2Node_CallArrayFunction' : 'K2Node_CallFunction',
+        properties: [library
+            ? `FunctionReference=(MemberParent=${library[0]},MemberName="${library[1]}")`
+            : `FunctionReference=(MemberName="${toIdentifier(node.name)}",bSelfContext=True)`],
+        // Array_Add returns the new index as its return value.
+        pinName: pin => node.name === 'Array Add' && pin.name === 'Index' ? 'ReturnValue' : defaultPinName(pin),
+    };
+};
+
+// --- Export ---
+
+// Stable 128-bit hex GUID derived from a string, so exporting the same graph twice yields the same text.
+const toGuid = (seed: string): string =>
+    [0, 1, 2, 3].map(part => {
+        const text = `${part}:${seed}`;
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < text.length; i++) {
+            hash ^= text.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193) >>> 0;
+        }
+        return hash.toString(16).toUpperCase().padStart(8, '0');
+    }).join('');
+
+const formatFloat = (value: number) => (Number.isFinite(value) ? value : 0).toFixed(6);
+
+const formatDefaultValue = (value: string, dataType: string): string => {
+    const numbers = (value.match(/-?\d+(?:\.\d+)?(?:e-?\d+)?/gi) || []).map(Number);
+    switch (dataType) {
+        case 'Boolean': return /^(true|1)$/i.test(value.trim()) ? 'true' : 'false';
+        case 'Integer': return String(parseInt(value, 10) || 0);
+        case 'Float': return formatFloat(parseFloat(value));
+        case 'Vector':
+        case 'Rotator': return [0, 1, 2].map(i => formatFloat(numbers[i] ?? 0)).join(',');
+        default: return value;
+    }
+};
+
+const escapeText = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+/**
+ * Serializes a graph into the T3D text the UE5 editor puts on the clipboard when nodes are copied,
+ * so the result can be pasted straight into a Blueprint graph. Literal nodes have no engine
+ * equivalent: their values become default values of the pins they feed.
+ */
+export const exportGraphToT3D = (graphData: GraphData): string => {
+    const literalNodes = new Map(graphData.nodes.filter(node => node.type === 'literal').map(node => [node.id, node]));
+    const exportedNodes = graphData.nodes.filter(node => !literalNodes.has(node.id));
+
+    const objectNames = new Map<string, string>();
+    const mappings = new Map<string, NodeMapping>();
+    const classCounters = new Map<string, number>();
+    exportedNodes.forEach(node => {
+        const mapping = mapNode(node, graphData.eventDispatchers, graphData.customEvents, graphData.variables);
+        const index = classCounters.get(mapping.className) ?? 0;
+        classCounters.set(mapping.className, index + 1);
+        objectNames.set(node.id, `${mapping.className}_${index}`);
+        mappings.set(node.id, mapping);
+    });
+
+    const pinOwners = new Map<string, GraphNode>();
+    graphData.nodes.forEach(node => node.pins.forEach(pin => pinOwners.set(pin.id, node)));
+
+    const links = new Map<string, string[]>();
+    const defaultValues = new Map<string, string>();
+    graphData.connections.forEach(({ fromPinId, toPinId }) => {
+        const fromNode = pinOwners.get(fromPinId);
+        const toNode = pinOwners.get(toPinId);
+        if (!fromNode || !toNode) return;
+        if (literalNodes.has(fromNode.id)) {
+            const toPin = toNode.pins.find(pin => pin.id === toPinId)!;
+            defaultValues.set(toPinId, formatDefaultValue(fromNode.properties?.value ?? fromNode.name, toPin.dataType));
+            return;
+        }
+        if (literalNodes.has(toNode.id)) return;
+        links.set(fromPinId, [...(links.get(fromPinId) || []), toPinId]);
+        links.set(toPinId, [...(links.get(toPinId) || []), fromPinId]);
+    });
+
+    const serializePin = (node: GraphNode, pin: GraphPin): string => {
+        const type = toUnrealPinType(pin.dataType, pin.objectClass);
+        const valueType = pin.containerType === 'Map' ? toUnrealPinType(pin.valueType ?? pin.dataType) : null;
+        const linkedTo = (links.get(pin.id) || []).map(otherPinId => `${objectNames.get(pinOwners.get(otherPinId)!.id)} ${toGuid(otherPinId)},`).join('');
+        const defaultValue = defaultValues.get(pin.id);
+        const pinName = mappings.get(node.id)!.pinName(pin);
+        const fields = [
+            `PinId=${toGuid(pin.id)}`,
+            `PinName="${pinName}"`,
+            ...(pin.name && pin.name !== pinName ? [`PinFriendlyName=INVTEXT("${escapeText(pin.name)}")`] : []),
+            ...(pin.direction === 'out' ? ['Direction="EGPD_Output"'] : []),
+            `PinType.PinCategory="${type.category}"`,
+            `PinType.PinSubCategory="${type.subCategory ?? ''}"`,
+            `PinType.PinSubCategoryObject=${type.subCategoryObject ?? 'None'}`,
+            'PinType.PinSubCategoryMemberReference=()',
+            `PinType.PinValueType=(${valueType ? `TerminalCategory="${valueType.category}",TerminalSubCategoryObject=${valueType.subCategoryObject ?? 'None'}` : ''})`,
+            `PinType.ContainerType=${pin.containerType ?? 'None'}`,
+            'PinType.bIsReference=False',
+            'PinType.bIsConst=False',
+            'PinType.bIsWeakPointer=False',
+            'PinType.bIsUObjectWrapper=False',
+            'PinType.bSerializeAsSinglePrecisionFloat=False',
+            ...(defaultValue !== undefined ? [`DefaultValue="${escapeText(defaultValue)}"`] : []),
+            ...(linkedTo ? [`LinkedTo=(${linkedTo})`] : []),
+            'PersistentGuid=00000000000000000000000000000000',
+            'bHidden=False',
+            'bNotConnectable=False',
+            'bDefaultValueIsReadOnly=False',
+            'bDefaultValueIsIgnored=False',
+            'bAdvancedView=False',
+            'bOrphanedPin=False',
+        ];
+        return `   CustomProperties Pin (${fields.join(',')},)`;
+    };
+
+    return exportedNodes.map(node => {
+        const mapping = mappings.get(node.id)!;
+        return [
+            `Begin Object Class=/Script/BlueprintGraph.${mapping.className} Name="${objectNames.get(node.id)}"`,
+            ...mapping.properties.map(property => `   ${property}`),
+            `   NodePosX=${Math.round(node.x)}`,
+            `   NodePosY=${Math.round(node.y)}`,
+            `   NodeGuid=${toGuid(node.id)}`,
+            ...node.pins.map(pin => serializePin(node, pin)),
+            'End Object',
+        ].join('\n');
+    }).join('\n') + '\n';
+};
+
+// --- Import ---
+
+interface T3DPin {
+    guid: string;
+    name: string;
+    friendlyName?: string;
+    direction: GraphPin['direction'];
+    category: string;
+    subCategoryObject: string;
+    containerType?: PinContainerType;
+    valueType?: { category: string; subCategoryObject: string }; // Map values
+    defaultValue: string;
+    linkedTo: { objectName: string; guid: string }[];
+    isHidden: boolean;
+    isAdvanced: boolean;
+}
+
+interface T3DObject {
+    className: string;
+    objectName: string;
+    properties: { [key: string]: string };
+    pins: T3DPin[];
+}
+
+export interface T3DImportResult {
+    graphData: GraphData;
+    customEvents: CustomEvent[];
+    customFunctions: CustomFunction[];
+    eventDispatchers: EventDispatcher[];
+    warnings: string[];
+}
+
+// Splits the body of a T3D struct literal `Key=Value,Key=(...),...` into its top-level fields.
+const parseT3DStruct = (body: string): { [key: string]: string } => {
+    const fields: { [key: string]: string } = {};
+    const parts: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+    for (let i = 0; i < body.length; i++) {
+        const char = body[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '(') depth++;
+        else if (char === ')') depth--;
+        else if (char === ',' && depth === 0) {
+            parts.push(body.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(body.slice(start));
+    parts.map(part => part.trim()).filter(Boolean).forEach(part => {
+        const equals = part.indexOf('=');
+        if (equals > 0 && !(part.slice(0, equals).trim() in fields)) fields[part.slice(0, equals).trim()] = part.slice(equals + 1).trim();
+    });
+    return fields;
+};
+
+const unwrapParentheses = (value = '') => value.replace(/^\(/, '').replace(/\)$/, '');
+
+const unquote = (value = '') => value.startsWith('"') && value.endsWith('"') && value.length >= 2
+    ? value.slice(1, -1).replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char))
+    : value;
+
+// Friendly names come as "Text", INVTEXT("Text") or NSLOCTEXT("Namespace", "Key", "Text").
+const parseText = (value?: string): string | undefined => {
+    if (!value) return undefined;
+    const strings = value.match(/"(?:\\.|[^"\\])*"/g);
+    return strings ? unquote(strings[strings.length - 1]) : value;
+};
+
+const parsePin = (body: string): T3DPin => {
+    const fields = parseT3DStruct(body);
+    const containerType = containerTypes.find(kind => kind === fields['PinType.ContainerType']);
+    const valueFields = parseT3DStruct(unwrapParentheses(fields['PinType.PinValueType']));
+    return {
+        guid: fields['PinId'] ?? '',
+        name: unquote(fields['PinName']),
+        friendlyName: parseText(fields['PinFriendlyName']),
+        direction: fields['Direction'] === '"EGPD_Output"' || fields['Direction'] === 'EGPD_Output' ? 'out' : 'in',
+        category: unquote(fields['PinType.PinCategory']),
+        subCategoryObject: fields['PinType.PinSubCategoryObject'] ?? 'None',
+        containerType,
+        valueType: containerType === 'Map' ? { category: unquote(valueFields['TerminalCategory']), subCategoryObject: valueFields['TerminalSubCategoryObject'] ?? 'None' } : undefined,
+        defaultValue: unquote(fields['DefaultValue']),
+        linkedTo: unwrapParentheses(fields['LinkedTo']).split(',').map(link => link.trim()).filter(Boolean).map(link => {
+            const [objectName, guid] = link.split(/\s+/);
+            return { objectName, guid };
+        }),
+        isHidden: fields['bHidden'] === 'True',
+        isAdvanced: fields['bAdvancedView'] === 'True',
+    };
+};
+
+const parseT3DObjects = (text: string): T3DObject[] => {
+    const objects: T3DObject[] = [];
+    let current: T3DObject | null = null;
+    let nestedDepth = 0;
+
+    text.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trim();
+        const begin = line.match(/^Begin Object\b(.*)$/);
+        if (begin) {
+            if (current) {
+                nestedDepth++;
+                return;
+            }
+            const className = begin[1].match(/Class=(\S+)/)?.[1] ?? '';
+            const objectName = begin[1].match(/Name="?([^"\s]+)"?/)?.[1] ?? `Object_${objects.length}`;
+            current = { className: className.split('.').pop()!, objectName, properties: {}, pins: [] };
+            return;
+        }
+        if (!current) return;
+        if (line.startsWith('End Object')) {
+            if (nestedDepth > 0) {
+                nestedDepth--;
+            } else {
+                objects.push(current);
+                current = null;
+            }
+            return;
+        }
+        if (nestedDepth > 0) return;
+        if (line.startsWith('CustomProperties Pin')) {
+            current.pins.push(parsePin(line.slice(line.indexOf('(') + 1, line.lastIndexOf(')'))));
+            return;
+        }
+        const equals = line.indexOf('=');
+        if (equals > 0 && !(line.slice(0, equals) in current.properties)) current.properties[line.slice(0, equals)] = line.slice(equals + 1);
+    });
+
+    return objects;
+};
+
+const STRUCT_TYPES = ['Vector', 'Rotator', 'Transform'];
+
+// The last path segment of a sub-category object: the struct, enum or class name.
+const subCategoryName = (subCategoryObject: string) => subCategoryObject.match(/\.(\w+)"?'?$/)?.[1];
+
+// Returns null for pins that have no counterpart in our graphs (multicast delegate properties).
+const fromUnrealPinType = (pin: Pick<T3DPin, 'category' | 'subCategoryObject'>): string | null => {
+    switch (pin.category) {
+        case 'exec': return 'Exec';
+        case 'bool': return 'Boolean';
+        case 'byte': return ENUM_TYPES[subCategoryName(pin.subCategoryObject) ?? ''] ?? 'Byte';
+        case 'int': return 'Integer';
+        case 'int64': return 'Integer64';
+        case 'real':
+        case 'float': return 'Float';
+        case 'double': return 'Double';
+        case 'string': return 'String';
+        case 'name': return 'Name';
+        case 'text': return 'Text';
+        case 'struct': return subCategoryName(pin.subCategoryObject) ?? 'Struct';
+        case 'object':
+        case 'interface': return 'Object';
+        case 'class': return 'Class';
+        case 'softobject': return 'SoftObject';
+        case 'softclass': return 'SoftClass';
+        case 'delegate': return DELEGATE_TYPE;
+        case 'mcdelegate': return null;
+        default: return 'Wildcard';
+    }
+};
+
+const objectClassOf = (pin: Pick<T3DPin, 'category' | 'subCategoryObject'>): string | undefined => {
+    if (!isReferenceType(fromUnrealPinType(pin) ?? '')) return undefined;
+    const name = subCategoryName(pin.subCategoryObject);
+    return name && name !== 'Object' ? toClassName(name) : undefined;
+};
+
+const EXEC_PIN_NAMES = new Set(['execute', 'then', 'exec']);
+
+const toGraphPinName = (pin: T3DPin): string => {
+    if (pin.category === 'exec' && EXEC_PIN_NAMES.has(pin.name.toLowerCase())) return '';
+    const sequenceOutput = pin.name.match(/^then_(\d+)$/);
+    if (sequenceOutput) return `Then ${sequenceOutput[1]}`;
+    if (pin.name === 'ReturnValue') return 'Return Value';
+    return pin.friendlyName ?? pin.name;
+};
+
+const memberNameOf = (reference?: string) => unquote(parseT3DStruct(unwrapParentheses(reference))['MemberName'] ?? '');
+
+const NATIVE_EVENT_NAMES = Object.fromEntries(Object.entries(NATIVE_EVENTS).map(([eventName, native]) => [native.memberName, eventName]));
+
+const LIBRARY_NODE_NAMES: { [functionName: string]: string } = {
+    ...Object.fromEntries(Object.entries(LIBRARY_FUNCTIONS).map(([nodeName, [, functionName]]) => [functionName, nodeName])),
+    // UE4 clipboards still use single precision math functions.
+    ...Object.fromEntries(Object.entries(MATH_OPERATIONS).map(([operator, operation]) => [`${operation}_FloatFloat`, `Float ${operator} Float`])),
+    'Conv_IntToFloat': 'To Float (Integer)',
+};
+
+interface NodeDescription {
+    name: string;
+    type: GraphNode['type'];
+    template?: NodeTemplate;
+    isSelfFunction?: boolean;
+    dispatcher?: { kind: DispatcherNodeKind; name: string };
+    value?: string; // Property of the node, e.g. the function a Create Event node names
+    pinNames?: { [t3dPinName: string]: string };
+}
+
+const DELEGATE_PIN_NAMES = { 'OutputDelegate': 'Output Delegate', 'Delegate': 'Event' };
+
+const describeObject = (object: T3DObject): NodeDescription | null => {
+    const { className, properties } = object;
+    switch (className) {
+        case 'K2Node_Event': {
+            const memberName = memberNameOf(properties['EventReference']);
+            const eventName = NATIVE_EVENT_NAMES[memberName] ?? memberName.replace(/^Receive/, '');
+            const pinNames = Object.fromEntries(Object.entries(NATIVE_EVENTS[eventName]?.pinNames ?? {}).map(([name, t3dName]) => [t3dName, name]));
+            return { name: `Event ${eventName}`, type: 'event', pinNames };
+        }
+        case 'K2Node_CustomEvent':
+            return { name: unquote(properties['CustomFunctionName']) || object.objectName, type: 'event', pinNames: DELEGATE_PIN_NAMES };
+        case 'K2Node_CallDelegate':
+        case 'K2Node_AddDelegate':
+        case 'K2Node_RemoveDelegate': {
+            const kind = (Object.keys(DISPATCHER_NODE_CLASSES) as DispatcherNodeKind[]).find(k => DISPATCHER_NODE_CLASSES[k] === className)!;
+            const name = memberNameOf(properties['DelegateReference']) || object.objectName;
+            return { name: dispatcherNodeName(kind, name), type: 'function', dispatcher: { kind, name }, pinNames: DELEGATE_PIN_NAMES };
+        }
+        case 'K2Node_CreateDelegate':
+            return { name: CREATE_EVENT_NODE_NAME, type: 'function', value: unquote(properties['SelectedFunctionName']), pinNames: DELEGATE_PIN_NAMES };
+        case 'K2Node_FunctionEntry':
+            return { name: memberNameOf(properties['FunctionReference']) || object.objectName, type: 'event' };
+        case 'K2Node_FunctionResult':
+            return { name: 'Return Node', type: 'function' };
+        case 'K2Node_IfThenElse':
+            return { name: 'Branch', type: 'flow_control', template: findNodeTemplate('Branch') };
+        case 'K2Node_ExecutionSequence':
+            return { name: 'Sequence', type: 'flow_control', template: findNodeTemplate('Sequence') };
+        case 'K2Node_MacroInstance': {
+            const macroName = properties['MacroGraphReference']?.match(/:(\w+)"/)?.[1] ?? 'Macro';
+            if (macroName === 'ForLoop') return { name: 'For Loop', type: 'flow_control', template: findNodeTemplate('For Loop') };
+            if (macroName === 'ForEachLoop') return { name: 'For Each Loop', type: 'flow_control', template: findNodeTemplate('For Each Loop') };
+            return { name: macroName, type: 'flow_control' };
+        }
+        case 'K2Node_VariableGet':
+        case 'K2Node_VariableSet': {
+            const isGet = className === 'K2Node_VariableGet';
+            return { name: `${isGet ? 'Get' : 'Set'} ${memberNameOf(properties['VariableReference'])}`, type: isGet ? 'variable_get' : 'variable_set' };
+        }
+        case 'K2Node_CallFunction':
+        case 'K2Node_CallArrayFunction': {
+            const reference = parseT3DStruct(unwrapParentheses(properties['FunctionReference']));
+            const functionName = unquote(reference['MemberName'] ?? '') || object.objectName;
+            const libraryNodeName = LIBRARY_NODE_NAMES[functionName];
+            if (libraryNodeName) return { name: libraryNodeName, type: 'function', template: findNodeTemplate(libraryNodeName) };
+            return { name: functionName, type: 'function', isSelfFunction: !reference['MemberParent'] || reference['bSelfContext'] === 'True' };
+        }
+        case 'K2Node_Knot':
+        case 'EdGraphNode_Comment':
+            return null;
+        default:
+            return { name: className.replace(/^K2Node_/, ''), type: 'function' };
+    }
+};
+
+// Empty strings, zeros and 'false' are engine defaults that don't need a literal node.
+const isMeaningfulDefault = (value: string) => value !== '' && value !== 'None' && value !== 'false' && !/^[-+0.,\s]+$/.test(value);
+
+const toLiteralValue = (value: string, dataType: string): string => {
+    if (dataType === 'Float') return String(parseFloat(value) || 0);
+    if (STRUCT_TYPES.includes(dataType)) {
+        return (value.match(/-?\d+(?:\.\d+)?(?:e-?\d+)?/gi) || []).slice(0, 3).map(number => String(parseFloat(number))).join(', ');
+    }
+    return value;
+};
+
+/**
+ * Rebuilds a graph from the T3D text UE5 puts on the clipboard when nodes are copied.
+ * Nodes we have templates for are mapped onto them; unknown classes become generic function
+ * nodes with their pins preserved. Variables, custom events and called member functions are
+ * inferred from the nodes so the result can be fed straight to the C++ generators.
+ */
+export const importGraphFromT3D = (text: string): T3DImportResult => {
+    const objects = parseT3DObjects(text);
+    if (objects.length === 0) {
+        throw new Error("Nenhum nó do Unreal foi encontrado no texto. Copie os nós no editor de Blueprint (Ctrl+C) e cole aqui.");
+    }
+
+    const warnings: string[] = [];
+    const nodes: GraphNode[] = [];
+    const variables: GraphVariable[] = [];
+    const customEvents: CustomEvent[] = [];
+    const customFunctions: CustomFunction[] = [];
+    const eventDispatchers: EventDispatcher[] = [];
+    const pinIds = new Map<string, string>(); // `${objectName} ${guid}` -> our pin id
+    const knots = new Map<string, { inPinId: string; outPinId: string }>();
+    const literalRequests: { node: GraphNode; pin: GraphPin; value: string }[] = [];
+
+    objects.forEach(object => {
+        const x = parseInt(object.properties['NodePosX'] ?? '0', 10) || 0;
+        const y = parseInt(object.properties['NodePosY'] ?? '0', 10) || 0;
+        const registerPin = (t3dPin: T3DPin, pinId: string) => pinIds.set(`${object.objectName} ${t3dPin.guid}`, pinId);
+
+        if (object.className === 'K2Node_Knot') {
+            const knot = { inPinId: generateId('pin'), outPinId: generateId('pin') };
+            object.pins.forEach(t3dPin => registerPin(t3dPin, t3dPin.direction === 'in' ? knot.inPinId : knot.outPinId));
+            knots.set(object.objectName, knot);
+            return;
+        }
+
+        const description = describeObject(object);
+        if (!description) return;
+        const isKnownNode = description.template || description.isSelfFunction || description.dispatcher || description.value !== undefined;
+        if (description.type === 'function' && !isKnownNode && object.className !== 'K2Node_FunctionResult') {
+            warnings.push(`O nó '${description.name}' (${object.className}) não tem equivalente no editor e foi importado como uma função genérica.`);
+        }
+
+        const node: GraphNode = description.template
+            ? { ...createNodeFromTemplate(description.template, x, y), name: description.name }
+            : { id: generateId('node'), name: description.name, type: description.type, x, y, pins: [] };
+        if (description.value !== undefined) node.properties = { value: description.value };
+        const unmatchedTemplatePins = [...node.pins];
+        const exportedNames = description.template ? mapNode(node) : null;
+
+        object.pins.forEach(t3dPin => {
+            const dataType = fromUnrealPinType(t3dPin);
+            if (dataType === null) return;
+            const isLinked = t3dPin.linkedTo.length > 0;
+
+            const templatePin = exportedNames && unmatchedTemplatePins.find(pin =>
+                pin.direction === t3dPin.direction && exportedNames.pinName(pin).toLowerCase() === t3dPin.name.toLowerCase());
+            let pin: GraphPin;
+            if (templatePin) {
+                unmatchedTemplatePins.splice(unmatchedTemplatePins.indexOf(templatePin), 1);
+                pin = templatePin;
+            } else {
+                // Hidden and self pins are implementation details of the engine node.
+                if (!isLinked && (t3dPin.isHidden || t3dPin.name === 'self' || (exportedNames && t3dPin.isAdvanced))) return;
+                if (object.className === 'K2Node_VariableSet' && t3dPin.name === 'Output_Get' && !isLinked) return;
+                const isVariableValue = description.type === 'variable_get' && t3dPin.category !== 'exec';
+                pin = {
+                    id: generateId('pin'),
+                    name: isVariableValue ? 'Value' : description.pinNames?.[t3dPin.name] ?? toGraphPinName(t3dPin),
+                    type: t3dPin.category === 'exec' ? 'exec' : 'data',
+                    direction: t3dPin.direction,
+                    dataType,
+                    ...(objectClassOf(t3dPin) && { objectClass: objectClassOf(t3dPin) }),
+                    ...(t3dPin.containerType && { containerType: t3dPin.containerType }),
+                    ...(t3dPin.valueType && { valueType: fromUnrealPinType(t3dPin.valueType) ?? 'Wildcard' }),
+                };
+                node.pins.push(pin);
+            }
+            registerPin(t3dPin, pin.id);
+            if (pin.type === 'data' && pin.direction === 'in' && !isLinked && isMeaningfulDefault(t3dPin.defaultValue)) {
+                literalRequests.push({ node, pin, value: toLiteralValue(t3dPin.defaultValue, pin.dataType) });
+            }
+        });
+        nodes.push(node);
+
+        const dataPins = node.pins.filter(pin => pin.type === 'data');
+        if (description.type === 'variable_get' || description.type === 'variable_set') {
+            const name = description.name.replace(/^(Get|Set)\s+/, '');
+            const valuePin = dataPins.find(pin => pin.direction === (description.type === 'variable_get' ? 'out' : 'in'));
+            if (valuePin && !variables.some(v => v.name === name)) {
+                const { dataType, objectClass, containerType, valueType } = valuePin;
+                variables.push({ name, type: dataType, ...(objectClass && { objectClass }), ...(containerType && { containerType }), ...(valueType && { valueType }) });
+            }
+        } else if (description.dispatcher) {
+            // Only Call nodes show the signature; Bind and Unbind nodes just name the dispatcher.
+            const { kind, name } = description.dispatcher;
+            const parameters = kind === 'call' ? dataPins.filter(pin => pin.direction === 'in').map(pin => ({ id: generateId('param'), name: pin.name, type: pin.dataType, objectClass: pin.objectClass })) : [];
+            const known = eventDispatchers.find(d => d.name === name);
+            if (!known) eventDispatchers.push({ id: generateId('dispatcher'), name, parameters });
+            else if (kind === 'call') known.parameters = parameters;
+        } else if (object.className === 'K2Node_CustomEvent' && !customEvents.some(e => e.name === node.name)) {
+            customEvents.push({
+                id: generateId('event'),
+                name: node.name,
+                parameters: dataPins.filter(pin => !isDelegatePin(pin)).map(pin => ({ id: generateId('param'), name: pin.name, type: pin.dataType, objectClass: pin.objectClass })),
+                ...fromFunctionFlags(Number(object.properties['FunctionFlags'] ?? 0)),
+            });
+        } else if (description.isSelfFunction && !customFunctions.some(f => f.name === node.name)) {
+            customFunctions.push({
+                id: generateId('func'),
+                name: node.name,
+                parameters: dataPins.filter(pin => pin.direction === 'in').map(pin => ({ id: generateId('param'), name: pin.name, type: pin.dataType, objectClass: pin.objectClass })),
+                outputs: dataPins.filter(pin => pin.direction === 'out').map(pin => ({ id: generateId('param'), name: pin.name, type: pin.dataType, objectClass: pin.objectClass })),
+            });
+        }
+    });
+
+    // Links are listed on both ends; keep each one once, oriented from output to input.
+    const pinDirections = new Map<string, GraphPin['direction']>();
+    nodes.forEach(node => node.pins.forEach(pin => pinDirections.set(pin.id, pin.direction)));
+    knots.forEach(knot => {
+        pinDirections.set(knot.inPinId, 'in');
+        pinDirections.set(knot.outPinId, 'out');
+    });
+    let connections: GraphConnection[] = [];
+    const seen = new Set<string>();
+    objects.forEach(object => object.pins.forEach(t3dPin => {
+        const ownPinId = pinIds.get(`${object.objectName} ${t3dPin.guid}`);
+        if (!ownPinId) return;
+        t3dPin.linkedTo.forEach(link => {
+            const otherPinId = pinIds.get(`${link.objectName} ${link.guid}`);
+            if (!otherPinId || pinDirections.get(ownPinId) === pinDirections.get(otherPinId)) return;
+            const [fromPinId, toPinId] = pinDirections.get(ownPinId) === 'out' ? [ownPinId, otherPinId] : [otherPinId, ownPinId];
+            const key = `${fromPinId}>${toPinId}`;
+            if (seen.has(key)) return;
+            seen.add(key);
+            connections.push({ fromPinId, toPinId });
+        });
+    }));
+
+    // Reroute (knot) nodes are collapsed into direct wires.
+    knots.forEach(knot => {
+        const sources = connections.filter(c => c.toPinId === knot.inPinId).map(c => c.fromPinId);
+        const targets = connections.filter(c => c.fromPinId === knot.outPinId).map(c => c.toPinId);
+        connections = [
+            ...connections.filter(c => c.toPinId !== knot.inPinId && c.fromPinId !== knot.outPinId),
+            ...sources.flatMap(fromPinId => targets.map(toPinId => ({ fromPinId, toPinId }))),
+        ];
+    });
+
+    const literalCounts = new Map<string, number>();
+    literalRequests.forEach(({ node, pin, value }) => {
+        const index = literalCounts.get(node.id) ?? 0;
+        literalCounts.set(node.id, index + 1);
+        const literal: GraphNode = {
+            id: generateId('node'),
+            name: value,
+            type: 'literal',
+            x: node.x - 220,
+            y: node.y + 120 + index * 70,
+            properties: { value },
+            pins: [{ id: generateId('pin'), name: 'Value', type: 'data', direction: 'out', dataType: pin.dataType }],
+        };
+        nodes.push(literal);
+        connections.push({ fromPinId: literal.pins[0].id, toPinId: pin.id });
+    });
+
+    // Array nodes come in as wildcard templates; their wires give them their element type again.
+    return { graphData: resolveWildcardPins({ nodes, connections, variables }), customEvents, customFunctions, eventDispatchers, warnings };
+};
@@ -0,0 +1,187 @@
+import type { FunctionGraph, GraphData, GraphNode, GraphPin, UserEnum, UserStruct } from './geminiService';
+import type { EditorDocument } from './editorHistory';
+import { generateId } from './nodeLibrary';
+import { parameterPinType, WILDCARD_TYPE } from './pinTypes';
+import { updateAllGraphs } from './functionGraph';
+import { DELEGATE_TYPE } from './eventDispatchers';
+import { PinTypeInfo, pinTypeCatalogue, pinTypeColor } from './typeCatalogue';
+
+// --- User Types ---
+
+export type UserTypes = Pick<GraphData, 'userStructs' | 'userEnums'>;
+
+export const findUserStruct = (types: UserTypes, dataType: string) => types.userStructs?.find(s => s.name === dataType);
+export const findUserEnum = (types: UserTypes, dataType: string) => types.userEnums?.find(e => e.name === dataType);
+
+const RESERVED_TYPE_NAMES = [...pinTypeCatalogue.map(type => type.dataType), 'Exec', WILDCARD_TYPE, DELEGATE_TYPE];
+
+/** True when `name` belongs to a built-in type or to another struct or enum of the Blueprint. */
+export const isTypeNameTaken = (types: UserTypes, name: string, exceptId?: string) =>
+    RESERVED_TYPE_NAMES.some(reserved => reserved.toLowerCase() === name.toLowerCase())
+    || [...(types.userStructs ?? []), ...(types.userEnums ?? [])].some(type => type.id !== exceptId && type.name.toLowerCase() === name.toLowerCase());
+
+/** Picker entries for the user types: structs go with the built-in structs and enums with the built-in enums. */
+export const userPinTypes = (types: UserTypes): PinTypeInfo[] => [
+    ...(types.userStructs ?? []).map(s => ({ dataType: s.name, label: s.name, group: 'Estruturas' as const, color: pinTypeColor(s.name) })),
+    ...(types.userEnums ?? []).map(e => ({ dataType: e.name, label: e.name, group: 'Enums' as const, color: pinTypeColor('Byte') })),
+];
+
+// Whether `struct` has a field of type `name`, directly or through the fields of another struct.
+const containsType = (types: UserTypes, struct: UserStruct, name: string, visited = new Set<string>()): boolean => {
+    if (visited.has(struct.id)) return false;
+    visited.add(struct.id);
+    return struct.fields.some(field => {
+        const inner = findUserStruct(types, field.type);
+        return field.type === name || (inner !== undefined && containsType(types, inner, name, visited));
+    });
+};
+
+/** The user types the fields of `struct` can have: every enum, and the structs that don't contain it, since C++ can't nest a struct in itself. */
+export const fieldTypesFor = (types: UserTypes, struct: Pick<UserStruct, 'id' | 'name'> | null): UserTypes => ({
+    userStructs: (types.userStructs ?? []).filter(s => !struct || (s.id !== struct.id && !containsType(types, s, struct.name))),
+    userEnums: types.userEnums,
+});
+
+// --- Make, Break and Switch Nodes ---
+
+export type UserTypeNodeKind = 'make' | 'break' | 'switch';
+
+export type UserTypeNode = { kind: 'make' | 'break'; struct: UserStruct } | { kind: 'switch'; userEnum: UserEnum };
+
+const NODE_PREFIXES: { [kind in UserTypeNodeKind]: string } = {
+    make: 'Make ',
+    break: 'Break ',
+    switch: 'Switch on ',
+};
+
+export const userTypeNodeName = (kind: UserTypeNodeKind, typeName: string) => `${NODE_PREFIXES[kind]}${typeName}`;
+
+// Switch nodes read the enum value from this pin and leave through the exec output named after its entry.
+export const SWITCH_SELECTION_PIN = 'Selection';
+
+export const userTypeOf = (match: UserTypeNode): UserStruct | UserEnum => match.kind === 'switch' ? match.userEnum : match.struct;
+
+/** Make nodes take the fields and output the struct, Break nodes the other way round; both are pure. */
+export const userTypeNodePins = (match: UserTypeNode): Omit<GraphPin, 'id'>[] => {
+    if (match.kind === 'switch') return [
+        { name: '', type: 'exec', direction: 'in', dataType: 'Exec' },
+        { name: SWITCH_SELECTION_PIN, type: 'data', direction: 'in', dataType: match.userEnum.name },
+        ...match.userEnum.entries.map(entry => ({ name: entry, type: 'exec' as const, direction: 'out' as const, dataType: 'Exec' })),
+    ];
+    const isMake = match.kind === 'make';
+    const fields = match.struct.fields.map(field => ({ name: field.name, type: 'data' as const, direction: (isMake ? 'in' : 'out') as GraphPin['direction'], ...parameterPinType(field) }));
+    const value: Omit<GraphPin, 'id'> = { name: match.struct.name, type: 'data', direction: isMake ? 'out' : 'in', dataType: match.struct.name };
+    return isMake ? [...fields, value] : [value, ...fields];
+};
+
+export const createUserTypeNode = (match: UserTypeNode, x: number, y: number): GraphNode => ({
+    id: generateId('node'),
+    name: userTypeNodeName(match.kind, userTypeOf(match).name),
+    type: match.kind === 'switch' ? 'flow_control' : 'function',
+    x,
+    y,
+    pins: userTypeNodePins(match).map(pin => ({ ...pin, id: generateId('pin') })),
+});
+
+/** The struct a Make or Break node builds or splits, or the enum a Switch node selects on. Nodes find their type by name. */
+export const findUserTypeNode = (node: GraphNode, types: UserTypes): UserTypeNode | null => {
+    if (node.type === 'function') {
+        for (const struct of types.userStructs ?? []) {
+            if (node.name === userTypeNodeName('make', struct.name)) return { kind: 'make', struct };
+            if (node.name === userTypeNodeName('break', struct.name)) return { kind: 'break', struct };
+        }
+    }
+    const userEnum = node.type === 'flow_control' ? types.userEnums?.find(e => node.name === userTypeNodeName('switch', e.name)) : undefined;
+    return userEnum ? { kind: 'switch', userEnum } : null;
+};
+
+/** The type in a Make, Break or Switch node's name, whether or not it exists. Library nodes such as 'Make Vector' also match. */
+export const userTypeNameOf = (node: GraphNode): string | undefined => {
+    const prefix = Object.values(NODE_PREFIXES).find(p => node.name.startsWith(p));
+    const name = prefix && node.name.slice(prefix.length);
+    // Only nodes with a pin of the named type count, so calls that merely start with 'Make ' don't.
+    return name && node.pins.some(pin => pin.type === 'data' && pin.dataType === name) ? name : undefined;
+};
+
+/**
+ * Brings a Make, Break or Switch node in line with its type's name, fields or entries, keeping pins that
+ * still match. The struct pin keeps its wires across a rename once `renameUserType` has retyped it.
+ */
+export const syncUserTypeNode = (node: GraphNode, match: UserTypeNode): GraphNode => ({
+    ...node,
+    name: userTypeNodeName(match.kind, userTypeOf(match).name),
+    pins: userTypeNodePins(match).map(pin => {
+        const isStructPin = match.kind !== 'switch' && pin.dataType === match.struct.name;
+        const existing = node.pins.find(p => p.type === pin.type && p.direction === pin.direction && (p.name === pin.name || (isStructPin && p.dataType === pin.dataType)));
+        return { ...pin, id: existing?.id ?? generateId('pin') };
+    }),
+});
+
+// --- Whole Document ---
+
+// The same node with the type as `types` has it now, found by id; null when the type is gone.
+const updatedMatch = (match: UserTypeNode, types: UserTypes): UserTypeNode | null => {
+    if (match.kind === 'switch') {
+        const userEnum = types.userEnums?.find(e => e.id === match.userEnum.id);
+        return userEnum ? { kind: 'switch', userEnum } : null;
+    }
+    const struct = types.userStructs?.find(s => s.id === match.struct.id);
+    return struct ? { kind: match.kind, struct } : null;
+};
+
+/** Syncs every Make, Break and Switch node of the types in `previous` with their edited version in `document`, in all graphs. */
+export const syncUserTypeNodes = (document: EditorDocument, previous: UserTypes): EditorDocument => {
+    const { graphData, customFunctions } = updateAllGraphs(document.graphData, document.customFunctions, graph => ({
+        ...graph,
+        nodes: graph.nodes.map(node => {
+            const match = findUserTypeNode(node, previous);
+            const updated = match && updatedMatch(match, document);
+            return updated ? syncUserTypeNode(node, updated) : node;
+        }),
+    }));
+    return { ...document, graphData, customFunctions };
+};
+
+type Typed = { type: string; valueType?: string };
+
+const usesType = (typed: Typed, name: string) => typed.type === name || typed.valueType === name;
+
+/** Points every variable, parameter, field and pin of type `from` at `to`. Make, Break and Switch nodes still need `syncUserTypeNode`. */
+export const renameUserType = (document: EditorDocument, from: string, to: string): EditorDocument => {
+    const retype = <T extends Typed>(typed: T): T => usesType(typed, from)
+        ? { ...typed, ...(typed.type === from && { type: to }), ...(typed.valueType === from && { valueType: to }) }
+        : typed;
+    const retypePins = (graph: FunctionGraph): FunctionGraph => ({
+        ...graph,
+        nodes: graph.nodes.map(node => node.pins.some(pin => pin.dataType === from || pin.valueType === from) ? {
+            ...node,
+            pins: node.pins.map(pin => ({ ...pin, ...(pin.dataType === from && { dataType: to }), ...(pin.valueType === from && { valueType: to }) })),
+        } : node),
+    });
+    const { graphData, customFunctions } = updateAllGraphs(document.graphData, document.customFunctions, retypePins);
+    return {
+        graphData: { ...graphData, variables: graphData.variables.map(retype) },
+        customEvents: document.customEvents.map(e => e.parameters ? { ...e, parameters: e.parameters.map(retype) } : e),
+        customFunctions: customFunctions.map(f => ({
+            ...f,
+            parameters: f.parameters.map(retype),
+            outputs: f.outputs.map(retype),
+            ...(f.localVariables && { localVariables: f.localVariables.map(retype) }),
+        })),
+        eventDispatchers: document.eventDispatchers.map(d => ({ ...d, parameters: d.parameters.map(retype) })),
+        userStructs: document.userStructs.map(s => ({ ...s, fields: s.fields.map(retype) })),
+        userEnums: document.userEnums,
+    };
+};
+
+/** What has the type `name`, e.g. 'Health' or 'Fire.Damage'. Types in use can't be deleted. */
+export const findUserTypeUsages = (document: EditorDocument, name: string): string[] => {
+    const members = (owner: string, typed: (Typed & { name: string })[] = []) => typed.filter(t => usesType(t, name)).map(t => `${owner}.${t.name}`);
+    return [
+        ...document.graphData.variables.filter(v => usesType(v, name)).map(v => v.name),
+        ...document.customFunctions.flatMap(f => members(f.name, [...f.parameters, ...f.outputs, ...(f.localVariables ?? [])])),
+        ...document.customEvents.flatMap(e => members(e.name, e.parameters)),
+        ...document.eventDispatchers.flatMap(d => members(d.name, d.parameters)),
+        ...document.userStructs.flatMap(s => members(s.name, s.fields)),
+    ];
+};
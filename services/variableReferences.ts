@@ -0,0 +1,105 @@
+import type { CustomFunction, FunctionGraph, GraphData, GraphNode, GraphVariable } from './geminiService';
+import { arePinsCompatible } from './graphValidation';
+import { generateId } from './nodeLibrary';
+import { formatPinType, resolveWildcardPins, variablePinType } from './pinTypes';
+
+export const isVariableNode = (node: GraphNode) => node.type === 'variable_get' || node.type === 'variable_set';
+
+export const variableNameOf = (node: GraphNode) => node.name.replace(/^(Get|Set) /, '');
+
+/**
+ * The variable a Get/Set node refers to. Nodes are linked by `variableId`; graphs that predate ids
+ * (older projects, AI responses) fall back to the `Get X`/`Set X` naming convention.
+ */
+export const findNodeVariable = (node: GraphNode, variables: GraphVariable[]): GraphVariable | undefined => {
+    if (!isVariableNode(node)) return undefined;
+    return node.variableId
+        ? variables.find(variable => variable.id === node.variableId)
+        : variables.find(variable => variable.name === variableNameOf(node));
+};
+
+/** Whether two entries are the same variable: by id, or by name for variables that predate ids. */
+export const isSameVariable = (a: GraphVariable, b: GraphVariable) => a.id || b.id ? a.id === b.id : a.name === b.name;
+
+// --- Linking ---
+
+const linkNodes = <T extends FunctionGraph>(graph: T, variables: GraphVariable[]): T => ({
+    ...graph,
+    nodes: graph.nodes.map(node => {
+        if (!isVariableNode(node) || node.variableId) return node;
+        const variable = findNodeVariable(node, variables);
+        return variable ? { ...node, variableId: variable.id } : node;
+    }),
+});
+
+const withIds = (variables: GraphVariable[]) => variables.map(variable => variable.id ? variable : { ...variable, id: generateId('var') });
+
+/** Gives every variable an id and links the Get/Set nodes of each graph to the variables in its scope. */
+export const linkVariableReferences = (graphData: GraphData, customFunctions: CustomFunction[]): { graphData: GraphData; customFunctions: CustomFunction[] } => {
+    const members = withIds(graphData.variables);
+    return {
+        graphData: linkNodes({ ...graphData, variables: members }, members),
+        customFunctions: customFunctions.map(func => {
+            const localVariables = withIds(func.localVariables ?? []);
+            return {
+                ...func,
+                localVariables,
+                graph: func.graph && linkNodes(func.graph, [...members, ...localVariables]),
+            };
+        }),
+    };
+};
+
+// --- Rename & Retype ---
+
+/**
+ * Brings the nodes of `variable` in line with its current name and type. Wires that no longer
+ * fit the new type are removed and described in `warnings`.
+ */
+export const updateVariableNodes = <T extends FunctionGraph>(graph: T, variable: GraphVariable): { graph: T; warnings: string[] } => {
+    const warnings: string[] = [];
+    const nodes = graph.nodes.map(node => {
+        if (!isVariableNode(node) || node.variableId !== variable.id) return node;
+        const oldName = variableNameOf(node);
+        return {
+            ...node,
+            name: `${node.type === 'variable_get' ? 'Get' : 'Set'} ${variable.name}`,
+            // Rebuilt field by field so a variable that stops being a container drops the container fields.
+            pins: node.pins.map(pin => pin.type !== 'data' ? pin : {
+                id: pin.id,
+                type: pin.type,
+                direction: pin.direction,
+                name: node.type === 'variable_set' && pin.direction === 'in' && pin.name === oldName ? variable.name : pin.name,
+                ...variablePinType(variable),
+            }),
+        };
+    });
+
+    // Wildcard pins wired to the variable take its new type before the wires are checked.
+    const retyped = resolveWildcardPins({ ...graph, nodes });
+    const owners = new Map(retyped.nodes.flatMap(node => node.pins.map(pin => [pin.id, { node, pin }] as const)));
+    const connections = graph.connections.filter(connection => {
+        const from = owners.get(connection.fromPinId);
+        const to = owners.get(connection.toPinId);
+        if (!from || !to || arePinsCompatible(from.pin, to.pin, from.node.id, to.node.id)) return true;
+        warnings.push(`A conexão de '${from.node.name}' para '${to.node.name}' foi removida: ${formatPinType(from.pin)} não é compatível com ${formatPinType(to.pin)}.`);
+        return false;
+    });
+    return { graph: resolveWildcardPins({ ...retyped, connections }), warnings };
+};
+
+// --- Find References ---
+
+export interface VariableReference {
+    graphId: string | null; // Custom function id, or null for the Event Graph
+    graphName: string;
+    node: GraphNode;
+}
+
+export const findVariableReferences = (graphData: GraphData, customFunctions: CustomFunction[], variableId: string): VariableReference[] => [
+    ...graphData.nodes.filter(node => isVariableNode(node) && node.variableId === variableId)
+        .map(node => ({ graphId: null, graphName: 'Event Graph', node })),
+    ...customFunctions.flatMap(func => (func.graph?.nodes ?? [])
+        .filter(node => isVariableNode(node) && node.variableId === variableId)
+        .map(node => ({ graphId: func.id, graphName: func.name, node }))),
+];